@@ -1 +1,9 @@
-import { Stack } from 'expo-router';import React from 'react';export default function AuthLayout() {  return (    <Stack screenOptions={{ headerShown: false }}>      <Stack.Screen name="login" />    </Stack>  );}
\ No newline at end of file
+import { Stack } from 'expo-router';
+import React from 'react';
+export default function AuthLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="login" />
+    </Stack>
+  );
+}
@@ -1 +1,125 @@
-import { Stack } from 'expo-router';import React from 'react';export default function CompanyLayout() {  return (    <Stack>      <Stack.Screen         name="index"         options={{           title: 'Gestión de Empresas',          headerStyle: {            backgroundColor: '#25B4BD',          },          headerTintColor: '#fff',          headerTitleStyle: {            fontWeight: 'bold',          },        }}       />      <Stack.Screen         name="requests"         options={{           title: 'Solicitudes de Acceso',          headerStyle: {            backgroundColor: '#25B4BD',          },          headerTintColor: '#fff',          headerTitleStyle: {            fontWeight: 'bold',          },        }}       />      <Stack.Screen         name="members"         options={{           title: 'Miembros de la Empresa',          headerStyle: {            backgroundColor: '#25B4BD',          },          headerTintColor: '#fff',          headerTitleStyle: {            fontWeight: 'bold',          },        }}       />    </Stack>  );}
\ No newline at end of file
+import { Stack } from 'expo-router';
+import React from 'react';
+export default function CompanyLayout() {
+  return (
+    <Stack>
+      <Stack.Screen 
+        name="index" 
+        options={{ 
+          title: 'Gestión de Empresas',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="requests" 
+        options={{ 
+          title: 'Solicitudes de Acceso',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="members" 
+        options={{ 
+          title: 'Miembros de la Empresa',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="audit" 
+        options={{ 
+          title: 'Auditoría',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="trash" 
+        options={{ 
+          title: 'Papelera',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="backup" 
+        options={{ 
+          title: 'Respaldo',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="reconciliation" 
+        options={{ 
+          title: 'Conciliación',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="suppliers" 
+        options={{ 
+          title: 'Proveedores',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+      <Stack.Screen 
+        name="price-lists" 
+        options={{ 
+          title: 'Listas de precios',
+          headerStyle: {
+            backgroundColor: '#25B4BD',
+          },
+          headerTintColor: '#fff',
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }} 
+      />
+    </Stack>
+  );
+}
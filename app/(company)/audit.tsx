@@ -0,0 +1,336 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import { Ionicons } from '@expo/vector-icons';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { AuditEntity, AuditLogEntry, AuditOperation, CompanyMember } from '@/schemas/types';
+import {
+  AUDIT_ENTITY_LABELS,
+  AUDIT_OPERATION_LABELS,
+  AUDIT_REASON_LABELS,
+  AuditLogFilters,
+  filterAuditLog,
+  formatAuditValue
+} from '@/schemas/audit';
+import { formatDateTime } from '@/schemas/business-logic';
+import { AuditService } from '@/services/AuditService';
+import { companyService } from '@/services/CompanyService';
+const PAGE_SIZE = 100;
+const OPERATION_COLORS: Record<AuditOperation, string> = {
+  crear: '#279D2E',
+  editar: '#25B4BD',
+  borrar: '#dc3545',
+};
+export default function AuditLogScreen() {
+  const { empresaId } = useLocalSearchParams<{ empresaId: string }>();
+  const { role, can } = useCompanyRole(empresaId);
+  const isOwner = can('gestionarMiembros');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [members, setMembers] = useState<CompanyMember[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set());
+  const loadFirstPage = useCallback(async () => {
+    if (!empresaId) return;
+    const page = await AuditService.queryLog(empresaId, PAGE_SIZE);
+    setEntries(page.entries);
+    setCursor(page.cursor);
+    setHasMore(page.hasMore);
+  }, [empresaId]);
+  useEffect(() => {
+    if (!empresaId || !isOwner) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    Promise.all([
+      loadFirstPage(),
+      companyService.getCompanyMembers(empresaId).then(response => {
+        if (response.success && response.data) {
+          setMembers(response.data);
+        }
+      })
+    ]).finally(() => setLoading(false));
+  }, [empresaId, isOwner, loadFirstPage]);
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadFirstPage();
+    setRefreshing(false);
+  };
+  const handleLoadMore = async () => {
+    if (!empresaId || !hasMore || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await AuditService.queryLog(empresaId, PAGE_SIZE, cursor);
+      setEntries(prev => [...prev, ...page.entries]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+  const toggleFilter = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: prev[key] === value ? undefined : value }));
+  };
+  const toggleExpanded = (entryId: string) => {
+    setExpandedEntries(prev => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+  const visibleEntries = useMemo(() => filterAuditLog(entries, filters), [entries, filters]);
+  const getActorLabel = (entry: AuditLogEntry) =>
+    entry.email || members.find(member => member.userId === entry.userId)?.email || entry.userId;
+  const renderChip = (label: string, active: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.filterChip, active && styles.activeFilterChip]}
+      onPress={onPress}
+    >
+      <Text style={[styles.filterChipText, active && styles.activeFilterChipText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+  const renderFilters = () => (
+    <View style={styles.filtersContainer}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+        {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(entidad =>
+          renderChip(AUDIT_ENTITY_LABELS[entidad], filters.entidad === entidad, () => toggleFilter('entidad', entidad), entidad)
+        )}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+        {(Object.keys(AUDIT_OPERATION_LABELS) as AuditOperation[]).map(operacion =>
+          renderChip(AUDIT_OPERATION_LABELS[operacion], filters.operacion === operacion, () => toggleFilter('operacion', operacion), operacion)
+        )}
+      </ScrollView>
+      {members.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {members.map(member =>
+            renderChip(member.email, filters.userId === member.userId, () => toggleFilter('userId', member.userId), member.userId)
+          )}
+        </ScrollView>
+      )}
+      <Text style={styles.resultCount}>
+        {visibleEntries.length} de {entries.length} registros cargados
+      </Text>
+    </View>
+  );
+  const renderEntry = ({ item }: { item: AuditLogEntry }) => {
+    const fields = Object.keys(item.cambios ?? {});
+    const expanded = expandedEntries.has(item.id);
+    return (
+      <TouchableOpacity style={styles.entryCard} onPress={() => toggleExpanded(item.id)} activeOpacity={0.8}>
+        <View style={styles.entryHeader}>
+          <Text style={[styles.operationBadge, { backgroundColor: OPERATION_COLORS[item.operacion] }]}>
+            {AUDIT_OPERATION_LABELS[item.operacion]}
+          </Text>
+          <Text style={styles.entryEntity}>
+            {AUDIT_ENTITY_LABELS[item.entidad]} · {item.entidadId}
+          </Text>
+        </View>
+        <Text style={styles.entryMeta}>
+          {getActorLabel(item)} · {item.timestamp ? formatDateTime(item.timestamp) : 'Sin fecha'}
+          {item.motivo ? ` · ${AUDIT_REASON_LABELS[item.motivo]}` : ''}
+        </Text>
+        <Text style={styles.entrySummary}>
+          {fields.length} campo{fields.length !== 1 ? 's' : ''}: {fields.slice(0, 4).join(', ')}{fields.length > 4 ? '…' : ''}
+        </Text>
+        {expanded && fields.map(field => (
+          <View key={field} style={styles.changeRow}>
+            <Text style={styles.changeField}>{field}</Text>
+            <Text style={styles.changeValues}>
+              {formatAuditValue(item.cambios[field].antes)} → {formatAuditValue(item.cambios[field].despues)}
+            </Text>
+          </View>
+        ))}
+      </TouchableOpacity>
+    );
+  };
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#25B4BD" />
+        <Text style={styles.loadingText}>Cargando auditoría...</Text>
+      </View>
+    );
+  }
+  if (!isOwner) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+        <Text style={styles.loadingText}>
+          {role ? 'Solo los propietarios pueden ver la auditoría' : 'No perteneces a esta empresa'}
+        </Text>
+      </View>
+    );
+  }
+  return (
+    <FlatList
+      style={styles.container}
+      data={visibleEntries}
+      keyExtractor={(item) => item.id}
+      renderItem={renderEntry}
+      ListHeaderComponent={renderFilters()}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      ListEmptyComponent={
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No hay registros para estos filtros</Text>
+        </View>
+      }
+      ListFooterComponent={hasMore ? (
+        <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMore} disabled={loadingMore}>
+          {loadingMore ? (
+            <ActivityIndicator size="small" color="#25B4BD" />
+          ) : (
+            <Text style={styles.loadMoreText}>Cargar más</Text>
+          )}
+        </TouchableOpacity>
+      ) : null}
+      contentContainerStyle={styles.listContainer}
+    />
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+    padding: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  filtersContainer: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  filterRow: {
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    backgroundColor: '#fff',
+  },
+  activeFilterChip: {
+    backgroundColor: '#25B4BD',
+  },
+  filterChipText: {
+    fontSize: 12,
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  activeFilterChipText: {
+    color: '#fff',
+  },
+  resultCount: {
+    fontSize: 13,
+    color: '#666',
+  },
+  entryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  operationBadge: {
+    fontSize: 11,
+    color: '#fff',
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  entryEntity: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  entrySummary: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  changeRow: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  changeField: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#555',
+  },
+  changeValues: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    color: '#25B4BD',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,371 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useAuth } from '@/context/AuthProvider';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { CompanyBackup, BackupValidation, parseBackup, validateBackup } from '@/schemas/backup';
+import { formatDateTime } from '@/schemas/business-logic';
+import { BackupService } from '@/services/BackupService';
+import { ImportService } from '@/services/ImportService';
+const MAX_VISIBLE_ISSUES = 20;
+const COLLECTION_LABELS: Record<string, string> = {
+  empresa: 'Empresa',
+  clientes: 'Cliente',
+  productos: 'Producto',
+  eventos: 'Transacción',
+};
+export default function BackupScreen() {
+  const { empresaId } = useLocalSearchParams<{ empresaId: string }>();
+  const { empresas } = useAuth();
+  const { role, can } = useCompanyRole(empresaId);
+  const isOwner = can('respaldarEmpresa');
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [progress, setProgress] = useState({ procesados: 0, total: 0 });
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<CompanyBackup | null>(null);
+  const [targetEmpresaId, setTargetEmpresaId] = useState<string | undefined>(empresaId);
+  const validation = useMemo<BackupValidation | null>(() => (backup ? validateBackup(backup) : null), [backup]);
+  const ownedCompanies = useMemo(
+    () => empresas.filter(membership => membership.role === 'owner'),
+    [empresas]
+  );
+  const getCompanyName = (id?: string) =>
+    ownedCompanies.find(membership => membership.empresaId === id)?.companyName || 'Empresa';
+  const handleExport = async () => {
+    if (!empresaId) return;
+    setExporting(true);
+    try {
+      const result = await BackupService.exportBackup(empresaId);
+      if (!result.success) {
+        Alert.alert('Error', result.errors?.join('\n') || 'No se pudo crear el respaldo');
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+  const handlePickFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || picked.assets.length === 0) return;
+      const asset = picked.assets[0];
+      const parsed = parseBackup(await ImportService.readTextFile(asset.uri));
+      if (!parsed.backup) {
+        Alert.alert('Archivo no válido', parsed.errors.join('\n'));
+        return;
+      }
+      setFileName(asset.name);
+      setBackup(parsed.backup);
+    } catch (error) {
+      console.error('Error reading backup file:', error);
+      Alert.alert('Error', 'No se pudo leer el archivo');
+    }
+  };
+  const runRestore = async () => {
+    if (!backup || !targetEmpresaId) return;
+    setRestoring(true);
+    setProgress({ procesados: 0, total: 0 });
+    try {
+      const result = await BackupService.restoreBackup(backup, targetEmpresaId, (procesados, total) =>
+        setProgress({ procesados, total })
+      );
+      if (!result.success) {
+        Alert.alert('Error', result.errors?.join('\n') || 'No se pudo restaurar el respaldo');
+        return;
+      }
+      Alert.alert(
+        'Respaldo restaurado',
+        `Se restauraron ${result.clientes} clientes, ${result.productos} productos y ${result.eventos} transacciones en ${getCompanyName(targetEmpresaId)}.` +
+          (result.omitidos ? `\n${result.omitidos} registros se omitieron por tener datos inválidos.` : '')
+      );
+      setBackup(null);
+      setFileName('');
+    } finally {
+      setRestoring(false);
+    }
+  };
+  const handleRestore = () => {
+    if (!backup || !validation || !targetEmpresaId) return;
+    const sameCompany = targetEmpresaId === backup.empresaId;
+    Alert.alert(
+      'Restaurar respaldo',
+      (sameCompany
+        ? 'Los clientes, productos y transacciones del respaldo reemplazarán a los actuales con el mismo identificador. Lo creado después del respaldo se mantiene.'
+        : `Los datos del respaldo se copiarán a ${getCompanyName(targetEmpresaId)}.`) +
+        ' Los miembros no se restauran.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Restaurar', style: 'destructive', onPress: runRestore }
+      ]
+    );
+  };
+  if (!isOwner) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+        <Text style={styles.loadingText}>
+          {role ? 'Solo los propietarios pueden crear y restaurar respaldos' : 'No perteneces a esta empresa'}
+        </Text>
+      </View>
+    );
+  }
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Crear respaldo</Text>
+        <Text style={styles.cardText}>
+          Descarga un archivo con la empresa, sus miembros, clientes, productos y transacciones, incluidas las de la papelera.
+        </Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, exporting && styles.disabledButton]}
+          onPress={handleExport}
+          disabled={exporting}
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="download-outline" size={18} color="#fff" />
+              <Text style={styles.primaryButtonText}>Descargar respaldo</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+      {}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Restaurar respaldo</Text>
+        <Text style={styles.cardText}>
+          Restaura un archivo de respaldo en esta empresa o cópialo a otra empresa de la que seas propietario.
+        </Text>
+        <TouchableOpacity
+          style={[styles.secondaryButton, restoring && styles.disabledButton]}
+          onPress={handlePickFile}
+          disabled={restoring}
+        >
+          <Ionicons name="document-outline" size={18} color="#25B4BD" />
+          <Text style={styles.secondaryButtonText}>{fileName || 'Elegir archivo'}</Text>
+        </TouchableOpacity>
+        {backup && validation && (
+          <>
+            {}
+            <View style={styles.summary}>
+              <Text style={styles.summaryTitle}>{backup.empresa.nombre}</Text>
+              <Text style={styles.summaryText}>Creado el {formatDateTime(backup.exportado)}</Text>
+              <Text style={styles.summaryText}>
+                {validation.clientes.length} clientes · {validation.productos.length} productos · {validation.eventos.length} transacciones
+              </Text>
+              <Text style={styles.summaryText}>{backup.miembros.length} miembros (no se restauran)</Text>
+            </View>
+            {}
+            {validation.issues.length > 0 && (
+              <View style={styles.issues}>
+                <Text style={styles.issuesTitle}>
+                  {validation.issues.length} registros con problemas no se restaurarán
+                </Text>
+                {validation.issues.slice(0, MAX_VISIBLE_ISSUES).map(issue => (
+                  <Text key={`${issue.coleccion}-${issue.id}`} style={styles.issueText}>
+                    {COLLECTION_LABELS[issue.coleccion]} {issue.id}: {issue.errors.join(', ')}
+                  </Text>
+                ))}
+                {validation.issues.length > MAX_VISIBLE_ISSUES && (
+                  <Text style={styles.issueText}>y {validation.issues.length - MAX_VISIBLE_ISSUES} más...</Text>
+                )}
+              </View>
+            )}
+            {}
+            <Text style={styles.targetLabel}>Restaurar en</Text>
+            <View style={styles.targetOptions}>
+              {ownedCompanies.map(membership => {
+                const selected = membership.empresaId === targetEmpresaId;
+                return (
+                  <TouchableOpacity
+                    key={membership.empresaId}
+                    style={[styles.targetChip, selected && styles.activeTargetChip]}
+                    onPress={() => setTargetEmpresaId(membership.empresaId)}
+                    disabled={restoring}
+                  >
+                    <Text style={[styles.targetChipText, selected && styles.activeTargetChipText]}>
+                      {membership.companyName || membership.empresaId}
+                      {membership.empresaId === backup.empresaId ? ' (original)' : ''}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={[styles.primaryButton, (restoring || !targetEmpresaId) && styles.disabledButton]}
+              onPress={handleRestore}
+              disabled={restoring || !targetEmpresaId}
+            >
+              {restoring ? (
+                <>
+                  <ActivityIndicator size="small" color="#fff" />
+                  <Text style={styles.primaryButtonText}>
+                    {progress.total > 0 ? `${progress.procesados} de ${progress.total}` : 'Restaurando...'}
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <Ionicons name="cloud-upload-outline" size={18} color="#fff" />
+                  <Text style={styles.primaryButtonText}>Restaurar</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+    padding: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  cardText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#25B4BD',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  secondaryButtonText: {
+    color: '#25B4BD',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  summary: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#e8f7f8',
+  },
+  summaryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#555',
+    marginTop: 2,
+  },
+  issues: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fff3e0',
+  },
+  issuesTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF9800',
+    marginBottom: 4,
+  },
+  issueText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  targetLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+  },
+  targetOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  targetChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    backgroundColor: '#fff',
+  },
+  activeTargetChip: {
+    backgroundColor: '#25B4BD',
+  },
+  targetChipText: {
+    fontSize: 12,
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  activeTargetChipText: {
+    color: '#fff',
+  },
+});
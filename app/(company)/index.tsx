@@ -20,7 +20,8 @@ import {
   createJoinRequest,
   getCompany,
   getPendingJoinRequests,
-  toggleCompanyJoinRequests
+  toggleCompanyJoinRequests,
+  updateCompany
 } from '@/schemas/firestore-utils';
 import {
   collection,
@@ -29,7 +30,9 @@ import {
   orderBy
 } from 'firebase/firestore';
 import { db } from '@/firebaseConfig';
-import { Company, CreateCompanyData } from '@/schemas/types';
+import { Company, CreateCompanyData, Moneda, MONEDAS, DEFAULT_MONEDA } from '@/schemas/types';
+import { ROLE_LABELS, hasPermission } from '@/schemas/permissions';
+import { ReconciliationService } from '@/services/ReconciliationService';
 export default function CompanyScreen() {
   const router = useRouter();
   const { user, empresas, setEmpresaId, refreshEmpresas, signOutApp } = useAuth();
@@ -43,13 +46,14 @@ export default function CompanyScreen() {
   const [nombreError, setNombreError] = useState('');
   const [pendingRequestsCount, setPendingRequestsCount] = useState<{ [key: string]: number }>({});
   const [userCompaniesDetails, setUserCompaniesDetails] = useState<{ [key: string]: Company }>({});
+  const [debtDriftCount, setDebtDriftCount] = useState<{ [key: string]: number }>({});
   const loadPendingRequestsCounts = useCallback(async () => {
     if (!user) return;
     const counts: { [key: string]: number } = {};
     const companiesDetails: { [key: string]: Company } = {};
-    const ownedCompanies = empresas.filter(membership => membership.role === 'owner');
+    const managedCompanies = empresas.filter(membership => hasPermission(membership.role, 'gestionarSolicitudes'));
     await Promise.all(
-      ownedCompanies.map(async (membership) => {
+      managedCompanies.map(async (membership) => {
         try {
           const requests = await getPendingJoinRequests(membership.empresaId);
           counts[membership.empresaId] = requests.length;
@@ -84,6 +88,16 @@ export default function CompanyScreen() {
       loadPendingRequestsCounts();
     }
   }, [empresas, loadPendingRequestsCounts]);
+  useEffect(() => {
+    const reconciledCompanies = empresas.filter(membership => hasPermission(membership.role, 'gestionarClientes'));
+    Promise.all(reconciledCompanies.map(async membership => {
+      const report = await ReconciliationService.getLastReport(membership.empresaId);
+      return [membership.empresaId, report?.discrepancias.length ?? 0] as const;
+    })).then(entries => setDebtDriftCount(Object.fromEntries(entries)));
+    return ReconciliationService.subscribe(report => {
+      setDebtDriftCount(prev => ({ ...prev, [report.empresaId]: report.discrepancias.length }));
+    });
+  }, [empresas]);
   const fetchAllCompanies = async () => {
     setLoadingEmpresas(true);
     try {
@@ -263,6 +277,59 @@ export default function CompanyScreen() {
       params: { empresaId }
     });
   };
+  const handleViewTrash = (empresaId: string) => {
+    router.push({
+      pathname: '/(company)/trash',
+      params: { empresaId }
+    });
+  };
+  const handleViewAudit = (empresaId: string) => {
+    router.push({
+      pathname: '/(company)/audit',
+      params: { empresaId }
+    });
+  };
+  const handleViewReconciliation = (empresaId: string) => {
+    router.push({
+      pathname: '/(company)/reconciliation',
+      params: { empresaId }
+    });
+  };
+  const handleViewSuppliers = (empresaId: string) => {
+    router.push({
+      pathname: '/(company)/suppliers',
+      params: { empresaId }
+    });
+  };
+  const handleViewPriceLists = (empresaId: string) => {
+    router.push({
+      pathname: '/(company)/price-lists',
+      params: { empresaId }
+    });
+  };
+  const handleViewBackup = (empresaId: string) => {
+    router.push({
+      pathname: '/(company)/backup',
+      params: { empresaId }
+    });
+  };
+  const handleChangeCurrency = async (empresaId: string, companyName: string, currentMoneda: Moneda) => {
+    const nextMoneda = MONEDAS[(MONEDAS.indexOf(currentMoneda) + 1) % MONEDAS.length];
+    try {
+      await updateCompany(empresaId, { monedaPredeterminada: nextMoneda });
+      setUserCompaniesDetails(prev => ({
+        ...prev,
+        [empresaId]: {
+          ...prev[empresaId],
+          monedaPredeterminada: nextMoneda
+        }
+      }));
+      Alert.alert('Éxito', `La moneda predeterminada de "${companyName}" ahora es ${nextMoneda}`);
+    } catch (error) {
+      console.error('Error changing company currency:', error);
+      Alert.alert('Error', 'No se pudo cambiar la moneda predeterminada');
+    }
+  };
   const handleToggleRequests = async (empresaId: string, companyName: string, currentStatus: boolean) => {
     const newStatus = !currentStatus;
     const action = newStatus ? 'abrir' : 'cerrar';
@@ -376,7 +443,7 @@ export default function CompanyScreen() {
                       {membership.companyName || membership.empresaId}
                     </Text>
                     <Text style={styles.companyDetails}>
-                      Rol: {membership.role === 'owner' ? 'Propietario' : 'Miembro'}
+                      Rol: {ROLE_LABELS[membership.role]}
                     </Text>
                   </View>
                   <View style={[
@@ -387,11 +454,11 @@ export default function CompanyScreen() {
                       styles.roleBadgeText,
                       membership.role === 'owner' ? styles.ownerBadgeText : styles.memberBadgeText
                     ]}>
-                      {membership.role === 'owner' ? 'Propietario' : 'Miembro'}
+                      {ROLE_LABELS[membership.role]}
                     </Text>
                   </View>
                 </TouchableOpacity>
-                {membership.role === 'owner' ? (
+                {hasPermission(membership.role, 'gestionarSolicitudes') ? (
                   <View style={styles.managementButtons}>
                     <TouchableOpacity
                       style={styles.requestsButton}
@@ -408,36 +475,95 @@ export default function CompanyScreen() {
                     </TouchableOpacity>
                     <TouchableOpacity
                       style={styles.membersButton}
-                      onPress={() => handleViewMembers(membership.empresaId)}
+                      onPress={() => handleViewTrash(membership.empresaId)}
                     >
-                      <Text style={styles.membersButtonText}>Miembros</Text>
+                      <Text style={styles.membersButtonText}>Papelera</Text>
                     </TouchableOpacity>
                     <TouchableOpacity
-                      style={[
-                        styles.toggleRequestsButton,
-                        userCompaniesDetails[membership.empresaId]?.solicitudesAbiertas === false && styles.closedRequestsButton
-                      ]}
-                      onPress={() => {
-                        const currentCompany = userCompaniesDetails[membership.empresaId];
-                        handleToggleRequests(
-                          membership.empresaId,
-                          membership.companyName || 'Empresa',
-                          currentCompany?.solicitudesAbiertas === true
-                        );
-                      }}
+                      style={styles.membersButton}
+                      onPress={() => handleViewReconciliation(membership.empresaId)}
                     >
-                      <Text style={[
-                        styles.toggleRequestsButtonText,
-                        userCompaniesDetails[membership.empresaId]?.solicitudesAbiertas === false && styles.closedRequestsButtonText
-                      ]}>
-                        {userCompaniesDetails[membership.empresaId]?.solicitudesAbiertas === false ? 'Abrir solicitudes' : 'Cerrar solicitudes'}
+                      <Text style={styles.membersButtonText}>
+                        Conciliación
+                        {debtDriftCount[membership.empresaId] > 0 && (
+                          <Text style={styles.driftCount}>
+                            {' '}({debtDriftCount[membership.empresaId]})
+                          </Text>
+                        )}
                       </Text>
                     </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.membersButton}
+                      onPress={() => handleViewSuppliers(membership.empresaId)}
+                    >
+                      <Text style={styles.membersButtonText}>Proveedores</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.membersButton}
+                      onPress={() => handleViewPriceLists(membership.empresaId)}
+                    >
+                      <Text style={styles.membersButtonText}>Listas de precios</Text>
+                    </TouchableOpacity>
+                    {hasPermission(membership.role, 'gestionarMiembros') && (
+                      <>
+                        <TouchableOpacity
+                          style={styles.membersButton}
+                          onPress={() => handleViewMembers(membership.empresaId)}
+                        >
+                          <Text style={styles.membersButtonText}>Miembros</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.membersButton}
+                          onPress={() => handleViewAudit(membership.empresaId)}
+                        >
+                          <Text style={styles.membersButtonText}>Auditoría</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.membersButton}
+                          onPress={() => handleViewBackup(membership.empresaId)}
+                        >
+                          <Text style={styles.membersButtonText}>Respaldo</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[
+                            styles.toggleRequestsButton,
+                            userCompaniesDetails[membership.empresaId]?.solicitudesAbiertas === false && styles.closedRequestsButton
+                          ]}
+                          onPress={() => {
+                            const currentCompany = userCompaniesDetails[membership.empresaId];
+                            handleToggleRequests(
+                              membership.empresaId,
+                              membership.companyName || 'Empresa',
+                              currentCompany?.solicitudesAbiertas === true
+                            );
+                          }}
+                        >
+                          <Text style={[
+                            styles.toggleRequestsButtonText,
+                            userCompaniesDetails[membership.empresaId]?.solicitudesAbiertas === false && styles.closedRequestsButtonText
+                          ]}>
+                            {userCompaniesDetails[membership.empresaId]?.solicitudesAbiertas === false ? 'Abrir solicitudes' : 'Cerrar solicitudes'}
+                          </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.currencyButton}
+                          onPress={() => handleChangeCurrency(
+                            membership.empresaId,
+                            membership.companyName || 'Empresa',
+                            userCompaniesDetails[membership.empresaId]?.monedaPredeterminada ?? DEFAULT_MONEDA
+                          )}
+                        >
+                          <Text style={styles.currencyButtonText}>
+                            Moneda: {userCompaniesDetails[membership.empresaId]?.monedaPredeterminada ?? DEFAULT_MONEDA}
+                          </Text>
+                        </TouchableOpacity>
+                      </>
+                    )}
                   </View>
                 ) : (
                   <View style={styles.memberNotice}>
                     <Text style={styles.memberNoticeText}>
-                      Solo los propietarios pueden gestionar solicitudes y miembros
+                      Tu rol ({ROLE_LABELS[membership.role]}) no permite gestionar solicitudes ni miembros
                     </Text>
                   </View>
                 )}
@@ -626,6 +752,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  driftCount: {
+    backgroundColor: '#fff',
+    color: '#FF9800',
+    paddingHorizontal: 4,
+    borderRadius: 8,
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   requestsCount: {
     backgroundColor: '#fff',
     color: '#25B4BD',
@@ -666,6 +800,19 @@ const styles = StyleSheet.create({
   closedRequestsButtonText: {
     color: '#fff',
   },
+  currencyButton: {
+    backgroundColor: '#6c757d',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+    flex: 1,
+  },
+  currencyButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   memberNotice: {
     backgroundColor: '#f8f9fa',
     paddingVertical: 8,
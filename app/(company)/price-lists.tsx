@@ -0,0 +1,382 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { formatCurrency } from '@/schemas/business-logic';
+import { setProductPrice } from '@/schemas/price-lists';
+import { PriceList, Product, SpecialPrice } from '@/schemas/types';
+import ProductService from '@/services/ProductService';
+import { PriceListService } from '@/services/PriceListService';
+const parseAmount = (value: string): number => Number(value.replace(',', '.'));
+interface PriceListRowProps {
+  product: Product;
+  price?: SpecialPrice;
+  onSave: (product: Product, price: SpecialPrice | null) => Promise<boolean>;
+}
+function PriceListRow({ product, price, onSave }: PriceListRowProps) {
+  const [costo, setCosto] = useState(price ? price.costoUnitario.toString() : '');
+  const [ganancia, setGanancia] = useState(price ? price.gananciaUnitaria.toString() : '');
+  const [saving, setSaving] = useState(false);
+  const save = async (value: SpecialPrice | null) => {
+    setSaving(true);
+    const saved = await onSave(product, value);
+    setSaving(false);
+    if (saved && !value) {
+      setCosto('');
+      setGanancia('');
+    }
+  };
+  return (
+    <View style={[styles.itemCard, price && styles.pricedItemCard]}>
+      <View style={styles.itemHeader}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{product.nombre}</Text>
+        <Text style={styles.itemDate}>
+          Normal: {formatCurrency(product.ultimoCosto + product.ultimaGanancia, product.moneda)}
+        </Text>
+      </View>
+      <View style={styles.amountRow}>
+        <TextInput
+          style={[styles.input, styles.amountInput]}
+          value={costo}
+          onChangeText={setCosto}
+          placeholder={`Costo (${product.ultimoCosto})`}
+          keyboardType="decimal-pad"
+        />
+        <TextInput
+          style={[styles.input, styles.amountInput]}
+          value={ganancia}
+          onChangeText={setGanancia}
+          placeholder={`Ganancia (${product.ultimaGanancia})`}
+          keyboardType="decimal-pad"
+        />
+        {saving ? (
+          <ActivityIndicator size="small" color="#25B4BD" style={styles.iconButton} />
+        ) : (
+          <>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => save({ costoUnitario: parseAmount(costo), gananciaUnitaria: parseAmount(ganancia) })}
+              disabled={!costo.trim() || !ganancia.trim()}
+            >
+              <Ionicons name="checkmark-circle-outline" size={24} color={costo.trim() && ganancia.trim() ? '#279D2E' : '#ccc'} />
+            </TouchableOpacity>
+            {price && (
+              <TouchableOpacity style={styles.iconButton} onPress={() => save(null)}>
+                <Ionicons name="close-circle-outline" size={24} color="#dc3545" />
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+export default function PriceListsScreen() {
+  const { empresaId } = useLocalSearchParams<{ empresaId: string }>();
+  const { role, can } = useCompanyRole(empresaId);
+  const canManage = can('gestionarProductos');
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const loadData = useCallback(async () => {
+    if (!empresaId) return;
+    const [lists, productResult] = await Promise.all([
+      PriceListService.getPriceLists(empresaId),
+      ProductService.getInstance().getProducts(empresaId)
+    ]);
+    setPriceLists(lists);
+    setProducts((productResult.data ?? []).filter(product => product.activo));
+    setSelectedId(current => lists.some(list => list.id === current) ? current : lists[0]?.id ?? null);
+  }, [empresaId]);
+  useEffect(() => {
+    loadData().finally(() => setLoading(false));
+  }, [loadData]);
+  const selectedList = priceLists.find(list => list.id === selectedId) ?? null;
+  const handleCreate = async () => {
+    if (!empresaId) return;
+    const result = await PriceListService.createPriceList(empresaId, newName);
+    if (!result.success) {
+      Alert.alert('Error', result.errors?.join('\n') || 'No se pudo crear la lista de precios');
+      return;
+    }
+    setNewName('');
+    setSelectedId(result.id ?? null);
+    loadData();
+  };
+  const handleSavePrice = async (product: Product, price: SpecialPrice | null): Promise<boolean> => {
+    if (!empresaId || !selectedList) return false;
+    const result = await PriceListService.setProductPrice(empresaId, selectedList, product.id, price);
+    if (!result.success) {
+      Alert.alert('Error', result.errors?.join('\n') || 'No se pudo guardar el precio');
+      return false;
+    }
+    const precios = setProductPrice(selectedList.precios, product.id, price);
+    setPriceLists(lists => lists.map(list => list.id === selectedList.id ? { ...list, precios } : list));
+    return true;
+  };
+  const handleDelete = () => {
+    if (!empresaId || !selectedList) return;
+    Alert.alert(
+      'Eliminar lista',
+      `¿Eliminar "${selectedList.nombre}"? Los clientes que la usan volverán a los precios normales.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await PriceListService.deletePriceList(empresaId, selectedList);
+            if (!result.success) {
+              Alert.alert('Error', result.errors?.join('\n') || 'No se pudo eliminar la lista');
+              return;
+            }
+            loadData();
+          }
+        }
+      ]
+    );
+  };
+  const renderHeader = () => (
+    <View>
+      {}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Nueva lista</Text>
+        <View style={styles.amountRow}>
+          <TextInput
+            style={[styles.input, styles.amountInput]}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="Ej: Mayorista"
+            maxLength={50}
+          />
+          <TouchableOpacity style={styles.primaryButton} onPress={handleCreate}>
+            <Ionicons name="add" size={16} color="#fff" />
+            <Text style={styles.primaryButtonText}>Crear</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      {}
+      {priceLists.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Listas</Text>
+            {selectedList && (
+              <TouchableOpacity style={styles.iconButton} onPress={handleDelete}>
+                <Ionicons name="trash-outline" size={20} color="#dc3545" />
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.optionRow}>
+            {priceLists.map(list => (
+              <TouchableOpacity
+                key={list.id}
+                style={[styles.optionChip, selectedId === list.id && styles.activeOptionChip]}
+                onPress={() => setSelectedId(list.id)}
+              >
+                <Text style={[styles.optionChipText, selectedId === list.id && styles.activeOptionChipText]}>
+                  {list.nombre} ({Object.keys(list.precios ?? {}).length})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.cardText}>
+            Los productos sin precio en la lista se venden a su precio normal. Asigna la lista desde la ficha del cliente.
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#25B4BD" />
+        <Text style={styles.loadingText}>Cargando listas de precios...</Text>
+      </View>
+    );
+  }
+  if (!canManage) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+        <Text style={styles.loadingText}>
+          {role ? 'No tienes permiso para gestionar listas de precios' : 'No perteneces a esta empresa'}
+        </Text>
+      </View>
+    );
+  }
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={selectedList ? products : []}
+        keyExtractor={(item) => `${selectedId}-${item.id}`}
+        renderItem={({ item }) => (
+          <PriceListRow product={item} price={selectedList?.precios?.[item.id]} onSave={handleSavePrice} />
+        )}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="pricetags-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>
+              {selectedList ? 'No hay productos activos' : 'Crea una lista para cargar precios especiales por producto'}
+            </Text>
+          </View>
+        }
+        contentContainerStyle={styles.listContainer}
+        keyboardShouldPersistTaps="handled"
+      />
+    </View>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+    padding: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  cardText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  activeOptionChip: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  activeOptionChipText: {
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ddd',
+  },
+  pricedItemCard: {
+    borderLeftColor: '#25B4BD',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemDate: {
+    fontSize: 12,
+    color: '#888',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#333',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#25B4BD',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { formatCurrency } from '@/schemas/business-logic';
+import { DebtDiscrepancy, ReconciliationReport } from '@/schemas/reconciliation';
+import { ReconciliationService } from '@/services/ReconciliationService';
+export default function ReconciliationScreen() {
+  const { empresaId } = useLocalSearchParams<{ empresaId: string }>();
+  const { role, can } = useCompanyRole(empresaId);
+  const canFix = can('gestionarClientes');
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [fixingId, setFixingId] = useState<string | null>(null);
+  const runCheck = useCallback(async () => {
+    if (!empresaId) return;
+    setRunning(true);
+    try {
+      setReport(await ReconciliationService.runReconciliation(empresaId));
+    } catch (error) {
+      console.error('Error running reconciliation:', error);
+      Alert.alert('Error', 'No se pudo revisar la deuda de los clientes');
+    } finally {
+      setRunning(false);
+    }
+  }, [empresaId]);
+  useEffect(() => {
+    if (!empresaId) return;
+    ReconciliationService.getLastReport(empresaId)
+      .then(setReport)
+      .finally(() => setLoading(false));
+    return ReconciliationService.subscribe(updated => {
+      if (updated.empresaId === empresaId) {
+        setReport(updated);
+      }
+    });
+  }, [empresaId]);
+  const handleFix = async (discrepancy: DebtDiscrepancy) => {
+    if (!empresaId) return;
+    setFixingId(discrepancy.clienteId);
+    try {
+      const result = await ReconciliationService.fixDiscrepancy(empresaId, discrepancy);
+      if (!result.success) {
+        Alert.alert('Error', result.errors?.join('\n') || 'No se pudo corregir la deuda');
+      }
+    } finally {
+      setFixingId(null);
+    }
+  };
+  const handleFixAll = () => {
+    if (!empresaId || !report) return;
+    Alert.alert(
+      'Corregir todo',
+      `Se recalculará la deuda de ${report.discrepancias.length} clientes a partir de sus transacciones.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Corregir',
+          onPress: async () => {
+            setFixingId('todos');
+            try {
+              const result = await ReconciliationService.fixAll(empresaId, report.discrepancias);
+              if (!result.success) {
+                Alert.alert('Corrección incompleta', result.errors?.join('\n'));
+              }
+            } finally {
+              setFixingId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+  const renderDiscrepancy = ({ item }: { item: DebtDiscrepancy }) => (
+    <View style={styles.itemCard}>
+      <Text style={styles.itemTitle} numberOfLines={1}>{item.clienteNombre}</Text>
+      <Text style={styles.expectedText}>Según transacciones: {formatCurrency(item.deudaEsperada, report?.moneda)}</Text>
+      {item.firestoreDesfasado && (
+        <Text style={styles.driftText}>Guardada en la nube: {formatCurrency(item.deudaActual, report?.moneda)}</Text>
+      )}
+      {item.localDesfasado && item.deudaLocal !== null && (
+        <Text style={styles.driftText}>Guardada en este dispositivo: {formatCurrency(item.deudaLocal, report?.moneda)}</Text>
+      )}
+      {canFix && (
+        <View style={styles.itemActions}>
+          {fixingId === item.clienteId ? (
+            <ActivityIndicator size="small" color="#25B4BD" />
+          ) : (
+            <TouchableOpacity
+              style={[styles.fixButton, fixingId !== null && styles.disabledButton]}
+              onPress={() => handleFix(item)}
+              disabled={fixingId !== null}
+            >
+              <Ionicons name="construct-outline" size={16} color="#fff" />
+              <Text style={styles.fixButtonText}>Corregir</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#25B4BD" />
+        <Text style={styles.loadingText}>Cargando conciliación...</Text>
+      </View>
+    );
+  }
+  if (!canFix) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+        <Text style={styles.loadingText}>
+          {role ? 'No tienes permiso para corregir la deuda de los clientes' : 'No perteneces a esta empresa'}
+        </Text>
+      </View>
+    );
+  }
+  const discrepancias = report?.discrepancias ?? [];
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={discrepancias}
+        keyExtractor={(item) => item.clienteId}
+        renderItem={renderDiscrepancy}
+        ListHeaderComponent={
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryTitle}>Conciliación de deudas</Text>
+            <Text style={styles.summaryText}>
+              {report
+                ? `Última revisión: ${new Date(report.revisado).toLocaleString('es-AR')} · ${report.clientesRevisados} clientes revisados`
+                : 'Todavía no se revisó la deuda de los clientes'}
+            </Text>
+            <Text style={styles.summaryText}>Las correcciones quedan registradas en la auditoría.</Text>
+            <View style={styles.summaryActions}>
+              <TouchableOpacity
+                style={[styles.secondaryButton, (running || fixingId !== null) && styles.disabledButton]}
+                onPress={runCheck}
+                disabled={running || fixingId !== null}
+              >
+                {running ? (
+                  <ActivityIndicator size="small" color="#25B4BD" />
+                ) : (
+                  <>
+                    <Ionicons name="refresh" size={16} color="#25B4BD" />
+                    <Text style={styles.secondaryButtonText}>Revisar ahora</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+              {discrepancias.length > 1 && (
+                <TouchableOpacity
+                  style={[styles.fixButton, (running || fixingId !== null) && styles.disabledButton]}
+                  onPress={handleFixAll}
+                  disabled={running || fixingId !== null}
+                >
+                  {fixingId === 'todos' ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.fixButtonText}>Corregir todo ({discrepancias.length})</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        }
+        ListEmptyComponent={
+          report ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="checkmark-circle-outline" size={48} color="#279D2E" />
+              <Text style={styles.emptyText}>Las deudas coinciden con las transacciones</Text>
+            </View>
+          ) : null
+        }
+        contentContainerStyle={styles.listContainer}
+      />
+    </View>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+    padding: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  summaryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  summaryActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9800',
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  expectedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#279D2E',
+    marginTop: 4,
+  },
+  driftText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 10,
+  },
+  fixButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#25B4BD',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  fixButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  secondaryButtonText: {
+    color: '#25B4BD',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
@@ -14,11 +14,11 @@ import { useAuth } from '@/context/AuthProvider';
 import {
   getPendingJoinRequests,
   updateJoinRequestStatus,
-  addCompanyMember,
   getCompany,
   subscribeToJoinRequests,
 } from '@/schemas/firestore-utils';
-import { CompanyJoinRequest, Company, CompanyMember } from '@/schemas/types';
+import { CompanyJoinRequest, Company, CompanyMember, isCompanyRole } from '@/schemas/types';
+import { ROLE_LABELS, hasPermission } from '@/schemas/permissions';
 import { companyService } from '@/services/CompanyService';
 export default function CompanyRequestsScreen() {
   const router = useRouter();
@@ -87,7 +87,7 @@ export default function CompanyRequestsScreen() {
         }
       };
     }
-    if (userRole === 'owner') {
+    if (isCompanyRole(userRole) && hasPermission(userRole, 'gestionarSolicitudes')) {
 
       return {
         isOwner: true,
@@ -143,7 +143,7 @@ export default function CompanyRequestsScreen() {
 
         Alert.alert(
           'Acceso Denegado',
-          'Solo los propietarios pueden ver las solicitudes de la empresa.',
+          'Solo los propietarios y administradores pueden ver las solicitudes de la empresa.',
           [
             {
               text: 'Entendido',
@@ -187,7 +187,7 @@ export default function CompanyRequestsScreen() {
 
       Alert.alert(
         'Error',
-        'Solo el propietario puede aprobar solicitudes',
+        'Solo propietarios y administradores pueden aprobar solicitudes',
         [
           {
             text: 'OK',
@@ -209,7 +209,7 @@ export default function CompanyRequestsScreen() {
 
       Alert.alert(
         'Error',
-        'Solo el propietario puede rechazar solicitudes',
+        'Solo propietarios y administradores pueden rechazar solicitudes',
         [
           {
             text: 'OK',
@@ -269,11 +269,14 @@ export default function CompanyRequestsScreen() {
     try {
       if (status === 'aceptada') {
 
-        await addCompanyMember(
-          request.empresaId,
-          request.solicitanteId,
-          request.solicitanteEmail
-        );
+        const response = await companyService.addCompanyMember(request.empresaId, {
+          userId: request.solicitanteId,
+          email: request.solicitanteEmail,
+          role: 'member'
+        });
+        if (!response.success) {
+          throw new Error(response.errors?.[0] || 'No se pudo agregar el miembro');
+        }
      
         Alert.alert(
           'Solicitud aprobada',
@@ -350,7 +353,7 @@ export default function CompanyRequestsScreen() {
           </View>
         ) : (
           <View style={styles.noPermissionBadge}>
-            <Text style={styles.noPermissionText}>Solo propietario</Text>
+            <Text style={styles.noPermissionText}>Sin permiso</Text>
           </View>
         )}
       </View>
@@ -375,7 +378,7 @@ export default function CompanyRequestsScreen() {
         {user && (
           <>
             <Text style={styles.debugText}>
-              Usuario: {user.email} | Rol: {(userRole === 'owner') ? 'Propietario' : 'Miembro'}
+              Usuario: {user.email} | Rol: {isCompanyRole(userRole) ? ROLE_LABELS[userRole] : 'Sin rol'}
             </Text>
           </>
         )}
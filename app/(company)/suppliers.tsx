@@ -0,0 +1,379 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { formatCurrency } from '@/schemas/business-logic';
+import { COST_METHOD_DESCRIPTIONS, COST_METHOD_LABELS, isCostMethod } from '@/schemas/purchases';
+import { CostMethod, Product, Purchase, Supplier, COST_METHODS } from '@/schemas/types';
+import { companyService } from '@/services/CompanyService';
+import ProductService from '@/services/ProductService';
+import { PurchaseService } from '@/services/PurchaseService';
+import SupplierModal from '@/components/SupplierModal';
+import PurchaseModal from '@/components/PurchaseModal';
+export default function SuppliersScreen() {
+  const { empresaId } = useLocalSearchParams<{ empresaId: string }>();
+  const { role, can } = useCompanyRole(empresaId);
+  const canManage = can('gestionarProductos');
+  const canChangeCostMethod = role === 'owner'; // Company settings are owner-only in the rules
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [metodoCosto, setMetodoCosto] = useState<CostMethod>('ultimo');
+  const [loading, setLoading] = useState(true);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierModalVisible, setSupplierModalVisible] = useState(false);
+  const [purchaseModalVisible, setPurchaseModalVisible] = useState(false);
+  const loadData = useCallback(async () => {
+    if (!empresaId) return;
+    const [supplierList, purchaseList, productResult, companyResult] = await Promise.all([
+      PurchaseService.getSuppliers(empresaId),
+      PurchaseService.getPurchases(empresaId),
+      ProductService.getInstance().getProducts(empresaId),
+      companyService.getCompany(empresaId)
+    ]);
+    setSuppliers(supplierList);
+    setPurchases(purchaseList);
+    setProducts(productResult.data ?? []);
+    setMetodoCosto(isCostMethod(companyResult.data?.metodoCosto) ? companyResult.data.metodoCosto : 'ultimo');
+  }, [empresaId]);
+  useEffect(() => {
+    loadData().finally(() => setLoading(false));
+  }, [loadData]);
+  const activeSuppliers = suppliers.filter(supplier => supplier.activo);
+  const handleChangeCostMethod = async (metodo: CostMethod) => {
+    if (!empresaId || metodo === metodoCosto) return;
+    const previous = metodoCosto;
+    setMetodoCosto(metodo);
+    const response = await companyService.updateCompany(empresaId, { metodoCosto: metodo });
+    if (!response.success) {
+      setMetodoCosto(previous);
+      Alert.alert('Error', 'No se pudo cambiar el método de costo');
+    }
+  };
+  const handleOpenSupplier = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setSupplierModalVisible(true);
+  };
+  const handleToggleSupplier = async (supplier: Supplier) => {
+    if (!empresaId) return;
+    const result = await PurchaseService.setSupplierActive(empresaId, supplier, !supplier.activo);
+    if (!result.success) {
+      Alert.alert('Error', result.errors?.join('\n') || 'No se pudo actualizar el proveedor');
+      return;
+    }
+    loadData();
+  };
+  const handleNewPurchase = () => {
+    if (activeSuppliers.length === 0) {
+      Alert.alert('Sin proveedores', 'Agrega un proveedor antes de registrar compras');
+      return;
+    }
+    setPurchaseModalVisible(true);
+  };
+  const renderHeader = () => (
+    <View>
+      {}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Costo de las ventas</Text>
+        <Text style={styles.cardText}>{COST_METHOD_DESCRIPTIONS[metodoCosto]}</Text>
+        {canChangeCostMethod && (
+          <View style={styles.optionRow}>
+            {COST_METHODS.map(metodo => (
+              <TouchableOpacity
+                key={metodo}
+                style={[styles.optionChip, metodoCosto === metodo && styles.activeOptionChip]}
+                onPress={() => handleChangeCostMethod(metodo)}
+              >
+                <Text style={[styles.optionChipText, metodoCosto === metodo && styles.activeOptionChipText]}>
+                  {COST_METHOD_LABELS[metodo]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+      {}
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>Proveedores</Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => handleOpenSupplier(null)}>
+            <Ionicons name="add" size={16} color="#25B4BD" />
+            <Text style={styles.secondaryButtonText}>Agregar</Text>
+          </TouchableOpacity>
+        </View>
+        {suppliers.length === 0 ? (
+          <Text style={styles.cardText}>Todavía no cargaste proveedores</Text>
+        ) : (
+          suppliers.map(supplier => (
+            <View key={supplier.id} style={styles.supplierRow}>
+              <View style={styles.supplierInfo}>
+                <Text style={[styles.supplierName, !supplier.activo && styles.inactiveText]}>
+                  {supplier.nombre}{!supplier.activo && ' (inactivo)'}
+                </Text>
+                {!!supplier.telefono && <Text style={styles.cardText}>{supplier.telefono}</Text>}
+              </View>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleOpenSupplier(supplier)}>
+                <Ionicons name="create-outline" size={20} color="#25B4BD" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleToggleSupplier(supplier)}>
+                <Ionicons
+                  name={supplier.activo ? 'eye-off-outline' : 'eye-outline'}
+                  size={20}
+                  color={supplier.activo ? '#dc3545' : '#279D2E'}
+                />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </View>
+      {}
+      <View style={styles.purchasesHeader}>
+        <Text style={styles.cardTitle}>Compras</Text>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleNewPurchase}>
+          <Ionicons name="cart-outline" size={16} color="#fff" />
+          <Text style={styles.primaryButtonText}>Nueva compra</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+  const renderPurchase = ({ item }: { item: Purchase }) => (
+    <View style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{item.producto}</Text>
+        <Text style={styles.itemTotal}>{formatCurrency(item.total, item.moneda)}</Text>
+      </View>
+      <Text style={styles.cardText}>
+        {item.cantidad} × {formatCurrency(item.costoUnitario, item.moneda)} · {item.proveedorNombre}
+      </Text>
+      <Text style={styles.itemDate}>{item.fecha.toDate().toLocaleDateString('es-AR')}</Text>
+      {!!item.notas && <Text style={styles.cardText}>{item.notas}</Text>}
+    </View>
+  );
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#25B4BD" />
+        <Text style={styles.loadingText}>Cargando proveedores...</Text>
+      </View>
+    );
+  }
+  if (!canManage) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+        <Text style={styles.loadingText}>
+          {role ? 'No tienes permiso para gestionar proveedores y compras' : 'No perteneces a esta empresa'}
+        </Text>
+      </View>
+    );
+  }
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={purchases}
+        keyExtractor={(item) => item.id}
+        renderItem={renderPurchase}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="cart-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>Las compras actualizan el costo y el stock de cada producto</Text>
+          </View>
+        }
+        contentContainerStyle={styles.listContainer}
+      />
+      {empresaId && (
+        <>
+          <SupplierModal
+            visible={supplierModalVisible}
+            empresaId={empresaId}
+            supplier={editingSupplier}
+            onClose={() => setSupplierModalVisible(false)}
+            onSaved={loadData}
+          />
+          <PurchaseModal
+            visible={purchaseModalVisible}
+            empresaId={empresaId}
+            suppliers={activeSuppliers}
+            products={products}
+            onClose={() => setPurchaseModalVisible(false)}
+            onSaved={loadData}
+          />
+        </>
+      )}
+    </View>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+    padding: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  cardText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  activeOptionChip: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  activeOptionChipText: {
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  supplierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  supplierInfo: {
+    flex: 1,
+  },
+  supplierName: {
+    fontSize: 15,
+    color: '#333',
+  },
+  inactiveText: {
+    color: '#999',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  purchasesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#279D2E',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#279D2E',
+  },
+  itemDate: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#25B4BD',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  secondaryButtonText: {
+    color: '#25B4BD',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
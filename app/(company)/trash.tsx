@@ -0,0 +1,458 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { Client, TransactionEvent } from '@/schemas/types';
+import { formatCurrency, formatDate } from '@/schemas/business-logic';
+import {
+  TRASH_RETENTION_OPTIONS,
+  formatTrashRetention,
+  getDaysUntilPurge,
+  getDeletionTime,
+  getTrashRetentionDays
+} from '@/schemas/trash';
+import { ClientService } from '@/services/ClientService';
+import { companyService } from '@/services/CompanyService';
+import { TransactionEventService } from '@/services/TransactionEventService';
+type TrashTab = 'eventos' | 'clientes';
+export default function TrashScreen() {
+  const { empresaId } = useLocalSearchParams<{ empresaId: string }>();
+  const { can } = useCompanyRole(empresaId);
+  const canRestoreEvents = can('editarEventos');
+  const canRestoreClients = can('gestionarClientes');
+  const canPurge = can('vaciarPapelera');
+  const [activeTab, setActiveTab] = useState<TrashTab>('eventos');
+  const [events, setEvents] = useState<TransactionEvent[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number>(getTrashRetentionDays(null));
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const loadTrash = useCallback(async () => {
+    if (!empresaId) return;
+    const [deletedEvents, clientsResponse, companyResponse] = await Promise.all([
+      TransactionEventService.getDeletedEvents(empresaId),
+      new ClientService(empresaId).getClients(),
+      companyService.getCompany(empresaId)
+    ]);
+    setEvents([...deletedEvents].sort((a, b) => getDeletionTime(b) - getDeletionTime(a)));
+    setClients(clientsResponse.success && clientsResponse.data ? clientsResponse.data : []);
+    if (companyResponse.success && companyResponse.data) {
+      setRetentionDays(getTrashRetentionDays(companyResponse.data));
+    }
+  }, [empresaId]);
+  useEffect(() => {
+    loadTrash().finally(() => setLoading(false));
+  }, [loadTrash]);
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadTrash();
+    setRefreshing(false);
+  };
+  const clientNames = useMemo(
+    () => new Map(clients.map(client => [client.id, client.nombre])),
+    [clients]
+  );
+  const hiddenClients = useMemo(() => clients.filter(client => client.oculto), [clients]);
+  const runAction = async (id: string, action: () => Promise<{ success: boolean; errors?: string[] }>, errorMessage: string) => {
+    setProcessingId(id);
+    try {
+      const result = await action();
+      if (!result.success) {
+        Alert.alert('Error', result.errors?.join('\n') || errorMessage);
+        return;
+      }
+      await loadTrash();
+    } finally {
+      setProcessingId(null);
+    }
+  };
+  const handleRestoreEvent = (event: TransactionEvent) => {
+    if (!empresaId) return;
+    runAction(
+      event.id,
+      () => TransactionEventService.restoreEvent(empresaId, event.id),
+      'No se pudo restaurar la transacción'
+    );
+  };
+  const handlePurgeEvent = (event: TransactionEvent) => {
+    if (!empresaId) return;
+    Alert.alert(
+      'Eliminar definitivamente',
+      'Esta transacción se borrará para siempre y no se podrá recuperar.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Eliminar',
+          style: 'destructive',
+          onPress: () => runAction(
+            event.id,
+            () => TransactionEventService.permanentlyDeleteEvent(empresaId, event.id),
+            'No se pudo eliminar la transacción'
+          )
+        }
+      ]
+    );
+  };
+  const handleShowClient = (client: Client) => {
+    if (!empresaId) return;
+    runAction(
+      client.id,
+      async () => {
+        const result = await new ClientService(empresaId).toggleClientVisibility(client.id);
+        return { success: result.success, errors: result.error ? [result.error] : undefined };
+      },
+      'No se pudo mostrar el cliente'
+    );
+  };
+  const handleChangeRetention = async (days: number) => {
+    if (!empresaId || days === retentionDays) return;
+    const previous = retentionDays;
+    setRetentionDays(days);
+    const response = await companyService.updateCompany(empresaId, { retencionPapeleraDias: days });
+    if (!response.success) {
+      setRetentionDays(previous);
+      Alert.alert('Error', 'No se pudo cambiar el período de retención');
+    }
+  };
+  const renderRetentionSettings = () => (
+    <View style={styles.retentionCard}>
+      <Text style={styles.retentionTitle}>Eliminación automática</Text>
+      <Text style={styles.retentionText}>
+        {retentionDays === 0
+          ? 'Las transacciones borradas se conservan hasta que las elimines.'
+          : `Las transacciones borradas se eliminan definitivamente después de ${formatTrashRetention(retentionDays)}.`}
+      </Text>
+      {canPurge && (
+        <View style={styles.retentionOptions}>
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.retentionChip, retentionDays === days && styles.activeRetentionChip]}
+              onPress={() => handleChangeRetention(days)}
+            >
+              <Text style={[styles.retentionChipText, retentionDays === days && styles.activeRetentionChipText]}>
+                {formatTrashRetention(days)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+  const renderEvent = ({ item }: { item: TransactionEvent }) => {
+    const isSale = item.tipo === 'venta';
+    const daysLeft = getDaysUntilPurge(item, retentionDays);
+    const isProcessing = processingId === item.id;
+    return (
+      <View style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <Text style={[styles.typeBadge, { backgroundColor: isSale ? '#25B4BD' : '#279D2E' }]}>
+            {isSale ? 'Venta' : 'Pago'}
+          </Text>
+          <Text style={styles.itemTitle} numberOfLines={1}>
+            {clientNames.get(item.clienteId) ?? 'Cliente eliminado'}
+          </Text>
+          <Text style={styles.itemAmount}>
+            {formatCurrency(isSale ? item.totalVenta : item.montoPago, item.moneda)}
+          </Text>
+        </View>
+        <Text style={styles.itemMeta}>
+          {isSale ? `${item.producto} · ${item.cantidad} u · ` : ''}{formatDate(item.fecha)}
+        </Text>
+        <Text style={styles.itemMeta}>
+          Borrada el {new Date(getDeletionTime(item)).toLocaleDateString('es-AR')}
+          {daysLeft !== null && ` · se elimina en ${daysLeft} día${daysLeft !== 1 ? 's' : ''}`}
+        </Text>
+        {(canRestoreEvents || canPurge) && (
+          <View style={styles.itemActions}>
+            {isProcessing ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : (
+              <>
+                {canPurge && (
+                  <TouchableOpacity style={styles.purgeButton} onPress={() => handlePurgeEvent(item)}>
+                    <Ionicons name="trash" size={16} color="#dc3545" />
+                    <Text style={styles.purgeButtonText}>Eliminar</Text>
+                  </TouchableOpacity>
+                )}
+                {canRestoreEvents && (
+                  <TouchableOpacity style={styles.restoreButton} onPress={() => handleRestoreEvent(item)}>
+                    <Ionicons name="arrow-undo" size={16} color="#fff" />
+                    <Text style={styles.restoreButtonText}>Restaurar</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+  const renderClient = ({ item }: { item: Client }) => (
+    <View style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{item.nombre}</Text>
+        <Text style={styles.itemAmount}>{formatCurrency(item.deudaActual)}</Text>
+      </View>
+      {!!item.telefono && <Text style={styles.itemMeta}>{item.telefono}</Text>}
+      {canRestoreClients && (
+        <View style={styles.itemActions}>
+          {processingId === item.id ? (
+            <ActivityIndicator size="small" color="#25B4BD" />
+          ) : (
+            <TouchableOpacity style={styles.restoreButton} onPress={() => handleShowClient(item)}>
+              <Ionicons name="eye" size={16} color="#fff" />
+              <Text style={styles.restoreButtonText}>Mostrar</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#25B4BD" />
+        <Text style={styles.loadingText}>Cargando papelera...</Text>
+      </View>
+    );
+  }
+  return (
+    <View style={styles.container}>
+      {}
+      <View style={styles.tabs}>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'eventos' && styles.activeTab]}
+          onPress={() => setActiveTab('eventos')}
+        >
+          <Text style={[styles.tabText, activeTab === 'eventos' && styles.activeTabText]}>
+            Transacciones ({events.length})
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'clientes' && styles.activeTab]}
+          onPress={() => setActiveTab('clientes')}
+        >
+          <Text style={[styles.tabText, activeTab === 'clientes' && styles.activeTabText]}>
+            Clientes ocultos ({hiddenClients.length})
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {}
+      {activeTab === 'eventos' ? (
+        <FlatList
+          data={events}
+          keyExtractor={(item) => item.id}
+          renderItem={renderEvent}
+          ListHeaderComponent={renderRetentionSettings()}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="trash-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No hay transacciones borradas</Text>
+            </View>
+          }
+          contentContainerStyle={styles.listContainer}
+        />
+      ) : (
+        <FlatList
+          data={hiddenClients}
+          keyExtractor={(item) => item.id}
+          renderItem={renderClient}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="eye-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No hay clientes ocultos</Text>
+            </View>
+          }
+          contentContainerStyle={styles.listContainer}
+        />
+      )}
+    </View>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+    padding: 32,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: '#25B4BD',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '600',
+  },
+  activeTabText: {
+    color: '#25B4BD',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  retentionCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  retentionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  retentionText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  retentionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    backgroundColor: '#fff',
+  },
+  activeRetentionChip: {
+    backgroundColor: '#25B4BD',
+  },
+  retentionChipText: {
+    fontSize: 12,
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  activeRetentionChipText: {
+    color: '#fff',
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  typeBadge: {
+    fontSize: 11,
+    color: '#fff',
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#25B4BD',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  purgeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#dc3545',
+  },
+  purgeButtonText: {
+    color: '#dc3545',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    marginTop: 12,
+  },
+});
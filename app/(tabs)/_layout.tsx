@@ -5,7 +5,13 @@ import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 import { HapticTab } from '@/components/HapticTab';
 import TabBarBackground from '@/components/ui/TabBarBackground';
 import { FontAwesome, Ionicons } from '@expo/vector-icons';
+import { useTrashAutoPurge } from '@/hooks/useTrashAutoPurge';
+import { useDebtReconciliation } from '@/hooks/useDebtReconciliation';
+import { useBackgroundSync } from '@/hooks/useBackgroundSync';
 export default function TabLayout() {
+  useTrashAutoPurge();
+  useDebtReconciliation();
+  useBackgroundSync();
   return (
     <SafeAreaProvider>
       <SafeAreaView style={{ flex: 1, backgroundColor: '#f8f9fa' }}>
@@ -79,6 +85,20 @@ export default function TabLayout() {
             }}
           />
           {}
+          <Tabs.Screen
+            name="reports"
+            options={{
+              title: 'Reportes',
+              tabBarIcon: ({ color, focused }) => (
+                <Ionicons
+                  name={focused ? "bar-chart" : "bar-chart-outline"}
+                  size={24}
+                  color={color}
+                />
+              ),
+            }}
+          />
+          {}
           <Tabs.Screen
             name="clientes/[id]"
             options={{
@@ -13,15 +13,28 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
 import ClientModule from '@/components/ClientModule';
 import ClientForm from '@/components/ClientForm';
 import ClientSearchFilter, { ClientFilterOptions } from '@/components/ClientSearchFilter';
 import { useAuth } from '@/context/AuthProvider';
 import { useClients } from '@/context/RealtimeDataProvider';
+import { useClientSelection } from '@/context/ClientSelectionProvider';
 import { ClientService } from '@/services/ClientService';
 import { Client, CreateClientData, UpdateClientData } from '@/schemas/types';
+import { useCompanyCurrency } from '@/hooks/useCompanyCurrency';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import ExportButton from '@/components/ExportButton';
+import ImportModal from '@/components/ImportModal';
+import CollectionsList from '@/components/CollectionsList';
+import PaymentPromiseModal from '@/components/PaymentPromiseModal';
+import { CollectionReminderService } from '@/services/CollectionReminderService';
+import { buildClientsTable } from '@/schemas/export-utils';
 export default function ClientsScreen() {
   const { empresaId } = useAuth();
+  const monedaPredeterminada = useCompanyCurrency();
+  const { can } = useCompanyRole();
+  const canManageClients = can('gestionarClientes');
   const {
     clients,
     clientsLoading,
@@ -35,6 +48,12 @@ export default function ClientsScreen() {
   const [saving, setSaving] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [allClients, setAllClients] = useState<Client[]>([]);
+  const [showCollections, setShowCollections] = useState(false);
+  const [promiseClient, setPromiseClient] = useState<Client | null>(null);
+  const router = useRouter();
+  const { selectClient } = useClientSelection();
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [filters, setFilters] = useState<ClientFilterOptions>({
     searchTerm: '',
@@ -109,6 +128,33 @@ export default function ClientsScreen() {
     refreshClients();
     setRefreshing(false);
   };
+  const handleOpenImport = async () => {
+    const response = await clientService?.getClients();
+    setAllClients(response?.success && response.data ? response.data : clients);
+    setShowImportModal(true);
+  };
+  useEffect(() => {
+    if (showCollections) {
+      CollectionReminderService.syncPromiseReminders(clients, monedaPredeterminada);
+    }
+  }, [showCollections, clients, monedaPredeterminada]);
+  const handleOpenCollectionClient = (client: Client) => {
+    selectClient(client);
+    router.push('/(tabs)/history');
+  };
+  const handleSavePromise = async (client: Client, fecha: Date | null) => {
+    if (!clientService) return;
+    const result = await clientService.setPaymentPromise(client.id, fecha);
+    if (!result.success) {
+      Alert.alert('Error', result.errors?.join('\n') || 'No se pudo guardar la promesa de pago');
+      return;
+    }
+    if (fecha) {
+      await CollectionReminderService.schedulePromiseReminder(client, fecha, monedaPredeterminada);
+    } else {
+      await CollectionReminderService.cancelPromiseReminder(client.id);
+    }
+  };
   const handleCreateClient = async (clientData: CreateClientData | UpdateClientData) => {
     const context = 'ClientsScreen.handleCreateClient';
     if (!clientService) {
@@ -226,7 +272,8 @@ export default function ClientsScreen() {
       client={item}
       onToggleVisibility={handleToggleVisibility}
       onEdit={handleOpenEditModal}
-      showActions={true}
+      showActions={canManageClients}
+      monedaPredeterminada={monedaPredeterminada}
     />
   );
   const renderEmptyState = () => (
@@ -241,7 +288,7 @@ export default function ClientsScreen() {
           : 'Agrega tu primer cliente para comenzar'
         }
       </Text>
-      {!filters.searchTerm && (
+      {!filters.searchTerm && canManageClients && (
         <TouchableOpacity
           style={styles.emptyActionButton}
           onPress={() => setShowCreateModal(true)}
@@ -266,13 +313,15 @@ export default function ClientsScreen() {
         onClearSearch={handleClearSearch}
       />
       <View style={styles.headerContainer}>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => setShowCreateModal(true)}
-        >
-          <Ionicons name="add" size={20} color="#fff" />
-          <Text style={styles.addButtonText}>Agregar Cliente</Text>
-        </TouchableOpacity>
+        {canManageClients && (
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => setShowCreateModal(true)}
+          >
+            <Ionicons name="add" size={20} color="#fff" />
+            <Text style={styles.addButtonText}>Agregar Cliente</Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={styles.refreshButton}
           onPress={handleRefresh}
@@ -284,6 +333,19 @@ export default function ClientsScreen() {
             color="#25B4BD"
           />
         </TouchableOpacity>
+        {canManageClients && (
+          <TouchableOpacity
+            style={styles.refreshButton}
+            onPress={handleOpenImport}
+            disabled={!clientService}
+          >
+            <Ionicons name="cloud-upload-outline" size={18} color="#25B4BD" />
+          </TouchableOpacity>
+        )}
+        <ExportButton
+          buildTable={() => buildClientsTable(filteredClients, monedaPredeterminada)}
+          disabled={clientsLoading}
+        />
         <TouchableOpacity
           style={[
             styles.toggleHiddenButton,
@@ -303,8 +365,34 @@ export default function ClientsScreen() {
             {includeHiddenClients ? 'Ocultar' : 'Mostrar'} ocultos
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.toggleHiddenButton,
+            showCollections && styles.toggleHiddenButtonActive
+          ]}
+          onPress={() => setShowCollections(!showCollections)}
+        >
+          <Ionicons
+            name="cash-outline"
+            size={18}
+            color={showCollections ? "#fff" : "#25B4BD"}
+          />
+          <Text style={[
+            styles.toggleHiddenText,
+            showCollections && styles.toggleHiddenTextActive
+          ]}>
+            Cobrar hoy
+          </Text>
+        </TouchableOpacity>
       </View>
-      {clientsLoading ? (
+      {showCollections ? (
+        <CollectionsList
+          clients={clients}
+          monedaPredeterminada={monedaPredeterminada}
+          onSetPromise={can('registrarPromesas') ? setPromiseClient : undefined}
+          onOpenClient={handleOpenCollectionClient}
+        />
+      ) : clientsLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#25B4BD" />
           <Text style={styles.loadingText}>Cargando clientes...</Text>
@@ -358,6 +446,20 @@ export default function ClientsScreen() {
           isLoading={saving}
         />
       </Modal>
+      <ImportModal
+        visible={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        tipo="clientes"
+        empresaId={empresaId}
+        existingClients={allClients}
+        onImported={() => refreshClients()}
+      />
+      <PaymentPromiseModal
+        visible={!!promiseClient}
+        client={promiseClient}
+        onClose={() => setPromiseClient(null)}
+        onSave={handleSavePromise}
+      />
     </SafeAreaView>
   );
 }
@@ -17,6 +17,12 @@ import TransactionHistoryList from '@/components/TransactionHistoryList';
 import TransactionModal from '@/components/TransactionModal';
 import TransactionEditModal from '@/components/TransactionEditModal';
 import NotesModal from '@/components/NotesModal';
+import EventHistoryModal from '@/components/EventHistoryModal';
+import StatementModal from '@/components/StatementModal';
+import { useCompanyCurrency } from '@/hooks/useCompanyCurrency';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import ExportButton from '@/components/ExportButton';
+import { buildEventsTable } from '@/schemas/export-utils';
 import ProductService from '@/services/ProductService';
 import { CreateSaleEventData, CreatePaymentEventData, CreateProductData, Product, TransactionEvent, UpdateTransactionEventData } from '@/schemas/types';
 import { Timestamp } from 'firebase/firestore';
@@ -29,16 +35,22 @@ export default function HistoryScreen() {
     eventsLoading,
     selectedClientId,
     setSelectedClientId,
-    refreshEvents
+    refreshEvents,
+    pendingEventsCount
   } = useClientEvents();
   const router = useRouter();
+  const monedaPredeterminada = useCompanyCurrency();
+  const { can } = useCompanyRole();
+  const canEditEvents = can('editarEventos');
   const [showTransactionModal, setShowTransactionModal] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const productService = ProductService.getInstance();
   const [showEditModal, setShowEditModal] = useState(false);
   const [showNotesModal, setShowNotesModal] = useState(false);
+  const [showStatementModal, setShowStatementModal] = useState(false);
   const [editingEvent, setEditingEvent] = useState<TransactionEvent | null>(null);
   const [notesEvent, setNotesEvent] = useState<TransactionEvent | null>(null);
+  const [historyEvent, setHistoryEvent] = useState<TransactionEvent | null>(null);
   useEffect(() => {
     if (selectedClient && selectedClient.id !== selectedClientId) {
       setSelectedClientId(selectedClient.id);
@@ -160,6 +172,9 @@ export default function HistoryScreen() {
     setNotesEvent(event);
     setShowNotesModal(true);
   };
+  const handleViewHistory = (event: TransactionEvent) => {
+    setHistoryEvent(event);
+  };
   const handleSelectClient = () => {
     router.push('/(tabs)/clientes');
   };
@@ -181,6 +196,11 @@ export default function HistoryScreen() {
           {selectedClient && (
             <Text style={styles.subtitle}>{selectedClient.nombre}</Text>
           )}
+          {pendingEventsCount > 0 && (
+            <Text style={styles.pendingText}>
+              {pendingEventsCount === 1 ? '1 cambio pendiente' : `${pendingEventsCount} cambios pendientes`} de sincronizar
+            </Text>
+          )}
         </View>
         <View style={styles.headerActions}>
           {selectedClient && (
@@ -191,13 +211,31 @@ export default function HistoryScreen() {
               >
                 <Ionicons name="close" size={18} color="#666" />
               </TouchableOpacity>
+              <ExportButton
+                buildTable={() => buildEventsTable(
+                  transactions,
+                  { [selectedClient.id]: selectedClient.nombre },
+                  monedaPredeterminada,
+                  `Historial ${selectedClient.nombre}`
+                )}
+                disabled={eventsLoading}
+              />
               <TouchableOpacity
-                style={styles.addButton}
-                onPress={handleCreateTransaction}
+                style={styles.clearButton}
+                onPress={() => setShowStatementModal(true)}
+                disabled={eventsLoading}
               >
-                <Ionicons name="add" size={20} color="#fff" />
-                <Text style={styles.addButtonText}>Nuevo</Text>
+                <Ionicons name="share-social-outline" size={18} color="#25B4BD" />
               </TouchableOpacity>
+              {(can('registrarVentas') || can('registrarPagos')) && (
+                <TouchableOpacity
+                  style={styles.addButton}
+                  onPress={handleCreateTransaction}
+                >
+                  <Ionicons name="add" size={20} color="#fff" />
+                  <Text style={styles.addButtonText}>Nuevo</Text>
+                </TouchableOpacity>
+              )}
             </>
           )}
         </View>
@@ -227,9 +265,11 @@ export default function HistoryScreen() {
         ) : (
           <TransactionHistoryList
             events={transactions}
-            onEditEvent={(event) => handleEditEvent(event)}
-            onDeleteEvent={(event) => handleDeleteEvent(event.id)}
+            monedaPredeterminada={monedaPredeterminada}
+            onEditEvent={canEditEvents ? (event) => handleEditEvent(event) : undefined}
+            onDeleteEvent={canEditEvents ? (event) => handleDeleteEvent(event.id) : undefined}
             onViewNotes={(event) => handleViewNotes(event)}
+            onViewHistory={(event) => handleViewHistory(event)}
           />
         )}
       </View>
@@ -243,6 +283,11 @@ export default function HistoryScreen() {
           onCreateSale={handleCreateSale}
           onCreatePayment={handleCreatePayment}
           onCreateProduct={handleCreateProduct}
+          defaultMoneda={monedaPredeterminada}
+          events={transactions}
+          limiteCredito={selectedClient.limiteCredito}
+          bloquearSobreLimite={selectedClient.bloquearSobreLimite}
+          cliente={selectedClient}
           isLoading={isLoading}
         />
       )}
@@ -274,6 +319,24 @@ export default function HistoryScreen() {
           clienteName={selectedClient.nombre}
         />
       )}
+      {}
+      <EventHistoryModal
+        visible={!!historyEvent}
+        onClose={() => setHistoryEvent(null)}
+        empresaId={empresaId}
+        event={historyEvent}
+        canRevert={canEditEvents}
+        onReverted={refreshEvents}
+      />
+      {selectedClient && (
+        <StatementModal
+          visible={showStatementModal}
+          onClose={() => setShowStatementModal(false)}
+          client={selectedClient}
+          events={transactions}
+          monedaPredeterminada={monedaPredeterminada}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -305,6 +368,12 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  pendingText: {
+    fontSize: 13,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginTop: 2,
+  },
   headerActions: {
     flexDirection: 'row',
     alignItems: 'center',
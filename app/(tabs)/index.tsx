@@ -17,13 +17,34 @@ import { Product, CreateProductData, UpdateProductData } from '@/schemas/types';
 import ProductService from '@/services/ProductService';
 import ProductForm from '@/components/ProductForm';
 import AppLogo from '@/components/AppLogo';
+import { useCompanyCurrency } from '@/hooks/useCompanyCurrency';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import ExportButton from '@/components/ExportButton';
+import ImportModal from '@/components/ImportModal';
+import StockMovementModal from '@/components/StockMovementModal';
+import { buildProductsTable } from '@/schemas/export-utils';
+import { StockStatus, getLowStockProducts, getStockStatus } from '@/schemas/stock';
+import { formatQuantity } from '@/schemas/units';
+import { getParentProduct, getVariants, groupProductsWithVariants, isVariant } from '@/schemas/variants';
+const STOCK_STATUS_COLORS: Record<StockStatus, string> = {
+  sinControl: '#999',
+  disponible: '#279D2E',
+  bajo: '#FF9800',
+  agotado: '#dc3545',
+};
 export default function ProductManagementScreen() {
   const router = useRouter();
   const { empresaId } = useAuth();
+  const monedaPredeterminada = useCompanyCurrency();
+  const { can } = useCompanyRole();
+  const canManageProducts = can('gestionarProductos');
   const { products, productsLoading, refreshProducts } = useProducts();
   const [isLoading, setIsLoading] = useState(false);
   const [formVisible, setFormVisible] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | undefined>();
+  const [variantParent, setVariantParent] = useState<Product | undefined>();
+  const [importVisible, setImportVisible] = useState(false);
+  const [stockProductId, setStockProductId] = useState<string | null>(null);
   const productService = ProductService.getInstance();
   useEffect(() => {
     initializeService();
@@ -44,10 +65,17 @@ export default function ProductManagementScreen() {
   };
   const handleCreateProduct = () => {
     setEditingProduct(undefined);
+    setVariantParent(undefined);
+    setFormVisible(true);
+  };
+  const handleCreateVariant = (parent: Product) => {
+    setEditingProduct(undefined);
+    setVariantParent(parent);
     setFormVisible(true);
   };
   const handleEditProduct = (product: Product) => {
     setEditingProduct(product);
+    setVariantParent(getParentProduct(product, products || []) ?? undefined);
     setFormVisible(true);
   };
   const handleSubmitProduct = async (productData: CreateProductData | UpdateProductData) => {
@@ -102,6 +130,10 @@ export default function ProductManagementScreen() {
   };
   const handleDeleteProduct = async (product: Product) => {
     if (!empresaId) return;
+    if (getVariants(products || [], product.id).length > 0) {
+      Alert.alert('No se puede eliminar', 'Este producto tiene variantes. Elimina primero sus variantes.');
+      return;
+    }
     setIsLoading(true);
     try {
       const dependencies = await productService.checkProductDependencies(empresaId, product.id);
@@ -144,19 +176,47 @@ export default function ProductManagementScreen() {
       setIsLoading(false);
     }
   };
+  const displayedProducts = groupProductsWithVariants(products || []); // Variants listed under their parent
+  const topLevelProducts = displayedProducts.filter(product => !getParentProduct(product, displayedProducts));
+  const handleMoveTopLevel = (product: Product, direction: -1 | 1) => {
+    const target = topLevelProducts[topLevelProducts.indexOf(product) + direction];
+    if (!target || !products) return;
+    const sorted = [...products].sort((a, b) => (a.posicion || 0) - (b.posicion || 0));
+    handleMoveProduct(sorted.indexOf(product), sorted.indexOf(target));
+  };
+  const lowStockCount = getLowStockProducts(products || []).length;
+  const stockProduct = products?.find(product => product.id === stockProductId) ?? null; // Live copy so the modal shows the new stock
+  const renderStock = (product: Product) => {
+    const status = getStockStatus(product);
+    if (status === 'sinControl') return null;
+    return (
+      <View style={[styles.stockBadge, { borderColor: STOCK_STATUS_COLORS[status] }]}>
+        {status !== 'disponible' && (
+          <Ionicons name="warning" size={12} color={STOCK_STATUS_COLORS[status]} />
+        )}
+        <Text style={[styles.stockBadgeText, { color: STOCK_STATUS_COLORS[status] }]}>
+          {status === 'agotado' ? 'Sin stock' : `Stock: ${formatQuantity(product.stock!, product.unidad)}`}
+        </Text>
+      </View>
+    );
+  };
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <Ionicons name="cube-outline" size={64} color="#ccc" />
       <Text style={styles.emptyTitle}>No hay productos aún</Text>
-      <Text style={styles.emptySubtitle}>
-        Agrega tu primer producto para comenzar
-      </Text>
-      <TouchableOpacity
-        style={styles.emptyActionButton}
-        onPress={handleCreateProduct}
-      >
-        <Text style={styles.emptyActionText}>Agregar Producto</Text>
-      </TouchableOpacity>
+      {canManageProducts && (
+        <>
+          <Text style={styles.emptySubtitle}>
+            Agrega tu primer producto para comenzar
+          </Text>
+          <TouchableOpacity
+            style={styles.emptyActionButton}
+            onPress={handleCreateProduct}
+          >
+            <Text style={styles.emptyActionText}>Agregar Producto</Text>
+          </TouchableOpacity>
+        </>
+      )}
     </View>
   );
   return (
@@ -168,14 +228,16 @@ export default function ProductManagementScreen() {
       </View>
       {}
       <View style={styles.headerContainer}>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={handleCreateProduct}
-          disabled={isLoading}
-        >
-          <Ionicons name="add" size={20} color="#fff" />
-          <Text style={styles.addButtonText}>Nuevo Producto</Text>
-        </TouchableOpacity>
+        {canManageProducts && (
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={handleCreateProduct}
+            disabled={isLoading}
+          >
+            <Ionicons name="add" size={20} color="#fff" />
+            <Text style={styles.addButtonText}>Nuevo Producto</Text>
+          </TouchableOpacity>
+        )}
         {}
         <TouchableOpacity
           style={styles.refreshButton}
@@ -185,6 +247,21 @@ export default function ProductManagementScreen() {
           <Ionicons name="refresh" size={18} color="#25B4BD" />
         </TouchableOpacity>
         {}
+        {canManageProducts && (
+          <TouchableOpacity
+            style={styles.refreshButton}
+            onPress={() => setImportVisible(true)}
+            disabled={isLoading || !empresaId}
+          >
+            <Ionicons name="cloud-upload-outline" size={18} color="#25B4BD" />
+          </TouchableOpacity>
+        )}
+        {}
+        <ExportButton
+          buildTable={() => buildProductsTable(products || [], monedaPredeterminada)}
+          disabled={isLoading || productsLoading}
+        />
+        {}
         <TouchableOpacity
           style={styles.companyButton}
           onPress={() => {
@@ -197,6 +274,15 @@ export default function ProductManagementScreen() {
         </TouchableOpacity>
       </View>
       {}
+      {lowStockCount > 0 && (
+        <View style={styles.lowStockBanner}>
+          <Ionicons name="warning" size={18} color="#FF9800" />
+          <Text style={styles.lowStockText}>
+            {lowStockCount === 1 ? '1 producto con stock bajo' : `${lowStockCount} productos con stock bajo`}
+          </Text>
+        </View>
+      )}
+      {}
       {productsLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#25B4BD" />
@@ -204,38 +290,60 @@ export default function ProductManagementScreen() {
         </View>
       ) : (
         <FlatList
-          data={products ? [...products].sort((a, b) => (a.posicion || 0) - (b.posicion || 0)) : []}
+          data={displayedProducts}
           keyExtractor={(item) => item.id}
-          renderItem={({ item, index }) => (
-            <View style={styles.productRow}>
-              <View style={styles.productInfo}>
-                <View style={[styles.colorDot, { backgroundColor: item.colorFondo }]} />
-                <Text style={styles.productName}>{item.nombre}</Text>
-              </View>
-              <View style={styles.rowActions}>
-                <TouchableOpacity
-                  style={[styles.iconButton, index === 0 && styles.iconButtonDisabled]}
-                  onPress={() => handleMoveProduct(index, index - 1)}
-                  disabled={index === 0 || isLoading}
-                >
-                  <Ionicons name="chevron-up" size={18} color={index === 0 ? '#bbb' : '#25B4BD'} />
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.iconButton, (products ? index === products.length - 1 : true) && styles.iconButtonDisabled]}
-                  onPress={() => handleMoveProduct(index, index + 1)}
-                  disabled={!products || index === products.length - 1 || isLoading}
-                >
-                  <Ionicons name="chevron-down" size={18} color={!products || index === products.length - 1 ? '#bbb' : '#25B4BD'} />
-                </TouchableOpacity>
-                <TouchableOpacity style={styles.iconButton} onPress={() => handleEditProduct(item)} disabled={isLoading}>
-                  <Ionicons name="create-outline" size={18} color="#2C3E50" />
-                </TouchableOpacity>
-                <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteProduct(item)} disabled={isLoading}>
-                  <Ionicons name="trash-outline" size={18} color="#E74C3C" />
-                </TouchableOpacity>
+          renderItem={({ item }) => {
+            const topLevelIndex = topLevelProducts.indexOf(item);
+            const isFirst = topLevelIndex === 0;
+            const isLast = topLevelIndex === topLevelProducts.length - 1;
+            return (
+              <View style={[styles.productRow, topLevelIndex === -1 && styles.variantRow]}>
+                <View style={styles.productInfo}>
+                  <View style={[styles.colorDot, { backgroundColor: item.colorFondo }]} />
+                  <View>
+                    <Text style={styles.productName}>{item.nombre}</Text>
+                    {renderStock(item)}
+                  </View>
+                </View>
+                {canManageProducts && (
+                  <View style={styles.rowActions}>
+                    {topLevelIndex !== -1 && (
+                      <>
+                        <TouchableOpacity
+                          style={[styles.iconButton, isFirst && styles.iconButtonDisabled]}
+                          onPress={() => handleMoveTopLevel(item, -1)}
+                          disabled={isFirst || isLoading}
+                        >
+                          <Ionicons name="chevron-up" size={18} color={isFirst ? '#bbb' : '#25B4BD'} />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.iconButton, isLast && styles.iconButtonDisabled]}
+                          onPress={() => handleMoveTopLevel(item, 1)}
+                          disabled={isLast || isLoading}
+                        >
+                          <Ionicons name="chevron-down" size={18} color={isLast ? '#bbb' : '#25B4BD'} />
+                        </TouchableOpacity>
+                      </>
+                    )}
+                    {!isVariant(item) && (
+                      <TouchableOpacity style={styles.iconButton} onPress={() => handleCreateVariant(item)} disabled={isLoading}>
+                        <Ionicons name="git-branch-outline" size={18} color="#25B4BD" />
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.iconButton} onPress={() => setStockProductId(item.id)} disabled={isLoading}>
+                      <Ionicons name="cube-outline" size={18} color="#25B4BD" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleEditProduct(item)} disabled={isLoading}>
+                      <Ionicons name="create-outline" size={18} color="#2C3E50" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteProduct(item)} disabled={isLoading}>
+                      <Ionicons name="trash-outline" size={18} color="#E74C3C" />
+                    </TouchableOpacity>
+                  </View>
+                )}
               </View>
-            </View>
-          )}
+            );
+          }}
           ListEmptyComponent={renderEmptyState}
           contentContainerStyle={[
             styles.listContainer,
@@ -249,8 +357,29 @@ export default function ProductManagementScreen() {
         onClose={() => setFormVisible(false)}
         onSubmit={handleSubmitProduct}
         product={editingProduct}
+        parentProduct={variantParent}
+        defaultMoneda={monedaPredeterminada}
         isLoading={isLoading}
       />
+      {empresaId && (
+        <StockMovementModal
+          visible={stockProduct !== null}
+          empresaId={empresaId}
+          product={stockProduct}
+          onClose={() => setStockProductId(null)}
+        />
+      )}
+      {empresaId && (
+        <ImportModal
+          visible={importVisible}
+          onClose={() => setImportVisible(false)}
+          tipo="productos"
+          empresaId={empresaId}
+          existingProducts={products || []}
+          monedaPredeterminada={monedaPredeterminada}
+          onImported={handleRefreshProducts}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -389,6 +518,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e0e0e0',
   },
+  variantRow: {
+    marginLeft: 36,
+  },
   productInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -406,6 +538,36 @@ const styles = StyleSheet.create({
     color: '#333',
     fontWeight: '600',
   },
+  stockBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  stockBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  lowStockBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#fff3e0',
+    borderBottomWidth: 1,
+    borderBottomColor: '#ffe0b2',
+  },
+  lowStockText: {
+    fontSize: 14,
+    color: '#e65100',
+    fontWeight: '600',
+  },
   rowActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,445 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/context/AuthProvider';
+import { useClients } from '@/context/RealtimeDataProvider';
+import { useCompanyCurrency } from '@/hooks/useCompanyCurrency';
+import { TransactionEventService } from '@/services/TransactionEventService';
+import { Moneda, MONEDAS, TransactionEvent } from '@/schemas/types';
+import { formatCurrency } from '@/schemas/business-logic';
+import { buildEventsTable } from '@/schemas/export-utils';
+import ExportButton from '@/components/ExportButton';
+import {
+  ReportPeriod,
+  ReportRange,
+  calculatePeriodReport,
+  getReportRange,
+  shiftReportRange
+} from '@/schemas/reports';
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  dia: 'Día',
+  semana: 'Semana',
+  mes: 'Mes',
+};
+const formatRange = (periodo: ReportPeriod, range: ReportRange): string => {
+  const options: Intl.DateTimeFormatOptions = { day: '2-digit', month: 'short' };
+  if (periodo === 'dia') {
+    return range.desde.toLocaleDateString('es-AR', { ...options, year: 'numeric' });
+  }
+  if (periodo === 'mes') {
+    return range.desde.toLocaleDateString('es-AR', { month: 'long', year: 'numeric' });
+  }
+  return `${range.desde.toLocaleDateString('es-AR', options)} - ${range.hasta.toLocaleDateString('es-AR', options)}`;
+};
+export default function ReportsScreen() {
+  const { empresaId } = useAuth();
+  const { clients } = useClients();
+  const monedaPredeterminada = useCompanyCurrency();
+  const [periodo, setPeriodo] = useState<ReportPeriod>('dia');
+  const [range, setRange] = useState<ReportRange>(() => getReportRange('dia'));
+  const [moneda, setMoneda] = useState<Moneda>(monedaPredeterminada);
+  const [events, setEvents] = useState<TransactionEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  useEffect(() => {
+    setMoneda(monedaPredeterminada);
+  }, [monedaPredeterminada]);
+  const loadEvents = useCallback(async () => {
+    if (!empresaId) return;
+    setIsLoading(true);
+    try {
+      const periodEvents = await TransactionEventService.getEventsInRange(empresaId, range.desde, range.hasta);
+      setEvents(periodEvents);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [empresaId, range]);
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+  const report = useMemo(
+    () => calculatePeriodReport(events, range, moneda, monedaPredeterminada),
+    [events, range, moneda, monedaPredeterminada]
+  );
+  const clientNames = useMemo(() => {
+    const names: { [clienteId: string]: string } = {};
+    clients.forEach(client => {
+      names[client.id] = client.nombre;
+    });
+    return names;
+  }, [clients]);
+  const handlePeriodChange = (nextPeriodo: ReportPeriod) => {
+    setPeriodo(nextPeriodo);
+    setRange(getReportRange(nextPeriodo, range.desde));
+  };
+  const isCurrentPeriod = range.hasta.getTime() >= Date.now();
+  const renderSummaryCard = (label: string, amount: number, icon: keyof typeof Ionicons.glyphMap, color: string) => (
+    <View style={styles.summaryCard}>
+      <Ionicons name={icon} size={20} color={color} />
+      <Text style={styles.summaryLabel}>{label}</Text>
+      <Text style={[styles.summaryAmount, { color }]}>{formatCurrency(amount, moneda)}</Text>
+    </View>
+  );
+  if (!empresaId) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>No hay empresa seleccionada</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+  return (
+    <SafeAreaView style={styles.container}>
+      {}
+      <View style={styles.header}>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Reportes</Text>
+          <ExportButton
+            label="Movimientos"
+            buildTable={() => buildEventsTable(events, clientNames, monedaPredeterminada)}
+            disabled={isLoading}
+          />
+        </View>
+        <View style={styles.segmentRow}>
+          {(Object.keys(PERIOD_LABELS) as ReportPeriod[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segment, periodo === option && styles.activeSegment]}
+              onPress={() => handlePeriodChange(option)}
+            >
+              <Text style={[styles.segmentText, periodo === option && styles.activeSegmentText]}>
+                {PERIOD_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.rangeRow}>
+          <TouchableOpacity
+            style={styles.rangeButton}
+            onPress={() => setRange(shiftReportRange(periodo, range, -1))}
+          >
+            <Ionicons name="chevron-back" size={20} color="#25B4BD" />
+          </TouchableOpacity>
+          <Text style={styles.rangeText}>{formatRange(periodo, range)}</Text>
+          <TouchableOpacity
+            style={[styles.rangeButton, isCurrentPeriod && styles.disabledRangeButton]}
+            onPress={() => setRange(shiftReportRange(periodo, range, 1))}
+            disabled={isCurrentPeriod}
+          >
+            <Ionicons name="chevron-forward" size={20} color={isCurrentPeriod ? '#ccc' : '#25B4BD'} />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.segmentRow}>
+          {MONEDAS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.currencyChip, moneda === option && styles.activeSegment]}
+              onPress={() => setMoneda(option)}
+            >
+              <Text style={[styles.segmentText, moneda === option && styles.activeSegmentText]}>
+                {option}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+      {isLoading && events.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#25B4BD" />
+          <Text style={styles.loadingText}>Cargando reporte...</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadEvents} />}
+        >
+          {}
+          <View style={styles.summaryGrid}>
+            {renderSummaryCard('Ventas', report.totals.ingresos, 'cart', '#25B4BD')}
+            {renderSummaryCard('Costo', report.totals.costo, 'pricetag', '#6c757d')}
+            {renderSummaryCard('Ganancia', report.totals.ganancia, 'trending-up', '#279D2E')}
+            {renderSummaryCard('Cobranzas', report.totals.cobranzas, 'cash', '#1e7e25')}
+          </View>
+          <View style={styles.netCard}>
+            <Text style={styles.netLabel}>Variación de cuentas por cobrar</Text>
+            <Text style={[
+              styles.netAmount,
+              { color: report.totals.variacionSaldo > 0 ? '#dc3545' : '#279D2E' }
+            ]}>
+              {report.totals.variacionSaldo > 0 ? '+' : ''}{formatCurrency(report.totals.variacionSaldo, moneda)}
+            </Text>
+            <Text style={styles.netDetail}>
+              {report.totals.cantidadVentas} ventas · {report.totals.cantidadPagos} pagos
+            </Text>
+          </View>
+          {}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Por producto</Text>
+            {report.porProducto.length === 0 ? (
+              <Text style={styles.emptyText}>Sin ventas en este período</Text>
+            ) : (
+              report.porProducto.map(row => (
+                <View key={row.producto} style={styles.row}>
+                  <View style={[styles.colorDot, { backgroundColor: row.productoColor || '#ccc' }]} />
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{row.producto}</Text>
+                    <Text style={styles.rowSubtitle}>
+                      {row.cantidad} u. · Costo {formatCurrency(row.costo, moneda)}
+                    </Text>
+                  </View>
+                  <View style={styles.rowAmounts}>
+                    <Text style={styles.rowAmount}>{formatCurrency(row.ingresos, moneda)}</Text>
+                    <Text style={styles.rowProfit}>+{formatCurrency(row.ganancia, moneda)}</Text>
+                  </View>
+                </View>
+              ))
+            )}
+          </View>
+          {}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Por cliente</Text>
+            {report.porCliente.length === 0 ? (
+              <Text style={styles.emptyText}>Sin movimientos en este período</Text>
+            ) : (
+              report.porCliente.map(row => (
+                <View key={row.clienteId} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{clientNames[row.clienteId] || 'Cliente eliminado'}</Text>
+                    <Text style={styles.rowSubtitle}>
+                      Ventas {formatCurrency(row.ingresos, moneda)} · Cobrado {formatCurrency(row.cobranzas, moneda)}
+                    </Text>
+                  </View>
+                  <View style={styles.rowAmounts}>
+                    <Text style={[
+                      styles.rowAmount,
+                      { color: row.variacionSaldo > 0 ? '#dc3545' : '#279D2E' }
+                    ]}>
+                      {row.variacionSaldo > 0 ? '+' : ''}{formatCurrency(row.variacionSaldo, moneda)}
+                    </Text>
+                    <Text style={styles.rowProfit}>+{formatCurrency(row.ganancia, moneda)}</Text>
+                  </View>
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  header: {
+    padding: 20,
+    paddingTop: 30,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    gap: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+  },
+  currencyChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+  },
+  activeSegment: {
+    backgroundColor: '#25B4BD',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  activeSegmentText: {
+    color: '#fff',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rangeButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  disabledRangeButton: {
+    opacity: 0.5,
+  },
+  rangeText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    textTransform: 'capitalize',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  summaryCard: {
+    width: '48%',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  summaryAmount: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  netCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  netLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  netAmount: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginVertical: 4,
+  },
+  netDetail: {
+    fontSize: 12,
+    color: '#999',
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  rowAmounts: {
+    alignItems: 'flex-end',
+  },
+  rowAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowProfit: {
+    fontSize: 12,
+    color: '#279D2E',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#dc3545',
+    textAlign: 'center',
+  },
+});
@@ -12,7 +12,11 @@ import { ThemeProvider } from '@/context/ThemeProvider';
 import { RealtimeDataProvider } from '@/context/RealtimeDataProvider';
 import { ToastProvider } from '@/context/ToastProvider';
 import OfflineStatusBar from '@/components/OfflineStatusBar';
+import { CollectionReminderService } from '@/services/CollectionReminderService';
+import { BackgroundSyncService } from '@/services/BackgroundSyncService';
 SplashScreen.preventAutoHideAsync();
+CollectionReminderService.configure();
+BackgroundSyncService.defineTask(); // Must run at module scope so headless Android launches can find the task
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [loaded] = useFonts({
@@ -64,6 +68,8 @@ function AppNavigator() {
       <Stack.Screen name="(auth)" options={{ headerShown: false }} />
       <Stack.Screen name="(company)" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen name="sync-conflicts" options={{ headerShown: false, presentation: 'modal' }} />
+      <Stack.Screen name="sync-queue" options={{ headerShown: false, presentation: 'modal' }} />
       <Stack.Screen name="+not-found" options={{ headerShown: false }} />
     </Stack>
   );
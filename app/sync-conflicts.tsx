@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import OfflineDataManager, { SyncConflict } from '@/services/OfflineDataManager';
+import { ConflictChoice } from '@/schemas/sync-conflicts';
+import { formatAuditValue as formatValue } from '@/schemas/audit';
+const COLLECTION_LABELS: Record<string, string> = {
+  clients: 'Cliente',
+  events: 'Transacción',
+  products: 'Producto',
+  members: 'Miembro',
+};
+export default function SyncConflictsScreen() {
+  const router = useRouter();
+  const offlineManager = OfflineDataManager.getInstance();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, Record<string, ConflictChoice>>>({});
+  const [loading, setLoading] = useState(true);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const loadConflicts = useCallback(async () => {
+    const stored = await offlineManager.getConflicts();
+    setConflicts(stored);
+    setChoices(prev => {
+      const next: Record<string, Record<string, ConflictChoice>> = {};
+      for (const conflict of stored) {
+        next[conflict.id] = prev[conflict.id] ?? conflict.fields.reduce((acc, field) => {
+          acc[field.field] = 'local'; // Keep the user's own work unless they pick the server value
+          return acc;
+        }, {} as Record<string, ConflictChoice>);
+      }
+      return next;
+    });
+    setLoading(false);
+  }, [offlineManager]);
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+  const setChoice = (conflictId: string, field: string, choice: ConflictChoice) => {
+    setChoices(prev => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], [field]: choice }
+    }));
+  };
+  const setAllChoices = (conflict: SyncConflict, choice: ConflictChoice) => {
+    setChoices(prev => ({
+      ...prev,
+      [conflict.id]: conflict.fields.reduce((acc, field) => {
+        acc[field.field] = choice;
+        return acc;
+      }, {} as Record<string, ConflictChoice>)
+    }));
+  };
+  const handleResolve = async (conflict: SyncConflict) => {
+    setResolving(conflict.id);
+    try {
+      const resolved = await offlineManager.resolveSyncConflict(conflict.id, choices[conflict.id] ?? {});
+      if (!resolved) {
+        Alert.alert('Error', 'No se pudo aplicar la resolución del conflicto');
+      }
+      await loadConflicts();
+    } finally {
+      setResolving(null);
+    }
+  };
+  const renderValueOption = (
+    conflict: SyncConflict,
+    field: string,
+    choice: ConflictChoice,
+    value: any
+  ) => {
+    const selected = choices[conflict.id]?.[field] === choice;
+    return (
+      <TouchableOpacity
+        style={[styles.valueOption, selected && styles.selectedValueOption]}
+        onPress={() => setChoice(conflict.id, field, choice)}
+      >
+        <View style={styles.valueOptionHeader}>
+          <Ionicons
+            name={selected ? 'radio-button-on' : 'radio-button-off'}
+            size={16}
+            color={selected ? '#25B4BD' : '#999'}
+          />
+          <Text style={styles.valueOptionLabel}>{choice === 'local' ? 'Mi versión' : 'Servidor'}</Text>
+        </View>
+        <Text style={styles.valueText}>{formatValue(value)}</Text>
+      </TouchableOpacity>
+    );
+  };
+  const renderConflict = ({ item: conflict }: { item: SyncConflict }) => {
+    const isResolving = resolving === conflict.id;
+    return (
+      <View style={styles.conflictCard}>
+        {}
+        <View style={styles.conflictHeader}>
+          <Text style={styles.conflictTitle}>
+            {COLLECTION_LABELS[conflict.item.collection] ?? conflict.item.collection}: {conflict.documentLabel || conflict.item.documentId}
+          </Text>
+          <Text style={styles.conflictSubtitle}>
+            Editado sin conexión el {new Date(conflict.item.timestamp).toLocaleString('es-AR')}
+          </Text>
+          <Text style={styles.conflictSubtitle}>
+            Cambiado en el servidor el {new Date(conflict.serverVersion).toLocaleString('es-AR')}
+          </Text>
+        </View>
+        {}
+        {conflict.fields.map(field => (
+          <View key={field.field} style={styles.fieldRow}>
+            <Text style={styles.fieldName}>{field.field}</Text>
+            <View style={styles.valueColumns}>
+              {renderValueOption(conflict, field.field, 'local', field.localValue)}
+              {renderValueOption(conflict, field.field, 'server', field.serverValue)}
+            </View>
+          </View>
+        ))}
+        {}
+        <View style={styles.conflictActions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setAllChoices(conflict, 'local')}>
+            <Text style={styles.secondaryButtonText}>Todo mío</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setAllChoices(conflict, 'server')}>
+            <Text style={styles.secondaryButtonText}>Todo del servidor</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.applyButton, isResolving && styles.disabledButton]}
+            onPress={() => handleResolve(conflict)}
+            disabled={isResolving}
+          >
+            {isResolving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.applyButtonText}>Aplicar</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#25B4BD" />
+      </View>
+    );
+  }
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Conflictos de Sincronización</Text>
+        <Text style={styles.subtitle}>
+          Alguien más modificó estos datos mientras estabas sin conexión. Elegí qué valor conservar en cada campo.
+        </Text>
+      </View>
+      <FlatList
+        data={conflicts}
+        keyExtractor={(item) => item.id}
+        renderItem={renderConflict}
+        contentContainerStyle={conflicts.length === 0 ? styles.emptyList : styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="checkmark-done-circle-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No hay conflictos pendientes</Text>
+          </View>
+        }
+      />
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <Text style={styles.backButtonText}>Volver</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 16,
+    paddingTop: 30,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  conflictCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+  },
+  conflictHeader: {
+    marginBottom: 12,
+  },
+  conflictTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  conflictSubtitle: {
+    fontSize: 12,
+    color: '#888',
+  },
+  fieldRow: {
+    marginBottom: 12,
+  },
+  fieldName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#555',
+    marginBottom: 6,
+  },
+  valueColumns: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  valueOption: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+  },
+  selectedValueOption: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  valueOptionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  valueOptionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  valueText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  secondaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#f8f9fa',
+  },
+  secondaryButtonText: {
+    color: '#25B4BD',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  applyButton: {
+    backgroundColor: '#25B4BD',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  emptyList: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    marginTop: 12,
+  },
+  backButton: {
+    backgroundColor: '#25B4BD',
+    marginHorizontal: 16,
+    marginVertical: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,548 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import OfflineDataManager, { SyncQueueItem, SyncStats } from '@/services/OfflineDataManager';
+import { useAuth } from '@/context/AuthProvider';
+import {
+  SYNC_PRIORITIES,
+  SYNC_PRIORITY_LABELS,
+  SyncRunRecord,
+  describeSyncWrite,
+  formatSyncPayload,
+  parseSyncPayload
+} from '@/schemas/sync-queue';
+const STATUS_LABELS: Record<SyncQueueItem['status'], string> = {
+  pending: 'Pendiente',
+  processing: 'Procesando',
+  failed: 'Fallido',
+  completed: 'Completado',
+};
+const STATUS_COLORS: Record<SyncQueueItem['status'], string> = {
+  pending: '#25B4BD',
+  processing: '#FF9800',
+  failed: '#dc3545',
+  completed: '#279D2E',
+};
+const RECENT_RUNS = 10;
+interface QueueRow {
+  item: SyncQueueItem;
+  failed: boolean;
+  error?: string;
+}
+export default function SyncQueueScreen() {
+  const router = useRouter();
+  const { empresaId } = useAuth();
+  const offlineManager = OfflineDataManager.getInstance();
+  const [rows, setRows] = useState<QueueRow[]>([]);
+  const [clientNames, setClientNames] = useState<Record<string, string>>({});
+  const [stats, setStats] = useState<SyncStats | null>(null);
+  const [history, setHistory] = useState<SyncRunRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<SyncQueueItem | null>(null);
+  const [payloadText, setPayloadText] = useState('');
+  const [payloadErrors, setPayloadErrors] = useState<string[]>([]);
+  const loadQueue = useCallback(async () => {
+    const [failedItems, syncStats, syncHistory] = await Promise.all([
+      offlineManager.getFailedItems(),
+      offlineManager.getSyncStats(),
+      offlineManager.getSyncHistory()
+    ]);
+    setRows([
+      ...offlineManager.getSyncQueue().map(item => ({ item, failed: false, error: item.lastError })),
+      ...failedItems.map(item => ({ item: { ...item, status: 'failed' as const }, failed: true, error: item.finalError }))
+    ]);
+    setStats(syncStats);
+    setHistory(syncHistory);
+    setLoading(false);
+  }, [offlineManager]);
+  useEffect(() => {
+    loadQueue();
+    return offlineManager.subscribeToSyncQueue(() => {
+      loadQueue();
+    });
+  }, [loadQueue, offlineManager]);
+  useEffect(() => {
+    if (!empresaId) return;
+    offlineManager.getCachedClients(empresaId).then(clients => {
+      setClientNames(Object.fromEntries((clients ?? []).map(client => [client.id, client.nombre])));
+    });
+  }, [empresaId, offlineManager]);
+  const openEditor = (item: SyncQueueItem) => {
+    setEditing(item);
+    setPayloadText(formatSyncPayload(item.data));
+    setPayloadErrors([]);
+  };
+  const handleSavePayload = async () => {
+    if (!editing) return;
+    const parsed = parseSyncPayload(payloadText);
+    if (!parsed.data) {
+      setPayloadErrors(parsed.errors);
+      return;
+    }
+    setBusyId(editing.id);
+    try {
+      const result = await offlineManager.updateSyncItemData(editing.id, parsed.data);
+      if (!result.success) {
+        setPayloadErrors(result.errors ?? ['No se pudo guardar el cambio']);
+        return;
+      }
+      setEditing(null);
+      await loadQueue();
+    } finally {
+      setBusyId(null);
+    }
+  };
+  const handleDiscard = (row: QueueRow) => {
+    Alert.alert(
+      'Descartar cambio',
+      `"${describeSyncWrite(row.item, clientNames)}" no se enviará al servidor. Esta acción no se puede deshacer.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Descartar',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(row.item.id);
+            try {
+              const discarded = await offlineManager.discardSyncItem(row.item.id);
+              if (!discarded) {
+                Alert.alert('Error', 'No se pudo descartar el cambio. Si hay una sincronización en curso, intente en unos segundos.');
+              }
+              await loadQueue();
+            } finally {
+              setBusyId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+  const handlePriority = async (item: SyncQueueItem, priority: SyncQueueItem['priority']) => {
+    if (item.priority === priority) return;
+    const updated = await offlineManager.setSyncItemPriority(item.id, priority);
+    if (!updated) {
+      Alert.alert('Error', 'No se pudo cambiar la prioridad');
+    }
+    await loadQueue();
+  };
+  const renderRow = ({ item: row }: { item: QueueRow }) => {
+    const { item } = row;
+    const isBusy = busyId === item.id;
+    const locked = item.status === 'processing';
+    return (
+      <View style={[styles.itemCard, { borderLeftColor: STATUS_COLORS[item.status] }]}>
+        {}
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemTitle} numberOfLines={2}>{describeSyncWrite(item, clientNames)}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[item.status] }]}>
+            <Text style={styles.statusBadgeText}>{STATUS_LABELS[item.status]}</Text>
+          </View>
+        </View>
+        <Text style={styles.itemSubtitle}>
+          Creado el {new Date(item.timestamp).toLocaleString('es-AR')}
+          {item.retryCount > 0 ? ` · ${item.retryCount} reintento${item.retryCount > 1 ? 's' : ''}` : ''}
+        </Text>
+        {row.error && <Text style={styles.errorText}>{row.error}</Text>}
+        {}
+        {!row.failed && (
+          <View style={styles.priorityRow}>
+            <Text style={styles.priorityLabel}>Prioridad:</Text>
+            {SYNC_PRIORITIES.map(priority => (
+              <TouchableOpacity
+                key={priority}
+                style={[styles.priorityChip, item.priority === priority && styles.selectedPriorityChip]}
+                onPress={() => handlePriority(item, priority)}
+                disabled={locked}
+              >
+                <Text style={[styles.priorityChipText, item.priority === priority && styles.selectedPriorityChipText]}>
+                  {SYNC_PRIORITY_LABELS[priority]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {}
+        <View style={styles.itemActions}>
+          {isBusy ? (
+            <ActivityIndicator size="small" color="#25B4BD" />
+          ) : (
+            <>
+              {item.type !== 'delete' && (
+                <TouchableOpacity
+                  style={[styles.secondaryButton, locked && styles.disabledButton]}
+                  onPress={() => openEditor(item)}
+                  disabled={locked}
+                >
+                  <Ionicons name="create-outline" size={16} color="#25B4BD" />
+                  <Text style={styles.secondaryButtonText}>Editar</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.discardButton, locked && styles.disabledButton]}
+                onPress={() => handleDiscard(row)}
+                disabled={locked}
+              >
+                <Ionicons name="trash-outline" size={16} color="#fff" />
+                <Text style={styles.discardButtonText}>Descartar</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+  const renderStats = () => (
+    <View style={styles.statsCard}>
+      <Text style={styles.statsTitle}>Historial de sincronización</Text>
+      {stats && (
+        <>
+          <Text style={styles.statsText}>Procesados: {stats.totalProcessed} · Fallidos: {stats.totalFailed}</Text>
+          <Text style={styles.statsText}>Tiempo promedio: {Math.round(stats.averageProcessingTime)} ms</Text>
+          {stats.lastSuccessfulSync > 0 && (
+            <Text style={styles.statsText}>
+              Última sincronización exitosa: {new Date(stats.lastSuccessfulSync).toLocaleString('es-AR')}
+            </Text>
+          )}
+        </>
+      )}
+      {history.length === 0 ? (
+        <Text style={styles.statsText}>Todavía no hay sincronizaciones registradas</Text>
+      ) : (
+        [...history].reverse().slice(0, RECENT_RUNS).map(run => (
+          <View key={run.timestamp} style={styles.runRow}>
+            <Text style={styles.runDate}>{new Date(run.timestamp).toLocaleString('es-AR')}</Text>
+            <Text style={styles.runText}>
+              {run.processed} ok · <Text style={run.failed > 0 ? styles.runFailed : undefined}>{run.failed} fallidos</Text> · {run.remaining} en cola
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#25B4BD" />
+      </View>
+    );
+  }
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Cola de Sincronización</Text>
+        <Text style={styles.subtitle}>
+          Cambios guardados en este dispositivo que todavía no llegaron al servidor.
+        </Text>
+      </View>
+      <FlatList
+        data={rows}
+        keyExtractor={(row) => row.item.id}
+        renderItem={renderRow}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="cloud-done-outline" size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No hay cambios pendientes</Text>
+          </View>
+        }
+        ListFooterComponent={renderStats()}
+      />
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <Text style={styles.backButtonText}>Volver</Text>
+      </TouchableOpacity>
+      {}
+      <Modal visible={editing !== null} animationType="slide" transparent onRequestClose={() => setEditing(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{editing ? describeSyncWrite(editing, clientNames) : ''}</Text>
+            <Text style={styles.modalHint}>Los datos se validan antes de volver a la cola.</Text>
+            <TextInput
+              style={styles.payloadInput}
+              value={payloadText}
+              onChangeText={setPayloadText}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {payloadErrors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+            <View style={styles.itemActions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditing(null)}>
+                <Text style={styles.secondaryButtonText}>Cancelar</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, busyId !== null && styles.disabledButton]}
+                onPress={handleSavePayload}
+                disabled={busyId !== null}
+              >
+                {busyId !== null ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Validar y guardar</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ebebeb',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ebebeb',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 16,
+    paddingTop: 30,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemSubtitle: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 4,
+  },
+  priorityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+  },
+  priorityLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  priorityChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  selectedPriorityChip: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  priorityChipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  selectedPriorityChipText: {
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  secondaryButtonText: {
+    color: '#25B4BD',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  discardButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#dc3545',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  discardButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  statsCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  statsTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  statsText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  runRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 6,
+  },
+  runDate: {
+    fontSize: 12,
+    color: '#888',
+  },
+  runText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  runFailed: {
+    color: '#dc3545',
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    marginTop: 12,
+  },
+  backButton: {
+    backgroundColor: '#25B4BD',
+    marginHorizontal: 16,
+    marginVertical: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  modalHint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  payloadInput: {
+    minHeight: 200,
+    maxHeight: 360,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontFamily: 'monospace',
+    fontSize: 13,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    backgroundColor: '#25B4BD',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -11,10 +11,13 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { Timestamp } from 'firebase/firestore';
 import DatePickerModule from '@/components/DatePicker';
-import { Client, CreateClientData, UpdateClientData } from '@/schemas/types';
+import { Client, CreateClientData, PriceList, UpdateClientData } from '@/schemas/types';
 import { validateClient } from '@/schemas/validation';
 import { useToast } from '@/context/ToastProvider';
 import LoadingOverlay from '@/components/ui/LoadingOverlay';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { useAuth } from '@/context/AuthProvider';
+import { PriceListService } from '@/services/PriceListService';
 interface ClientFormProps {
   client?: Client;
   onSave: (clientData: CreateClientData | UpdateClientData) => Promise<void>;
@@ -28,6 +31,9 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
     telefono: '',
     notas: '',
     fechaImportante: null as Date | null,
+    limiteCredito: '',
+    bloquearSobreLimite: false,
+    listaPreciosId: null as string | null,
     oculto: false
   });
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
@@ -35,7 +41,11 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
   const [touched, setTouched] = useState<{ [key: string]: boolean }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [canCancel, setCanCancel] = useState(true);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
   const { showToast } = useToast();
+  const { empresaId } = useAuth();
+  const { can } = useCompanyRole();
+  const canManageClients = can('gestionarClientes');
   useEffect(() => {
     if (client) {
       setFormData({
@@ -44,6 +54,9 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
         telefono: client.telefono,
         notas: client.notas || '',
         fechaImportante: client.fechaImportante ? client.fechaImportante.toDate() : null,
+        limiteCredito: client.limiteCredito != null ? client.limiteCredito.toString() : '',
+        bloquearSobreLimite: !!client.bloquearSobreLimite,
+        listaPreciosId: client.listaPreciosId ?? null,
         oculto: client.oculto
       });
     }
@@ -53,6 +66,10 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
     setIsSubmitting(false);
     setCanCancel(true);
   }, [client]);
+  useEffect(() => {
+    if (!empresaId) return;
+    PriceListService.getPriceLists(empresaId).then(setPriceLists);
+  }, [empresaId]);
   const validateField = useCallback((fieldName: string, value: any): string => {
     switch (fieldName) {
       case 'nombre':
@@ -101,16 +118,27 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
           return 'Las notas no pueden exceder 500 caracteres';
         }
         return '';
+      case 'limiteCredito':
+        if (value && value.trim() && (isNaN(Number(value.trim())) || Number(value.trim()) < 0)) {
+          return 'El límite de crédito debe ser un número mayor o igual a 0';
+        }
+        return '';
       default:
         return '';
     }
   }, []);
+  const getLimiteCredito = useCallback((): number | null =>
+    formData.limiteCredito.trim() ? Number(formData.limiteCredito.trim()) : null
+  , [formData.limiteCredito]);
   const validateForm = useCallback((): boolean => {
+    const limiteCredito = getLimiteCredito();
     const clientData: CreateClientData = {
       nombre: formData.nombre.trim(),
       direccion: formData.direccion.trim(),
       telefono: formData.telefono.trim(),
       notas: formData.notas.trim() || undefined,
+      limiteCredito,
+      bloquearSobreLimite: limiteCredito !== null && formData.bloquearSobreLimite,
       oculto: formData.oculto,
     };
     const validation = validateClient(clientData);
@@ -119,6 +147,7 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
     newFieldErrors.direccion = validateField('direccion', formData.direccion);
     newFieldErrors.telefono = validateField('telefono', formData.telefono);
     newFieldErrors.notas = validateField('notas', formData.notas);
+    newFieldErrors.limiteCredito = validateField('limiteCredito', formData.limiteCredito);
     setFieldErrors(newFieldErrors);
     setErrors(validation.errors.reduce((acc, error, index) => {
       acc[`error_${index}`] = error;
@@ -126,7 +155,7 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
     }, {} as { [key: string]: string }));
     const hasFieldErrors = Object.values(newFieldErrors).some(error => error !== '');
     return validation.isValid && !hasFieldErrors;
-  }, [formData, validateField]);
+  }, [formData, validateField, getLimiteCredito]);
   const handleFieldBlur = useCallback((fieldName: string, value: any) => {
     setTouched(prev => ({ ...prev, [fieldName]: true }));
     const error = validateField(fieldName, value);
@@ -134,12 +163,14 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
   }, [validateField]);
   const handleSave = async () => {
     const context = 'ClientForm.handleSave';
+    if (!canManageClients) return;
     const isEditing = !!client;
     setTouched({
       nombre: true,
       direccion: true,
       telefono: true,
       notas: true,
+      limiteCredito: true,
     });
     if (!validateForm()) {
       console.error(`${context}: Form validation failed`, {
@@ -172,6 +203,14 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
       if (formData.fechaImportante) {
         baseData.fechaImportante = Timestamp.fromDate(formData.fechaImportante);
       }
+      const limiteCredito = getLimiteCredito();
+      if (limiteCredito !== null || client?.limiteCredito != null) {
+        baseData.limiteCredito = limiteCredito; // null clears a previous limit
+        baseData.bloquearSobreLimite = limiteCredito !== null && formData.bloquearSobreLimite;
+      }
+      if (formData.listaPreciosId || client?.listaPreciosId) {
+        baseData.listaPreciosId = formData.listaPreciosId; // null unassigns a previous list
+      }
       const clientData: CreateClientData | UpdateClientData = client
         ? baseData as UpdateClientData
         : baseData as CreateClientData;
@@ -288,6 +327,13 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
         {client ? 'Editar Cliente' : 'Nuevo Cliente'}
       </Text>
       { }
+      {!canManageClients && (
+        <View style={styles.permissionNotice}>
+          <Ionicons name="lock-closed" size={20} color="#e65100" />
+          <Text style={styles.permissionNoticeText}>Tu rol no permite modificar clientes</Text>
+        </View>
+      )}
+      { }
       {Object.keys(errors).length > 0 && (
         <View style={styles.errorContainer}>
           <View style={styles.errorHeader}>
@@ -422,6 +468,69 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
           </View>
         </View>
         { }
+        <View style={styles.fieldContainer}>
+          <Text style={styles.label}>
+            <Ionicons name="card" size={16} color="#25B4BD" /> Límite de Crédito
+            {renderFieldSuccess('limiteCredito')}
+          </Text>
+          <TextInput
+            style={getInputStyle('limiteCredito')}
+            value={formData.limiteCredito}
+            onChangeText={(value) => updateField('limiteCredito', value.replace(',', '.'))}
+            onBlur={() => handleFieldBlur('limiteCredito', formData.limiteCredito)}
+            placeholder="Sin límite"
+            keyboardType="numeric"
+            returnKeyType="done"
+          />
+          <Text style={styles.helpText}>
+            <Ionicons name="information-circle" size={12} color="#666" />
+            {' '}Deuda máxima permitida, en la moneda de la empresa
+          </Text>
+          {renderFieldError('limiteCredito')}
+          {formData.limiteCredito.trim() !== '' && (
+            <>
+              <View style={[styles.switchContainer, styles.limitSwitch]}>
+                <Text style={styles.label}>Bloquear ventas sobre el límite</Text>
+                <Switch
+                  value={formData.bloquearSobreLimite}
+                  onValueChange={(value) => updateField('bloquearSobreLimite', value)}
+                  trackColor={{ false: '#767577', true: '#25B4BD' }}
+                  thumbColor={formData.bloquearSobreLimite ? '#ffffff' : '#f4f3f4'}
+                />
+              </View>
+              <Text style={styles.helpText}>
+                Si está desactivado solo se muestra una advertencia. El propietario puede autorizar la venta igualmente
+              </Text>
+            </>
+          )}
+        </View>
+        { }
+        {priceLists.length > 0 && (
+          <View style={styles.fieldContainer}>
+            <Text style={styles.label}>
+              <Ionicons name="pricetags" size={16} color="#25B4BD" /> Lista de Precios
+            </Text>
+            <View style={styles.chipRow}>
+              {[{ id: null, nombre: 'Ninguna' }, ...priceLists].map(list => {
+                const selected = formData.listaPreciosId === list.id;
+                return (
+                  <TouchableOpacity
+                    key={list.id ?? 'ninguna'}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => updateField('listaPreciosId', list.id)}
+                    disabled={!canManageClients}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{list.nombre}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.helpText}>
+              Los productos de la lista se cargan con su precio al registrar una venta para este cliente
+            </Text>
+          </View>
+        )}
+        { }
         {client && (
           <View style={styles.fieldContainer}>
             <View style={styles.switchContainer}>
@@ -441,22 +550,24 @@ export default function ClientForm({ client, onSave, onCancel, isLoading = false
       </View>
       { }
       <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={[
-            styles.button,
-            styles.saveButton,
-            ((isLoading || isSubmitting) || !isFormValid) && styles.buttonDisabled
-          ]}
-          onPress={handleSave}
-          disabled={(isLoading || isSubmitting) || !isFormValid}
-        >
-          {(isLoading || isSubmitting) && (
-            <Ionicons name="hourglass" size={16} color="#fff" style={styles.loadingIcon} />
-          )}
-          <Text style={styles.buttonText}>
-            {(isLoading || isSubmitting) ? 'Guardando...' : 'Guardar'}
-          </Text>
-        </TouchableOpacity>
+        {canManageClients && (
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.saveButton,
+              ((isLoading || isSubmitting) || !isFormValid) && styles.buttonDisabled
+            ]}
+            onPress={handleSave}
+            disabled={(isLoading || isSubmitting) || !isFormValid}
+          >
+            {(isLoading || isSubmitting) && (
+              <Ionicons name="hourglass" size={16} color="#fff" style={styles.loadingIcon} />
+            )}
+            <Text style={styles.buttonText}>
+              {(isLoading || isSubmitting) ? 'Guardando...' : 'Guardar'}
+            </Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={[
             styles.button,
@@ -501,6 +612,22 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     color: '#333',
   },
+  permissionNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff3e0',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9800',
+  },
+  permissionNoticeText: {
+    color: '#e65100',
+    fontSize: 14,
+    marginLeft: 8,
+    flex: 1,
+  },
   errorContainer: {
     backgroundColor: '#ffebee',
     padding: 12,
@@ -615,6 +742,35 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  limitSwitch: {
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 4,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
   helpText: {
     fontSize: 12,
     color: '#666',
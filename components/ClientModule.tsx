@@ -6,7 +6,8 @@ import { router } from 'expo-router';
 import { Timestamp } from 'firebase/firestore';
 import { timestampToDate } from '@/hooks/timestampToDate';
 import { useClientSelection } from '@/context/ClientSelectionProvider';
-import { Client } from '@/schemas/types';
+import { Client, Moneda, DEFAULT_MONEDA } from '@/schemas/types';
+import { formatCurrency } from '@/schemas/business-logic';
 import { useTheme } from '@/context/ThemeProvider';
 import { ThemedView } from '@/components/ThemedView';
 import { SimpleDebtService } from '@/services/SimpleDebtService';
@@ -16,12 +17,14 @@ interface ClientModuleProps {
     onToggleVisibility?: (clientId: string) => void;
     onEdit?: (client: Client) => void;
     showActions?: boolean;
+    monedaPredeterminada?: Moneda;
 }
 const ClientModule = ({
     client,
     onToggleVisibility,
     onEdit,
-    showActions = false
+    showActions = false,
+    monedaPredeterminada = DEFAULT_MONEDA
 }: ClientModuleProps) => {
     const { selectClient, selectedClient } = useClientSelection();
     const { colors, spacing, typography, shadows } = useTheme();
@@ -66,14 +69,18 @@ const ClientModule = ({
             onEdit(client);
         }
     };
-    const formatDebt = (debt: number) => {
+    const formatDebt = (debt: number, moneda: Moneda = monedaPredeterminada) => {
         if (debt == null || isNaN(debt)) {
             return 'Sin deuda';
         }
         if (debt === 0) return 'Sin deuda';
-        if (debt > 0) return `Debe $${debt.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-        return `A favor $${Math.abs(debt).toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+        if (debt > 0) return `Debe ${formatCurrency(debt, moneda)}`;
+        return `A favor ${formatCurrency(Math.abs(debt), moneda)}`;
     };
+    // The persisted per-currency balance is refreshed after every event, the local cache only covers older clients
+    const defaultCurrencyDebt = client.deudaPorMoneda ? client.deudaPorMoneda[monedaPredeterminada] ?? 0 : simpleDebt;
+    const otherCurrencyDebts = Object.entries(client.deudaPorMoneda ?? {})
+        .filter(([moneda, debt]) => moneda !== monedaPredeterminada && typeof debt === 'number' && Math.abs(debt) >= 0.01) as [Moneda, number][];
     const getDebtColor = (debt: number) => {
         if (debt == null || isNaN(debt) || debt === 0) {
             return colors.success;
@@ -136,13 +143,28 @@ const ClientModule = ({
                     <Text style={[
                         styles.debtText,
                         {
-                            color: getDebtColor(simpleDebt),
+                            color: getDebtColor(defaultCurrencyDebt),
                             fontSize: typography.fontSize.md,
                             fontWeight: typography.fontWeight.semibold,
                         }
                     ]}>
-                        {formatDebt(simpleDebt)}
+                        {formatDebt(defaultCurrencyDebt)}
                     </Text>
+                    {otherCurrencyDebts.map(([moneda, debt]) => (
+                        <Text
+                            key={moneda}
+                            style={[
+                                styles.debtText,
+                                {
+                                    color: getDebtColor(debt),
+                                    fontSize: typography.fontSize.md,
+                                    fontWeight: typography.fontWeight.semibold,
+                                }
+                            ]}
+                        >
+                            {formatDebt(debt, moneda)}
+                        </Text>
+                    ))}
                 </View>
                 {showActions && (
                     <View style={[styles.actionButtons, { gap: spacing.xs }]}>
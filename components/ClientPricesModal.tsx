@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Client, Product } from '@/schemas/types';
+import { formatCurrency } from '@/schemas/business-logic';
+import { ClientService } from '@/services/ClientService';
+interface ClientPricesModalProps {
+  visible: boolean;
+  empresaId: string;
+  client: Client;
+  products: Product[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+const parseAmount = (value: string): number => Number(value.replace(',', '.'));
+export default function ClientPricesModal({ visible, empresaId, client, products, onClose, onSaved }: ClientPricesModalProps) {
+  const [productoId, setProductoId] = useState<string | null>(null);
+  const [costoUnitario, setCostoUnitario] = useState('');
+  const [gananciaUnitaria, setGananciaUnitaria] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  useEffect(() => {
+    if (!visible) return;
+    setProductoId(null);
+    setCostoUnitario('');
+    setGananciaUnitaria('');
+    setErrors([]);
+  }, [visible]);
+  const precios = client.preciosEspeciales ?? {};
+  const pricedProducts = products.filter(product => precios[product.id]);
+  const handleSelectProduct = (product: Product) => {
+    const current = precios[product.id];
+    setProductoId(product.id);
+    setCostoUnitario((current?.costoUnitario ?? product.ultimoCosto ?? 0).toString());
+    setGananciaUnitaria((current?.gananciaUnitaria ?? product.ultimaGanancia ?? 0).toString());
+    setErrors([]);
+  };
+  const savePrice = async (id: string, price: { costoUnitario: number; gananciaUnitaria: number } | null) => {
+    setIsSaving(true);
+    try {
+      const result = await new ClientService(empresaId).setSpecialPrice(client, id, price);
+      if (!result.success) {
+        setErrors(result.errors ?? ['No se pudo guardar el precio especial']);
+        return;
+      }
+      setProductoId(null);
+      setErrors([]);
+      onSaved();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  const handleSave = () => {
+    if (!productoId) {
+      setErrors(['Selecciona un producto']);
+      return;
+    }
+    savePrice(productoId, { costoUnitario: parseAmount(costoUnitario), gananciaUnitaria: parseAmount(gananciaUnitaria) });
+  };
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <Text style={styles.title}>Precios especiales</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+            <Text style={styles.helpText}>
+              Reemplazan el precio del producto y de la lista asignada al registrar ventas para {client.nombre}
+            </Text>
+            {pricedProducts.length === 0 ? (
+              <Text style={styles.emptyText}>Este cliente no tiene precios especiales</Text>
+            ) : (
+              pricedProducts.map(product => (
+                <View key={product.id} style={styles.priceItem}>
+                  <TouchableOpacity style={styles.priceInfo} onPress={() => handleSelectProduct(product)}>
+                    <Text style={styles.productName}>{product.nombre}</Text>
+                    <Text style={styles.priceText}>
+                      {formatCurrency(precios[product.id].costoUnitario, product.moneda)} + {formatCurrency(precios[product.id].gananciaUnitaria, product.moneda)}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => savePrice(product.id, null)} disabled={isSaving}>
+                    <Ionicons name="trash-outline" size={20} color="#dc3545" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+            <Text style={styles.sectionTitle}>Producto</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {products.map(item => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.chip, productoId === item.id && styles.selectedChip]}
+                  onPress={() => handleSelectProduct(item)}
+                >
+                  <Text style={[styles.chipText, productoId === item.id && styles.selectedChipText]}>
+                    {item.nombre}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <View style={styles.amountRow}>
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                value={costoUnitario}
+                onChangeText={setCostoUnitario}
+                placeholder="Costo unitario"
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                value={gananciaUnitaria}
+                onChangeText={setGananciaUnitaria}
+                placeholder="Ganancia unitaria"
+                keyboardType="decimal-pad"
+              />
+            </View>
+            {errors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+          </ScrollView>
+          {}
+          <View style={styles.actionContainer}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : (
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                <Text style={styles.saveButtonText}>Guardar precio</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 400,
+    width: '90%',
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  priceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#25B4BD',
+  },
+  priceInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  priceText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  selectedChip: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedChipText: {
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc3545',
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25B4BD',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Client, Moneda, DEFAULT_MONEDA } from '@/schemas/types';
+import { formatCurrency, formatDate } from '@/schemas/business-logic';
+import { CollectionItem, CollectionReason, DEFAULT_DIAS_SIN_PAGO, getCollectionItems } from '@/schemas/collections';
+interface CollectionsListProps {
+  clients: Client[];
+  monedaPredeterminada?: Moneda;
+  onSetPromise?: (client: Client) => void;
+  onOpenClient: (client: Client) => void;
+}
+const DIAS_OPTIONS = [15, DEFAULT_DIAS_SIN_PAGO, 60];
+const REASON_STYLES: Record<CollectionReason, { label: string; color: string }> = {
+  promesaVencida: { label: 'Promesa vencida', color: '#dc3545' },
+  promesaHoy: { label: 'Prometió pagar hoy', color: '#279D2E' },
+  sinPagos: { label: 'Sin pagos', color: '#FF9800' },
+};
+export default function CollectionsList({
+  clients,
+  monedaPredeterminada = DEFAULT_MONEDA,
+  onSetPromise,
+  onOpenClient
+}: CollectionsListProps) {
+  const [diasSinPago, setDiasSinPago] = useState(DEFAULT_DIAS_SIN_PAGO);
+  const items = useMemo(() => getCollectionItems(clients, new Date(), diasSinPago), [clients, diasSinPago]);
+  const totalACobrar = items.reduce((sum, item) => sum + item.client.deudaActual, 0);
+  const describeItem = (item: CollectionItem): string => {
+    if (item.motivo === 'promesaVencida' && item.fechaPromesa) {
+      return `Prometió el ${item.fechaPromesa.toLocaleDateString('es-AR')} (${item.diasVencida} días)`;
+    }
+    if (item.motivo === 'promesaHoy') {
+      return 'Prometió pagar hoy';
+    }
+    return item.client.ultimoPago
+      ? `Último pago: ${formatDate(item.client.ultimoPago)} (${item.diasSinPago} días)`
+      : `Sin pagos registrados (${item.diasSinPago} días)`;
+  };
+  const renderItem = ({ item }: { item: CollectionItem }) => {
+    const reason = REASON_STYLES[item.motivo];
+    return (
+      <TouchableOpacity style={styles.itemCard} onPress={() => onOpenClient(item.client)}>
+        <View style={styles.itemInfo}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemName}>{item.client.nombre}</Text>
+            <Text style={[styles.reasonBadge, { backgroundColor: reason.color }]}>{reason.label}</Text>
+          </View>
+          <Text style={styles.itemDetail}>{describeItem(item)}</Text>
+          <Text style={styles.itemDebt}>{formatCurrency(item.client.deudaActual, monedaPredeterminada)}</Text>
+        </View>
+        {onSetPromise && (
+          <TouchableOpacity style={styles.promiseButton} onPress={() => onSetPromise(item.client)}>
+            <Ionicons name="calendar-outline" size={20} color="#25B4BD" />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+  return (
+    <FlatList
+      data={items}
+      keyExtractor={(item) => item.client.id}
+      renderItem={renderItem}
+      ListHeaderComponent={
+        <View style={styles.summaryContainer}>
+          <Text style={styles.summaryTitle}>
+            {items.length} clientes para cobrar · {formatCurrency(totalACobrar, monedaPredeterminada)}
+          </Text>
+          <View style={styles.optionRow}>
+            <Text style={styles.optionLabel}>Sin pagos hace</Text>
+            {DIAS_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.optionChip, diasSinPago === option && styles.activeOptionChip]}
+                onPress={() => setDiasSinPago(option)}
+              >
+                <Text style={[styles.optionChipText, diasSinPago === option && styles.activeOptionChipText]}>
+                  {option} días
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      }
+      ListEmptyComponent={
+        <View style={styles.emptyContainer}>
+          <Ionicons name="checkmark-done-circle-outline" size={64} color="#ccc" />
+          <Text style={styles.emptyText}>No hay cobros pendientes para hoy</Text>
+        </View>
+      }
+      contentContainerStyle={styles.listContainer}
+      showsVerticalScrollIndicator={false}
+    />
+  );
+}
+const styles = StyleSheet.create({
+  listContainer: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  summaryContainer: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  optionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+  },
+  activeOptionChip: {
+    backgroundColor: '#25B4BD',
+  },
+  optionChipText: {
+    fontSize: 12,
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  activeOptionChipText: {
+    color: '#fff',
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  reasonBadge: {
+    fontSize: 11,
+    color: '#fff',
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  itemDebt: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#dc3545',
+    marginTop: 4,
+  },
+  promiseButton: {
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+});
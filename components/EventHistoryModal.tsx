@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CompanyMember, EventRevision, TransactionEvent } from '@/schemas/types';
+import { formatCurrency, formatDate, formatDateTime } from '@/schemas/business-logic';
+import { buildEventTimeline, EventVersion } from '@/schemas/event-revisions';
+import { formatQuantity } from '@/schemas/units';
+import { TransactionEventService } from '@/services/TransactionEventService';
+import { companyService } from '@/services/CompanyService';
+interface EventHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  empresaId: string;
+  event: TransactionEvent | null;
+  canRevert?: boolean;
+  onReverted?: () => void;
+}
+export default function EventHistoryModal({
+  visible,
+  onClose,
+  empresaId,
+  event,
+  canRevert = false,
+  onReverted
+}: EventHistoryModalProps) {
+  const [revisions, setRevisions] = useState<EventRevision[]>([]);
+  const [members, setMembers] = useState<CompanyMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState<string | null>(null);
+  const loadRevisions = useCallback(async () => {
+    if (!event) return;
+    setLoading(true);
+    try {
+      setRevisions(await TransactionEventService.getEventRevisions(empresaId, event.id));
+    } finally {
+      setLoading(false);
+    }
+  }, [empresaId, event]);
+  useEffect(() => {
+    if (!visible) return;
+    loadRevisions();
+    companyService.getCompanyMembers(empresaId).then(response => {
+      if (response.success && response.data) {
+        setMembers(response.data);
+      }
+    });
+  }, [visible, empresaId, loadRevisions]);
+  const timeline = useMemo(() => (event ? buildEventTimeline(event, revisions) : []), [event, revisions]);
+  if (!event) {
+    return null;
+  }
+  const getMemberLabel = (userId?: string) =>
+    userId ? members.find(member => member.userId === userId)?.email || userId : 'Desconocido';
+  const handleRevert = (revision: EventRevision) => {
+    Alert.alert(
+      'Restaurar versión',
+      'La transacción volverá a esta versión y se recalculará la deuda del cliente. La versión actual quedará guardada en el historial.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Restaurar',
+          onPress: async () => {
+            setReverting(revision.id);
+            try {
+              const result = await TransactionEventService.revertEventToRevision(empresaId, event.id, revision);
+              if (!result.success) {
+                Alert.alert('Error', result.errors?.join('\n') || 'No se pudo restaurar la versión');
+                return;
+              }
+              onReverted?.();
+              onClose();
+            } finally {
+              setReverting(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+  const renderVersionDetails = (datos: TransactionEvent) => {
+    if (datos.tipo === 'venta') {
+      return (
+        <>
+          <Text style={styles.versionMain}>
+            {datos.producto} · {formatQuantity(datos.cantidad, datos.unidad)} × {formatCurrency(datos.costoUnitario + datos.gananciaUnitaria, datos.moneda)}
+          </Text>
+          <Text style={styles.versionDetail}>Total: {formatCurrency(datos.totalVenta, datos.moneda)}</Text>
+        </>
+      );
+    }
+    return (
+      <Text style={styles.versionMain}>Pago: {formatCurrency(datos.montoPago, datos.moneda)}</Text>
+    );
+  };
+  const renderVersion = (version: EventVersion, index: number) => {
+    const isCurrent = !version.revision;
+    const revision = version.revision;
+    return (
+      <View key={revision?.id ?? 'actual'} style={[styles.versionCard, isCurrent && styles.currentVersionCard]}>
+        {}
+        <View style={styles.versionHeader}>
+          <Text style={styles.versionTitle}>
+            {isCurrent ? 'Versión actual' : `Versión ${timeline.length - index}`}
+          </Text>
+          {revision?.motivo === 'reversion' && (
+            <Text style={styles.revertedBadge}>Antes de restaurar</Text>
+          )}
+        </View>
+        {renderVersionDetails(version.datos as TransactionEvent)}
+        <Text style={styles.versionDetail}>Fecha: {formatDate(version.datos.fecha)}</Text>
+        {!!version.datos.notas && (
+          <Text style={styles.versionDetail}>Notas: {version.datos.notas}</Text>
+        )}
+        {}
+        {revision && (
+          <Text style={styles.versionMeta}>
+            Reemplazada el {revision.creado ? formatDateTime(revision.creado) : 'Sin fecha'} por {getMemberLabel(revision.editadoPor)}
+          </Text>
+        )}
+        {version.cambios.length > 0 && (
+          <Text style={styles.versionMeta}>Cambió: {version.cambios.join(', ')}</Text>
+        )}
+        {}
+        {revision && canRevert && (
+          <TouchableOpacity
+            style={[styles.revertButton, reverting !== null && styles.disabledButton]}
+            onPress={() => handleRevert(revision)}
+            disabled={reverting !== null}
+          >
+            {reverting === revision.id ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="arrow-undo" size={16} color="#fff" />
+                <Text style={styles.revertButtonText}>Restaurar</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>Historial de Cambios</Text>
+              <Text style={styles.subtitle}>
+                {event.tipo === 'venta' ? 'Venta' : 'Pago'} del {formatDate(event.fecha)}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#25B4BD" />
+            </View>
+          ) : (
+            <ScrollView style={styles.versionList} contentContainerStyle={styles.versionListContent}>
+              {timeline.map(renderVersion)}
+              {revisions.length === 0 && (
+                <Text style={styles.emptyText}>No hay versiones anteriores guardadas</Text>
+              )}
+            </ScrollView>
+          )}
+          {}
+          <View style={styles.actionContainer}>
+            <TouchableOpacity style={styles.closeActionButton} onPress={onClose}>
+              <Text style={styles.closeActionText}>Cerrar</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 400,
+    width: '90%',
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+  },
+  closeButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
+  loadingContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  versionList: {
+    flexGrow: 0,
+  },
+  versionListContent: {
+    padding: 16,
+    gap: 12,
+  },
+  versionCard: {
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: '#f8f9fa',
+  },
+  currentVersionCard: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  versionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  revertedBadge: {
+    fontSize: 11,
+    color: '#fff',
+    fontWeight: '600',
+    backgroundColor: '#FF9800',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  versionMain: {
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 2,
+  },
+  versionDetail: {
+    fontSize: 13,
+    color: '#555',
+    marginTop: 2,
+  },
+  versionMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 6,
+  },
+  revertButton: {
+    flexDirection: 'row',
+    alignSelf: 'flex-end',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#25B4BD',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginTop: 10,
+  },
+  revertButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  actionContainer: {
+    padding: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  closeActionButton: {
+    backgroundColor: '#25B4BD',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  closeActionText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
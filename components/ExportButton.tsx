@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useToast } from '@/context/ToastProvider';
+import { ExportService } from '@/services/ExportService';
+import { ExportFormat, ExportTable } from '@/schemas/export-utils';
+interface ExportButtonProps {
+  buildTable: () => ExportTable;
+  disabled?: boolean;
+  label?: string;
+}
+const FORMAT_OPTIONS: { formato: ExportFormat; label: string; icon: 'document-text-outline' | 'grid-outline' }[] = [
+  { formato: 'xlsx', label: 'Excel (.xlsx)', icon: 'grid-outline' },
+  { formato: 'csv', label: 'CSV (.csv)', icon: 'document-text-outline' },
+];
+export default function ExportButton({ buildTable, disabled = false, label }: ExportButtonProps) {
+  const { showToast } = useToast();
+  const [showOptions, setShowOptions] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const handleExport = async (formato: ExportFormat) => {
+    setShowOptions(false);
+    setIsExporting(true);
+    try {
+      const table = buildTable();
+      if (table.filas.length === 0) {
+        showToast('No hay datos para exportar', 'warning');
+        return;
+      }
+      const result = await ExportService.exportTable(table, formato);
+      if (!result.success) {
+        showToast(result.errors?.join('\n') || 'Error al exportar', 'error');
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.exportButton, (disabled || isExporting) && styles.disabledButton]}
+        onPress={() => setShowOptions(true)}
+        disabled={disabled || isExporting}
+      >
+        {isExporting ? (
+          <ActivityIndicator size="small" color="#25B4BD" />
+        ) : (
+          <Ionicons name="download-outline" size={18} color="#25B4BD" />
+        )}
+        {label && <Text style={styles.exportButtonText}>{label}</Text>}
+      </TouchableOpacity>
+      <Modal
+        visible={showOptions}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setShowOptions(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Exportar</Text>
+              <TouchableOpacity onPress={() => setShowOptions(false)} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            {FORMAT_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.formato}
+                style={styles.optionRow}
+                onPress={() => handleExport(option.formato)}
+              >
+                <Ionicons name={option.icon} size={22} color="#25B4BD" />
+                <Text style={styles.optionText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+const styles = StyleSheet.create({
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  exportButtonText: {
+    color: '#25B4BD',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 400,
+    width: '90%',
+    paddingBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+});
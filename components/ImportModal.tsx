@@ -0,0 +1,369 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useToast } from '@/context/ToastProvider';
+import { Client, Product, Moneda, DEFAULT_MONEDA } from '@/schemas/types';
+import {
+  ImportRowStatus,
+  buildClientImportPreview,
+  buildProductImportPreview
+} from '@/schemas/import-utils';
+import { ImportService, ImportResult } from '@/services/ImportService';
+interface ImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  tipo: 'clientes' | 'productos';
+  empresaId: string;
+  existingClients?: Client[];
+  existingProducts?: Product[];
+  monedaPredeterminada?: Moneda;
+  onImported?: (creados: number) => void;
+}
+const EXPECTED_COLUMNS = {
+  clientes: 'nombre, direccion, telefono, notas, oculto',
+  productos: 'nombre, costo, ganancia, moneda, color, posicion, activo',
+};
+const STATUS_STYLES: Record<ImportRowStatus, { icon: 'checkmark-circle' | 'alert-circle' | 'copy'; color: string }> = {
+  valido: { icon: 'checkmark-circle', color: '#279D2E' },
+  invalido: { icon: 'alert-circle', color: '#dc3545' },
+  duplicado: { icon: 'copy', color: '#FF9800' },
+};
+export default function ImportModal({
+  visible,
+  onClose,
+  tipo,
+  empresaId,
+  existingClients = [],
+  existingProducts = [],
+  monedaPredeterminada = DEFAULT_MONEDA,
+  onImported
+}: ImportModalProps) {
+  const { showToast } = useToast();
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState({ procesados: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const clientPreview = useMemo(
+    () => (tipo === 'clientes' && csvText !== null ? buildClientImportPreview(csvText, existingClients) : null),
+    [tipo, csvText, existingClients]
+  );
+  const productPreview = useMemo(
+    () => (tipo === 'productos' && csvText !== null
+      ? buildProductImportPreview(csvText, existingProducts, monedaPredeterminada)
+      : null),
+    [tipo, csvText, existingProducts, monedaPredeterminada]
+  );
+  const preview = clientPreview ?? productPreview;
+  const canImport = !!preview && preview.validas > 0 && preview.columnasFaltantes.length === 0 && !isImporting;
+  const resetState = () => {
+    setCsvText(null);
+    setFileName('');
+    setProgress({ procesados: 0, total: 0 });
+    setResult(null);
+  };
+  const handleClose = () => {
+    if (isImporting) return;
+    resetState();
+    onClose();
+  };
+  const handlePickFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || picked.assets.length === 0) return;
+      const asset = picked.assets[0];
+      const text = await ImportService.readTextFile(asset.uri);
+      setResult(null);
+      setFileName(asset.name);
+      setCsvText(text);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      showToast('No se pudo leer el archivo', 'error');
+    }
+  };
+  const handleImport = async () => {
+    if (!canImport) return;
+    setIsImporting(true);
+    try {
+      const onProgress = (procesados: number, total: number) => setProgress({ procesados, total });
+      const importResult = clientPreview
+        ? await ImportService.importClients(empresaId, clientPreview.filas, onProgress)
+        : await ImportService.importProducts(empresaId, productPreview!.filas, onProgress);
+      setResult(importResult);
+      setCsvText(null);
+      if (importResult.creados > 0) {
+        showToast(`${importResult.creados} ${tipo} importados`, 'success');
+        onImported?.(importResult.creados);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>Importar {tipo}</Text>
+              <Text style={styles.subtitle}>Columnas: {EXPECTED_COLUMNS[tipo]}</Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton} disabled={isImporting}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          <TouchableOpacity style={styles.pickButton} onPress={handlePickFile} disabled={isImporting}>
+            <Ionicons name="document-attach-outline" size={20} color="#25B4BD" />
+            <Text style={styles.pickButtonText} numberOfLines={1}>
+              {fileName || 'Seleccionar archivo CSV'}
+            </Text>
+          </TouchableOpacity>
+          {}
+          {preview && (
+            <>
+              {preview.columnasFaltantes.length > 0 && (
+                <Text style={styles.missingColumns}>
+                  Faltan columnas: {preview.columnasFaltantes.join(', ')}
+                </Text>
+              )}
+              <View style={styles.summaryRow}>
+                <Text style={[styles.summaryChip, { color: STATUS_STYLES.valido.color }]}>
+                  {preview.validas} válidas
+                </Text>
+                <Text style={[styles.summaryChip, { color: STATUS_STYLES.invalido.color }]}>
+                  {preview.invalidas} con errores
+                </Text>
+                <Text style={[styles.summaryChip, { color: STATUS_STYLES.duplicado.color }]}>
+                  {preview.duplicadas} duplicadas
+                </Text>
+              </View>
+              <ScrollView style={styles.rowList}>
+                {preview.filas.map(row => (
+                  <View key={row.fila} style={styles.previewRow}>
+                    <Ionicons
+                      name={STATUS_STYLES[row.estado].icon}
+                      size={18}
+                      color={STATUS_STYLES[row.estado].color}
+                    />
+                    <View style={styles.previewRowInfo}>
+                      <Text style={styles.previewRowTitle}>
+                        Fila {row.fila}: {row.data.nombre || '(sin nombre)'}
+                      </Text>
+                      {row.errors.map(error => (
+                        <Text key={error} style={styles.previewRowError}>{error}</Text>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          )}
+          {}
+          {isImporting && (
+            <View style={styles.progressRow}>
+              <ActivityIndicator size="small" color="#25B4BD" />
+              <Text style={styles.progressText}>
+                Importando {progress.procesados} de {progress.total}...
+              </Text>
+            </View>
+          )}
+          {result && (
+            <View style={styles.resultContainer}>
+              <Text style={styles.resultText}>{result.creados} {tipo} importados</Text>
+              {result.fallidos.map(failure => (
+                <Text key={failure.fila} style={styles.previewRowError}>
+                  Fila {failure.fila}: {failure.errors.join(', ')}
+                </Text>
+              ))}
+            </View>
+          )}
+          {}
+          <View style={styles.actionContainer}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleClose} disabled={isImporting}>
+              <Text style={styles.cancelButtonText}>{result ? 'Cerrar' : 'Cancelar'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.importButton, !canImport && styles.disabledButton]}
+              onPress={handleImport}
+              disabled={!canImport}
+            >
+              <Text style={styles.importButtonText}>
+                Importar {preview?.validas ?? 0}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 500,
+    width: '92%',
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    textTransform: 'capitalize',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#25B4BD',
+    backgroundColor: '#f8f9fa',
+  },
+  pickButtonText: {
+    flex: 1,
+    color: '#25B4BD',
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  missingColumns: {
+    color: '#dc3545',
+    fontSize: 14,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  summaryChip: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowList: {
+    maxHeight: 300,
+    marginHorizontal: 16,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  previewRowInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  previewRowTitle: {
+    fontSize: 14,
+    color: '#333',
+  },
+  previewRowError: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 2,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  resultContainer: {
+    margin: 16,
+  },
+  resultText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#279D2E',
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  importButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25B4BD',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -11,6 +11,7 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { useConnectionStatus } from '@/context/RealtimeDataProvider';
 import OfflineDataManager from '@/services/OfflineDataManager';
 import { useAuth } from '@/context/AuthProvider';
@@ -21,6 +22,7 @@ interface OfflineStats {
     cacheSize: number;
     queueLength: number;
     failedItemsCount: number;
+    conflictsCount: number;
     lastSync: Record<string, number>;
     isOnline: boolean;
     syncInProgress: boolean;
@@ -37,12 +39,14 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
     const { isConnected, lastSyncTime } = useConnectionStatus();
     const { empresaId } = useAuth();
     const insets = useSafeAreaInsets();
+    const router = useRouter();
     const [syncQueueLength, setSyncQueueLength] = useState(0);
     const [isSyncing, setIsSyncing] = useState(false);
     const [slideAnim] = useState(new Animated.Value(-100));
     const [showDetails, setShowDetails] = useState(false);
     const [offlineStats, setOfflineStats] = useState<OfflineStats | null>(null);
     const [failedItemsCount, setFailedItemsCount] = useState(0);
+    const [conflictsCount, setConflictsCount] = useState(0);
     const [autoHideTimeout, setAutoHideTimeout] = useState<ReturnType<typeof setTimeout> | null>(null);
     const offlineManager = OfflineDataManager.getInstance();
     useEffect(() => {
@@ -54,6 +58,7 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
                     const stats = await offlineManager.getOfflineStats(empresaId);
                     setOfflineStats(stats);
                     setFailedItemsCount(stats.failedItemsCount);
+                    setConflictsCount(stats.conflictsCount);
                 } catch (error) {
                     console.error('Error getting offline stats:', error);
                 }
@@ -74,7 +79,7 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
         if (autoHideTimeout) {
             clearTimeout(autoHideTimeout);
         }
-        const hasIssues = syncQueueLength > 0 || isSyncing || failedItemsCount > 0 || !isConnected;
+        const hasIssues = syncQueueLength > 0 || isSyncing || failedItemsCount > 0 || conflictsCount > 0 || !isConnected;
         const shouldShow = visible && (hasIssues || isConnected);
         if (shouldShow) {
             Animated.timing(slideAnim, {
@@ -99,7 +104,7 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
                 useNativeDriver: true,
             }).start();
         }
-    }, [isConnected, syncQueueLength, isSyncing, visible, slideAnim, failedItemsCount]);
+    }, [isConnected, syncQueueLength, isSyncing, visible, slideAnim, failedItemsCount, conflictsCount]);
     const handleRetrySync = async () => {
         if (isConnected) {
             try {
@@ -120,6 +125,14 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
             console.error('Error retrying failed items:', error);
         }
     };
+    const handleOpenConflicts = () => {
+        setShowDetails(false);
+        router.push('/sync-conflicts');
+    };
+    const handleOpenQueue = () => {
+        setShowDetails(false);
+        router.push('/sync-queue');
+    };
     const getStatusText = () => {
         if (!isConnected) {
             return 'Sin conexión - Trabajando offline';
@@ -127,6 +140,9 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
         if (isSyncing) {
             return 'Sincronizando datos...';
         }
+        if (conflictsCount > 0) {
+            return `${conflictsCount} conflicto${conflictsCount > 1 ? 's' : ''} por revisar`;
+        }
         if (failedItemsCount > 0) {
             return `${failedItemsCount} elemento${failedItemsCount > 1 ? 's' : ''} fallido${failedItemsCount > 1 ? 's' : ''}`;
         }
@@ -137,6 +153,7 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
     };
     const getStatusColor = () => {
         if (!isConnected) return '#dc3545';
+        if (conflictsCount > 0) return '#fd7e14';
         if (failedItemsCount > 0) return '#dc3545';
         if (isSyncing) return '#ffc107';
         if (syncQueueLength > 0) return '#fd7e14';
@@ -144,6 +161,7 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
     };
     const getStatusIcon = () => {
         if (!isConnected) return 'cloud-offline-outline';
+        if (conflictsCount > 0) return 'git-compare-outline';
         if (failedItemsCount > 0) return 'warning-outline';
         if (isSyncing) return 'sync-outline';
         if (syncQueueLength > 0) return 'cloud-upload-outline';
@@ -307,6 +325,17 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
                                         </Text>
                                     </TouchableOpacity>
                                 )}
+                                {conflictsCount > 0 && (
+                                    <TouchableOpacity
+                                        style={[styles.actionButton, { backgroundColor: '#fd7e14' }]}
+                                        onPress={handleOpenConflicts}
+                                    >
+                                        <Ionicons name="git-compare-outline" size={20} color="#fff" />
+                                        <Text style={styles.actionButtonText}>
+                                            Revisar {conflictsCount} conflicto{conflictsCount > 1 ? 's' : ''}
+                                        </Text>
+                                    </TouchableOpacity>
+                                )}
                                 {failedItemsCount > 0 && (
                                     <TouchableOpacity
                                         style={[styles.actionButton, { backgroundColor: '#dc3545' }]}
@@ -317,6 +346,15 @@ export default function OfflineStatusBar({ visible = true }: OfflineStatusBarPro
                                         <Text style={styles.actionButtonText}>Reintentar Fallidos</Text>
                                     </TouchableOpacity>
                                 )}
+                                {(syncQueueLength > 0 || failedItemsCount > 0) && (
+                                    <TouchableOpacity
+                                        style={[styles.actionButton, { backgroundColor: '#6c757d' }]}
+                                        onPress={handleOpenQueue}
+                                    >
+                                        <Ionicons name="list" size={20} color="#fff" />
+                                        <Text style={styles.actionButtonText}>Ver Cola de Sincronización</Text>
+                                    </TouchableOpacity>
+                                )}
                             </View>
                         </>
                     )}
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DatePickerModule from '@/components/DatePicker';
+import { Client } from '@/schemas/types';
+interface PaymentPromiseModalProps {
+  visible: boolean;
+  client: Client | null;
+  onClose: () => void;
+  onSave: (client: Client, fecha: Date | null) => Promise<void>;
+}
+export default function PaymentPromiseModal({ visible, client, onClose, onSave }: PaymentPromiseModalProps) {
+  const [fecha, setFecha] = useState<Date>(new Date());
+  const [isSaving, setIsSaving] = useState(false);
+  useEffect(() => {
+    setFecha(client?.fechaPromesaPago ? client.fechaPromesaPago.toDate() : new Date());
+  }, [client]);
+  if (!client) {
+    return null;
+  }
+  const handleSave = async (nextFecha: Date | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(client, nextFecha);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>Promesa de pago</Text>
+              <Text style={styles.subtitle}>{client.nombre}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          <View style={styles.body}>
+            <Text style={styles.helpText}>
+              Te recordaremos cobrarle a las 9:00 del día prometido
+            </Text>
+            <DatePickerModule key={client.id} value={fecha} onChange={setFecha} />
+          </View>
+          {}
+          <View style={styles.actionContainer}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : (
+              <>
+                {client.fechaPromesaPago && (
+                  <TouchableOpacity style={styles.clearButton} onPress={() => handleSave(null)}>
+                    <Text style={styles.clearButtonText}>Quitar promesa</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.saveButton} onPress={() => handleSave(fecha)}>
+                  <Text style={styles.saveButtonText}>Guardar</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 400,
+    width: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  body: {
+    padding: 20,
+    gap: 12,
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  clearButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  clearButtonText: {
+    color: '#dc3545',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25B4BD',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
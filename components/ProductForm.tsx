@@ -11,16 +11,32 @@ import {
   ScrollView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Product, CreateProductData, UpdateProductData } from '@/schemas/types';
+import {
+  Product,
+  CreateProductData,
+  UpdateProductData,
+  Moneda,
+  MONEDAS,
+  DEFAULT_MONEDA,
+  UnidadMedida,
+  UNIDADES_MEDIDA,
+  DEFAULT_UNIDAD
+} from '@/schemas/types';
+import { formatCurrency } from '@/schemas/business-logic';
+import { UNIT_LABELS } from '@/schemas/units';
+import { buildVariantName, MAX_VARIANT_LENGTH } from '@/schemas/variants';
 import { validateProduct } from '@/schemas/validation';
 import { useToast } from '@/context/ToastProvider';
 import LoadingOverlay from '@/components/ui/LoadingOverlay';
 import AppColorPicker from '@/components/ColorPicker';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
 interface ProductFormProps {
   visible: boolean;
   onClose: () => void;
   onSubmit: (productData: CreateProductData | UpdateProductData) => Promise<void>;
   product?: Product; // If provided, we're editing
+  parentProduct?: Product; // If provided, the form creates or edits a variant of it
+  defaultMoneda?: Moneda;
   isLoading?: boolean;
 }
 const DEFAULT_COLORS = [
@@ -32,12 +48,20 @@ export default function ProductForm({
   onClose,
   onSubmit,
   product,
+  parentProduct,
+  defaultMoneda = DEFAULT_MONEDA,
   isLoading = false
 }: ProductFormProps) {
+  const { can } = useCompanyRole();
+  const canManageProducts = can('gestionarProductos');
   const [nombre, setNombre] = useState('');
   const [colorFondo, setColorFondo] = useState('#808080');
   const [ultimoCosto, setUltimoCosto] = useState('');
   const [ultimaGanancia, setUltimaGanancia] = useState('');
+  const [moneda, setMoneda] = useState<Moneda>(defaultMoneda);
+  const [stockMinimo, setStockMinimo] = useState('');
+  const [unidad, setUnidad] = useState<UnidadMedida>(DEFAULT_UNIDAD);
+  const [variante, setVariante] = useState('');
   const [colorPickerVisible, setColorPickerVisible] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
   const [fieldErrors, setFieldErrors] = useState<{ [key: string]: string }>({});
@@ -46,22 +70,40 @@ export default function ProductForm({
   const [canCancel, setCanCancel] = useState(true);
   const { showToast } = useToast();
   const isEditing = !!product;
+  const nombreCompleto = parentProduct ? buildVariantName(parentProduct.nombre, variante) : nombre.trim();
   useEffect(() => {
     if (product) {
       setNombre(product.nombre);
       setColorFondo(product.colorFondo);
       setUltimoCosto(product.ultimoCosto?.toString() || '');
       setUltimaGanancia(product.ultimaGanancia?.toString() || '');
+      setMoneda(product.moneda ?? defaultMoneda);
+      setStockMinimo(product.stockMinimo?.toString() || '');
+      setUnidad(product.unidad ?? DEFAULT_UNIDAD);
+      setVariante(product.variante ?? '');
+    } else if (parentProduct) {
+      setNombre('');
+      setColorFondo(parentProduct.colorFondo);
+      setUltimoCosto(parentProduct.ultimoCosto?.toString() || ''); // Start from the parent price
+      setUltimaGanancia(parentProduct.ultimaGanancia?.toString() || '');
+      setMoneda(parentProduct.moneda ?? defaultMoneda);
+      setStockMinimo('');
+      setUnidad(parentProduct.unidad ?? DEFAULT_UNIDAD);
+      setVariante('');
     } else {
       setNombre('');
       setColorFondo('#808080');
       setUltimoCosto('');
       setUltimaGanancia('');
+      setMoneda(defaultMoneda);
+      setStockMinimo('');
+      setUnidad(DEFAULT_UNIDAD);
+      setVariante('');
     }
     setErrors([]);
     setFieldErrors({});
     setTouched({});
-  }, [product, visible]);
+  }, [product, parentProduct, visible, defaultMoneda]);
   const validateField = useCallback((fieldName: string, value: any): string => {
     switch (fieldName) {
       case 'nombre':
@@ -75,6 +117,14 @@ export default function ProductForm({
           return 'El nombre debe tener al menos 2 caracteres';
         }
         return '';
+      case 'variante':
+        if (!value || !value.trim()) {
+          return 'El nombre de la variante es requerido';
+        }
+        if (value.trim().length > MAX_VARIANT_LENGTH) {
+          return `La variante no puede exceder ${MAX_VARIANT_LENGTH} caracteres`;
+        }
+        return '';
       case 'colorFondo':
         if (!value || !/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(value)) {
           return 'Selecciona un color válido';
@@ -110,30 +160,43 @@ export default function ProductForm({
           return 'La ganancia no puede exceder $999,999';
         }
         return '';
+      case 'stockMinimo':
+        if (!value || !value.trim()) {
+          return ''; // Optional, no low-stock warning without it
+        }
+        const stockMinimoValue = Number(value);
+        if (isNaN(stockMinimoValue) || stockMinimoValue < 0) {
+          return 'El stock mínimo debe ser un número mayor o igual a 0';
+        }
+        return '';
       default:
         return '';
     }
   }, []);
   const validateForm = useCallback((): boolean => {
     const productData: CreateProductData = {
-      nombre: nombre.trim(),
+      nombre: nombreCompleto,
       colorFondo,
       ultimoCosto: ultimoCosto ? Number(ultimoCosto) : 0, // Required field, default to 0 if empty
       ultimaGanancia: ultimaGanancia ? Number(ultimaGanancia) : 0, // Required field, default to 0 if empty
       activo: true,
       posicion: product?.posicion || 0,
+      unidad,
+      ...(parentProduct && { productoPadreId: parentProduct.id, variante: variante.trim() }),
     };
     const validation = validateProduct(productData);
     const newFieldErrors: { [key: string]: string } = {};
-    newFieldErrors.nombre = validateField('nombre', nombre);
+    newFieldErrors.nombre = validateField('nombre', nombreCompleto);
+    newFieldErrors.variante = parentProduct ? validateField('variante', variante) : '';
     newFieldErrors.colorFondo = validateField('colorFondo', colorFondo);
     newFieldErrors.ultimoCosto = validateField('ultimoCosto', ultimoCosto);
     newFieldErrors.ultimaGanancia = validateField('ultimaGanancia', ultimaGanancia);
+    newFieldErrors.stockMinimo = validateField('stockMinimo', stockMinimo);
     setFieldErrors(newFieldErrors);
     setErrors(validation.errors);
     const hasFieldErrors = Object.values(newFieldErrors).some(error => error !== '');
     return validation.isValid && !hasFieldErrors;
-  }, [nombre, colorFondo, ultimoCosto, ultimaGanancia, product?.posicion, validateField]);
+  }, [nombreCompleto, colorFondo, ultimoCosto, ultimaGanancia, stockMinimo, unidad, variante, parentProduct, product?.posicion, validateField]);
   const handleFieldBlur = useCallback((fieldName: string, value: any) => {
     setTouched(prev => ({ ...prev, [fieldName]: true }));
     const error = validateField(fieldName, value);
@@ -147,6 +210,9 @@ export default function ProductForm({
       case 'nombre':
         setNombre(value);
         break;
+      case 'variante':
+        setVariante(value);
+        break;
       case 'colorFondo':
         setColorFondo(value);
         break;
@@ -156,13 +222,18 @@ export default function ProductForm({
       case 'ultimaGanancia':
         setUltimaGanancia(value);
         break;
+      case 'stockMinimo':
+        setStockMinimo(value);
+        break;
     }
   }, [fieldErrors]);
   const handleSubmit = async () => {
     const context = 'ProductForm.handleSubmit';
+    if (!canManageProducts) return;
 
     setTouched({
       nombre: true,
+      variante: true,
       colorFondo: true,
       ultimoCosto: true,
       ultimaGanancia: true,
@@ -190,11 +261,15 @@ export default function ProductForm({
     setCanCancel(false);
     try {
       const productData: CreateProductData | UpdateProductData = {
-        nombre: nombre.trim(),
+        nombre: nombreCompleto,
         colorFondo,
         ultimoCosto: Number(ultimoCosto) || 0, // Required field
         ultimaGanancia: Number(ultimaGanancia) || 0, // Required field
+        moneda,
+        unidad,
+        ...(parentProduct && { productoPadreId: parentProduct.id, variante: variante.trim() }),
         activo: true,
+        ...(stockMinimo.trim() && { stockMinimo: Number(stockMinimo) }),
         ...(product && { posicion: product.posicion }), // Only include posicion when editing
       };
 
@@ -274,7 +349,7 @@ export default function ProductForm({
     return null;
   };
   const isFormValid = !Object.values(fieldErrors).some(error => error !== '') &&
-    nombre.trim() !== '' &&
+    (parentProduct ? variante.trim() !== '' : nombre.trim() !== '') &&
     colorFondo !== '';
   const handleCancel = () => {
     if (isSubmitting && !canCancel) {
@@ -302,12 +377,20 @@ export default function ProductForm({
         <View style={styles.modalContent}>
           <View style={styles.header}>
             <Text style={styles.title}>
-              {isEditing ? 'Editar Producto' : 'Nuevo Producto'}
+              {parentProduct
+                ? (isEditing ? 'Editar Variante' : 'Nueva Variante')
+                : (isEditing ? 'Editar Producto' : 'Nuevo Producto')}
             </Text>
             <TouchableOpacity onPress={onClose} style={styles.closeButton}>
               <Ionicons name="close" size={24} color="#666" />
             </TouchableOpacity>
           </View>
+          {!canManageProducts && (
+            <View style={styles.permissionNotice}>
+              <Ionicons name="lock-closed" size={20} color="#e65100" />
+              <Text style={styles.permissionNoticeText}>Tu rol no permite modificar productos</Text>
+            </View>
+          )}
           {errors.length > 0 && (
             <View style={styles.errorContainer}>
               <View style={styles.errorHeader}>
@@ -320,26 +403,45 @@ export default function ProductForm({
             </View>
           )}
           <ScrollView style={styles.form} showsVerticalScrollIndicator={false}>
-            <View style={styles.inputGroup}>
-              <Text style={styles.label}>
-                Nombre del Producto *
-                {touched.nombre && !fieldErrors.nombre && (
-                  <Ionicons name="checkmark-circle" size={16} color="#2e7d32" style={styles.validIcon} />
-                )}
-              </Text>
-              <TextInput
-                style={getInputStyle('nombre')}
-                value={nombre}
-                onChangeText={(value) => handleFieldChange('nombre', value)}
-                onBlur={() => handleFieldBlur('nombre', nombre)}
-                placeholder="Ej: Coca Cola 500ml"
-                maxLength={50}
-                autoCapitalize="words"
-                returnKeyType="next"
-              />
-              <Text style={styles.characterCount}>{nombre.length}/50</Text>
-              {renderFieldError('nombre')}
-            </View>
+            {parentProduct ? (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Variante de {parentProduct.nombre} *</Text>
+                <TextInput
+                  style={getInputStyle('variante')}
+                  value={variante}
+                  onChangeText={(value) => handleFieldChange('variante', value)}
+                  onBlur={() => handleFieldBlur('variante', variante)}
+                  placeholder="Ej: Grande, Frutilla"
+                  maxLength={MAX_VARIANT_LENGTH}
+                  autoCapitalize="words"
+                  returnKeyType="next"
+                />
+                {!!variante.trim() && <Text style={styles.characterCount}>{nombreCompleto}</Text>}
+                {renderFieldError('variante')}
+                {renderFieldError('nombre')}
+              </View>
+            ) : (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>
+                  Nombre del Producto *
+                  {touched.nombre && !fieldErrors.nombre && (
+                    <Ionicons name="checkmark-circle" size={16} color="#2e7d32" style={styles.validIcon} />
+                  )}
+                </Text>
+                <TextInput
+                  style={getInputStyle('nombre')}
+                  value={nombre}
+                  onChangeText={(value) => handleFieldChange('nombre', value)}
+                  onBlur={() => handleFieldBlur('nombre', nombre)}
+                  placeholder="Ej: Coca Cola 500ml"
+                  maxLength={50}
+                  autoCapitalize="words"
+                  returnKeyType="next"
+                />
+                <Text style={styles.characterCount}>{nombre.length}/50</Text>
+                {renderFieldError('nombre')}
+              </View>
+            )}
             <View style={styles.inputGroup}>
               <Text style={styles.label}>
                 Color de Fondo *
@@ -412,6 +514,75 @@ export default function ProductForm({
                 {renderFieldError('ultimaGanancia')}
               </View>
             </View>
+            {product?.ultimaCompraId && (
+              <Text style={styles.costSourceText}>
+                El costo se actualiza con cada compra a proveedores
+                {product.costoPromedio !== undefined && ` · Promedio ponderado: ${formatCurrency(product.costoPromedio, product.moneda)}`}
+              </Text>
+            )}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Moneda</Text>
+              <View style={styles.currencyRow}>
+                {MONEDAS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.currencyOption,
+                      moneda === option && styles.selectedCurrencyOption
+                    ]}
+                    onPress={() => setMoneda(option)}
+                  >
+                    <Text style={[
+                      styles.currencyOptionText,
+                      moneda === option && styles.selectedCurrencyOptionText
+                    ]}>
+                      {option}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Unidad de medida</Text>
+              {parentProduct ? (
+                <Text style={styles.unitHintText}>
+                  Se vende por {UNIT_LABELS[unidad].toLowerCase()}, igual que {parentProduct.nombre}
+                </Text>
+              ) : (
+                <View style={[styles.currencyRow, styles.unitRow]}>
+                  {UNIDADES_MEDIDA.map((option) => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.currencyOption,
+                        unidad === option && styles.selectedCurrencyOption
+                      ]}
+                      onPress={() => setUnidad(option)}
+                    >
+                      <Text style={[
+                        styles.currencyOptionText,
+                        unidad === option && styles.selectedCurrencyOptionText
+                      ]}>
+                        {UNIT_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Stock mínimo</Text>
+              <TextInput
+                style={getInputStyle('stockMinimo')}
+                value={stockMinimo}
+                onChangeText={(value) => handleFieldChange('stockMinimo', value)}
+                onBlur={() => handleFieldBlur('stockMinimo', stockMinimo)}
+                placeholder="Opcional, avisa cuando quedan pocas unidades"
+                keyboardType="decimal-pad"
+                returnKeyType="done"
+              />
+              {renderFieldError('stockMinimo')}
+            </View>
             {(() => {
               const totalPrice = getTotalPrice();
               if (totalPrice !== null && totalPrice > 0) {
@@ -419,7 +590,7 @@ export default function ProductForm({
                   <View style={styles.totalPreview}>
                     <Ionicons name="calculator" size={20} color="#2e7d32" />
                     <Text style={styles.totalText}>
-                      Precio total: ${totalPrice.toFixed(2)}
+                      Precio total: {formatCurrency(totalPrice, moneda)}
                     </Text>
                   </View>
                 );
@@ -444,22 +615,24 @@ export default function ProductForm({
                 Cancelar
               </Text>
             </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.button,
-                styles.submitButton,
-                ((isLoading || isSubmitting) || !isFormValid) && styles.disabledButton
-              ]}
-              onPress={handleSubmit}
-              disabled={(isLoading || isSubmitting) || !isFormValid}
-            >
-              {(isLoading || isSubmitting) && (
-                <Ionicons name="hourglass" size={16} color="#fff" style={styles.loadingIcon} />
-              )}
-              <Text style={styles.submitButtonText}>
-                {(isLoading || isSubmitting) ? 'Guardando...' : (isEditing ? 'Actualizar' : 'Crear')}
-              </Text>
-            </TouchableOpacity>
+            {canManageProducts && (
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.submitButton,
+                  ((isLoading || isSubmitting) || !isFormValid) && styles.disabledButton
+                ]}
+                onPress={handleSubmit}
+                disabled={(isLoading || isSubmitting) || !isFormValid}
+              >
+                {(isLoading || isSubmitting) && (
+                  <Ionicons name="hourglass" size={16} color="#fff" style={styles.loadingIcon} />
+                )}
+                <Text style={styles.submitButtonText}>
+                  {(isLoading || isSubmitting) ? 'Guardando...' : (isEditing ? 'Actualizar' : 'Crear')}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
           { }
           <Modal
@@ -523,6 +696,22 @@ const styles = StyleSheet.create({
   closeButton: {
     padding: 4,
   },
+  permissionNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff3e0',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9800',
+  },
+  permissionNoticeText: {
+    color: '#e65100',
+    fontSize: 14,
+    marginLeft: 8,
+    flex: 1,
+  },
   errorContainer: {
     backgroundColor: '#ffebee',
     padding: 12,
@@ -558,6 +747,12 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     flex: 1,
   },
+  costSourceText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: -8,
+    marginBottom: 16,
+  },
   form: {
     marginBottom: 20,
   },
@@ -635,6 +830,35 @@ const styles = StyleSheet.create({
   halfWidth: {
     width: '48%',
   },
+  currencyRow: {
+    flexDirection: 'row',
+  },
+  currencyOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#f5f5f5',
+  },
+  selectedCurrencyOption: {
+    backgroundColor: '#25B4BD',
+  },
+  unitRow: {
+    flexWrap: 'wrap',
+    rowGap: 8,
+  },
+  unitHintText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  currencyOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  selectedCurrencyOptionText: {
+    color: '#fff',
+  },
   totalPreview: {
     backgroundColor: '#e8f5e8',
     padding: 12,
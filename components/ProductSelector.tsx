@@ -13,6 +13,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { Product, CreateProductData } from '@/schemas/types';
 import ProductService from '@/services/ProductService';
 import { useAuth } from '@/context/AuthProvider';
+import { useCompanyCostMethod } from '@/hooks/useCompanyCostMethod';
+import { getProductCost } from '@/schemas/purchases';
+import { getProductUnit, UNIT_ABBREVIATIONS } from '@/schemas/units';
+import { groupProductsWithVariants, isVariant } from '@/schemas/variants';
 interface ProductSelectorProps {
   visible: boolean;
   onClose: () => void;
@@ -33,6 +37,7 @@ export default function ProductSelector({
   selectedProductId,
 }: ProductSelectorProps) {
   const { empresaId } = useAuth();
+  const metodoCosto = useCompanyCostMethod();
   const [products, setProducts] = useState<ProductWithPrices[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<ProductWithPrices[]>([]);
   const [searchText, setSearchText] = useState('');
@@ -54,21 +59,21 @@ export default function ProductSelector({
         return;
       }
       const productList = result.data;
-      const enhancedProducts: ProductWithPrices[] = productList
+      const enhancedProducts: ProductWithPrices[] = groupProductsWithVariants(productList
         .map(product => {
+          const costo = product.ultimoCosto !== undefined ? getProductCost(product, metodoCosto) : undefined;
           const hasValidPrices =
-            product.ultimoCosto !== undefined &&
+            costo !== undefined &&
             product.ultimaGanancia !== undefined &&
-            product.ultimoCosto > 0 &&
+            costo > 0 &&
             product.ultimaGanancia > 0;
           return {
             ...product,
-            cachedCosto: hasValidPrices ? product.ultimoCosto : undefined,
+            cachedCosto: hasValidPrices ? costo : undefined,
             cachedGanancia: hasValidPrices ? product.ultimaGanancia : undefined,
             hasCachedPrices: hasValidPrices,
           };
-        })
-        .sort((a, b) => a.posicion - b.posicion); // Sort by position
+        })); // Sort by position with variants under their parent
       setProducts(enhancedProducts);
     } catch (error) {
       console.error('Error loading products:', error);
@@ -77,7 +82,7 @@ export default function ProductSelector({
     } finally {
       setIsLoading(false);
     }
-  }, [empresaId, productService]);
+  }, [empresaId, productService, metodoCosto]);
   const filterProducts = useCallback(() => {
     if (!searchText.trim()) {
       setFilteredProducts([...products]);
@@ -152,11 +157,13 @@ export default function ProductSelector({
   const renderProduct = ({ item: product }: { item: ProductWithPrices }) => {
     const isSelected = product.id === selectedProductId;
     const totalPrice = (product.cachedCosto || 0) + (product.cachedGanancia || 0);
+    const unidad = getProductUnit(product);
     return (
       <TouchableOpacity
         style={[
           styles.productItem,
           { backgroundColor: product.colorFondo },
+          isVariant(product) && styles.variantItem,
           isSelected && styles.selectedProduct
         ]}
         onPress={() => handleSelectProduct(product)}
@@ -170,6 +177,7 @@ export default function ProductSelector({
                 Último: Costo {formatPrice(product.cachedCosto)} +
                 Ganancia {formatPrice(product.cachedGanancia)} =
                 Total {formatPrice(totalPrice)}
+                {unidad !== 'unidad' && ` / ${UNIT_ABBREVIATIONS[unidad]}`}
               </Text>
             </View>
           )}
@@ -368,6 +376,11 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     minHeight: 80,
   },
+  variantItem: {
+    marginLeft: 24,
+    minHeight: 64,
+    padding: 16,
+  },
   selectedProduct: {
     borderWidth: 2,
     borderColor: '#fff',
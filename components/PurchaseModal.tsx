@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Product, Supplier } from '@/schemas/types';
+import { formatCurrency } from '@/schemas/business-logic';
+import { applyPurchaseToProduct, getPurchaseTotal } from '@/schemas/purchases';
+import { PurchaseService } from '@/services/PurchaseService';
+import DatePickerModule from '@/components/DatePicker';
+interface PurchaseModalProps {
+  visible: boolean;
+  empresaId: string;
+  suppliers: Supplier[];
+  products: Product[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+const parseAmount = (value: string): number => Number(value.replace(',', '.'));
+export default function PurchaseModal({ visible, empresaId, suppliers, products, onClose, onSaved }: PurchaseModalProps) {
+  const [proveedorId, setProveedorId] = useState<string | null>(null);
+  const [productoId, setProductoId] = useState<string | null>(null);
+  const [cantidad, setCantidad] = useState('');
+  const [costoUnitario, setCostoUnitario] = useState('');
+  const [fecha, setFecha] = useState(new Date());
+  const [notas, setNotas] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  useEffect(() => {
+    if (!visible) return;
+    setProveedorId(suppliers.length === 1 ? suppliers[0].id : null);
+    setProductoId(null);
+    setCantidad('');
+    setCostoUnitario('');
+    setFecha(new Date());
+    setNotas('');
+    setErrors([]);
+  }, [visible, suppliers]);
+  const product = products.find(item => item.id === productoId) ?? null;
+  const cantidadValue = parseAmount(cantidad);
+  const costoValue = parseAmount(costoUnitario);
+  const hasAmounts = cantidad.trim() !== '' && costoUnitario.trim() !== '' &&
+    !isNaN(cantidadValue) && !isNaN(costoValue) && cantidadValue > 0;
+  const preview = product && hasAmounts
+    ? applyPurchaseToProduct(product, { cantidad: cantidadValue, costoUnitario: costoValue })
+    : null;
+  const handleSelectProduct = (selected: Product) => {
+    setProductoId(selected.id);
+    if (!costoUnitario.trim() && selected.ultimoCosto > 0) {
+      setCostoUnitario(selected.ultimoCosto.toString()); // Start from what was paid last time
+    }
+  };
+  const handleSave = async () => {
+    const supplier = suppliers.find(item => item.id === proveedorId);
+    if (!supplier) {
+      setErrors(['Selecciona un proveedor']);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await PurchaseService.recordPurchase(empresaId, supplier, {
+        proveedorId: supplier.id,
+        productoId: productoId ?? '',
+        cantidad: cantidadValue,
+        costoUnitario: costoValue,
+        fecha,
+        notas
+      });
+      if (!result.success) {
+        setErrors(result.errors ?? ['No se pudo registrar la compra']);
+        return;
+      }
+      onSaved();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <Text style={styles.title}>Nueva compra</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+            <Text style={styles.sectionTitle}>Proveedor</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {suppliers.map(supplier => (
+                <TouchableOpacity
+                  key={supplier.id}
+                  style={[styles.chip, proveedorId === supplier.id && styles.selectedChip]}
+                  onPress={() => setProveedorId(supplier.id)}
+                >
+                  <Text style={[styles.chipText, proveedorId === supplier.id && styles.selectedChipText]}>
+                    {supplier.nombre}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <Text style={styles.sectionTitle}>Producto</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {products.map(item => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.chip, productoId === item.id && styles.selectedChip]}
+                  onPress={() => handleSelectProduct(item)}
+                >
+                  <Text style={[styles.chipText, productoId === item.id && styles.selectedChipText]}>
+                    {item.nombre}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <View style={styles.amountRow}>
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                value={cantidad}
+                onChangeText={setCantidad}
+                placeholder="Cantidad"
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                value={costoUnitario}
+                onChangeText={setCostoUnitario}
+                placeholder="Costo unitario"
+                keyboardType="decimal-pad"
+              />
+            </View>
+            {hasAmounts && (
+              <Text style={styles.totalText}>
+                Total: {formatCurrency(getPurchaseTotal(cantidadValue, costoValue), product?.moneda)}
+              </Text>
+            )}
+            {preview && product && (
+              <Text style={styles.helpText}>
+                Stock: {product.stock ?? 0} → {preview.stock} · Costo promedio: {formatCurrency(preview.costoPromedio, product.moneda)}
+              </Text>
+            )}
+            <DatePickerModule value={fecha} onChange={setFecha} />
+            <TextInput
+              style={styles.input}
+              value={notas}
+              onChangeText={setNotas}
+              placeholder="Notas (opcional)"
+              maxLength={200}
+            />
+            {errors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+          </ScrollView>
+          {}
+          <View style={styles.actionContainer}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : (
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                <Text style={styles.saveButtonText}>Registrar compra</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 400,
+    width: '90%',
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  selectedChip: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedChipText: {
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  totalText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#279D2E',
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc3545',
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25B4BD',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useToast } from '@/context/ToastProvider';
+import { Client, TransactionEvent, Moneda, MONEDAS, DEFAULT_MONEDA } from '@/schemas/types';
+import { formatCurrency, resolveEventCurrency } from '@/schemas/business-logic';
+import { ReportRange, getReportRange, shiftReportRange } from '@/schemas/reports';
+import { buildAccountStatement } from '@/schemas/statement';
+import { StatementService, StatementShareMode } from '@/services/StatementService';
+interface StatementModalProps {
+  visible: boolean;
+  onClose: () => void;
+  client: Client;
+  events: TransactionEvent[];
+  monedaPredeterminada?: Moneda;
+}
+type StatementRangeOption = 'mesActual' | 'mesAnterior' | 'tresMeses' | 'todo';
+const RANGE_LABELS: Record<StatementRangeOption, string> = {
+  mesActual: 'Este mes',
+  mesAnterior: 'Mes anterior',
+  tresMeses: 'Últimos 3 meses',
+  todo: 'Todo',
+};
+function resolveStatementRange(option: StatementRangeOption): ReportRange {
+  const currentMonth = getReportRange('mes');
+  switch (option) {
+    case 'mesAnterior':
+      return shiftReportRange('mes', currentMonth, -1);
+    case 'tresMeses':
+      return { desde: shiftReportRange('mes', currentMonth, -2).desde, hasta: currentMonth.hasta };
+    case 'todo':
+      return { desde: new Date(0), hasta: currentMonth.hasta };
+    default:
+      return currentMonth;
+  }
+}
+export default function StatementModal({
+  visible,
+  onClose,
+  client,
+  events,
+  monedaPredeterminada = DEFAULT_MONEDA
+}: StatementModalProps) {
+  const { showToast } = useToast();
+  const [rangeOption, setRangeOption] = useState<StatementRangeOption>('mesActual');
+  const [moneda, setMoneda] = useState<Moneda>(monedaPredeterminada);
+  const [canSharePdf, setCanSharePdf] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  useEffect(() => {
+    setMoneda(monedaPredeterminada);
+  }, [monedaPredeterminada]);
+  useEffect(() => {
+    StatementService.canSharePdf().then(setCanSharePdf);
+  }, []);
+  const monedasUsadas = useMemo(() => {
+    const used = new Set(events.map(event => resolveEventCurrency(event, monedaPredeterminada)));
+    return MONEDAS.filter(option => used.has(option) || option === monedaPredeterminada);
+  }, [events, monedaPredeterminada]);
+  const statement = useMemo(
+    () => buildAccountStatement(client, events, resolveStatementRange(rangeOption), moneda, monedaPredeterminada),
+    [client, events, rangeOption, moneda, monedaPredeterminada]
+  );
+  const handleShare = async (modo: StatementShareMode) => {
+    setIsSharing(true);
+    try {
+      const result = await StatementService.shareStatement(statement, modo);
+      if (!result.success) {
+        showToast(result.errors?.join('\n') || 'Error al compartir', 'error');
+      }
+    } finally {
+      setIsSharing(false);
+    }
+  };
+  const renderSummaryRow = (label: string, amount: number, highlight = false) => (
+    <View style={styles.summaryRow}>
+      <Text style={[styles.summaryLabel, highlight && styles.highlightText]}>{label}</Text>
+      <Text style={[styles.summaryValue, highlight && styles.highlightText]}>
+        {formatCurrency(amount, statement.moneda)}
+      </Text>
+    </View>
+  );
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>Estado de cuenta</Text>
+              <Text style={styles.subtitle}>{client.nombre}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          <View style={styles.optionRow}>
+            {(Object.keys(RANGE_LABELS) as StatementRangeOption[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.optionChip, rangeOption === option && styles.activeOptionChip]}
+                onPress={() => setRangeOption(option)}
+              >
+                <Text style={[styles.optionChipText, rangeOption === option && styles.activeOptionChipText]}>
+                  {RANGE_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {monedasUsadas.length > 1 && (
+            <View style={styles.optionRow}>
+              {monedasUsadas.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.optionChip, moneda === option && styles.activeOptionChip]}
+                  onPress={() => setMoneda(option)}
+                >
+                  <Text style={[styles.optionChipText, moneda === option && styles.activeOptionChipText]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {}
+          <View style={styles.summaryContainer}>
+            {renderSummaryRow('Saldo anterior', statement.saldoInicial)}
+            {renderSummaryRow('Compras', statement.totalVentas)}
+            {renderSummaryRow('Pagos', statement.totalPagos)}
+            {renderSummaryRow('Saldo del período', statement.saldoFinal)}
+            {renderSummaryRow('Deuda actual', statement.deudaActual, true)}
+            <Text style={styles.movementsText}>{statement.lineas.length} movimientos</Text>
+          </View>
+          {}
+          <View style={styles.actionContainer}>
+            {isSharing ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : (
+              <>
+                {canSharePdf && (
+                  <TouchableOpacity style={styles.pdfButton} onPress={() => handleShare('pdf')}>
+                    <Ionicons name="document-outline" size={18} color="#fff" />
+                    <Text style={styles.actionButtonText}>Enviar PDF</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.whatsappButton} onPress={() => handleShare('texto')}>
+                  <Ionicons name="logo-whatsapp" size={18} color="#fff" />
+                  <Text style={styles.actionButtonText}>WhatsApp</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 420,
+    width: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#25B4BD',
+  },
+  activeOptionChip: {
+    backgroundColor: '#25B4BD',
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  activeOptionChipText: {
+    color: '#fff',
+  },
+  summaryContainer: {
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '600',
+  },
+  highlightText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: 'bold',
+  },
+  movementsText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  pdfButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25B4BD',
+  },
+  whatsappButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#279D2E',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
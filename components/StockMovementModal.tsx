@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Product, StockMovement, StockMovementType } from '@/schemas/types';
+import { STOCK_MOVEMENT_LABELS, isStockTracked } from '@/schemas/stock';
+import { StockService } from '@/services/StockService';
+interface StockMovementModalProps {
+  visible: boolean;
+  empresaId: string;
+  product: Product | null;
+  onClose: () => void;
+}
+const MANUAL_TYPES: StockMovementType[] = ['compra', 'ajuste', 'devolucion'];
+export default function StockMovementModal({ visible, empresaId, product, onClose }: StockMovementModalProps) {
+  const [tipo, setTipo] = useState<StockMovementType>('compra');
+  const [cantidad, setCantidad] = useState('');
+  const [notas, setNotas] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loadingMovements, setLoadingMovements] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  useEffect(() => {
+    if (!visible || !product) return;
+    setTipo(isStockTracked(product) ? 'compra' : 'ajuste');
+    setCantidad('');
+    setNotas('');
+    setErrors([]);
+    setLoadingMovements(true);
+    StockService.getMovements(empresaId, product.id, 10)
+      .then(setMovements)
+      .finally(() => setLoadingMovements(false));
+  }, [visible, product, empresaId]);
+  if (!product) {
+    return null;
+  }
+  const stockActual = product.stock ?? 0;
+  const handleSave = async () => {
+    const value = Number(cantidad.replace(',', '.'));
+    if (!cantidad.trim() || isNaN(value)) {
+      setErrors(['Ingresa una cantidad válida']);
+      return;
+    }
+    const delta = tipo === 'ajuste' ? value - stockActual : value; // Adjustments take the counted units
+    if (tipo === 'ajuste' && delta === 0) {
+      onClose();
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await StockService.recordMovement(empresaId, product.id, {
+        tipo,
+        cantidad: delta,
+        notas
+      });
+      if (!result.success) {
+        setErrors(result.errors ?? ['No se pudo registrar el movimiento']);
+        return;
+      }
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>Stock</Text>
+              <Text style={styles.subtitle}>
+                {product.nombre} · {isStockTracked(product) ? `${stockActual} unidades` : 'sin control de stock'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+            <View style={styles.typeRow}>
+              {MANUAL_TYPES.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.typeOption, tipo === option && styles.selectedTypeOption]}
+                  onPress={() => setTipo(option)}
+                >
+                  <Text style={[styles.typeOptionText, tipo === option && styles.selectedTypeOptionText]}>
+                    {STOCK_MOVEMENT_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.helpText}>
+              {tipo === 'ajuste'
+                ? 'Ingresa las unidades que contaste, se registra la diferencia'
+                : 'Ingresa las unidades que entran al stock'}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={cantidad}
+              onChangeText={setCantidad}
+              placeholder={tipo === 'ajuste' ? `Actual: ${stockActual}` : 'Cantidad'}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={styles.input}
+              value={notas}
+              onChangeText={setNotas}
+              placeholder="Notas (opcional)"
+              maxLength={200}
+            />
+            {errors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+            <Text style={styles.sectionTitle}>Últimos movimientos</Text>
+            {loadingMovements ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : movements.length === 0 ? (
+              <Text style={styles.helpText}>Sin movimientos registrados</Text>
+            ) : (
+              movements.map(movement => (
+                <View key={movement.id} style={styles.movementRow}>
+                  <View style={styles.headerInfo}>
+                    <Text style={styles.movementType}>{STOCK_MOVEMENT_LABELS[movement.tipo]}</Text>
+                    <Text style={styles.movementDate}>{movement.creado.toDate().toLocaleString('es-AR')}</Text>
+                  </View>
+                  <Text style={[styles.movementAmount, movement.cantidad < 0 && styles.negativeAmount]}>
+                    {movement.cantidad > 0 ? '+' : ''}{movement.cantidad}
+                  </Text>
+                  <Text style={styles.movementResult}>= {movement.stockResultante}</Text>
+                </View>
+              ))
+            )}
+          </ScrollView>
+          {}
+          <View style={styles.actionContainer}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : (
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                <Text style={styles.saveButtonText}>Registrar</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 400,
+    width: '90%',
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  bodyContent: {
+    padding: 20,
+    gap: 12,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  typeOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  selectedTypeOption: {
+    borderColor: '#25B4BD',
+    backgroundColor: '#e8f7f8',
+  },
+  typeOptionText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedTypeOptionText: {
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc3545',
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 4,
+  },
+  movementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  movementType: {
+    fontSize: 14,
+    color: '#333',
+  },
+  movementDate: {
+    fontSize: 12,
+    color: '#888',
+  },
+  movementAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#279D2E',
+  },
+  negativeAmount: {
+    color: '#dc3545',
+  },
+  movementResult: {
+    fontSize: 13,
+    color: '#666',
+    minWidth: 40,
+    textAlign: 'right',
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25B4BD',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
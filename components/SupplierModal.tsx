@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Supplier } from '@/schemas/types';
+import { PurchaseService } from '@/services/PurchaseService';
+interface SupplierModalProps {
+  visible: boolean;
+  empresaId: string;
+  supplier: Supplier | null; // Null creates a new supplier
+  onClose: () => void;
+  onSaved: () => void;
+}
+export default function SupplierModal({ visible, empresaId, supplier, onClose, onSaved }: SupplierModalProps) {
+  const [nombre, setNombre] = useState('');
+  const [telefono, setTelefono] = useState('');
+  const [notas, setNotas] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  useEffect(() => {
+    if (!visible) return;
+    setNombre(supplier?.nombre ?? '');
+    setTelefono(supplier?.telefono ?? '');
+    setNotas(supplier?.notas ?? '');
+    setErrors([]);
+  }, [visible, supplier]);
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await PurchaseService.saveSupplier(empresaId, { nombre, telefono, notas }, supplier ?? undefined);
+      if (!result.success) {
+        setErrors(result.errors ?? ['No se pudo guardar el proveedor']);
+        return;
+      }
+      onSaved();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {}
+          <View style={styles.header}>
+            <Text style={styles.title}>{supplier ? 'Editar proveedor' : 'Nuevo proveedor'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+          {}
+          <View style={styles.body}>
+            <TextInput
+              style={styles.input}
+              value={nombre}
+              onChangeText={setNombre}
+              placeholder="Nombre"
+              maxLength={50}
+            />
+            <TextInput
+              style={styles.input}
+              value={telefono}
+              onChangeText={setTelefono}
+              placeholder="Teléfono (opcional)"
+              keyboardType="phone-pad"
+              maxLength={30}
+            />
+            <TextInput
+              style={styles.input}
+              value={notas}
+              onChangeText={setNotas}
+              placeholder="Notas (opcional)"
+              maxLength={200}
+            />
+            {errors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+          </View>
+          {}
+          <View style={styles.actionContainer}>
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#25B4BD" />
+            ) : (
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                <Text style={styles.saveButtonText}>Guardar</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    margin: 20,
+    maxWidth: 400,
+    width: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  body: {
+    padding: 20,
+    gap: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#333',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc3545',
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25B4BD',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
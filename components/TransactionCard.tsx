@@ -6,8 +6,10 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { TransactionEventWithRunningTotal } from '@/schemas/business-logic';
+import { TransactionEventWithRunningTotal, SaleAllocationStatus } from '@/schemas/business-logic';
+import { PaymentAllocation } from '@/schemas/types';
 import { formatCurrency, formatDate } from '@/schemas/business-logic';
+import { formatQuantity } from '@/schemas/units';
 import { FontAwesome } from '@expo/vector-icons';
 import { useTheme } from '@/context/ThemeProvider';
 interface TransactionCardProps {
@@ -15,16 +17,22 @@ interface TransactionCardProps {
   onEdit?: () => void;
   onDelete?: () => void;
   onViewNotes?: () => void;
+  onViewHistory?: () => void;
   showActions?: boolean;
   splitAmount?: number; // For split payments
+  saleStatus?: SaleAllocationStatus;
+  paymentAllocations?: PaymentAllocation[];
 }
 const TransactionCard: React.FC<TransactionCardProps> = ({
   event,
   onEdit,
   onDelete,
   onViewNotes,
+  onViewHistory,
   showActions = true,
   splitAmount,
+  saleStatus,
+  paymentAllocations,
 }) => {
   const { colors, spacing, typography, shadows } = useTheme();
   const isSale = event.tipo === 'venta';
@@ -110,7 +118,7 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
                   marginBottom: spacing.xs,
                 }
               ]}>
-                {event.cantidad} x {formatCurrency((event.costoUnitario || 0) + (event.gananciaUnitaria || 0))}
+                {formatQuantity(event.cantidad ?? 0, event.unidad)} x {formatCurrency((event.costoUnitario || 0) + (event.gananciaUnitaria || 0), event.moneda)}
               </Text>
               <Text style={[
                 styles.totalAmount,
@@ -121,8 +129,20 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
                   marginBottom: spacing.sm,
                 }
               ]}>
-                Total: {formatCurrency(displayAmount)}
+                Total: {formatCurrency(displayAmount, event.moneda)}
               </Text>
+              {saleStatus && (
+                <Text style={{
+                  color: textColor,
+                  fontSize: typography.fontSize.sm,
+                  fontWeight: typography.fontWeight.semibold,
+                  marginBottom: spacing.xs,
+                }}>
+                  {saleStatus.saldoPendiente > 0.01
+                    ? `Pendiente: ${formatCurrency(saleStatus.saldoPendiente, event.moneda)}`
+                    : 'Pagada'}
+                </Text>
+              )}
             </>
           )}
           {isPayment && (
@@ -147,8 +167,18 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
                   marginBottom: spacing.sm,
                 }
               ]}>
-                deuda total {formatCurrency(displayAmount)}
+                deuda total {formatCurrency(displayAmount, event.moneda)}
               </Text>
+              {paymentAllocations && paymentAllocations.length > 0 && (
+                <Text style={{
+                  color: textColor,
+                  opacity: 0.9,
+                  fontSize: typography.fontSize.sm,
+                  marginBottom: spacing.xs,
+                }}>
+                  Aplicado a {paymentAllocations.length} {paymentAllocations.length === 1 ? 'venta' : 'ventas'}
+                </Text>
+              )}
             </>
           )}
           <Text style={[
@@ -161,6 +191,14 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
           ]}>
             {formatDate(event.fecha)}
           </Text>
+          {event.pendienteSync && (
+            <View style={[styles.pendingBadge, { marginTop: spacing.xs }]}>
+              <FontAwesome name="clock-o" size={11} color={textColor} />
+              <Text style={[styles.pendingBadgeText, { color: textColor, fontSize: typography.fontSize.xs }]}>
+                Pendiente de sincronizar
+              </Text>
+            </View>
+          )}
         </View>
         { }
         <View style={styles.rightContent}>
@@ -173,7 +211,7 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
                 color: isPayment ? colors.textWhite : textColor,
               }
             ]}>
-              Deuda  {formatCurrency(Math.abs(event.runningTotal))}
+              Deuda  {formatCurrency(Math.abs(event.runningTotal), event.moneda)}
             </Text>
             {event.runningTotal < 0 && (
               <Text style={[
@@ -229,6 +267,27 @@ const TransactionCard: React.FC<TransactionCardProps> = ({
                 />
               </TouchableOpacity>
             )}
+            {onViewHistory && event.editado && (
+              <TouchableOpacity
+                style={[
+                  styles.actionIconButton,
+                  {
+                    marginTop: spacing.xs,
+                    padding: spacing.sm,
+                    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+                    borderRadius: 6,
+                  }
+                ]}
+                onPress={onViewHistory}
+              >
+                <FontAwesome
+                  name="history"
+                  size={14}
+                  color={isPayment ? colors.textWhite : textColor}
+                  style={{ opacity: 0.9 }}
+                />
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
@@ -262,6 +321,19 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     minHeight: 60,
   },
+  pendingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  pendingBadgeText: {
+    fontWeight: '600',
+  },
   rightBottomActions: {
     alignItems: 'flex-end',
   },
@@ -1 +1,1139 @@
-import React, { useState, useEffect } from 'react';import {  View,  Text,  TextInput,  TouchableOpacity,  Modal,  StyleSheet,  Alert,  ScrollView,  KeyboardAvoidingView,  Platform,} from 'react-native';import { Ionicons } from '@expo/vector-icons';import { Timestamp } from 'firebase/firestore';import DatePickerModule from '@/components/DatePicker';import ProductSelector from '@/components/ProductSelector';import {  Product,  CreateSaleEventData,  CreatePaymentEventData,  CreateProductData} from '@/schemas/types';import {  createSaleEventData,  createPaymentEventData,  calculateSaleTotal} from '@/schemas/event-utils';import {  validateSaleEvent,  validatePaymentEvent} from '@/schemas/validation';interface TransactionModalProps {  visible: boolean;  onClose: () => void;  clienteId: string;  clienteName: string;  onCreateSale: (saleData: CreateSaleEventData) => Promise<void>;  onCreatePayment: (paymentData: CreatePaymentEventData) => Promise<void>;  onCreateProduct?: (productData: CreateProductData) => Promise<Product | null>;  isLoading?: boolean;}type TabType = 'sale' | 'payment';export default function TransactionModal({  visible,  onClose,  clienteId,  clienteName,  onCreateSale,  onCreatePayment,  onCreateProduct,  isLoading = false}: TransactionModalProps) {  const [activeTab, setActiveTab] = useState<TabType>('sale');  const [showProductSelector, setShowProductSelector] = useState(false);  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);  const [cantidad, setCantidad] = useState('1');  const [costoUnitario, setCostoUnitario] = useState('');  const [gananciaUnitaria, setGananciaUnitaria] = useState('');  const [saleDate, setSaleDate] = useState(new Date());  const [saleNotas, setSaleNotas] = useState('');  const [montoPago, setMontoPago] = useState('');  const [paymentDate, setPaymentDate] = useState(new Date());  const [paymentNotas, setPaymentNotas] = useState('');  const [errors, setErrors] = useState<string[]>([]);  useEffect(() => {    if (visible) {      resetForm();    }  }, [visible]);  const resetForm = () => {    setActiveTab('sale');    setSelectedProduct(null);    setCantidad('1');    setCostoUnitario('');    setGananciaUnitaria('');    setSaleDate(new Date());    setSaleNotas('');    setMontoPago('');    setPaymentDate(new Date());    setPaymentNotas('');    setErrors([]);  };  const handleProductSelect = (product: Product, cachedPrices: { ultimoCosto?: number; ultimaGanancia?: number }) => {    setSelectedProduct(product);    if (cachedPrices.ultimoCosto !== undefined) {      setCostoUnitario(cachedPrices.ultimoCosto.toString());    }    if (cachedPrices.ultimaGanancia !== undefined) {      setGananciaUnitaria(cachedPrices.ultimaGanancia.toString());    }    setShowProductSelector(false);  };  const calculateTotal = (): number => {    const qty = Number(cantidad) || 0;    const costo = Number(costoUnitario) || 0;    const ganancia = Number(gananciaUnitaria) || 0;    return calculateSaleTotal(qty, costo, ganancia);  };  const validateSaleForm = (): boolean => {    const newErrors: string[] = [];    if (!selectedProduct) {      newErrors.push('Selecciona un producto');    }    if (!cantidad || Number(cantidad) <= 0) {      newErrors.push('La cantidad debe ser mayor a 0');    }    if (!costoUnitario || Number(costoUnitario) < 0) {      newErrors.push('El costo unitario debe ser mayor o igual a 0');    }    if (!gananciaUnitaria || Number(gananciaUnitaria) < 0) {      newErrors.push('La ganancia unitaria debe ser mayor o igual a 0');    }    if (saleNotas && saleNotas.length > 500) {      newErrors.push('Las notas no pueden exceder 500 caracteres');    }    setErrors(newErrors);    return newErrors.length === 0;  };  const validatePaymentForm = (): boolean => {    const newErrors: string[] = [];    const parsedMonto = parseLocaleNumber(montoPago);    if (!montoPago || isNaN(parsedMonto) || parsedMonto <= 0) {      newErrors.push('El monto del pago debe ser mayor a 0');    }    if (paymentNotas && paymentNotas.length > 500) {      newErrors.push('Las notas no pueden exceder 500 caracteres');    }    setErrors(newErrors);    return newErrors.length === 0;  };  const handleSaleSubmit = async () => {    if (!validateSaleForm() || !selectedProduct) {      return;    }    try {      const saleData = createSaleEventData({        clienteId,        producto: selectedProduct.nombre,        cantidad: Number(cantidad),        costoUnitario: Number(costoUnitario),        gananciaUnitaria: Number(gananciaUnitaria),        fecha: Timestamp.fromDate(saleDate),        productoColor: selectedProduct.colorFondo,        notas: saleNotas.trim() || undefined      });      const validation = validateSaleEvent(saleData);      if (!validation.isValid) {        setErrors(validation.errors);        return;      }      await onCreateSale(saleData);      onClose();    } catch (error) {      console.error('Error creating sale:', error);      Alert.alert('Error', 'No se pudo crear la venta');    }  };  const handlePaymentSubmit = async () => {    if (!validatePaymentForm()) {      return;    }    try {      const parsedMonto = parseLocaleNumber(montoPago);      const paymentData = createPaymentEventData({        clienteId,        montoPago: parsedMonto,        fecha: Timestamp.fromDate(paymentDate),        notas: paymentNotas.trim() || undefined      });      const validation = validatePaymentEvent(paymentData);      if (!validation.isValid) {        setErrors(validation.errors);        return;      }      await onCreatePayment(paymentData);      onClose();    } catch (error) {      console.error('Error creating payment:', error);      Alert.alert('Error', 'No se pudo crear el pago');    }  };  const parseLocaleNumber = (value: string): number => {    if (!value) return NaN;    let sanitized = value.replace(/\s+/g, '');    if (sanitized.includes(',') && sanitized.includes('.')) {      sanitized = sanitized.replace(/\./g, '').replace(',', '.');    } else if (sanitized.includes(',')) {      sanitized = sanitized.replace(',', '.');    }    sanitized = sanitized.replace(/[^0-9.\-]/g, '');    return Number(sanitized);  };  const renderTabButton = (tab: TabType, label: string) => (    <TouchableOpacity      style={[        styles.tabButton,        activeTab === tab && styles.activeTabButton      ]}      onPress={() => setActiveTab(tab)}    >      <Text style={[        styles.tabButtonText,        activeTab === tab && styles.activeTabButtonText      ]}>        {label}      </Text>    </TouchableOpacity>  );  const renderSaleForm = () => (    <ScrollView      style={styles.formContainer}      contentContainerStyle={styles.formContentSpacer}      showsVerticalScrollIndicator={false}    >      {}      <View style={styles.fieldContainer}>        <Text style={styles.label}>Producto *</Text>        <TouchableOpacity          style={[            styles.productSelector,            selectedProduct && { backgroundColor: selectedProduct.colorFondo }          ]}          onPress={() => setShowProductSelector(true)}        >          {selectedProduct ? (            <Text style={styles.selectedProductText}>{selectedProduct.nombre}</Text>          ) : (            <Text style={styles.placeholderText}>Seleccionar producto</Text>          )}          <Ionicons name="chevron-down" size={20} color={selectedProduct ? "#fff" : "#666"} />        </TouchableOpacity>      </View>      {}      <View style={styles.fieldContainer}>        <Text style={styles.label}>Cantidad *</Text>        <TextInput          style={styles.input}          value={cantidad}          onChangeText={setCantidad}          placeholder="1"          keyboardType="numeric"        />      </View>      {}      <View style={styles.priceRow}>        <View style={[styles.fieldContainer, styles.halfWidth]}>          <Text style={styles.label}>Costo Unitario *</Text>          <TextInput            style={styles.input}            value={costoUnitario}            onChangeText={setCostoUnitario}            placeholder="0.00"            keyboardType="numeric"          />        </View>        <View style={[styles.fieldContainer, styles.halfWidth]}>          <Text style={styles.label}>Ganancia Unitaria *</Text>          <TextInput            style={styles.input}            value={gananciaUnitaria}            onChangeText={setGananciaUnitaria}            placeholder="0.00"            keyboardType="numeric"          />        </View>      </View>      {}      {costoUnitario && gananciaUnitaria && cantidad && (        <View style={styles.totalContainer}>          <Text style={styles.totalLabel}>Total de Venta:</Text>          <Text style={styles.totalAmount}>            {cantidad} × ({costoUnitario} + {gananciaUnitaria}) = ${calculateTotal().toFixed(2)}          </Text>        </View>      )}      {}      <View style={styles.fieldContainer}>        <Text style={styles.label}>Fecha</Text>        <View style={styles.dateContainer}>          <DatePickerModule            value={saleDate}            onChange={setSaleDate}          />        </View>      </View>      {}      <View style={styles.fieldContainer}>        <Text style={styles.label}>Notas (Opcional)</Text>        <TextInput          style={[styles.input, styles.textArea]}          value={saleNotas}          onChangeText={setSaleNotas}          placeholder="Notas adicionales sobre la venta"          multiline          numberOfLines={3}          maxLength={500}        />        <Text style={styles.characterCount}>          {saleNotas.length}/500 caracteres        </Text>      </View>    </ScrollView>  );  const renderPaymentForm = () => (    <ScrollView      style={styles.formContainer}      contentContainerStyle={styles.formContentSpacer}      showsVerticalScrollIndicator={false}    >      {}      <View style={styles.fieldContainer}>        <Text style={styles.label}>Monto del Pago *</Text>        <TextInput          style={styles.input}          value={montoPago}          onChangeText={setMontoPago}          placeholder="0.00"          keyboardType="numeric"        />      </View>      {}      <View style={styles.fieldContainer}>        <Text style={styles.label}>Fecha</Text>        <View style={styles.dateContainer}>          <DatePickerModule            value={paymentDate}            onChange={setPaymentDate}          />        </View>      </View>      {}      <View style={styles.fieldContainer}>        <Text style={styles.label}>Notas (Opcional)</Text>        <TextInput          style={[styles.input, styles.textArea]}          value={paymentNotas}          onChangeText={setPaymentNotas}          placeholder="Notas adicionales sobre el pago"          multiline          numberOfLines={3}          maxLength={500}        />        <Text style={styles.characterCount}>          {paymentNotas.length}/500 caracteres        </Text>      </View>    </ScrollView>  );  return (    <>      <Modal        visible={visible}        animationType="slide"        transparent        onRequestClose={onClose}      >        <KeyboardAvoidingView          style={styles.modalOverlay}          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}        >          <View style={styles.modalContent}>            {}            <View style={styles.header}>              <View style={styles.headerInfo}>                <Text style={styles.title}>Nueva Transacción</Text>                <Text style={styles.clientName}>{clienteName}</Text>              </View>              <TouchableOpacity onPress={onClose} style={styles.closeButton}>                <Ionicons name="close" size={24} color="#666" />              </TouchableOpacity>            </View>            {}            <View style={styles.tabContainer}>              {renderTabButton('sale', 'Bajar Producto')}              {renderTabButton('payment', 'Cobrar')}            </View>            {}            {errors.length > 0 && (              <View style={styles.errorContainer}>                {errors.map((error, index) => (                  <Text key={index} style={styles.errorText}>• {error}</Text>                ))}              </View>            )}            {}            <View style={styles.contentContainer}>              {activeTab === 'sale' ? renderSaleForm() : renderPaymentForm()}            </View>            {}            <View style={styles.actionContainer}>              <TouchableOpacity                style={[styles.button, styles.cancelButton]}                onPress={onClose}                disabled={isLoading}              >                <Text style={styles.cancelButtonText}>Cancelar</Text>              </TouchableOpacity>              <TouchableOpacity                style={[                  styles.button,                  styles.submitButton,                  isLoading && styles.disabledButton                ]}                onPress={activeTab === 'sale' ? handleSaleSubmit : handlePaymentSubmit}                disabled={isLoading}              >                <Text style={styles.submitButtonText}>                  {isLoading ? 'Guardando...' : (activeTab === 'sale' ? 'Crear Venta' : 'Registrar Pago')}                </Text>              </TouchableOpacity>            </View>          </View>        </KeyboardAvoidingView>      </Modal>      {}      <ProductSelector        visible={showProductSelector}        onClose={() => setShowProductSelector(false)}        onSelectProduct={handleProductSelect}        onCreateProduct={onCreateProduct}        selectedProductId={selectedProduct?.id}      />    </>  );}const styles = StyleSheet.create({  modalOverlay: {    flex: 1,    backgroundColor: 'rgba(0, 0, 0, 0.5)',    justifyContent: 'flex-end',  },  modalContent: {    backgroundColor: '#fff',    borderTopLeftRadius: 20,    borderTopRightRadius: 20,    height: '92%',    paddingTop: 20,  },  header: {    flexDirection: 'row',    justifyContent: 'space-between',    alignItems: 'center',    paddingHorizontal: 20,    paddingBottom: 16,    borderBottomWidth: 1,    borderBottomColor: '#eee',  },  headerInfo: {    flex: 1,  },  title: {    fontSize: 20,    fontWeight: 'bold',    color: '#333',  },  clientName: {    fontSize: 14,    color: '#666',    marginTop: 2,  },  closeButton: {    padding: 4,  },  tabContainer: {    flexDirection: 'row',    paddingHorizontal: 20,    paddingTop: 16,  },  tabButton: {    flex: 1,    paddingVertical: 12,    paddingHorizontal: 16,    borderRadius: 8,    marginHorizontal: 4,    backgroundColor: '#f5f5f5',    alignItems: 'center',  },  activeTabButton: {    backgroundColor: '#25B4BD',  },  tabButtonText: {    fontSize: 16,    fontWeight: '600',    color: '#666',  },  activeTabButtonText: {    color: '#fff',  },  errorContainer: {    backgroundColor: '#ffebee',    margin: 20,    padding: 12,    borderRadius: 8,  },  errorText: {    color: '#c62828',    fontSize: 14,  },  contentContainer: {    flex: 1,    paddingHorizontal: 20,  },  formContainer: {    flex: 1,    paddingTop: 16,  },  formContentSpacer: {    paddingBottom: 96,  },  fieldContainer: {    marginBottom: 16,  },  label: {    fontSize: 16,    fontWeight: '600',    color: '#333',    marginBottom: 8,  },  input: {    borderWidth: 1,    borderColor: '#ddd',    borderRadius: 8,    padding: 12,    fontSize: 16,    backgroundColor: '#f9f9f9',  },  textArea: {    minHeight: 80,    textAlignVertical: 'top',  },  productSelector: {    flexDirection: 'row',    alignItems: 'center',    justifyContent: 'space-between',    borderWidth: 1,    borderColor: '#ddd',    borderRadius: 8,    padding: 12,    backgroundColor: '#f9f9f9',  },  selectedProductText: {    fontSize: 16,    color: '#fff',    fontWeight: '600',    textShadowColor: 'rgba(0, 0, 0, 0.3)',    textShadowOffset: { width: 1, height: 1 },    textShadowRadius: 2,  },  placeholderText: {    fontSize: 16,    color: '#666',  },  priceRow: {    flexDirection: 'row',    justifyContent: 'space-between',  },  halfWidth: {    width: '48%',  },  totalContainer: {    backgroundColor: '#e8f5e8',    padding: 12,    borderRadius: 8,    marginBottom: 16,    alignItems: 'center',  },  totalLabel: {    fontSize: 14,    color: '#2e7d32',    fontWeight: '600',  },  totalAmount: {    fontSize: 18,    color: '#2e7d32',    fontWeight: 'bold',    marginTop: 4,  },  dateContainer: {    backgroundColor: '#f9f9f9',    borderWidth: 1,    borderColor: '#ddd',    borderRadius: 8,    padding: 4,  },  characterCount: {    fontSize: 12,    color: '#666',    textAlign: 'right',    marginTop: 4,  },  actionContainer: {    flexDirection: 'row',    paddingHorizontal: 20,    paddingVertical: 16,    borderTopWidth: 1,    borderTopColor: '#eee',  },  button: {    flex: 1,    paddingVertical: 14,    borderRadius: 8,    alignItems: 'center',    marginHorizontal: 6,  },  cancelButton: {    backgroundColor: '#f5f5f5',    borderWidth: 1,    borderColor: '#ddd',  },  cancelButtonText: {    color: '#666',    fontSize: 16,    fontWeight: '600',  },  submitButton: {    backgroundColor: '#25B4BD',  },  submitButtonText: {    color: '#fff',    fontSize: 16,    fontWeight: '600',  },  disabledButton: {    opacity: 0.6,  },});
\ No newline at end of file
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Timestamp } from 'firebase/firestore';
+import DatePickerModule from '@/components/DatePicker';
+import ProductSelector from '@/components/ProductSelector';
+import PriceHistoryTracker from '@/components/PriceHistoryTracker';
+import { useAuth } from '@/context/AuthProvider';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import {
+  Product,
+  CreateSaleEventData,
+  CreatePaymentEventData,
+  CreateProductData,
+  TransactionEvent,
+  SaleEvent,
+  PaymentAllocation,
+  Moneda,
+  MONEDAS,
+  DEFAULT_MONEDA,
+  Client,
+  PriceList
+} from '@/schemas/types';
+import {
+  formatCurrency,
+  formatDate,
+  allocatePayments,
+  getOutstandingSales,
+  suggestPaymentAllocation,
+  calculateClientDebt,
+  checkCreditLimit,
+  CreditLimitCheck
+} from '@/schemas/business-logic';
+import {
+  createSaleEventData,
+  createPaymentEventData,
+  calculateSaleTotal
+} from '@/schemas/event-utils';
+import {
+  validateSaleEvent,
+  validatePaymentEvent
+} from '@/schemas/validation';
+import { PriceHistoryEntry } from '@/schemas/price-history';
+import { PriceHistoryService } from '@/services/PriceHistoryService';
+import { getPriceSourceLabel, isResolvedPriceApplied, resolveClientPrice, ResolvedPrice } from '@/schemas/price-lists';
+import { PriceListService } from '@/services/PriceListService';
+import { allowsDecimals, getProductUnit, UNIT_ABBREVIATIONS, UNIT_LABELS } from '@/schemas/units';
+interface TransactionModalProps {
+  visible: boolean;
+  onClose: () => void;
+  clienteId: string;
+  clienteName: string;
+  onCreateSale: (saleData: CreateSaleEventData) => Promise<void>;
+  onCreatePayment: (paymentData: CreatePaymentEventData) => Promise<void>;
+  onCreateProduct?: (productData: CreateProductData) => Promise<Product | null>;
+  defaultMoneda?: Moneda;
+  events?: TransactionEvent[];
+  limiteCredito?: number | null;
+  bloquearSobreLimite?: boolean;
+  cliente?: Pick<Client, 'listaPreciosId' | 'preciosEspeciales'> | null; // Special prices that prefill sales
+  isLoading?: boolean;
+}
+type TabType = 'sale' | 'payment';
+type AllocationMode = 'fifo' | 'manual';
+const parseLocaleNumber = (value: string): number => {
+  if (!value) return NaN;
+  let sanitized = value.replace(/\s+/g, '');
+  if (sanitized.includes(',') && sanitized.includes('.')) {
+    sanitized = sanitized.replace(/\./g, '').replace(',', '.');
+  } else if (sanitized.includes(',')) {
+    sanitized = sanitized.replace(',', '.');
+  }
+  sanitized = sanitized.replace(/[^0-9.\-]/g, '');
+  return Number(sanitized);
+};
+export default function TransactionModal({
+  visible,
+  onClose,
+  clienteId,
+  clienteName,
+  onCreateSale,
+  onCreatePayment,
+  onCreateProduct,
+  defaultMoneda = DEFAULT_MONEDA,
+  events = [],
+  limiteCredito,
+  bloquearSobreLimite = false,
+  cliente,
+  isLoading = false
+}: TransactionModalProps) {
+  const { user, empresaId } = useAuth();
+  const { role, can } = useCompanyRole();
+  const isOwner = role === 'owner';
+  const canSell = can('registrarVentas');
+  const canCollect = can('registrarPagos');
+  const [activeTab, setActiveTab] = useState<TabType>('sale');
+  const [showProductSelector, setShowProductSelector] = useState(false);
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [showPriceHistory, setShowPriceHistory] = useState(false);
+  const [priceSuggestions, setPriceSuggestions] = useState<{ label: string; entry: PriceHistoryEntry }[]>([]);
+  const [priceSuggestionsFailed, setPriceSuggestionsFailed] = useState(false);
+  const [priceList, setPriceList] = useState<PriceList | null>(null);
+  const [resolvedPrice, setResolvedPrice] = useState<ResolvedPrice | null>(null);
+  const [cantidad, setCantidad] = useState('1');
+  const [costoUnitario, setCostoUnitario] = useState('');
+  const [gananciaUnitaria, setGananciaUnitaria] = useState('');
+  const [saleDate, setSaleDate] = useState(new Date());
+  const [saleNotas, setSaleNotas] = useState('');
+  const [montoPago, setMontoPago] = useState('');
+  const [paymentDate, setPaymentDate] = useState(new Date());
+  const [paymentNotas, setPaymentNotas] = useState('');
+  const [moneda, setMoneda] = useState<Moneda>(defaultMoneda);
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>('fifo');
+  const [manualAllocations, setManualAllocations] = useState<{ [ventaId: string]: string }>({});
+  const [overrideLimit, setOverrideLimit] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  useEffect(() => {
+    if (visible) {
+      resetForm();
+    }
+  }, [visible]);
+  useEffect(() => {
+    if (visible) {
+      setMoneda(defaultMoneda);
+    }
+  }, [visible, defaultMoneda]);
+  useEffect(() => {
+    if (activeTab === 'sale' && !canSell && canCollect) {
+      setActiveTab('payment');
+    } else if (activeTab === 'payment' && !canCollect && canSell) {
+      setActiveTab('sale');
+    }
+  }, [activeTab, canSell, canCollect]);
+  const resetForm = () => {
+    setActiveTab('sale');
+    setSelectedProduct(null);
+    setCantidad('1');
+    setCostoUnitario('');
+    setGananciaUnitaria('');
+    setSaleDate(new Date());
+    setSaleNotas('');
+    setMontoPago('');
+    setPaymentDate(new Date());
+    setPaymentNotas('');
+    setAllocationMode('fifo');
+    setManualAllocations({});
+    setOverrideLimit(false);
+    setResolvedPrice(null);
+    setErrors([]);
+  };
+  const listaPreciosId = cliente?.listaPreciosId;
+  useEffect(() => {
+    if (!visible || !listaPreciosId || !empresaId) {
+      setPriceList(null);
+      return;
+    }
+    let cancelled = false;
+    PriceListService.getPriceList(empresaId, listaPreciosId).then(list => {
+      if (!cancelled) setPriceList(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, listaPreciosId, empresaId]);
+  const handleProductSelect = (product: Product, cachedPrices: { ultimoCosto?: number; ultimaGanancia?: number }) => {
+    setSelectedProduct(product);
+    if (product.moneda) {
+      setMoneda(product.moneda);
+    }
+    const special = resolveClientPrice(cliente, product.id, priceList);
+    setResolvedPrice(special);
+    if (special) {
+      setCostoUnitario(special.costoUnitario.toString());
+      setGananciaUnitaria(special.gananciaUnitaria.toString());
+    } else {
+      if (cachedPrices.ultimoCosto !== undefined) {
+        setCostoUnitario(cachedPrices.ultimoCosto.toString());
+      }
+      if (cachedPrices.ultimaGanancia !== undefined) {
+        setGananciaUnitaria(cachedPrices.ultimaGanancia.toString());
+      }
+    }
+    setShowProductSelector(false);
+  };
+  useEffect(() => {
+    setPriceSuggestionsFailed(false);
+    if (!visible || !selectedProduct || !empresaId) {
+      setPriceSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    PriceHistoryService.getProductHistory(empresaId, selectedProduct, { moneda, monedaPredeterminada: defaultMoneda })
+      .then(history => {
+        if (cancelled) return;
+        const [reciente] = history.masRecientes;
+        const [usado] = history.masUsados;
+        setPriceSuggestions([
+          ...(reciente ? [{ label: 'Último', entry: reciente }] : []),
+          ...(usado && usado !== reciente ? [{ label: 'Más usado', entry: usado }] : [])
+        ]);
+      })
+      .catch(error => {
+        console.warn('Error loading price suggestions:', error);
+        if (cancelled) return;
+        setPriceSuggestions([]);
+        setPriceSuggestionsFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, selectedProduct, empresaId, moneda, defaultMoneda]);
+  const handleSelectHistoryPrice = (costo: number, ganancia: number) => {
+    setCostoUnitario(costo.toString());
+    setGananciaUnitaria(ganancia.toString());
+  };
+  const outstandingSales = useMemo(
+    () => getOutstandingSales(allocatePayments(events, defaultMoneda), moneda),
+    [events, defaultMoneda, moneda]
+  );
+  const fifoAllocation = useMemo(() => {
+    const parsedMonto = parseLocaleNumber(montoPago);
+    if (isNaN(parsedMonto) || parsedMonto <= 0) return [];
+    return suggestPaymentAllocation(events, parsedMonto, moneda, defaultMoneda);
+  }, [events, montoPago, moneda, defaultMoneda]);
+  const currentDebt = useMemo(() => {
+    const calculation = calculateClientDebt(events, defaultMoneda);
+    return calculation.totalDebt - calculation.favorBalance;
+  }, [events, defaultMoneda]);
+  const getCreditCheck = (saleData: CreateSaleEventData): CreditLimitCheck => {
+    const draftSale: SaleEvent = { ...saleData, id: '', creado: saleData.fecha, borrado: false };
+    return checkCreditLimit({ limiteCredito, bloquearSobreLimite }, currentDebt, draftSale, defaultMoneda);
+  };
+  const handleAllocationModeChange = (mode: AllocationMode) => {
+    if (mode === 'manual') {
+      const prefilled: { [ventaId: string]: string } = {};
+      fifoAllocation.forEach(asignacion => {
+        prefilled[asignacion.ventaId] = asignacion.monto.toString();
+      });
+      setManualAllocations(prefilled);
+    }
+    setAllocationMode(mode);
+  };
+  const getManualAllocations = (): PaymentAllocation[] =>
+    outstandingSales
+      .map(sale => ({ ventaId: sale.ventaId, monto: parseLocaleNumber(manualAllocations[sale.ventaId] || '') }))
+      .filter(asignacion => !isNaN(asignacion.monto) && asignacion.monto > 0);
+  const unidad = getProductUnit(selectedProduct);
+  const calculateTotal = (): number => {
+    const qty = parseLocaleNumber(cantidad) || 0;
+    const costo = Number(costoUnitario) || 0;
+    const ganancia = Number(gananciaUnitaria) || 0;
+    return calculateSaleTotal(qty, costo, ganancia);
+  };
+  const getDraftCreditCheck = (): CreditLimitCheck | null => {
+    const totalVenta = calculateTotal();
+    if (limiteCredito == null || totalVenta <= 0) return null;
+    return getCreditCheck({
+      clienteId,
+      tipo: 'venta',
+      fecha: Timestamp.fromDate(saleDate),
+      producto: selectedProduct?.nombre ?? '',
+      cantidad: parseLocaleNumber(cantidad) || 0,
+      costoUnitario: Number(costoUnitario) || 0,
+      gananciaUnitaria: Number(gananciaUnitaria) || 0,
+      totalVenta,
+      moneda
+    });
+  };
+  const validateSaleForm = (): boolean => {
+    const newErrors: string[] = [];
+    if (!selectedProduct) {
+      newErrors.push('Selecciona un producto');
+    }
+    if (!cantidad || !(parseLocaleNumber(cantidad) > 0)) {
+      newErrors.push('La cantidad debe ser mayor a 0');
+    }
+    if (!costoUnitario || Number(costoUnitario) < 0) {
+      newErrors.push('El costo unitario debe ser mayor o igual a 0');
+    }
+    if (!gananciaUnitaria || Number(gananciaUnitaria) < 0) {
+      newErrors.push('La ganancia unitaria debe ser mayor o igual a 0');
+    }
+    if (saleNotas && saleNotas.length > 500) {
+      newErrors.push('Las notas no pueden exceder 500 caracteres');
+    }
+    setErrors(newErrors);
+    return newErrors.length === 0;
+  };
+  const validatePaymentForm = (): boolean => {
+    const newErrors: string[] = [];
+    const parsedMonto = parseLocaleNumber(montoPago);
+    if (!montoPago || isNaN(parsedMonto) || parsedMonto <= 0) {
+      newErrors.push('El monto del pago debe ser mayor a 0');
+    }
+    if (allocationMode === 'manual') {
+      const asignaciones = getManualAllocations();
+      const totalAsignado = asignaciones.reduce((sum, asignacion) => sum + asignacion.monto, 0);
+      if (totalAsignado - parsedMonto > 0.01) {
+        newErrors.push('El total asignado no puede superar el monto del pago');
+      }
+      const exceedsSale = asignaciones.some(asignacion => {
+        const sale = outstandingSales.find(s => s.ventaId === asignacion.ventaId);
+        return sale && asignacion.monto - sale.saldoPendiente > 0.01;
+      });
+      if (exceedsSale) {
+        newErrors.push('No se puede asignar más que el saldo pendiente de una venta');
+      }
+    }
+    if (paymentNotas && paymentNotas.length > 500) {
+      newErrors.push('Las notas no pueden exceder 500 caracteres');
+    }
+    setErrors(newErrors);
+    return newErrors.length === 0;
+  };
+  const handleSaleSubmit = async () => {
+    if (!validateSaleForm() || !selectedProduct) {
+      return;
+    }
+    try {
+      const saleData = createSaleEventData({
+        clienteId,
+        producto: selectedProduct.nombre,
+        productoId: selectedProduct.id,
+        cantidad: parseLocaleNumber(cantidad),
+        unidad,
+        costoUnitario: Number(costoUnitario),
+        gananciaUnitaria: Number(gananciaUnitaria),
+        fecha: Timestamp.fromDate(saleDate),
+        productoColor: selectedProduct.colorFondo,
+        notas: saleNotas.trim() || undefined,
+        moneda
+      });
+      const validation = validateSaleEvent(saleData);
+      if (!validation.isValid) {
+        setErrors(validation.errors);
+        return;
+      }
+      const check = getCreditCheck(saleData);
+      if (check.bloqueado) {
+        if (!isOwner || !user) {
+          setErrors(['La venta supera el límite de crédito del cliente. Solo el propietario puede autorizarla']);
+          return;
+        }
+        if (!overrideLimit) {
+          setErrors(['La venta supera el límite de crédito del cliente. Activa "Autorizar venta" para continuar']);
+          return;
+        }
+        saleData.excesoLimite = {
+          autorizadoPor: user.uid,
+          limiteCredito: check.limiteCredito!,
+          deudaResultante: check.deudaResultante
+        };
+      }
+      await onCreateSale(saleData);
+      onClose();
+    } catch (error) {
+      console.error('Error creating sale:', error);
+      Alert.alert('Error', 'No se pudo crear la venta');
+    }
+  };
+  const handlePaymentSubmit = async () => {
+    if (!validatePaymentForm()) {
+      return;
+    }
+    try {
+      const parsedMonto = parseLocaleNumber(montoPago);
+      const paymentData = createPaymentEventData({
+        clienteId,
+        montoPago: parsedMonto,
+        fecha: Timestamp.fromDate(paymentDate),
+        notas: paymentNotas.trim() || undefined,
+        moneda,
+        asignaciones: allocationMode === 'manual' ? getManualAllocations() : fifoAllocation // Stored so later changes to the history never move it
+      });
+      const validation = validatePaymentEvent(paymentData);
+      if (!validation.isValid) {
+        setErrors(validation.errors);
+        return;
+      }
+      await onCreatePayment(paymentData);
+      onClose();
+    } catch (error) {
+      console.error('Error creating payment:', error);
+      Alert.alert('Error', 'No se pudo crear el pago');
+    }
+  };
+  const renderTabButton = (tab: TabType, label: string) => (
+    <TouchableOpacity
+      style={[
+        styles.tabButton,
+        activeTab === tab && styles.activeTabButton
+      ]}
+      onPress={() => setActiveTab(tab)}
+    >
+      <Text style={[
+        styles.tabButtonText,
+        activeTab === tab && styles.activeTabButtonText
+      ]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+  const renderCurrencySelector = () => (
+    <View style={styles.fieldContainer}>
+      <Text style={styles.label}>Moneda</Text>
+      <View style={styles.optionRow}>
+        {MONEDAS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.optionChip,
+              moneda === option && styles.activeOptionChip
+            ]}
+            onPress={() => setMoneda(option)}
+          >
+            <Text style={[
+              styles.optionChipText,
+              moneda === option && styles.activeOptionChipText
+            ]}>
+              {option}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+  const renderCreditLimitWarning = () => {
+    const creditCheck = getDraftCreditCheck();
+    if (!creditCheck?.excedeLimite) return null;
+    return (
+      <View style={[styles.limitContainer, creditCheck.bloqueado && styles.limitBlockedContainer]}>
+        <View style={styles.limitHeader}>
+          <Ionicons name="warning" size={18} color={creditCheck.bloqueado ? '#dc3545' : '#FF9800'} />
+          <Text style={[styles.limitTitle, creditCheck.bloqueado && styles.limitBlockedText]}>
+            {creditCheck.bloqueado ? 'Venta bloqueada por límite de crédito' : 'Supera el límite de crédito'}
+          </Text>
+        </View>
+        <Text style={styles.limitText}>
+          La deuda quedaría en {formatCurrency(creditCheck.deudaResultante, defaultMoneda)} (límite {formatCurrency(creditCheck.limiteCredito!, defaultMoneda)})
+        </Text>
+        {creditCheck.bloqueado && (isOwner ? (
+          <View style={styles.limitOverrideRow}>
+            <Text style={styles.limitText}>Autorizar venta</Text>
+            <Switch
+              value={overrideLimit}
+              onValueChange={setOverrideLimit}
+              trackColor={{ false: '#767577', true: '#dc3545' }}
+              thumbColor={overrideLimit ? '#ffffff' : '#f4f3f4'}
+            />
+          </View>
+        ) : (
+          <Text style={styles.limitText}>Solo el propietario puede autorizar esta venta</Text>
+        ))}
+      </View>
+    );
+  };
+  const renderAllocationSection = () => {
+    if (outstandingSales.length === 0) return null;
+    return (
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>Aplicar a ventas</Text>
+        <View style={styles.optionRow}>
+          {([['fifo', 'Más antigua primero'], ['manual', 'Manual']] as const).map(([mode, label]) => (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.optionChip,
+                allocationMode === mode && styles.activeOptionChip
+              ]}
+              onPress={() => handleAllocationModeChange(mode)}
+            >
+              <Text style={[
+                styles.optionChipText,
+                allocationMode === mode && styles.activeOptionChipText
+              ]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {outstandingSales.map(sale => {
+          const fifoAmount = fifoAllocation.find(asignacion => asignacion.ventaId === sale.ventaId)?.monto ?? 0;
+          return (
+            <View key={sale.ventaId} style={styles.allocationRow}>
+              <View style={styles.allocationInfo}>
+                <Text style={styles.allocationProduct}>{sale.producto} · {formatDate(sale.fecha)}</Text>
+                <Text style={styles.allocationPending}>
+                  Pendiente: {formatCurrency(sale.saldoPendiente, sale.moneda)}
+                </Text>
+              </View>
+              {allocationMode === 'manual' ? (
+                <TextInput
+                  style={[styles.input, styles.allocationInput]}
+                  value={manualAllocations[sale.ventaId] ?? ''}
+                  onChangeText={(value) => setManualAllocations(prev => ({ ...prev, [sale.ventaId]: value }))}
+                  placeholder="0.00"
+                  keyboardType="numeric"
+                />
+              ) : (
+                <Text style={styles.allocationAmount}>
+                  {fifoAmount > 0 ? formatCurrency(fifoAmount, sale.moneda) : '-'}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+  const renderSaleForm = () => (
+    <ScrollView
+      style={styles.formContainer}
+      contentContainerStyle={styles.formContentSpacer}
+      showsVerticalScrollIndicator={false}
+    >
+      {}
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>Producto *</Text>
+        <TouchableOpacity
+          style={[
+            styles.productSelector,
+            selectedProduct && { backgroundColor: selectedProduct.colorFondo }
+          ]}
+          onPress={() => setShowProductSelector(true)}
+        >
+          {selectedProduct ? (
+            <Text style={styles.selectedProductText}>{selectedProduct.nombre}</Text>
+          ) : (
+            <Text style={styles.placeholderText}>Seleccionar producto</Text>
+          )}
+          <Ionicons name="chevron-down" size={20} color={selectedProduct ? "#fff" : "#666"} />
+        </TouchableOpacity>
+      </View>
+      {}
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>
+          Cantidad{unidad !== 'unidad' && ` (${UNIT_LABELS[unidad].toLowerCase()})`} *
+        </Text>
+        <TextInput
+          style={styles.input}
+          value={cantidad}
+          onChangeText={setCantidad}
+          placeholder={allowsDecimals(unidad) ? '0,5' : '1'}
+          keyboardType={allowsDecimals(unidad) ? 'decimal-pad' : 'number-pad'}
+        />
+      </View>
+      {}
+      {renderCurrencySelector()}
+      <View style={styles.priceRow}>
+        <View style={[styles.fieldContainer, styles.halfWidth]}>
+          <Text style={styles.label}>Costo Unitario *</Text>
+          <TextInput
+            style={styles.input}
+            value={costoUnitario}
+            onChangeText={setCostoUnitario}
+            placeholder="0.00"
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={[styles.fieldContainer, styles.halfWidth]}>
+          <Text style={styles.label}>Ganancia Unitaria *</Text>
+          <TextInput
+            style={styles.input}
+            value={gananciaUnitaria}
+            onChangeText={setGananciaUnitaria}
+            placeholder="0.00"
+            keyboardType="numeric"
+          />
+        </View>
+      </View>
+      {}
+      {isResolvedPriceApplied(resolvedPrice, parseLocaleNumber(costoUnitario), parseLocaleNumber(gananciaUnitaria)) && resolvedPrice && (
+        <View style={styles.priceSourceBadge}>
+          <Ionicons name="pricetag" size={14} color="#279D2E" />
+          <Text style={styles.priceSourceText}>{getPriceSourceLabel(resolvedPrice)}</Text>
+        </View>
+      )}
+      {selectedProduct && (
+        <View style={styles.suggestionRow}>
+          {priceSuggestions.map(({ label, entry }) => (
+            <TouchableOpacity
+              key={label}
+              style={styles.suggestionChip}
+              onPress={() => handleSelectHistoryPrice(entry.costo, entry.ganancia)}
+            >
+              <Text style={styles.suggestionChipText}>{label}: {formatCurrency(entry.total, entry.moneda)}</Text>
+            </TouchableOpacity>
+          ))}
+          {priceSuggestionsFailed && (
+            <Text style={styles.suggestionErrorText}>No se pudieron cargar los precios sugeridos</Text>
+          )}
+          <TouchableOpacity style={styles.historyButton} onPress={() => setShowPriceHistory(true)}>
+            <Ionicons name="stats-chart-outline" size={16} color="#25B4BD" />
+            <Text style={styles.historyButtonText}>Historial</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {costoUnitario && gananciaUnitaria && cantidad && (
+        <View style={styles.totalContainer}>
+          <Text style={styles.totalLabel}>Total de Venta:</Text>
+          <Text style={styles.totalAmount}>
+            {cantidad}{unidad !== 'unidad' && ` ${UNIT_ABBREVIATIONS[unidad]}`} × ({costoUnitario} + {gananciaUnitaria}) = {formatCurrency(calculateTotal(), moneda)}
+          </Text>
+        </View>
+      )}
+      {}
+      {renderCreditLimitWarning()}
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>Fecha</Text>
+        <View style={styles.dateContainer}>
+          <DatePickerModule
+            value={saleDate}
+            onChange={setSaleDate}
+          />
+        </View>
+      </View>
+      {}
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>Notas (Opcional)</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          value={saleNotas}
+          onChangeText={setSaleNotas}
+          placeholder="Notas adicionales sobre la venta"
+          multiline
+          numberOfLines={3}
+          maxLength={500}
+        />
+        <Text style={styles.characterCount}>
+          {saleNotas.length}/500 caracteres
+        </Text>
+      </View>
+    </ScrollView>
+  );
+  const renderPaymentForm = () => (
+    <ScrollView
+      style={styles.formContainer}
+      contentContainerStyle={styles.formContentSpacer}
+      showsVerticalScrollIndicator={false}
+    >
+      {}
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>Monto del Pago *</Text>
+        <TextInput
+          style={styles.input}
+          value={montoPago}
+          onChangeText={setMontoPago}
+          placeholder="0.00"
+          keyboardType="numeric"
+        />
+      </View>
+      {}
+      {renderCurrencySelector()}
+      {renderAllocationSection()}
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>Fecha</Text>
+        <View style={styles.dateContainer}>
+          <DatePickerModule
+            value={paymentDate}
+            onChange={setPaymentDate}
+          />
+        </View>
+      </View>
+      {}
+      <View style={styles.fieldContainer}>
+        <Text style={styles.label}>Notas (Opcional)</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          value={paymentNotas}
+          onChangeText={setPaymentNotas}
+          placeholder="Notas adicionales sobre el pago"
+          multiline
+          numberOfLines={3}
+          maxLength={500}
+        />
+        <Text style={styles.characterCount}>
+          {paymentNotas.length}/500 caracteres
+        </Text>
+      </View>
+    </ScrollView>
+  );
+  return (
+    <>
+      <Modal
+        visible={visible}
+        animationType="slide"
+        transparent
+        onRequestClose={onClose}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalOverlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.modalContent}>
+            {}
+            <View style={styles.header}>
+              <View style={styles.headerInfo}>
+                <Text style={styles.title}>Nueva Transacción</Text>
+                <Text style={styles.clientName}>{clienteName}</Text>
+              </View>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            {}
+            <View style={styles.tabContainer}>
+              {canSell && renderTabButton('sale', 'Bajar Producto')}
+              {canCollect && renderTabButton('payment', 'Cobrar')}
+            </View>
+            {}
+            {errors.length > 0 && (
+              <View style={styles.errorContainer}>
+                {errors.map((error, index) => (
+                  <Text key={index} style={styles.errorText}>• {error}</Text>
+                ))}
+              </View>
+            )}
+            {}
+            <View style={styles.contentContainer}>
+              {!canSell && !canCollect ? (
+                <View style={styles.noPermissionContainer}>
+                  <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+                  <Text style={styles.noPermissionText}>Tu rol no permite registrar transacciones</Text>
+                </View>
+              ) : (activeTab === 'sale' ? renderSaleForm() : renderPaymentForm())}
+            </View>
+            {}
+            <View style={styles.actionContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={onClose}
+                disabled={isLoading}
+              >
+                <Text style={styles.cancelButtonText}>Cancelar</Text>
+              </TouchableOpacity>
+              {(canSell || canCollect) && (
+                <TouchableOpacity
+                  style={[
+                    styles.button,
+                    styles.submitButton,
+                    isLoading && styles.disabledButton
+                  ]}
+                  onPress={activeTab === 'sale' ? handleSaleSubmit : handlePaymentSubmit}
+                  disabled={isLoading}
+                >
+                  <Text style={styles.submitButtonText}>
+                    {isLoading ? 'Guardando...' : (activeTab === 'sale' ? 'Crear Venta' : 'Registrar Pago')}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+      {}
+      <ProductSelector
+        visible={showProductSelector}
+        onClose={() => setShowProductSelector(false)}
+        onSelectProduct={handleProductSelect}
+        onCreateProduct={can('gestionarProductos') ? onCreateProduct : undefined}
+        selectedProductId={selectedProduct?.id}
+      />
+      {selectedProduct && (
+        <PriceHistoryTracker
+          visible={showPriceHistory}
+          onClose={() => setShowPriceHistory(false)}
+          productId={selectedProduct.id}
+          productName={selectedProduct.nombre}
+          clienteId={clienteId}
+          clienteName={clienteName}
+          moneda={moneda}
+          monedaPredeterminada={defaultMoneda}
+          onSelectPrice={handleSelectHistoryPrice}
+        />
+      )}
+    </>
+  );
+}
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    height: '92%',
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  clientName: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginHorizontal: 4,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+  },
+  activeTabButton: {
+    backgroundColor: '#25B4BD',
+  },
+  tabButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+  },
+  activeTabButtonText: {
+    color: '#fff',
+  },
+  errorContainer: {
+    backgroundColor: '#ffebee',
+    margin: 20,
+    padding: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#c62828',
+    fontSize: 14,
+  },
+  noPermissionContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  noPermissionText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  contentContainer: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  formContainer: {
+    flex: 1,
+    paddingTop: 16,
+  },
+  formContentSpacer: {
+    paddingBottom: 96,
+  },
+  fieldContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  productSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: '#f9f9f9',
+  },
+  selectedProductText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+    textShadowColor: 'rgba(0, 0, 0, 0.3)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+  placeholderText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  halfWidth: {
+    width: '48%',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  suggestionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#e8f7f8',
+  },
+  suggestionChipText: {
+    fontSize: 13,
+    color: '#25B4BD',
+    fontWeight: '600',
+  },
+  suggestionErrorText: {
+    fontSize: 13,
+    color: '#dc3545',
+  },
+  priceSourceBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#e9f6ea',
+    marginBottom: 12,
+  },
+  priceSourceText: {
+    fontSize: 12,
+    color: '#279D2E',
+    fontWeight: '600',
+  },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 6,
+  },
+  historyButtonText: {
+    fontSize: 13,
+    color: '#25B4BD',
+  },
+  optionRow: {
+    flexDirection: 'row',
+  },
+  optionChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: '#f5f5f5',
+  },
+  activeOptionChip: {
+    backgroundColor: '#25B4BD',
+  },
+  optionChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  activeOptionChipText: {
+    color: '#fff',
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  allocationInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  allocationProduct: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  allocationPending: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  allocationInput: {
+    width: 100,
+    paddingVertical: 6,
+  },
+  allocationAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#279D2E',
+  },
+  totalContainer: {
+    backgroundColor: '#e8f5e8',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#2e7d32',
+    fontWeight: '600',
+  },
+  totalAmount: {
+    fontSize: 18,
+    color: '#2e7d32',
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  limitContainer: {
+    backgroundColor: '#fff3e0',
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9800',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    gap: 6,
+  },
+  limitBlockedContainer: {
+    backgroundColor: '#ffebee',
+    borderLeftColor: '#dc3545',
+  },
+  limitHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  limitTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e65100',
+  },
+  limitBlockedText: {
+    color: '#c62828',
+  },
+  limitText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  limitOverrideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dateContainer: {
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 4,
+  },
+  characterCount: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 6,
+  },
+  cancelButton: {
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#25B4BD',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
\ No newline at end of file
@@ -6,6 +6,7 @@ import {
   getUserCompanyMembershipsWithDetails
 } from '@/schemas/firestore-utils';
 import { UserCompanyMembership } from '@/schemas/types';
+import { BackgroundSyncService } from '@/services/BackgroundSyncService';
 type EmpresaMembership = UserCompanyMembership & { companyName?: string };
 type AuthContextValue = {
   user: User | null;
@@ -60,6 +61,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     await createUserProfile(cred.user.uid, cred.user.email || email);
   };
   const signOutApp = async () => {
+    await BackgroundSyncService.unregister();
     await signOut(auth);
     setEmpresaId(null);
     setEmpresas([]);
@@ -1,5 +1,6 @@
-import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, useCallback, ReactNode } from 'react';
 import { useAuth } from './AuthProvider';
+import { useToast } from './ToastProvider';
 import { ProductService } from '@/services/ProductService';
 import { ClientService } from '@/services/ClientService';
 import { TransactionEventService } from '@/services/TransactionEventService';
@@ -12,6 +13,7 @@ import {
   CompanyMember
 } from '@/schemas/types';
 import { subscribeToCompanyMembers } from '@/schemas/firestore-utils';
+import { applyPendingEventWrites, PendingEventWrite } from '@/schemas/pending-events';
 interface RealtimeDataContextType {
   products: Product[];
   productsLoading: boolean;
@@ -21,7 +23,8 @@ interface RealtimeDataContextType {
   setIncludeHiddenClients: (include: boolean) => void;
   companyMembers: CompanyMember[];
   membersLoading: boolean;
-  selectedClientEvents: TransactionEvent[];
+  selectedClientEvents: TransactionEvent[]; // Includes optimistic entries still in the offline queue
+  pendingEventsCount: number;
   eventsLoading: boolean;
   selectedClientId: string | null;
   setSelectedClientId: (clientId: string | null) => void;
@@ -48,12 +51,16 @@ export function RealtimeDataProvider({ children }: RealtimeDataProviderProps) {
   const [companyMembers, setCompanyMembers] = useState<CompanyMember[]>([]);
   const [membersLoading, setMembersLoading] = useState(false);
   const [selectedClientEvents, setSelectedClientEvents] = useState<TransactionEvent[]>([]);
+  const [pendingEventWrites, setPendingEventWrites] = useState<PendingEventWrite[]>([]);
   const [eventsLoading, setEventsLoading] = useState(false);
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [productService, setProductService] = useState<ProductService | null>(null);
   const [clientService, setClientService] = useState<ClientService | null>(null);
   const offlineManager = OfflineDataManager.getInstance();
+  const { showToast } = useToast();
+  const showToastRef = useRef(showToast);
+  showToastRef.current = showToast;
   useEffect(() => {
     if (empresaId) {
       const prodService = ProductService.getInstance();
@@ -176,6 +183,29 @@ export function RealtimeDataProvider({ children }: RealtimeDataProviderProps) {
       setEventsLoading(false);
     };
   }, [empresaId, selectedClientId]);
+  useEffect(() => {
+    if (!empresaId) {
+      setPendingEventWrites([]);
+      return;
+    }
+    setPendingEventWrites(offlineManager.getPendingEventWrites(empresaId));
+    return offlineManager.subscribeToSyncQueue((event) => {
+      setPendingEventWrites(offlineManager.getPendingEventWrites(empresaId));
+      if (event.type === 'rejected' && event.item.collection === 'events' && event.item.empresaId === empresaId) {
+        const description = event.item.type === 'create'
+          ? (event.item.data?.tipo === 'pago' ? 'Un pago registrado' : 'Una venta registrada')
+          : 'Un cambio hecho';
+        showToastRef.current(`${description} sin conexión no se pudo sincronizar y se quitó del historial: ${event.item.finalError}`, 'error');
+      }
+    });
+  }, [empresaId, offlineManager]);
+  const eventsWithPending = useMemo(
+    () => selectedClientId
+      ? applyPendingEventWrites(selectedClientEvents, pendingEventWrites, selectedClientId)
+      : selectedClientEvents,
+    [selectedClientEvents, pendingEventWrites, selectedClientId]
+  );
+  const pendingEventsCount = eventsWithPending.filter(event => event.pendienteSync).length;
   const refreshProducts = useCallback(async () => {
     if (!empresaId || !productService) {
       console.error('RealtimeDataProvider.refreshProducts: Missing empresaId or productService', {
@@ -277,7 +307,8 @@ export function RealtimeDataProvider({ children }: RealtimeDataProviderProps) {
     setIncludeHiddenClients,
     companyMembers,
     membersLoading,
-    selectedClientEvents,
+    selectedClientEvents: eventsWithPending,
+    pendingEventsCount,
     eventsLoading,
     selectedClientId,
     setSelectedClientId,
@@ -329,6 +360,7 @@ export function useCompanyMembers() {
 export function useClientEvents() {
   const {
     selectedClientEvents,
+    pendingEventsCount,
     eventsLoading,
     selectedClientId,
     setSelectedClientId,
@@ -336,6 +368,7 @@ export function useClientEvents() {
   } = useRealtimeData();
   return {
     events: selectedClientEvents,
+    pendingEventsCount,
     eventsLoading,
     selectedClientId,
     setSelectedClientId,
@@ -0,0 +1,10 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/context/AuthProvider';
+import { BackgroundSyncService } from '@/services/BackgroundSyncService';
+export function useBackgroundSync(): void {
+  const { user } = useAuth();
+  useEffect(() => {
+    if (!user) return;
+    BackgroundSyncService.register();
+  }, [user]);
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthProvider';
+import { subscribeToCompany } from '@/schemas/firestore-utils';
+import { CostMethod } from '@/schemas/types';
+import { isCostMethod } from '@/schemas/purchases';
+export function useCompanyCostMethod(): CostMethod {
+  const { empresaId } = useAuth();
+  const [metodo, setMetodo] = useState<CostMethod>('ultimo');
+  useEffect(() => {
+    if (!empresaId) {
+      setMetodo('ultimo');
+      return;
+    }
+    const unsubscribe = subscribeToCompany(empresaId, (company) => {
+      setMetodo(isCostMethod(company?.metodoCosto) ? company.metodoCosto : 'ultimo');
+    });
+    return unsubscribe;
+  }, [empresaId]);
+  return metodo;
+}
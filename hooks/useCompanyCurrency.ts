@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthProvider';
+import { subscribeToCompany } from '@/schemas/firestore-utils';
+import { Moneda, DEFAULT_MONEDA, isMoneda } from '@/schemas/types';
+export function useCompanyCurrency(): Moneda {
+  const { empresaId } = useAuth();
+  const [moneda, setMoneda] = useState<Moneda>(DEFAULT_MONEDA);
+  useEffect(() => {
+    if (!empresaId) {
+      setMoneda(DEFAULT_MONEDA);
+      return;
+    }
+    const unsubscribe = subscribeToCompany(empresaId, (company) => {
+      setMoneda(isMoneda(company?.monedaPredeterminada) ? company.monedaPredeterminada : DEFAULT_MONEDA);
+    });
+    return unsubscribe;
+  }, [empresaId]);
+  return moneda;
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthProvider';
+import { subscribeToCompanyMember } from '@/schemas/firestore-utils';
+import { CompanyRole, isCompanyRole } from '@/schemas/types';
+import { CompanyPermission, hasPermission } from '@/schemas/permissions';
+export function useCompanyRole(empresaIdOverride?: string | null): {
+  role: CompanyRole | null;
+  can: (permission: CompanyPermission) => boolean;
+} {
+  const { user, empresaId: currentEmpresaId, empresas } = useAuth();
+  const empresaId = empresaIdOverride ?? currentEmpresaId;
+  const cachedRole = empresas.find(membership => membership.empresaId === empresaId)?.role ?? null;
+  const [role, setRole] = useState<CompanyRole | null>(cachedRole);
+  useEffect(() => {
+    if (!empresaId || !user) {
+      setRole(null);
+      return;
+    }
+    setRole(cachedRole);
+    const unsubscribe = subscribeToCompanyMember(empresaId, user.uid, (member) => {
+      setRole(isCompanyRole(member?.role) ? member.role : null); // Member doc is the source of truth, roles change there
+    });
+    return unsubscribe;
+  }, [empresaId, user, cachedRole]);
+  const can = useCallback((permission: CompanyPermission) => hasPermission(role, permission), [role]);
+  return { role, can };
+}
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/context/AuthProvider';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { isReconciliationDue } from '@/schemas/reconciliation';
+import { ReconciliationService } from '@/services/ReconciliationService';
+const checkedCompanies = new Set<string>(); // Check once per company per app session
+export function useDebtReconciliation(): void {
+  const { empresaId } = useAuth();
+  const { can } = useCompanyRole();
+  const canFix = can('gestionarClientes');
+  useEffect(() => {
+    if (!empresaId || !canFix || checkedCompanies.has(empresaId)) return;
+    checkedCompanies.add(empresaId);
+    ReconciliationService.getLastReport(empresaId).then(async report => {
+      if (!isReconciliationDue(report)) return;
+      await ReconciliationService.runReconciliation(empresaId);
+    }).catch(error => console.error('Error reconciling client debts:', error));
+  }, [empresaId, canFix]);
+}
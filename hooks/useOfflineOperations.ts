@@ -24,7 +24,7 @@ export function useOfflineOperations() {
       const productService = ProductService.getInstance();
       return await productService.createProduct(empresaId, productData);
     } else {
-      await offlineManager.addToSyncQueue({
+      const queued = await offlineManager.addToSyncQueue({
         type: 'create',
         collection: 'products',
         empresaId,
@@ -34,7 +34,7 @@ export function useOfflineOperations() {
 
       return { 
         success: true, 
-        data: `temp_${Date.now()}`,
+        data: queued.documentId,
         message: 'Producto guardado localmente. Se sincronizará cuando haya conexión.'
       };
     }
@@ -78,7 +78,7 @@ export function useOfflineOperations() {
       const clientService = new ClientService(empresaId);
       return await clientService.createClient(clientData);
     } else {
-      await offlineManager.addToSyncQueue({
+      const queued = await offlineManager.addToSyncQueue({
         type: 'create',
         collection: 'clients',
         empresaId,
@@ -88,7 +88,7 @@ export function useOfflineOperations() {
 
       return { 
         success: true, 
-        data: `temp_${Date.now()}`,
+        data: queued.documentId,
         message: 'Cliente guardado localmente. Se sincronizará cuando haya conexión.'
       };
     }
@@ -132,14 +132,14 @@ export function useOfflineOperations() {
     if (isConnected) {
       return await TransactionEventService.createSaleEvent(empresaId, saleData);
     } else {
-      await offlineManager.addToSyncQueue({
+      const queued = await offlineManager.addToSyncQueue({
         type: 'create',
         collection: 'events',
         empresaId,
         data: saleData,
         maxRetries: 3
       });
-      return { success: true, eventId: `temp_${Date.now()}` };
+      return { success: true, eventId: queued.documentId };
     }
   }, [empresaId, isConnected]);
   const createPaymentEvent = useCallback(async (paymentData: CreatePaymentEventData) => {
@@ -147,14 +147,14 @@ export function useOfflineOperations() {
     if (isConnected) {
       return await TransactionEventService.createPaymentEvent(empresaId, paymentData);
     } else {
-      await offlineManager.addToSyncQueue({
+      const queued = await offlineManager.addToSyncQueue({
         type: 'create',
         collection: 'events',
         empresaId,
         data: paymentData,
         maxRetries: 3
       });
-      return { success: true, eventId: `temp_${Date.now()}` };
+      return { success: true, eventId: queued.documentId };
     }
   }, [empresaId, isConnected]);
   const updateEvent = useCallback(async (eventId: string, updates: UpdateTransactionEventData) => {
@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/context/AuthProvider';
+import { useCompanyRole } from '@/hooks/useCompanyRole';
+import { getTrashRetentionDays } from '@/schemas/trash';
+import { companyService } from '@/services/CompanyService';
+import { TransactionEventService } from '@/services/TransactionEventService';
+const purgedCompanies = new Set<string>(); // Purge once per company per app session
+export function useTrashAutoPurge(): void {
+  const { empresaId } = useAuth();
+  const { can } = useCompanyRole();
+  const canPurge = can('vaciarPapelera');
+  useEffect(() => {
+    if (!empresaId || !canPurge || purgedCompanies.has(empresaId)) return;
+    purgedCompanies.add(empresaId);
+    companyService.getCompany(empresaId).then(async response => {
+      if (!response.success || !response.data) return;
+      const retentionDays = getTrashRetentionDays(response.data);
+      if (retentionDays === 0) return;
+      const result = await TransactionEventService.purgeExpiredEvents(empresaId, retentionDays);
+      if (result.purged > 0) {
+        console.log(`Papelera: ${result.purged} eventos eliminados definitivamente tras ${retentionDays} días`);
+      }
+      if (!result.success) {
+        console.warn('Trash auto purge finished with errors:', result.errors);
+      }
+    }).catch(error => console.error('Error purging trash:', error));
+  }, [empresaId, canPurge]);
+}
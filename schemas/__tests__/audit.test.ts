@@ -0,0 +1,49 @@
+import { buildAuditChanges, filterAuditLog } from '../audit';
+import { AuditLogEntry } from '../types';
+
+describe('Audit log', () => {
+  it('records every field on create and delete', () => {
+    expect(buildAuditChanges(null, { nombre: 'Pan', activo: true })).toEqual({
+      nombre: { antes: null, despues: 'Pan' },
+      activo: { antes: null, despues: true }
+    });
+    expect(buildAuditChanges({ nombre: 'Pan' }, null)).toEqual({
+      nombre: { antes: 'Pan', despues: null }
+    });
+  });
+
+  it('keeps only changed fields on edit and ignores bookkeeping fields', () => {
+    const antes = { id: 'e1', cantidad: 2, producto: 'Pan', editado: { seconds: 1, nanoseconds: 0 } };
+    const despues = { id: 'e1', cantidad: 3, producto: 'Pan', editado: { seconds: 2, nanoseconds: 0 } };
+
+    expect(buildAuditChanges(antes, despues)).toEqual({ cantidad: { antes: 2, despues: 3 } });
+  });
+
+  it('stores null instead of undefined so Firestore accepts the entry', () => {
+    expect(buildAuditChanges({ notas: undefined }, { notas: 'nueva' })).toEqual({
+      notas: { antes: null, despues: 'nueva' }
+    });
+  });
+
+  it('filters entries by entity, operation and actor', () => {
+    const entry = (id: string, overrides: Partial<AuditLogEntry>): AuditLogEntry => ({
+      id,
+      userId: 'u1',
+      timestamp: { seconds: 0, nanoseconds: 0 } as any,
+      entidad: 'cliente',
+      entidadId: 'c1',
+      operacion: 'editar',
+      cambios: {},
+      ...overrides
+    });
+    const entries = [
+      entry('a', {}),
+      entry('b', { entidad: 'evento', operacion: 'borrar' }),
+      entry('c', { userId: 'u2' })
+    ];
+
+    expect(filterAuditLog(entries, { entidad: 'evento' }).map(e => e.id)).toEqual(['b']);
+    expect(filterAuditLog(entries, { operacion: 'editar', userId: 'u2' }).map(e => e.id)).toEqual(['c']);
+    expect(filterAuditLog(entries, {})).toHaveLength(3);
+  });
+});
@@ -0,0 +1,131 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  CompanyBackup,
+  parseBackup,
+  serializeBackup,
+  validateBackup
+} from '../backup';
+import { Client, PaymentEvent, Product, SaleEvent } from '../types';
+
+// Mock Firebase Timestamp as a class so archives can be serialized and revived
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Company backup archive', () => {
+  const at = (iso: string) => Timestamp.fromDate(new Date(iso));
+
+  const client = (id: string, overrides: Partial<Client> = {}): Client => ({
+    id,
+    nombre: `Cliente ${id}`,
+    direccion: 'Calle 123',
+    telefono: '1155551234',
+    oculto: false,
+    deudaActual: 1500,
+    fechaPromesaPago: null,
+    creado: at('2024-01-01T10:00:00Z'),
+    ...overrides
+  });
+
+  const product: Product = {
+    id: 'prod-1',
+    nombre: 'Pan',
+    colorFondo: '#25B4BD',
+    posicion: 0,
+    ultimoCosto: 100,
+    ultimaGanancia: 50,
+    activo: true,
+    creado: at('2024-01-01T10:00:00Z')
+  };
+
+  const sale: SaleEvent = {
+    id: 'sale-1',
+    clienteId: 'client-1',
+    tipo: 'venta',
+    fecha: at('2024-01-02T10:00:00Z'),
+    creado: at('2024-01-02T10:00:00Z'),
+    borrado: false,
+    producto: 'Pan',
+    cantidad: 10,
+    costoUnitario: 100,
+    gananciaUnitaria: 50,
+    totalVenta: 1500
+  };
+
+  const buildBackup = (overrides: Partial<CompanyBackup> = {}): CompanyBackup => ({
+    formato: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportado: at('2024-02-01T10:00:00Z'),
+    empresaId: 'empresa-1',
+    empresa: {
+      id: 'empresa-1',
+      nombre: 'Panadería',
+      propietario: 'owner-1',
+      creado: at('2023-12-01T10:00:00Z'),
+      monedaPredeterminada: 'ARS',
+      retencionPapeleraDias: 30
+    },
+    miembros: [],
+    clientes: [client('client-1')],
+    productos: [product],
+    eventos: [sale],
+    ...overrides
+  });
+
+  it('round-trips timestamps and nulls through the JSON archive', () => {
+    const { backup, errors } = parseBackup(serializeBackup(buildBackup()));
+
+    expect(errors).toEqual([]);
+    expect(backup!.exportado).toBeInstanceOf(Timestamp);
+    expect(backup!.eventos[0].fecha.toMillis()).toBe(sale.fecha.toMillis());
+    expect(backup!.clientes[0].fechaPromesaPago).toBeNull();
+    expect(backup!.empresa.retencionPapeleraDias).toBe(30);
+  });
+
+  it('rejects files that are not a supported backup', () => {
+    expect(parseBackup('not json').errors).toEqual(['El archivo no es un JSON válido']);
+    expect(parseBackup(JSON.stringify({ clientes: [] })).errors).toEqual(['El archivo no es un respaldo de empresa']);
+
+    const newer = serializeBackup(buildBackup({ version: BACKUP_VERSION + 1 }));
+    expect(parseBackup(newer).backup).toBeNull();
+    expect(parseBackup(newer).errors).toContain('El respaldo fue creado con una versión más nueva de la aplicación');
+  });
+
+  it('skips invalid records and events whose client cannot be restored', () => {
+    const payment: PaymentEvent = {
+      id: 'payment-1',
+      clienteId: 'client-2',
+      tipo: 'pago',
+      fecha: at('2024-01-03T10:00:00Z'),
+      creado: at('2024-01-03T10:00:00Z'),
+      borrado: false,
+      montoPago: 500
+    };
+    const validation = validateBackup(buildBackup({
+      clientes: [client('client-1'), client('client-2', { telefono: '' })],
+      eventos: [sale, payment, { ...sale, id: 'sale-2', totalVenta: 999 }]
+    }));
+
+    expect(validation.clientes.map(c => c.id)).toEqual(['client-1']);
+    expect(validation.productos).toHaveLength(1);
+    expect(validation.eventos.map(e => e.id)).toEqual(['sale-1']);
+    expect(validation.issues.map(issue => `${issue.coleccion}:${issue.id}`)).toEqual([
+      'clientes:client-2',
+      'eventos:payment-1',
+      'eventos:sale-2'
+    ]);
+  });
+
+  it('flags invalid company settings', () => {
+    const backup = buildBackup();
+    const validation = validateBackup({
+      ...backup,
+      empresa: { ...backup.empresa, retencionPapeleraDias: -1 }
+    });
+
+    expect(validation.issues).toEqual([
+      expect.objectContaining({ coleccion: 'empresa', id: 'empresa-1' })
+    ]);
+  });
+});
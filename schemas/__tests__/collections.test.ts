@@ -0,0 +1,99 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import { getCollectionItem, getCollectionItems, getLastPaymentDate, getUpcomingPromises } from '../collections';
+import { Client, TransactionEvent } from '../types';
+
+// Mock Firebase Timestamp as a class so client dates can be converted back to Date
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Collections', () => {
+  const at = (date: string) => Timestamp.fromDate(new Date(date));
+  const hoy = new Date('2024-03-15T12:00:00');
+
+  const client = (id: string, overrides: Partial<Client> = {}): Client => ({
+    id,
+    nombre: `Cliente ${id}`,
+    direccion: '',
+    telefono: '',
+    oculto: false,
+    deudaActual: 100,
+    creado: at('2024-03-01T10:00:00'),
+    ...overrides
+  });
+
+  it('flags overdue and due-today promises', () => {
+    const vencida = getCollectionItem(client('c1', { fechaPromesaPago: at('2024-03-12T10:00:00') }), hoy);
+    const deHoy = getCollectionItem(client('c2', { fechaPromesaPago: at('2024-03-15T08:00:00') }), hoy);
+
+    expect(vencida?.motivo).toBe('promesaVencida');
+    expect(vencida?.diasVencida).toBe(3);
+    expect(deHoy?.motivo).toBe('promesaHoy');
+  });
+
+  it('waits until a future promise is due even without recent payments', () => {
+    const item = getCollectionItem(client('c1', {
+      creado: at('2023-01-01T10:00:00'),
+      fechaPromesaPago: at('2024-03-20T10:00:00')
+    }), hoy);
+
+    expect(item).toBeNull();
+  });
+
+  it('flags clients without payments past the limit using the last payment or creation date', () => {
+    const conPagoViejo = client('c1', { ultimoPago: at('2024-01-15T10:00:00') });
+    const conPagoReciente = client('c2', { creado: at('2023-01-01T10:00:00'), ultimoPago: at('2024-03-10T10:00:00') });
+    const sinPagos = client('c3', { creado: at('2024-02-24T10:00:00') });
+
+    expect(getCollectionItem(conPagoViejo, hoy)).toMatchObject({ motivo: 'sinPagos', diasSinPago: 60 });
+    expect(getCollectionItem(conPagoReciente, hoy)).toBeNull();
+    expect(getCollectionItem(sinPagos, hoy, 30)).toBeNull();
+    expect(getCollectionItem(sinPagos, hoy, 15)).toMatchObject({ motivo: 'sinPagos', diasSinPago: 20 });
+  });
+
+  it('skips hidden clients and clients without debt', () => {
+    const overdue = { fechaPromesaPago: at('2024-03-01T10:00:00') };
+
+    expect(getCollectionItem(client('c1', { ...overdue, oculto: true }), hoy)).toBeNull();
+    expect(getCollectionItem(client('c2', { ...overdue, deudaActual: 0 }), hoy)).toBeNull();
+  });
+
+  it('sorts overdue promises first, then promises due today, then oldest debts', () => {
+    const items = getCollectionItems([
+      client('sinPagos', { creado: at('2023-12-01T10:00:00') }),
+      client('hoy', { fechaPromesaPago: at('2024-03-15T10:00:00') }),
+      client('vencidaReciente', { fechaPromesaPago: at('2024-03-14T10:00:00') }),
+      client('vencidaVieja', { fechaPromesaPago: at('2024-03-05T10:00:00') }),
+      client('alDia')
+    ], hoy);
+
+    expect(items.map(item => item.client.id)).toEqual(['vencidaVieja', 'vencidaReciente', 'hoy', 'sinPagos']);
+  });
+
+  it('lists promises that still need a reminder', () => {
+    const upcoming = getUpcomingPromises([
+      client('pasada', { fechaPromesaPago: at('2024-03-14T10:00:00') }),
+      client('hoy', { fechaPromesaPago: at('2024-03-15T10:00:00') }),
+      client('futura', { fechaPromesaPago: at('2024-03-20T10:00:00') }),
+      client('pagada', { fechaPromesaPago: at('2024-03-20T10:00:00'), deudaActual: 0 }),
+      client('sinPromesa', { fechaPromesaPago: null })
+    ], hoy);
+
+    expect(upcoming.map(item => item.id)).toEqual(['hoy', 'futura']);
+  });
+
+  it('moves ultimoPago as payments are created, edited, deleted and restored', () => {
+    const event = (id: string, tipo: 'venta' | 'pago', fecha: string, borrado = false) => ({
+      id, clienteId: 'c1', tipo, fecha: at(fecha), creado: at(fecha), borrado, montoPago: 50
+    } as unknown as TransactionEvent);
+    const venta = event('v1', 'venta', '2024-03-12T10:00:00');
+    const pago = event('p1', 'pago', '2024-03-01T10:00:00');
+
+    expect(getLastPaymentDate([venta])).toBeNull();
+    expect(getLastPaymentDate([venta, pago])?.toMillis()).toBe(at('2024-03-01T10:00:00').toMillis());
+    expect(getLastPaymentDate([venta, { ...pago, fecha: at('2024-03-10T10:00:00') }])?.toMillis())
+      .toBe(at('2024-03-10T10:00:00').toMillis());
+    expect(getLastPaymentDate([venta, { ...pago, borrado: true }])).toBeNull();
+    expect(getLastPaymentDate([event('p2', 'pago', '2024-03-14T10:00:00'), pago])?.toMillis())
+      .toBe(at('2024-03-14T10:00:00').toMillis());
+  });
+});
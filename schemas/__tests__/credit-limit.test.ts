@@ -0,0 +1,64 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import { checkCreditLimit } from '../business-logic';
+import { validateClient } from '../validation';
+import { CreateClientData, Moneda, SaleEvent } from '../types';
+
+// Mock Firebase Timestamp as a class so sale dates can be built
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Credit limits', () => {
+  const sale = (totalVenta: number, moneda?: Moneda): SaleEvent => ({
+    id: 's1',
+    clienteId: 'c1',
+    tipo: 'venta',
+    fecha: Timestamp.now(),
+    creado: Timestamp.now(),
+    borrado: false,
+    producto: 'Pan',
+    cantidad: 1,
+    costoUnitario: totalVenta,
+    gananciaUnitaria: 0,
+    totalVenta,
+    ...(moneda && { moneda })
+  });
+
+  it('allows sales while the debt stays within the limit', () => {
+    const check = checkCreditLimit({ limiteCredito: 500 }, 300, sale(200));
+
+    expect(check).toEqual({ excedeLimite: false, bloqueado: false, limiteCredito: 500, deudaResultante: 500, exceso: 0 });
+  });
+
+  it('warns when a sale takes the debt past the limit', () => {
+    const check = checkCreditLimit({ limiteCredito: 500 }, 300, sale(250));
+
+    expect(check.excedeLimite).toBe(true);
+    expect(check.bloqueado).toBe(false);
+    expect(check.deudaResultante).toBe(550);
+    expect(check.exceso).toBe(50);
+  });
+
+  it('blocks the sale when the client is configured to block', () => {
+    const check = checkCreditLimit({ limiteCredito: 500, bloquearSobreLimite: true }, 300, sale(250));
+
+    expect(check.bloqueado).toBe(true);
+  });
+
+  it('ignores clients without a limit and sales in another currency', () => {
+    expect(checkCreditLimit({ limiteCredito: null, bloquearSobreLimite: false }, 300, sale(1000)).excedeLimite).toBe(false);
+    expect(checkCreditLimit({ limiteCredito: 500, bloquearSobreLimite: true }, 300, sale(1000, 'USD'), 'ARS').bloqueado).toBe(false);
+  });
+
+  it('validates the limit on the client', () => {
+    const client: CreateClientData = {
+      nombre: 'Ana',
+      direccion: 'Calle 1',
+      telefono: '+5491155550000',
+      oculto: false
+    };
+
+    expect(validateClient({ ...client, limiteCredito: 1000, bloquearSobreLimite: true }).isValid).toBe(true);
+    expect(validateClient({ ...client, limiteCredito: -1 }).errors).toContain('El límite de crédito debe ser un número mayor o igual a 0');
+    expect(validateClient({ ...client, limiteCredito: null, bloquearSobreLimite: true }).isValid).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { getDocs } from 'firebase/firestore';
+import { TransactionEventService } from '@/services/TransactionEventService';
+import { indexes } from '../../firestore.indexes.json';
+
+// Mock Firestore query builders so the constraints sent to Firestore can be inspected
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn((...path: string[]) => ({ path: path.slice(1).join('/') })),
+  query: jest.fn((ref: any, ...constraints: any[]) => ({ ref, constraints })),
+  where: jest.fn((field: string, op: string, value: any) => ({ type: 'where', field, op, value })),
+  orderBy: jest.fn((field: string, direction: string) => ({ type: 'orderBy', field, direction })),
+  limit: jest.fn((count: number) => ({ type: 'limit', count })),
+  startAfter: jest.fn((cursor: any) => ({ type: 'startAfter', cursor })),
+  getDocs: jest.fn(),
+  Timestamp: {
+    fromDate: (date: Date) => ({ millis: date.getTime() }),
+    now: () => ({ millis: Date.now() })
+  }
+}));
+
+// Mock Firebase config
+jest.mock('@/firebaseConfig', () => ({
+  db: {},
+  auth: { currentUser: { uid: 'member-1' } }
+}));
+
+const mockGetDocs = getDocs as jest.Mock;
+
+const snapshotOf = (ids: string[]) => {
+  const docs = ids.map(id => ({ id, data: () => ({ tipo: 'venta', borrado: false }) }));
+  return { docs, forEach: (fn: (doc: any) => void) => docs.forEach(fn) };
+};
+
+describe('Company-wide event queries', () => {
+  beforeEach(() => {
+    mockGetDocs.mockReset();
+  });
+
+  it('only filters out deleted events and orders by date by default', () => {
+    expect(TransactionEventService.buildEventQueryConstraints()).toEqual([
+      { type: 'where', field: 'borrado', op: '==', value: false },
+      { type: 'orderBy', field: 'fecha', direction: 'desc' }
+    ]);
+  });
+
+  it('combines date range, type, product and member filters', () => {
+    const desde = new Date('2024-03-01T00:00:00');
+    const hasta = new Date('2024-03-31T23:59:59');
+
+    expect(TransactionEventService.buildEventQueryConstraints({
+      desde,
+      hasta,
+      producto: 'Pan',
+      creadoPor: 'member-2',
+      orden: 'asc'
+    })).toEqual([
+      { type: 'where', field: 'borrado', op: '==', value: false },
+      { type: 'where', field: 'tipo', op: '==', value: 'venta' },
+      { type: 'where', field: 'producto', op: '==', value: 'Pan' },
+      { type: 'where', field: 'creadoPor', op: '==', value: 'member-2' },
+      { type: 'where', field: 'fecha', op: '>=', value: { millis: desde.getTime() } },
+      { type: 'where', field: 'fecha', op: '<=', value: { millis: hasta.getTime() } },
+      { type: 'orderBy', field: 'fecha', direction: 'asc' }
+    ]);
+  });
+
+  it('pages through results with a cursor', async () => {
+    mockGetDocs.mockResolvedValueOnce(snapshotOf(['e1', 'e2']));
+
+    const firstPage = await TransactionEventService.queryEvents('empresa-1', { tipo: 'pago', pageSize: 2 });
+
+    expect(firstPage.events.map(event => event.id)).toEqual(['e1', 'e2']);
+    expect(firstPage.hasMore).toBe(true);
+
+    mockGetDocs.mockResolvedValueOnce(snapshotOf(['e3']));
+
+    const secondPage = await TransactionEventService.queryEvents('empresa-1', {
+      tipo: 'pago',
+      pageSize: 2,
+      cursor: firstPage.cursor
+    });
+    const [secondQuery] = mockGetDocs.mock.calls[1];
+
+    expect(secondQuery.ref.path).toBe('empresas/empresa-1/eventos');
+    expect(secondQuery.constraints).toContainEqual({ type: 'startAfter', cursor: firstPage.cursor });
+    expect(secondQuery.constraints).toContainEqual({ type: 'limit', count: 2 });
+    expect(secondPage.events.map(event => event.id)).toEqual(['e3']);
+    expect(secondPage.hasMore).toBe(false);
+  });
+
+  it('reports the error instead of an empty result when the query fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetDocs.mockRejectedValueOnce(Object.assign(new Error('The query requires an index'), { code: 'failed-precondition' }));
+    mockGetDocs.mockRejectedValueOnce(new Error('unavailable'));
+
+    await expect(TransactionEventService.queryEvents('empresa-1')).resolves.toEqual({
+      events: [],
+      cursor: null,
+      hasMore: false,
+      error: 'Falta un índice para esta combinación de filtros'
+    });
+    expect((await TransactionEventService.queryEvents('empresa-1')).error).toBeDefined();
+  });
+
+  it('has a deployed index for every filter combination', () => {
+    const deployed = new Set(
+      indexes
+        .filter((index: any) => index.collectionGroup === 'eventos')
+        .map((index: any) => index.fields.map((field: any) => `${field.fieldPath}:${field.order}`).join(','))
+    );
+    const fieldOrder = ['clienteId', 'borrado', 'tipo', 'producto', 'productoId', 'creadoPor'];
+
+    for (const incluirBorrados of [false, true]) {
+      for (const clienteId of [undefined, 'c1']) {
+        for (const extra of [{}, { tipo: 'pago' as const }, { producto: 'Pan' }, { productoId: 'p1' }]) {
+          for (const creadoPor of [undefined, 'member-2']) {
+            for (const orden of ['asc', 'desc'] as const) {
+              const constraints: any[] = TransactionEventService.buildEventQueryConstraints({
+                incluirBorrados, clienteId, creadoPor, orden, ...extra
+              });
+              const equalities = constraints
+                .filter(constraint => constraint.type === 'where' && constraint.op === '==')
+                .map(constraint => constraint.field)
+                .sort((a, b) => fieldOrder.indexOf(a) - fieldOrder.indexOf(b));
+              if (equalities.length === 0) continue; // Single field index on fecha
+              const needed = [...equalities.map(field => `${field}:ASCENDING`), `fecha:${orden === 'asc' ? 'ASCENDING' : 'DESCENDING'}`].join(',');
+              expect(deployed).toContain(needed);
+            }
+          }
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { buildEventTimeline } from '../event-revisions';
+import { EventRevision, SaleEvent } from '../types';
+
+describe('Event revisions', () => {
+  const ts = (seconds: number) => ({ seconds, nanoseconds: 0 } as any);
+  const current = {
+    id: 'evt1',
+    clienteId: 'cli1',
+    tipo: 'venta',
+    fecha: ts(100),
+    creado: ts(100),
+    editado: ts(300),
+    borrado: false,
+    producto: 'Remera',
+    cantidad: 3,
+    costoUnitario: 10,
+    gananciaUnitaria: 5,
+    totalVenta: 45
+  } as SaleEvent;
+  const revision = (id: string, seconds: number, changes: Partial<SaleEvent>): EventRevision => {
+    const { id: _eventId, ...datos } = { ...current, ...changes };
+    return { id, datos, motivo: 'edicion', creado: ts(seconds) };
+  };
+
+  it('lists the current version first and older revisions after it', () => {
+    const older = revision('r1', 200, { cantidad: 1, totalVenta: 15, editado: undefined });
+    const newer = revision('r2', 300, { cantidad: 2, totalVenta: 30, editado: ts(200) });
+
+    const timeline = buildEventTimeline(current, [older, newer]);
+
+    expect(timeline.map(version => version.revision?.id)).toEqual([undefined, 'r2', 'r1']);
+    expect(timeline[0].cambios).toEqual([]);
+  });
+
+  it('reports the fields each newer version changed', () => {
+    const timeline = buildEventTimeline(current, [
+      revision('r1', 200, { producto: 'Buzo', notas: 'talle M' })
+    ]);
+
+    expect(timeline[1].cambios.sort()).toEqual(['notas', 'producto']);
+  });
+});
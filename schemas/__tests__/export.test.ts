@@ -0,0 +1,148 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import { strFromU8, unzipSync } from 'fflate';
+import {
+  buildClientsTable,
+  buildEventsTable,
+  buildExportFileName,
+  buildProductsTable,
+  tableToCsv,
+  tableToXlsx
+} from '../export-utils';
+import { Client, Product, SaleEvent, PaymentEvent } from '../types';
+
+// Mock Firebase Timestamp as a class so events can be sorted and dated
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Data export', () => {
+  const at = (date: string) => Timestamp.fromDate(new Date(date));
+
+  it('lists client debts per currency, falling back to deudaActual', () => {
+    const clients: Client[] = [
+      {
+        id: 'c1',
+        nombre: 'Ana',
+        direccion: 'Calle 1',
+        telefono: '123',
+        oculto: false,
+        deudaActual: 500,
+        creado: at('2024-01-01T10:00:00')
+      },
+      {
+        id: 'c2',
+        nombre: 'Beto',
+        direccion: 'Calle 2',
+        telefono: '456',
+        oculto: true,
+        deudaActual: 100,
+        deudaPorMoneda: { ARS: 100, USD: 20 },
+        ultimaTransaccion: at('2024-03-05T09:07:00'),
+        creado: at('2024-01-01T10:00:00')
+      }
+    ];
+
+    const table = buildClientsTable(clients);
+
+    expect(table.columnas).toEqual([
+      'Nombre', 'Dirección', 'Teléfono', 'Deuda ARS', 'Deuda USD', 'Última transacción', 'Oculto', 'Notas'
+    ]);
+    expect(table.filas).toEqual([
+      ['Ana', 'Calle 1', '123', 500, 0, '', 'No', ''],
+      ['Beto', 'Calle 2', '456', 100, 20, '2024-03-05 09:07', 'Sí', '']
+    ]);
+  });
+
+  it('lists products in catalogue order with their price', () => {
+    const product = (id: string, posicion: number, moneda?: 'USD'): Product => ({
+      id,
+      nombre: `Producto ${id}`,
+      colorFondo: '#fff',
+      posicion,
+      ultimoCosto: 10,
+      ultimaGanancia: 5,
+      activo: true,
+      creado: at('2024-01-01T10:00:00'),
+      ...(moneda && { moneda })
+    });
+
+    const table = buildProductsTable([product('b', 2, 'USD'), product('a', 1)]);
+
+    expect(table.filas).toEqual([
+      [1, 'Producto a', 'ARS', 10, 5, 15, 'Sí'],
+      [2, 'Producto b', 'USD', 10, 5, 15, 'Sí']
+    ]);
+  });
+
+  it('lists sales and payments chronologically with client names', () => {
+    const sale: SaleEvent = {
+      id: 's1',
+      clienteId: 'c1',
+      tipo: 'venta',
+      fecha: at('2024-03-05T10:00:00'),
+      creado: at('2024-03-05T10:00:00'),
+      borrado: false,
+      producto: 'Pan',
+      cantidad: 2,
+      costoUnitario: 100,
+      gananciaUnitaria: 50,
+      totalVenta: 300
+    };
+    const payment: PaymentEvent = {
+      id: 'p1',
+      clienteId: 'c2',
+      tipo: 'pago',
+      fecha: at('2024-03-04T10:00:00'),
+      creado: at('2024-03-04T10:00:00'),
+      borrado: false,
+      montoPago: 80,
+      moneda: 'USD',
+      notas: 'Transferencia'
+    };
+
+    const table = buildEventsTable([sale, payment], { c1: 'Ana' });
+
+    expect(table.filas).toEqual([
+      ['2024-03-04 10:00', 'c2', 'Pago', '', '', '', '', '', 80, 'USD', 'Transferencia'],
+      ['2024-03-05 10:00', 'Ana', 'Venta', 'Pan', 2, 100, 50, 300, '', 'ARS', '']
+    ]);
+  });
+
+  it('escapes CSV cells and neutralises formulas', () => {
+    const csv = tableToCsv({
+      nombre: 'Prueba',
+      columnas: ['Nombre', 'Notas', 'Monto'],
+      filas: [['Pérez, Juan', 'Dijo "mañana"', -10], ['=SUM(A1)', 'línea\nnueva', 1.5]]
+    });
+
+    expect(csv).toBe(
+      '\uFEFFNombre,Notas,Monto\r\n' +
+      '"Pérez, Juan","Dijo ""mañana""",-10\r\n' +
+      '\'=SUM(A1),"línea\nnueva",1.5\r\n'
+    );
+  });
+
+  it('writes a workbook with typed cells and escaped text', () => {
+    const files = unzipSync(tableToXlsx({
+      nombre: 'Historial: Pérez & Hijos',
+      columnas: ['Nombre', 'Monto'],
+      filas: [['<Pan> & "Leche"', 1500], ['=SUM(A1)', NaN]]
+    }));
+    const sheet = strFromU8(files['xl/worksheets/sheet1.xml']);
+
+    expect(Object.keys(files).sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml'
+    ]);
+    expect(strFromU8(files['xl/workbook.xml'])).toContain('<sheet name="Historial  Pérez &amp; Hijos"');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">&lt;Pan&gt; &amp; &quot;Leche&quot;</t></is></c><c r="B2"><v>1500</v></c>');
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">=SUM(A1)</t></is></c></row>');
+  });
+
+  it('builds a dated, file-system safe file name', () => {
+    expect(buildExportFileName('Historial José Pérez', 'xlsx', new Date('2024-03-05T10:00:00')))
+      .toBe('historial-jose-perez-20240305.xlsx');
+  });
+});
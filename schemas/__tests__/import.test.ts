@@ -0,0 +1,111 @@
+import { Timestamp } from 'firebase/firestore';
+import {
+  buildClientImportPreview,
+  buildProductImportPreview,
+  parseCsv,
+  parseImportNumber
+} from '../import-utils';
+import { Client, Product } from '../types';
+
+// Mock Firebase Timestamp for existing records
+jest.mock('firebase/firestore', () => ({
+  Timestamp: {
+    now: () => ({ seconds: Date.now() / 1000, nanoseconds: 0 })
+  }
+}));
+
+describe('CSV import', () => {
+  it('parses quoted cells, semicolons and a byte order mark', () => {
+    expect(parseCsv('\uFEFFnombre;notas\r\n"Pérez; Juan";"Dijo ""hola""\nadiós"\r\n')).toEqual([
+      ['nombre', 'notas'],
+      ['Pérez; Juan', 'Dijo "hola"\nadiós']
+    ]);
+  });
+
+  it('reads numbers written with local decimal commas', () => {
+    expect(parseImportNumber('1.234,50')).toBe(1234.5);
+    expect(parseImportNumber('$ 99.9')).toBe(99.9);
+    expect(parseImportNumber('')).toBeNaN();
+  });
+
+  it('validates client rows and flags duplicates by name and phone', () => {
+    const existing: Client[] = [{
+      id: 'c1',
+      nombre: 'Ana García',
+      direccion: 'Calle 1',
+      telefono: '11 5555-0000',
+      oculto: false,
+      deudaActual: 0,
+      creado: Timestamp.now()
+    }];
+    const csv = [
+      'Nombre,Dirección,Teléfono,Notas',
+      'Beto,Calle 2,11 4444-1111,Paga los viernes',
+      'ana garcia,Calle 3,11 3333-2222,',
+      'Carla,Calle 4,1155550000,',
+      'Dani,,abc,',
+      'Beto Segundo,Calle 5,1144441111,',
+      ',,,'
+    ].join('\n');
+
+    const preview = buildClientImportPreview(csv, existing);
+
+    expect(preview.columnasFaltantes).toEqual([]);
+    expect(preview.filas.map(row => [row.fila, row.estado])).toEqual([
+      [2, 'valido'],
+      [3, 'duplicado'],
+      [4, 'duplicado'],
+      [5, 'invalido'],
+      [6, 'duplicado']
+    ]);
+    expect(preview.filas[0].data).toEqual({
+      nombre: 'Beto',
+      direccion: 'Calle 2',
+      telefono: '11 4444-1111',
+      oculto: false,
+      notas: 'Paga los viernes'
+    });
+    expect(preview.filas[3].errors).toContain('La dirección del cliente es requerida');
+    expect([preview.validas, preview.invalidas, preview.duplicadas]).toEqual([1, 1, 3]);
+  });
+
+  it('reports missing required columns', () => {
+    expect(buildClientImportPreview('nombre,telefono\nAna,1155550000').columnasFaltantes).toEqual(['direccion']);
+  });
+
+  it('fills product defaults and appends after the existing catalogue', () => {
+    const existing: Product[] = [{
+      id: 'p1',
+      nombre: 'Pan',
+      colorFondo: '#fff',
+      posicion: 4,
+      ultimoCosto: 10,
+      ultimaGanancia: 5,
+      activo: true,
+      creado: Timestamp.now()
+    }];
+    const csv = [
+      'producto;costo;ganancia;moneda',
+      'Leche;100,5;20;',
+      'Queso;300;50;usd',
+      'PAN;10;5;',
+      'Yerba;x;5;',
+      'Café;10;5;EUR'
+    ].join('\n');
+
+    const preview = buildProductImportPreview(csv, existing);
+
+    expect(preview.filas.map(row => row.estado)).toEqual(['valido', 'valido', 'duplicado', 'invalido', 'invalido']);
+    expect(preview.filas[0].data).toEqual({
+      nombre: 'Leche',
+      colorFondo: '#25B4BD',
+      posicion: 5,
+      ultimoCosto: 100.5,
+      ultimaGanancia: 20,
+      moneda: 'ARS',
+      activo: true
+    });
+    expect(preview.filas[1].data.posicion).toBe(6);
+    expect(preview.filas[1].data.moneda).toBe('USD');
+  });
+});
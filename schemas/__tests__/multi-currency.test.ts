@@ -0,0 +1,127 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import {
+  calculateClientDebt,
+  detectZeroBalanceTransitions,
+  getNetBalancesByCurrency,
+  formatCurrency
+} from '../business-logic';
+import { validateSaleEvent, validatePaymentEvent, validateProduct } from '../validation';
+import { createSaleEventData, createPaymentEventData } from '../event-utils';
+import { Moneda, SaleEvent, PaymentEvent } from '../types';
+
+// Mock Firebase Timestamp as a class so calculateClientDebt can normalize dates
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Multi-currency balances', () => {
+  const baseTime = new Date('2024-01-01T10:00:00Z').getTime();
+  const at = (minutes: number) => Timestamp.fromMillis(baseTime + minutes * 60000);
+
+  const sale = (id: string, amount: number, minutes: number, moneda?: Moneda): SaleEvent => ({
+    id,
+    clienteId: 'client-1',
+    tipo: 'venta',
+    fecha: at(minutes),
+    creado: at(minutes),
+    borrado: false,
+    producto: 'Producto',
+    cantidad: 1,
+    costoUnitario: amount,
+    gananciaUnitaria: 0,
+    totalVenta: amount,
+    ...(moneda && { moneda })
+  });
+
+  const payment = (id: string, amount: number, minutes: number, moneda?: Moneda): PaymentEvent => ({
+    id,
+    clienteId: 'client-1',
+    tipo: 'pago',
+    fecha: at(minutes),
+    creado: at(minutes),
+    borrado: false,
+    montoPago: amount,
+    ...(moneda && { moneda })
+  });
+
+  it('keeps a separate running total per currency', () => {
+    const result = calculateClientDebt([
+      sale('s1', 1000, 0),
+      sale('s2', 50, 1, 'USD'),
+      payment('p1', 400, 2, 'ARS'),
+      payment('p2', 20, 3, 'USD')
+    ]);
+
+    expect(result.events.map(e => [e.moneda, e.runningTotal])).toEqual([
+      ['ARS', 1000],
+      ['USD', 50],
+      ['ARS', 600],
+      ['USD', 30]
+    ]);
+    expect(result.balancesByCurrency).toEqual({
+      ARS: { totalDebt: 600, favorBalance: 0 },
+      USD: { totalDebt: 30, favorBalance: 0 }
+    });
+    expect(result.totalDebt).toBe(600);
+    expect(result.moneda).toBe('ARS');
+  });
+
+  it('treats events without currency as the company default', () => {
+    const result = calculateClientDebt([sale('s1', 100, 0), payment('p1', 30, 1, 'USD')], 'USD');
+
+    expect(result.totalDebt).toBe(70);
+    expect(result.balancesByCurrency.ARS).toBeUndefined();
+  });
+
+  it('does not offset a payment in one currency against debt in another', () => {
+    const result = calculateClientDebt([sale('s1', 500, 0, 'ARS'), payment('p1', 100, 1, 'USD')]);
+
+    expect(getNetBalancesByCurrency(result)).toEqual({ ARS: 500, USD: -100 });
+    expect(result.totalDebt).toBe(500);
+    expect(result.favorBalance).toBe(0);
+  });
+
+  it('detects zero balance transitions within each currency', () => {
+    const result = calculateClientDebt([
+      sale('s1', 100, 0, 'ARS'),
+      sale('s2', 10, 1, 'USD'),
+      payment('p1', 100, 2, 'ARS')
+    ]);
+
+    const transitions = detectZeroBalanceTransitions(result.events);
+    expect(transitions.filter(t => t.transitionType === 'to-zero').map(t => t.eventIndex)).toEqual([2]);
+    expect(transitions.filter(t => t.transitionType === 'from-zero').map(t => t.eventIndex)).toEqual([0, 1]);
+  });
+
+  it('formats amounts with the given currency', () => {
+    expect(formatCurrency(10, 'USD')).toContain('US$');
+    expect(formatCurrency(10)).not.toContain('US$');
+  });
+
+  it('validates the currency on events and products', () => {
+    const saleData = createSaleEventData({
+      clienteId: 'client-1',
+      producto: 'Producto',
+      cantidad: 1,
+      costoUnitario: 10,
+      gananciaUnitaria: 5,
+      moneda: 'USD'
+    });
+    expect(saleData.moneda).toBe('USD');
+    expect(validateSaleEvent(saleData).isValid).toBe(true);
+
+    const paymentData = createPaymentEventData({ clienteId: 'client-1', montoPago: 10 });
+    expect(paymentData).not.toHaveProperty('moneda');
+    expect(validatePaymentEvent({ ...paymentData, moneda: 'EUR' as Moneda }).isValid).toBe(false);
+
+    const productResult = validateProduct({
+      nombre: 'Producto',
+      colorFondo: '#FF0000',
+      posicion: 0,
+      ultimoCosto: 1,
+      ultimaGanancia: 1,
+      activo: true,
+      moneda: 'BRL' as Moneda
+    });
+    expect(productResult.isValid).toBe(false);
+  });
+});
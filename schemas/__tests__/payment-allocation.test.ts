@@ -0,0 +1,132 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import {
+  allocatePayments,
+  getOutstandingSales,
+  suggestPaymentAllocation
+} from '../business-logic';
+import { validatePaymentEvent } from '../validation';
+import { PaymentAllocation, SaleEvent, PaymentEvent, Moneda } from '../types';
+
+// Mock Firebase Timestamp as a class so events can be normalized and sorted
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Payment allocation against sales', () => {
+  const baseTime = new Date('2024-01-01T10:00:00Z').getTime();
+  const at = (minutes: number) => Timestamp.fromMillis(baseTime + minutes * 60000);
+
+  const sale = (id: string, amount: number, minutes: number, moneda?: Moneda): SaleEvent => ({
+    id,
+    clienteId: 'client-1',
+    tipo: 'venta',
+    fecha: at(minutes),
+    creado: at(minutes),
+    borrado: false,
+    producto: `Producto ${id}`,
+    cantidad: 1,
+    costoUnitario: amount,
+    gananciaUnitaria: 0,
+    totalVenta: amount,
+    ...(moneda && { moneda })
+  });
+
+  const payment = (
+    id: string,
+    amount: number,
+    minutes: number,
+    asignaciones?: PaymentAllocation[]
+  ): PaymentEvent => ({
+    id,
+    clienteId: 'client-1',
+    tipo: 'pago',
+    fecha: at(minutes),
+    creado: at(minutes),
+    borrado: false,
+    montoPago: amount,
+    ...(asignaciones && { asignaciones })
+  });
+
+  it('settles the oldest sales first by default', () => {
+    const result = allocatePayments([
+      sale('s1', 100, 0),
+      sale('s2', 200, 1),
+      payment('p1', 150, 2)
+    ]);
+
+    expect(result.payments.p1).toEqual([
+      { ventaId: 's1', monto: 100 },
+      { ventaId: 's2', monto: 50 }
+    ]);
+    expect(result.sales.s1.saldoPendiente).toBe(0);
+    expect(result.sales.s2.saldoPendiente).toBe(150);
+  });
+
+  it('honours manual allocations and sends the remainder oldest-first', () => {
+    const result = allocatePayments([
+      sale('s1', 100, 0),
+      sale('s2', 200, 1),
+      payment('p1', 250, 2, [{ ventaId: 's2', monto: 200 }])
+    ]);
+
+    expect(result.payments.p1).toEqual([
+      { ventaId: 's2', monto: 200 },
+      { ventaId: 's1', monto: 50 }
+    ]);
+    expect(result.sales.s1.saldoPendiente).toBe(50);
+    expect(getOutstandingSales(result).map(s => s.ventaId)).toEqual(['s1']);
+  });
+
+  it('applies favor balance from earlier payments to later sales', () => {
+    const result = allocatePayments([
+      sale('s1', 100, 0),
+      payment('p1', 130, 1),
+      sale('s2', 50, 2)
+    ]);
+
+    expect(result.sales.s2.montoPagado).toBe(30);
+    expect(result.sales.s2.pagos).toEqual([{ pagoId: 'p1', monto: 30 }]);
+    expect(result.unallocatedCredit).toEqual({});
+  });
+
+  it('keeps unapplied payments as credit per currency', () => {
+    const result = allocatePayments([
+      sale('s1', 100, 0, 'USD'),
+      payment('p1', 40, 1)
+    ]);
+
+    expect(result.sales.s1.saldoPendiente).toBe(100);
+    expect(result.unallocatedCredit).toEqual({ ARS: 40 });
+  });
+
+  it('suggests an oldest-first allocation for a new payment', () => {
+    const events = [sale('s1', 100, 0), sale('s2', 200, 1), payment('p1', 50, 2)];
+
+    expect(suggestPaymentAllocation(events, 120, 'ARS')).toEqual([
+      { ventaId: 's1', monto: 50 },
+      { ventaId: 's2', monto: 70 }
+    ]);
+  });
+
+  it('keeps a recorded oldest-first allocation when an older sale is added later', () => {
+    const recorded = suggestPaymentAllocation([sale('s1', 100, 10)], 100, 'ARS');
+    const result = allocatePayments([
+      sale('s1', 100, 10),
+      payment('p1', 100, 20, recorded),
+      sale('backdated', 80, 0)
+    ]);
+
+    expect(result.payments.p1).toEqual([{ ventaId: 's1', monto: 100 }]);
+    expect(result.sales.backdated.saldoPendiente).toBe(80);
+  });
+
+  it('rejects allocations that exceed the payment amount', () => {
+    const base = { clienteId: 'client-1', tipo: 'pago' as const, fecha: at(0), montoPago: 100 };
+
+    expect(validatePaymentEvent({ ...base, asignaciones: [{ ventaId: 's1', monto: 60 }] }).isValid).toBe(true);
+    expect(validatePaymentEvent({
+      ...base,
+      asignaciones: [{ ventaId: 's1', monto: 60 }, { ventaId: 's2', monto: 60 }]
+    }).isValid).toBe(false);
+    expect(validatePaymentEvent({ ...base, asignaciones: [{ ventaId: '', monto: 10 }] }).isValid).toBe(false);
+  });
+});
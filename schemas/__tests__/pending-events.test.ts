@@ -0,0 +1,103 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import OfflineDataManager, { SyncQueueItem } from '@/services/OfflineDataManager';
+import { applyPendingEventWrites, PendingEventWrite } from '../pending-events';
+import { calculateClientDebt } from '../business-logic';
+import { TransactionEvent } from '../types';
+import { Timestamp } from 'firebase/firestore';
+
+// Mock Firebase Timestamp as a class so pending events can be sorted and summed
+jest.mock('firebase/firestore', () => mockFirestore);
+
+// Use the real queue so it loads from the mocked AsyncStorage
+jest.unmock('@/services/OfflineDataManager');
+
+describe('Pending offline events', () => {
+  const ts = (millis: number) => Timestamp.fromMillis(millis);
+  const sale = {
+    id: 'venta1',
+    clienteId: 'cli1',
+    tipo: 'venta',
+    producto: 'Remera',
+    cantidad: 2,
+    costoUnitario: 10,
+    gananciaUnitaria: 5,
+    totalVenta: 30,
+    fecha: ts(1000),
+    creado: ts(1000),
+    borrado: false
+  } as TransactionEvent;
+  const queuedSale = (documentId: string, clienteId: string): PendingEventWrite => ({
+    type: 'create',
+    documentId,
+    encolado: ts(3000),
+    data: {
+      clienteId,
+      tipo: 'venta',
+      producto: 'Buzo',
+      cantidad: 1,
+      costoUnitario: 40,
+      gananciaUnitaria: 10,
+      fecha: ts(3000)
+    }
+  });
+
+  it('adds queued sales for the client as pending entries counted in the balance', () => {
+    const events = applyPendingEventWrites([sale], [queuedSale('nueva', 'cli1'), queuedSale('otra', 'cli2')], 'cli1');
+
+    expect(events.map(event => event.id)).toEqual(['nueva', 'venta1']);
+    expect(events[0]).toMatchObject({ pendienteSync: true, totalVenta: 50, borrado: false });
+    expect(calculateClientDebt(events).totalDebt).toBe(80);
+  });
+
+  it('drops the pending entry once the server has the same document', () => {
+    const synced = { ...sale, id: 'nueva' };
+
+    const events = applyPendingEventWrites([sale, synced], [queuedSale('nueva', 'cli1')], 'cli1');
+
+    expect(events.filter(event => event.pendienteSync)).toEqual([]);
+    expect(events).toHaveLength(2);
+  });
+
+  it('applies queued edits and deletes to server events', () => {
+    const edited = applyPendingEventWrites(
+      [sale],
+      [{ type: 'update', documentId: 'venta1', encolado: ts(2000), data: { cantidad: 4 } }],
+      'cli1'
+    );
+    const deleted = applyPendingEventWrites(
+      [sale],
+      [{ type: 'delete', documentId: 'venta1', encolado: ts(2000) }],
+      'cli1'
+    );
+
+    expect(edited[0]).toMatchObject({ cantidad: 4, totalVenta: 60, pendienteSync: true });
+    expect(deleted).toEqual([]);
+  });
+
+  it('reports events still queued in storage after a restart', async () => {
+    const queued: SyncQueueItem = {
+      id: 'item1',
+      type: 'create',
+      collection: 'events',
+      empresaId: 'emp1',
+      documentId: 'nueva',
+      idempotencyKey: 'clave1',
+      data: { ...queuedSale('nueva', 'cli1').data, fecha: ts(3000).toDate().toISOString() },
+      timestamp: 3000,
+      retryCount: 0,
+      maxRetries: 3,
+      status: 'pending',
+      priority: 'normal'
+    };
+    await AsyncStorage.setItem('offline_sync_queue', JSON.stringify([queued]));
+
+    const manager = new OfflineDataManager();
+    const listener = jest.fn();
+    manager.subscribeToSyncQueue(listener);
+    await manager.whenReady();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'changed' });
+    expect(manager.getPendingEventWrites('emp1').map(write => write.documentId)).toEqual(['nueva']);
+  });
+});
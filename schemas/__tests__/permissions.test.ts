@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Timestamp, updateDoc } from 'firebase/firestore';
+import { updateClientDebt } from '../firestore-utils';
+import { ASSIGNABLE_ROLES, getRolePermissions, hasPermission } from '../permissions';
+import { isCompanyRole } from '../types';
+
+// Mock Firestore writes so the fields of a debt refresh can be inspected
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(),
+  updateDoc: jest.fn(),
+  deleteField: jest.fn(() => 'deleted'),
+  Timestamp: { now: jest.fn() }
+}));
+
+// Mock Firebase config
+jest.mock('@/firebaseConfig', () => ({
+  db: {}
+}));
+
+const mockUpdateDoc = updateDoc as jest.Mock;
+
+const rulesFunction = (name: string): string => {
+  const rules = readFileSync(join(__dirname, '../../firestore.rules'), 'utf8');
+  return rules.match(new RegExp(`function ${name}\\([^)]*\\) \\{([\\s\\S]*?)\\n    \\}`))?.[1] ?? '';
+};
+
+describe('Company role permissions', () => {
+  it('keeps full data access for owners, admins and legacy members', () => {
+    for (const role of ['owner', 'admin', 'member'] as const) {
+      expect(hasPermission(role, 'registrarVentas')).toBe(true);
+      expect(hasPermission(role, 'editarEventos')).toBe(true);
+      expect(hasPermission(role, 'gestionarClientes')).toBe(true);
+    }
+    expect(hasPermission('member', 'gestionarSolicitudes')).toBe(false);
+    expect(hasPermission('admin', 'gestionarSolicitudes')).toBe(true);
+    expect(hasPermission('admin', 'gestionarMiembros')).toBe(false);
+    expect(hasPermission('owner', 'gestionarMiembros')).toBe(true);
+    expect(hasPermission('owner', 'vaciarPapelera')).toBe(true);
+    expect(hasPermission('admin', 'vaciarPapelera')).toBe(false);
+    expect(hasPermission('owner', 'respaldarEmpresa')).toBe(true);
+    expect(hasPermission('admin', 'respaldarEmpresa')).toBe(false);
+  });
+
+  it('limits sellers to sales and collectors to payments and promises', () => {
+    expect(getRolePermissions('seller')).toEqual(['registrarVentas']);
+    expect(hasPermission('collector', 'registrarPagos')).toBe(true);
+    expect(hasPermission('collector', 'registrarPromesas')).toBe(true);
+    expect(hasPermission('collector', 'registrarVentas')).toBe(false);
+    expect(hasPermission('seller', 'editarEventos')).toBe(false);
+  });
+
+  it('gives viewers read-only access', () => {
+    expect(getRolePermissions('viewer')).toEqual([]);
+  });
+
+  it('never offers the owner role for assignment', () => {
+    expect(ASSIGNABLE_ROLES).not.toContain('owner');
+    expect(ASSIGNABLE_ROLES).toContain('viewer');
+  });
+
+  it('lets sellers refresh the client debt after creating a sale', async () => {
+    expect(rulesFunction('canCreateEvent')).toContain(
+      "request.resource.data.tipo == 'venta' && hasCompanyRole(empresaId, ['seller'])"
+    );
+    expect(rulesFunction('canUpdateClient')).toContain(
+      "hasCompanyRole(empresaId, ['seller', 'collector']) && isClientDebtRefresh()"
+    );
+    const debtFields = (rulesFunction('isClientDebtRefresh').match(/hasOnly\(\[([^\]]*)\]\)/)?.[1] ?? '')
+      .split(',')
+      .map(field => field.trim().replace(/'/g, ''));
+
+    await updateClientDebt('empresa-1', 'client-1', 150, Timestamp.now(), { ARS: 150 }, null);
+    const writtenFields = Object.keys(mockUpdateDoc.mock.calls[0][1]);
+    expect(writtenFields).toContain('deudaPorMoneda');
+    expect(debtFields).toEqual(expect.arrayContaining(writtenFields));
+  });
+
+  it('recognizes only known roles', () => {
+    expect(isCompanyRole('collector')).toBe(true);
+    expect(isCompanyRole('superuser')).toBe(false);
+    expect(isCompanyRole(undefined)).toBe(false);
+  });
+});
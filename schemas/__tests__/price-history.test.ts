@@ -0,0 +1,95 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import { PriceHistoryService } from '@/services/PriceHistoryService';
+import { TransactionEventService } from '@/services/TransactionEventService';
+import { buildPriceHistory, getPriceTrend, isSaleOfProduct } from '../price-history';
+import { Moneda, SaleEvent } from '../types';
+
+// Mock Firebase Timestamp as a class so sales can be grouped by day
+jest.mock('firebase/firestore', () => mockFirestore);
+
+// Mock the company event query read by the price history service
+jest.mock('@/services/TransactionEventService', () => ({
+  TransactionEventService: { queryEvents: jest.fn() }
+}));
+
+const mockQueryEvents = TransactionEventService.queryEvents as jest.Mock;
+
+describe('Price history from sales', () => {
+  const pan = { id: 'prod-pan', nombre: 'Pan' };
+
+  const sale = (
+    id: string,
+    clienteId: string,
+    cantidad: number,
+    costo: number,
+    ganancia: number,
+    fecha: string,
+    overrides: { productoId?: string; producto?: string; moneda?: Moneda; borrado?: boolean } = {}
+  ): SaleEvent => ({
+    id,
+    clienteId,
+    tipo: 'venta',
+    fecha: Timestamp.fromDate(new Date(fecha)),
+    creado: Timestamp.fromDate(new Date(fecha)),
+    borrado: overrides.borrado ?? false,
+    producto: overrides.producto ?? 'Pan',
+    ...('productoId' in overrides ? overrides.productoId && { productoId: overrides.productoId } : { productoId: 'prod-pan' }),
+    cantidad,
+    costoUnitario: costo,
+    gananciaUnitaria: ganancia,
+    totalVenta: cantidad * (costo + ganancia),
+    ...(overrides.moneda && { moneda: overrides.moneda })
+  });
+
+  const sales = [
+    sale('s1', 'c1', 2, 100, 50, '2024-03-01T10:00:00'),
+    sale('s2', 'c2', 1, 100, 50, '2024-03-02T10:00:00'),
+    sale('s3', 'c1', 1, 110, 50, '2024-03-03T10:00:00'),
+    sale('s4', 'c2', 1, 100, 50, '2024-03-03T08:00:00', { productoId: undefined }),
+    sale('s5', 'c1', 1, 5, 2, '2024-03-04T10:00:00', { moneda: 'USD' }),
+    sale('s6', 'c1', 1, 90, 40, '2024-03-05T10:00:00', { borrado: true }),
+    sale('s7', 'c1', 1, 90, 40, '2024-03-05T10:00:00', { productoId: 'prod-otro', producto: 'Pan' })
+  ];
+
+  it('matches legacy sales by name and newer sales by product id', () => {
+    expect(isSaleOfProduct({ producto: 'Pan' }, pan)).toBe(true);
+    expect(isSaleOfProduct({ producto: 'Pan viejo', productoId: 'prod-pan' }, pan)).toBe(true);
+    expect(isSaleOfProduct({ producto: 'Pan', productoId: 'prod-otro' }, pan)).toBe(false);
+  });
+
+  it('groups price combinations and ranks the most used and most recent', () => {
+    const history = buildPriceHistory(sales, pan, { moneda: 'ARS' });
+
+    expect(history.entradas).toHaveLength(2);
+    expect(history.masUsados[0]).toMatchObject({ costo: 100, ganancia: 50, total: 150, usado: 3 });
+    expect(history.masRecientes[0]).toMatchObject({ costo: 110, usado: 1 });
+  });
+
+  it('narrows the history to one client', () => {
+    const history = buildPriceHistory(sales, pan, { clienteId: 'c2', moneda: 'ARS' });
+
+    expect(history.entradas).toEqual([expect.objectContaining({ costo: 100, usado: 2 })]);
+  });
+
+  it('averages the unit price per day weighted by quantity', () => {
+    const trend = getPriceTrend([
+      sale('a', 'c1', 3, 100, 50, '2024-03-01T10:00:00'),
+      sale('b', 'c1', 1, 130, 50, '2024-03-01T18:00:00'),
+      sale('c', 'c1', 1, 110, 50, '2024-03-02T10:00:00')
+    ]);
+
+    expect(trend.map(point => point.precioPromedio)).toEqual([157.5, 160]);
+    expect(trend[0].ventas).toBe(2);
+  });
+
+  it('reports a failed sales query instead of an empty history', async () => {
+    mockQueryEvents
+      .mockResolvedValueOnce({ events: [sale('a', 'c1', 1, 100, 50, '2024-03-01T10:00:00')], cursor: null, hasMore: false })
+      .mockResolvedValueOnce({ events: [], cursor: null, hasMore: false, error: 'Falta un índice para esta combinación de filtros' });
+
+    await expect(PriceHistoryService.getProductHistory('empresa-1', pan)).rejects.toThrow(
+      'Falta un índice para esta combinación de filtros'
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  getPriceSourceLabel,
+  isResolvedPriceApplied,
+  resolveClientPrice,
+  setProductPrice,
+  validatePriceListName,
+  validateSpecialPrice
+} from '../price-lists';
+import { PriceList } from '../types';
+
+describe('Client price lists', () => {
+  const mayorista = {
+    id: 'lista-mayorista',
+    nombre: 'Mayorista',
+    precios: {
+      pan: { costoUnitario: 80, gananciaUnitaria: 20 },
+      leche: { costoUnitario: 50, gananciaUnitaria: 10 }
+    }
+  } as unknown as PriceList;
+
+  it('prefers the client override over the assigned list', () => {
+    const client = {
+      listaPreciosId: 'lista-mayorista',
+      preciosEspeciales: { pan: { costoUnitario: 70, gananciaUnitaria: 15 } }
+    };
+
+    expect(resolveClientPrice(client, 'pan', mayorista)).toEqual({ costoUnitario: 70, gananciaUnitaria: 15, origen: 'cliente' });
+    expect(resolveClientPrice(client, 'leche', mayorista)).toEqual({
+      costoUnitario: 50,
+      gananciaUnitaria: 10,
+      origen: 'lista',
+      listaNombre: 'Mayorista'
+    });
+  });
+
+  it('falls back to the normal price when nothing applies', () => {
+    expect(resolveClientPrice({ listaPreciosId: 'lista-mayorista' }, 'queso', mayorista)).toBeNull();
+    expect(resolveClientPrice({ listaPreciosId: 'otra-lista' }, 'pan', mayorista)).toBeNull();
+    expect(resolveClientPrice({}, 'pan', mayorista)).toBeNull();
+    expect(resolveClientPrice(null, 'pan', mayorista)).toBeNull();
+  });
+
+  it('labels where the price came from', () => {
+    expect(getPriceSourceLabel({ origen: 'cliente' })).toBe('Precio especial');
+    expect(getPriceSourceLabel({ origen: 'lista', listaNombre: 'Mayorista' })).toBe('Lista Mayorista');
+  });
+
+  it('only reports the price as applied while the form keeps it', () => {
+    const price = { costoUnitario: 80, gananciaUnitaria: 20, origen: 'lista' as const };
+
+    expect(isResolvedPriceApplied(price, 80, 20)).toBe(true);
+    expect(isResolvedPriceApplied(price, 85, 20)).toBe(false);
+    expect(isResolvedPriceApplied(null, 80, 20)).toBe(false);
+  });
+
+  it('adds and removes product prices without mutating the map', () => {
+    const precios = { pan: { costoUnitario: 80, gananciaUnitaria: 20 } };
+    const added = setProductPrice(precios, 'leche', { costoUnitario: 50, gananciaUnitaria: 10 });
+    const removed = setProductPrice(added, 'pan', null);
+
+    expect(Object.keys(added)).toEqual(['pan', 'leche']);
+    expect(Object.keys(removed)).toEqual(['leche']);
+    expect(precios).toEqual({ pan: { costoUnitario: 80, gananciaUnitaria: 20 } });
+  });
+
+  it('validates prices and list names', () => {
+    expect(validateSpecialPrice({ costoUnitario: 0, gananciaUnitaria: 5 }).isValid).toBe(true);
+    expect(validateSpecialPrice({ costoUnitario: -1, gananciaUnitaria: NaN }).errors).toHaveLength(2);
+    expect(validatePriceListName('Mayorista').isValid).toBe(true);
+    expect(validatePriceListName('  ').isValid).toBe(false);
+    expect(validatePriceListName('x'.repeat(51)).isValid).toBe(false);
+  });
+});
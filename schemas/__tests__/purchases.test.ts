@@ -0,0 +1,59 @@
+import {
+  applyPurchaseToProduct,
+  calculateWeightedAverageCost,
+  getProductCost,
+  validatePurchase,
+  validateSupplier
+} from '../purchases';
+
+describe('Supplier purchases', () => {
+  describe('calculateWeightedAverageCost', () => {
+    it('weights the old and new cost by units', () => {
+      expect(calculateWeightedAverageCost(10, 100, 10, 200)).toBe(150);
+      expect(calculateWeightedAverageCost(30, 100, 10, 140)).toBe(110);
+    });
+
+    it('takes the purchase cost when there is no stock left to average with', () => {
+      expect(calculateWeightedAverageCost(0, 100, 5, 130)).toBe(130);
+      expect(calculateWeightedAverageCost(-2, 100, 5, 130)).toBe(130);
+    });
+  });
+
+  describe('applyPurchaseToProduct', () => {
+    it('adds stock and sets the last and average cost', () => {
+      expect(applyPurchaseToProduct(
+        { stock: 10, ultimoCosto: 100, costoPromedio: 90 },
+        { cantidad: 10, costoUnitario: 110 }
+      )).toEqual({ stock: 20, ultimoCosto: 110, costoPromedio: 100 });
+    });
+
+    it('starts tracking stock and averages from the typed cost on the first purchase', () => {
+      expect(applyPurchaseToProduct({ ultimoCosto: 50 }, { cantidad: 4, costoUnitario: 60 }))
+        .toEqual({ stock: 4, ultimoCosto: 60, costoPromedio: 60 });
+      expect(applyPurchaseToProduct({ stock: 4, ultimoCosto: 50 }, { cantidad: 4, costoUnitario: 60 }).costoPromedio)
+        .toBe(55);
+    });
+  });
+
+  describe('getProductCost', () => {
+    it('uses the average only when the company picked it and the product has one', () => {
+      expect(getProductCost({ ultimoCosto: 110, costoPromedio: 100 })).toBe(110);
+      expect(getProductCost({ ultimoCosto: 110, costoPromedio: 100 }, 'promedio')).toBe(100);
+      expect(getProductCost({ ultimoCosto: 110 }, 'promedio')).toBe(110);
+    });
+  });
+
+  describe('validation', () => {
+    it('requires a supplier name', () => {
+      expect(validateSupplier({ nombre: '  ' }).isValid).toBe(false);
+      expect(validateSupplier({ nombre: 'Distribuidora Norte', telefono: '11 5555-5555' }).isValid).toBe(true);
+    });
+
+    it('requires a supplier, a product and a positive quantity', () => {
+      expect(validatePurchase({ proveedorId: 'prov-1', productoId: 'prod-1', cantidad: 5, costoUnitario: 0 }).isValid)
+        .toBe(true);
+      const result = validatePurchase({ cantidad: 0, costoUnitario: -1 });
+      expect(result.errors).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import {
+  RECONCILIATION_INTERVAL_MS,
+  buildReconciliationReport,
+  findDebtDiscrepancy,
+  isReconciliationDue
+} from '../reconciliation';
+import { Client, PaymentEvent, SaleEvent } from '../types';
+
+// Mock Firebase Timestamp as a class so events can be normalized and sorted
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Debt reconciliation', () => {
+  const baseTime = new Date('2024-01-01T10:00:00Z').getTime();
+  const at = (minutes: number) => Timestamp.fromMillis(baseTime + minutes * 60000);
+
+  const client = (id: string, deudaActual: number, overrides: Partial<Client> = {}): Client => ({
+    id,
+    nombre: `Cliente ${id}`,
+    direccion: 'Calle 123',
+    telefono: '1155551234',
+    oculto: false,
+    deudaActual,
+    creado: at(0),
+    ...overrides
+  });
+
+  const sale = (id: string, clienteId: string, amount: number, minutes: number): SaleEvent => ({
+    id,
+    clienteId,
+    tipo: 'venta',
+    fecha: at(minutes),
+    creado: at(minutes),
+    borrado: false,
+    producto: 'Pan',
+    cantidad: 1,
+    costoUnitario: amount,
+    gananciaUnitaria: 0,
+    totalVenta: amount
+  });
+
+  const payment = (id: string, clienteId: string, amount: number, minutes: number): PaymentEvent => ({
+    id,
+    clienteId,
+    tipo: 'pago',
+    fecha: at(minutes),
+    creado: at(minutes),
+    borrado: false,
+    montoPago: amount
+  });
+
+  it('returns no discrepancy when the cached debt matches the ledger', () => {
+    const events = [sale('s1', 'c1', 1000, 1), payment('p1', 'c1', 400, 2)];
+
+    expect(findDebtDiscrepancy(client('c1', 600, { deudaPorMoneda: { ARS: 600 } }), events, 600)).toBeNull();
+  });
+
+  it('flags drift in deudaActual, per-currency balances and the local copy separately', () => {
+    const events = [sale('s1', 'c1', 1000, 1), { ...payment('p1', 'c1', 400, 2), borrado: true }];
+
+    const cloudDrift = findDebtDiscrepancy(client('c1', 600), events, null);
+    expect(cloudDrift).toEqual(expect.objectContaining({
+      deudaEsperada: 1000,
+      deudaActual: 600,
+      deudaLocal: null,
+      firestoreDesfasado: true,
+      localDesfasado: false
+    }));
+
+    const currencyDrift = findDebtDiscrepancy(client('c1', 1000, { deudaPorMoneda: { ARS: 1000, USD: 50 } }), events, null);
+    expect(currencyDrift?.firestoreDesfasado).toBe(true);
+
+    const localDrift = findDebtDiscrepancy(client('c1', 1000), events, 1400);
+    expect(localDrift).toEqual(expect.objectContaining({ firestoreDesfasado: false, localDesfasado: true }));
+  });
+
+  it('builds a report for every client sorted by the largest drift', () => {
+    const report = buildReconciliationReport(
+      'empresa-1',
+      [client('c1', 100), client('c2', 0), client('c3', 0)],
+      [sale('s1', 'c1', 150, 1), sale('s2', 'c2', 900, 1)],
+      { c3: 0 },
+      'ARS',
+      baseTime
+    );
+
+    expect(report.clientesRevisados).toBe(3);
+    expect(report.revisado).toBe(baseTime);
+    expect(report.discrepancias.map(item => item.clienteId)).toEqual(['c2', 'c1']);
+  });
+
+  it('is due once a day', () => {
+    const report = buildReconciliationReport('empresa-1', [], [], {}, 'ARS', baseTime);
+
+    expect(isReconciliationDue(null, baseTime)).toBe(true);
+    expect(isReconciliationDue(report, baseTime + RECONCILIATION_INTERVAL_MS - 1)).toBe(false);
+    expect(isReconciliationDue(report, baseTime + RECONCILIATION_INTERVAL_MS)).toBe(true);
+  });
+});
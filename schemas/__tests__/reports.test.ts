@@ -0,0 +1,105 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import { calculatePeriodReport, getReportRange, shiftReportRange } from '../reports';
+import { SaleEvent, PaymentEvent, Moneda } from '../types';
+
+// Mock Firebase Timestamp as a class so events can be filtered by date
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Period reports', () => {
+  const day = (date: string) => Timestamp.fromDate(new Date(date));
+
+  const sale = (
+    id: string,
+    clienteId: string,
+    producto: string,
+    cantidad: number,
+    costo: number,
+    ganancia: number,
+    fecha: string,
+    moneda?: Moneda
+  ): SaleEvent => ({
+    id,
+    clienteId,
+    tipo: 'venta',
+    fecha: day(fecha),
+    creado: day(fecha),
+    borrado: false,
+    producto,
+    cantidad,
+    costoUnitario: costo,
+    gananciaUnitaria: ganancia,
+    totalVenta: cantidad * (costo + ganancia),
+    ...(moneda && { moneda })
+  });
+
+  const payment = (id: string, clienteId: string, monto: number, fecha: string): PaymentEvent => ({
+    id,
+    clienteId,
+    tipo: 'pago',
+    fecha: day(fecha),
+    creado: day(fecha),
+    borrado: false,
+    montoPago: monto
+  });
+
+  const events = [
+    sale('s1', 'c1', 'Pan', 2, 100, 50, '2024-03-05T10:00:00'),
+    sale('s2', 'c2', 'Pan', 1, 100, 50, '2024-03-06T10:00:00'),
+    sale('s3', 'c1', 'Leche', 3, 20, 10, '2024-03-06T12:00:00'),
+    sale('s4', 'c1', 'Leche', 1, 5, 5, '2024-03-06T12:00:00', 'USD'),
+    payment('p1', 'c1', 200, '2024-03-07T09:00:00'),
+    payment('p2', 'c2', 50, '2024-04-01T09:00:00'),
+    { ...sale('s5', 'c2', 'Pan', 1, 100, 50, '2024-03-08T10:00:00'), borrado: true }
+  ];
+
+  it('totals revenue, cost, profit and collections for the period', () => {
+    const report = calculatePeriodReport(events, getReportRange('mes', new Date('2024-03-15T12:00:00')));
+
+    expect(report.totals).toEqual({
+      ingresos: 540,
+      costo: 360,
+      ganancia: 180,
+      cobranzas: 200,
+      variacionSaldo: 340,
+      cantidadVentas: 3,
+      cantidadPagos: 1
+    });
+  });
+
+  it('breaks the period down by product and by client', () => {
+    const report = calculatePeriodReport(events, getReportRange('mes', new Date('2024-03-15T12:00:00')));
+
+    expect(report.porProducto.map(row => [row.producto, row.cantidad, row.ganancia])).toEqual([
+      ['Pan', 3, 150],
+      ['Leche', 3, 30]
+    ]);
+    expect(report.porCliente.map(row => [row.clienteId, row.ingresos, row.cobranzas, row.variacionSaldo])).toEqual([
+      ['c1', 390, 200, 190],
+      ['c2', 150, 0, 150]
+    ]);
+  });
+
+  it('reports each currency separately', () => {
+    const report = calculatePeriodReport(events, getReportRange('mes', new Date('2024-03-15T12:00:00')), 'USD');
+
+    expect(report.totals.ingresos).toBe(10);
+    expect(report.porProducto).toHaveLength(1);
+  });
+
+  it('builds day, week and month ranges and moves between them', () => {
+    const reference = new Date('2024-03-06T15:30:00');
+
+    const dayRange = getReportRange('dia', reference);
+    expect(dayRange.desde.getDate()).toBe(6);
+    expect(dayRange.hasta.getDate()).toBe(6);
+
+    const weekRange = getReportRange('semana', reference);
+    expect(weekRange.desde.getDay()).toBe(1);
+    expect(weekRange.hasta.getDay()).toBe(0);
+
+    const previousMonth = shiftReportRange('mes', getReportRange('mes', reference), -1);
+    expect(previousMonth.desde.getMonth()).toBe(1);
+    expect(previousMonth.hasta.getDate()).toBe(29);
+  });
+});
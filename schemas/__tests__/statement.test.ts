@@ -0,0 +1,105 @@
+import { mockFirestore } from '@/test-utils/firestore-timestamp';
+import { Timestamp } from 'firebase/firestore';
+import {
+  buildAccountStatement,
+  buildStatementHtml,
+  buildStatementSummaryText,
+  buildWhatsAppUrl
+} from '../statement';
+import { getReportRange } from '../reports';
+import { Client, SaleEvent, PaymentEvent, Moneda } from '../types';
+
+// Mock Firebase Timestamp as a class so events can be normalized and sorted
+jest.mock('firebase/firestore', () => mockFirestore);
+
+describe('Client account statement', () => {
+  const at = (date: string) => Timestamp.fromDate(new Date(date));
+
+  const client: Client = {
+    id: 'c1',
+    nombre: 'Ana <Kiosco>',
+    direccion: 'Calle 1',
+    telefono: '+54 9 11 5555-0000',
+    oculto: false,
+    deudaActual: 250,
+    deudaPorMoneda: { ARS: 250, USD: 10 },
+    creado: at('2024-01-01T10:00:00')
+  };
+
+  const sale = (id: string, total: number, fecha: string, moneda?: Moneda): SaleEvent => ({
+    id,
+    clienteId: 'c1',
+    tipo: 'venta',
+    fecha: at(fecha),
+    creado: at(fecha),
+    borrado: false,
+    producto: 'Pan',
+    cantidad: 1,
+    costoUnitario: total,
+    gananciaUnitaria: 0,
+    totalVenta: total,
+    ...(moneda && { moneda })
+  });
+
+  const payment = (id: string, monto: number, fecha: string): PaymentEvent => ({
+    id,
+    clienteId: 'c1',
+    tipo: 'pago',
+    fecha: at(fecha),
+    creado: at(fecha),
+    borrado: false,
+    montoPago: monto
+  });
+
+  const events = [
+    sale('s1', 100, '2024-02-20T10:00:00'),
+    sale('s2', 200, '2024-03-02T10:00:00'),
+    payment('p1', 150, '2024-03-10T10:00:00'),
+    sale('s3', 10, '2024-03-11T10:00:00', 'USD'),
+    sale('s4', 100, '2024-04-02T10:00:00')
+  ];
+
+  const march = getReportRange('mes', new Date('2024-03-15T12:00:00'));
+
+  it('carries the previous balance and lists movements with running totals', () => {
+    const statement = buildAccountStatement(client, events, march);
+
+    expect(statement.saldoInicial).toBe(100);
+    expect(statement.lineas.map(line => [line.id, line.venta, line.pago, line.saldo])).toEqual([
+      ['s2', 200, 0, 300],
+      ['p1', 0, 150, 150]
+    ]);
+    expect(statement.totalVentas).toBe(200);
+    expect(statement.totalPagos).toBe(150);
+    expect(statement.saldoFinal).toBe(150);
+    expect(statement.deudaActual).toBe(250);
+  });
+
+  it('builds a separate statement per currency', () => {
+    const statement = buildAccountStatement(client, events, march, 'USD');
+
+    expect(statement.lineas.map(line => line.id)).toEqual(['s3']);
+    expect(statement.saldoFinal).toBe(10);
+    expect(statement.deudaActual).toBe(10);
+  });
+
+  it('keeps the opening balance when the range has no movements', () => {
+    const statement = buildAccountStatement(client, events, getReportRange('mes', new Date('2024-05-10T12:00:00')));
+
+    expect(statement.lineas).toEqual([]);
+    expect(statement.saldoInicial).toBe(250);
+    expect(statement.saldoFinal).toBe(250);
+  });
+
+  it('summarizes the statement as text and escapes it for the PDF', () => {
+    const statement = buildAccountStatement(client, events, march);
+
+    expect(buildStatementSummaryText(statement)).toContain('Pagos:');
+    expect(buildStatementHtml(statement)).toContain('Ana &lt;Kiosco&gt;');
+    expect(buildStatementHtml(statement)).not.toContain('<Kiosco>');
+  });
+
+  it('opens WhatsApp with the client number and encoded text', () => {
+    expect(buildWhatsAppUrl(client.telefono, 'Hola & chau')).toBe('https://wa.me/5491155550000?text=Hola%20%26%20chau');
+  });
+});
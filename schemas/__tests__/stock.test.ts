@@ -0,0 +1,67 @@
+import {
+  getLowStockProducts,
+  getSaleStockChanges,
+  getStockStatus,
+  validateStockMovement
+} from '../stock';
+
+describe('Product stock', () => {
+  const sale = (overrides: { productoId?: string; cantidad?: number; borrado?: boolean } = {}) => ({
+    productoId: 'prod-1',
+    cantidad: 3,
+    borrado: false,
+    ...overrides
+  });
+
+  describe('getSaleStockChanges', () => {
+    it('decrements stock for a new sale and restores it when the sale is deleted', () => {
+      expect(getSaleStockChanges(null, sale())).toEqual([{ productoId: 'prod-1', cantidad: -3 }]);
+      expect(getSaleStockChanges(sale(), sale({ borrado: true }))).toEqual([{ productoId: 'prod-1', cantidad: 3 }]);
+      expect(getSaleStockChanges(sale({ borrado: true }), sale())).toEqual([{ productoId: 'prod-1', cantidad: -3 }]);
+    });
+
+    it('only moves the difference when the quantity is edited', () => {
+      expect(getSaleStockChanges(sale(), sale({ cantidad: 5 }))).toEqual([{ productoId: 'prod-1', cantidad: -2 }]);
+    });
+
+    it('returns the units to the old product when the product is changed', () => {
+      expect(getSaleStockChanges(sale(), sale({ productoId: 'prod-2' }))).toEqual([
+        { productoId: 'prod-1', cantidad: 3 },
+        { productoId: 'prod-2', cantidad: -3 }
+      ]);
+    });
+
+    it('ignores legacy sales without a product id', () => {
+      expect(getSaleStockChanges(null, sale({ productoId: undefined }))).toEqual([]);
+    });
+  });
+
+  describe('getStockStatus', () => {
+    it('classifies stock levels against the minimum', () => {
+      expect(getStockStatus({})).toBe('sinControl');
+      expect(getStockStatus({ stock: 0 })).toBe('agotado');
+      expect(getStockStatus({ stock: 2, stockMinimo: 5 })).toBe('bajo');
+      expect(getStockStatus({ stock: 10, stockMinimo: 5 })).toBe('disponible');
+      expect(getStockStatus({ stock: 2 })).toBe('disponible');
+    });
+
+    it('lists low and empty products only', () => {
+      const products = [{ stock: 0 }, { stock: 3, stockMinimo: 5 }, { stock: 8, stockMinimo: 5 }, {}];
+      expect(getLowStockProducts(products)).toEqual([{ stock: 0 }, { stock: 3, stockMinimo: 5 }]);
+    });
+  });
+
+  describe('validateStockMovement', () => {
+    it('accepts purchases and signed adjustments', () => {
+      expect(validateStockMovement({ tipo: 'compra', cantidad: 10 }).isValid).toBe(true);
+      expect(validateStockMovement({ tipo: 'ajuste', cantidad: -2 }).isValid).toBe(true);
+    });
+
+    it('rejects movements in the wrong direction or without units', () => {
+      expect(validateStockMovement({ tipo: 'compra', cantidad: -1 }).errors)
+        .toEqual(['Las compras y devoluciones deben sumar stock']);
+      expect(validateStockMovement({ tipo: 'venta', cantidad: 1 }).errors).toEqual(['Las ventas deben descontar stock']);
+      expect(validateStockMovement({ tipo: 'ajuste', cantidad: 0 }).isValid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  buildResolvedUpdate,
+  detectFieldConflicts,
+  getDocumentVersion,
+  mergeFieldChoices,
+  valuesEqual
+} from '../sync-conflicts';
+
+describe('Sync conflicts', () => {
+  const ts = (millis: number) => ({ seconds: Math.floor(millis / 1000), nanoseconds: (millis % 1000) * 1e6 });
+
+  it('uses the latest actualizado or editado as the document version', () => {
+    expect(getDocumentVersion({ actualizado: ts(5000) })).toBe(5000);
+    expect(getDocumentVersion({ creado: ts(1000), editado: ts(8000) })).toBe(8000);
+    expect(getDocumentVersion({})).toBe(0);
+  });
+
+  it('compares timestamps by value after a JSON round trip', () => {
+    const serialized = JSON.parse(JSON.stringify({ fecha: ts(1700000000000) }));
+
+    expect(valuesEqual(serialized.fecha, ts(1700000000000))).toBe(true);
+    expect(valuesEqual({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+    expect(valuesEqual(undefined, null)).toBe(true);
+  });
+
+  it('flags only fields changed on both sides when the base is known', () => {
+    const local = { telefono: '111', direccion: 'Calle Nueva', notas: 'nota' };
+    const server = { telefono: '222', direccion: 'Calle Vieja', notas: 'nota', actualizado: ts(9000) };
+    const base = { telefono: '000', direccion: 'Calle Vieja', notas: 'nota' };
+
+    const conflicts = detectFieldConflicts(local, server, base);
+
+    expect(conflicts).toEqual([{ field: 'telefono', localValue: '111', serverValue: '222', baseValue: '000' }]);
+  });
+
+  it('treats every differing field as a conflict without a base', () => {
+    const conflicts = detectFieldConflicts({ nombre: 'Ana', oculto: false }, { nombre: 'Ana María', oculto: false });
+
+    expect(conflicts.map(conflict => conflict.field)).toEqual(['nombre']);
+  });
+
+  it('builds the update from the per-field choices', () => {
+    const local = { telefono: '111', direccion: 'Calle Nueva' };
+
+    expect(buildResolvedUpdate(local, { telefono: 'server' })).toEqual({ direccion: 'Calle Nueva' });
+    expect(mergeFieldChoices(local, { telefono: '222', direccion: 'Calle Vieja' }, { direccion: 'local' }))
+      .toEqual({ telefono: '222', direccion: 'Calle Nueva' });
+  });
+});
@@ -0,0 +1,26 @@
+import { DOCUMENT_ID_LENGTH, generateDocumentId, withSyncIds } from '../sync-ids';
+
+describe('Sync ids', () => {
+  it('generates Firestore-shaped document ids', () => {
+    const id = generateDocumentId();
+
+    expect(id).toHaveLength(DOCUMENT_ID_LENGTH);
+    expect(id).toMatch(/^[A-Za-z0-9]+$/);
+    expect(generateDocumentId()).not.toBe(id);
+  });
+
+  it('assigns a document id only to creates', () => {
+    let next = 0;
+    const generateId = () => `id${next++}`;
+
+    expect(withSyncIds({ type: 'create' }, generateId)).toEqual({ type: 'create', idempotencyKey: 'id0', documentId: 'id1' });
+    expect(withSyncIds({ type: 'update', documentId: 'doc' }, generateId))
+      .toEqual({ type: 'update', idempotencyKey: 'id2', documentId: 'doc' });
+  });
+
+  it('keeps ids that were already assigned so replays target the same document', () => {
+    const item = withSyncIds({ type: 'create' as const });
+
+    expect(withSyncIds(item)).toEqual(item);
+  });
+});
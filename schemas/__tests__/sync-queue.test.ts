@@ -0,0 +1,82 @@
+import { Timestamp } from 'firebase/firestore';
+import {
+  MAX_SYNC_HISTORY,
+  SyncRunRecord,
+  appendSyncRun,
+  describeSyncWrite,
+  formatSyncSummary,
+  parseSyncPayload,
+  validateSyncWrite
+} from '../sync-queue';
+
+jest.mock('firebase/firestore', () => ({
+  Timestamp: {
+    now: jest.fn(() => ({ seconds: Date.now() / 1000, nanoseconds: 0, toDate: () => new Date() })),
+    fromDate: jest.fn((date: Date) => ({ seconds: date.getTime() / 1000, nanoseconds: 0, toDate: () => date }))
+  }
+}));
+
+describe('Sync queue inspector helpers', () => {
+  const sale = {
+    clienteId: 'client-1',
+    tipo: 'venta',
+    fecha: Timestamp.now(),
+    borrado: false,
+    producto: 'Pan',
+    cantidad: 3,
+    costoUnitario: 100,
+    gananciaUnitaria: 50,
+    totalVenta: 450
+  };
+
+  it('describes queued writes with client names', () => {
+    expect(describeSyncWrite({ type: 'create', collection: 'events', data: sale }, { 'client-1': 'Juan' }))
+      .toBe('Venta 3x Pan para Juan');
+    expect(describeSyncWrite({ type: 'create', collection: 'events', data: sale }))
+      .toBe('Venta 3x Pan para cliente desconocido');
+    expect(describeSyncWrite({ type: 'update', collection: 'clients', documentId: 'client-1', data: { oculto: true } }, { 'client-1': 'Juan' }))
+      .toBe('Ocultar cliente Juan');
+  });
+
+  it('re-validates edited event payloads', () => {
+    expect(validateSyncWrite({ type: 'create', collection: 'events', data: sale }).isValid).toBe(true);
+
+    const edited = validateSyncWrite({ type: 'create', collection: 'events', data: { ...sale, cantidad: 4 } });
+    expect(edited.isValid).toBe(false);
+
+    const update = validateSyncWrite(
+      { type: 'update', collection: 'events', documentId: 'sale-1', data: { cantidad: 4, totalVenta: 600 } },
+      sale
+    );
+    expect(update).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('rejects payloads that are not JSON objects', () => {
+    expect(parseSyncPayload('{"cantidad": 2}')).toEqual({ data: { cantidad: 2 }, errors: [] });
+    expect(parseSyncPayload('[1, 2]').data).toBeNull();
+    expect(parseSyncPayload('{cantidad: 2').errors).toEqual(['El texto no es un JSON válido']);
+  });
+
+  it('keeps only the most recent sync runs', () => {
+    const run = (timestamp: number): SyncRunRecord => ({
+      timestamp,
+      processed: 1,
+      failed: 0,
+      remaining: 0,
+      processingTime: 10
+    });
+    let history: SyncRunRecord[] = [];
+    for (let i = 0; i < MAX_SYNC_HISTORY + 5; i++) {
+      history = appendSyncRun(history, run(i));
+    }
+
+    expect(history).toHaveLength(MAX_SYNC_HISTORY);
+    expect(history[0].timestamp).toBe(5);
+  });
+
+  it('summarises a background sync run for the notification', () => {
+    expect(formatSyncSummary({ processed: 3, failed: 1, remaining: 1 }))
+      .toBe('3 cambios sincronizados, 1 con error, 1 pendiente');
+    expect(formatSyncSummary({ processed: 1, failed: 0, remaining: 0 })).toBe('1 cambio sincronizado');
+  });
+});
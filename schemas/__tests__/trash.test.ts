@@ -0,0 +1,48 @@
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getDaysUntilPurge,
+  getExpiredTrashEvents,
+  getTrashRetentionDays
+} from '../trash';
+import { TransactionEvent } from '../types';
+
+describe('Trash retention', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const now = 100 * DAY;
+  const ts = (millis: number) => ({ seconds: Math.floor(millis / 1000), nanoseconds: 0 } as any);
+  const deletedEvent = (id: string, fields: Partial<TransactionEvent>): TransactionEvent => ({
+    id,
+    clienteId: 'cli1',
+    tipo: 'pago',
+    montoPago: 100,
+    fecha: ts(0),
+    creado: ts(0),
+    borrado: true,
+    ...fields
+  } as TransactionEvent);
+
+  it('falls back to the default retention when the company has none', () => {
+    expect(getTrashRetentionDays({})).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays({ retencionPapeleraDias: 0 })).toBe(0);
+    expect(getTrashRetentionDays({ retencionPapeleraDias: 7 })).toBe(7);
+  });
+
+  it('expires events deleted before the retention window', () => {
+    const events = [
+      deletedEvent('old', { borradoEl: ts(now - 31 * DAY) }),
+      deletedEvent('recent', { borradoEl: ts(now - 2 * DAY) }),
+      deletedEvent('legacy', { editado: ts(now - 40 * DAY) }),
+      deletedEvent('active', { borrado: false, editado: ts(now - 40 * DAY) })
+    ];
+
+    expect(getExpiredTrashEvents(events, 30, now).map(event => event.id)).toEqual(['old', 'legacy']);
+    expect(getExpiredTrashEvents(events, 0, now)).toEqual([]);
+  });
+
+  it('counts the days left before an event is purged', () => {
+    const event = deletedEvent('evt', { borradoEl: ts(now - 2 * DAY) });
+
+    expect(getDaysUntilPurge(event, 30, now)).toBe(28);
+    expect(getDaysUntilPurge(event, 0, now)).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { Timestamp } from 'firebase/firestore';
+import { formatQuantity, getProductUnit, hasValidPrecision, roundQuantity } from '../units';
+import { buildVariantName, getParentProduct, groupProductsWithVariants } from '../variants';
+import { validateProduct, validateSaleEvent } from '../validation';
+import { CreateProductData, CreateSaleEventData, UnidadMedida } from '../types';
+
+// Mock Firebase Timestamp, sale validation never reads the date
+jest.mock('firebase/firestore', () => ({
+  Timestamp: {
+    now: () => ({ toMillis: () => Date.now(), toDate: () => new Date() })
+  }
+}));
+
+describe('Units of measure and variants', () => {
+  const sale = (cantidad: number, unidad?: UnidadMedida): CreateSaleEventData => ({
+    clienteId: 'c1',
+    tipo: 'venta',
+    fecha: Timestamp.now(),
+    producto: 'Pan',
+    cantidad,
+    costoUnitario: 100,
+    gananciaUnitaria: 50,
+    totalVenta: cantidad * 150,
+    ...(unidad && { unidad })
+  });
+
+  it('accepts quantities within the precision of each unit', () => {
+    expect(validateSaleEvent(sale(1.25, 'kg')).isValid).toBe(true);
+    expect(validateSaleEvent(sale(0.5, 'docena')).isValid).toBe(true);
+    expect(validateSaleEvent(sale(3, 'unidad')).isValid).toBe(true);
+  });
+
+  it('rejects quantities with more decimals than the unit allows', () => {
+    expect(validateSaleEvent(sale(1.5, 'unidad')).errors).toEqual([
+      'Los productos por unidad se venden en cantidades enteras'
+    ]);
+    expect(validateSaleEvent(sale(0.25, 'docena')).isValid).toBe(false);
+    expect(validateSaleEvent(sale(1.2345, 'kg')).isValid).toBe(false);
+    expect(validateSaleEvent({ ...sale(1), unidad: 'gramo' as UnidadMedida }).isValid).toBe(false);
+  });
+
+  it('keeps accepting any quantity on sales recorded before units', () => {
+    expect(validateSaleEvent(sale(1.5)).isValid).toBe(true);
+  });
+
+  it('rounds and formats quantities', () => {
+    expect(roundQuantity(0.1 + 0.2, 'kg')).toBe(0.3);
+    expect(hasValidPrecision(0.1 + 0.2, 'kg')).toBe(true);
+    expect(formatQuantity(1.5, 'kg')).toBe('1,5 kg');
+    expect(formatQuantity(2, 'unidad')).toBe('2');
+    expect(formatQuantity(9.700000000000001)).toBe('9,7');
+    expect(getProductUnit({})).toBe('unidad');
+  });
+
+  it('requires a label on variants and a known unit', () => {
+    const base: CreateProductData = {
+      nombre: 'Pan Grande',
+      colorFondo: '#FF0000',
+      posicion: 0,
+      ultimoCosto: 100,
+      ultimaGanancia: 50,
+      activo: true,
+      unidad: 'kg'
+    };
+
+    expect(validateProduct({ ...base, productoPadreId: 'pan', variante: 'Grande' }).isValid).toBe(true);
+    expect(validateProduct({ ...base, productoPadreId: 'pan' }).errors).toContain('El nombre de la variante es requerido');
+    expect(validateProduct({ ...base, unidad: 'gramo' as UnidadMedida }).isValid).toBe(false);
+  });
+
+  it('lists variants under their parent', () => {
+    const products = [
+      { id: 'leche', posicion: 1 },
+      { id: 'pan-chico', posicion: 3, productoPadreId: 'pan' },
+      { id: 'pan', posicion: 0 },
+      { id: 'pan-grande', posicion: 2, productoPadreId: 'pan' },
+      { id: 'huerfana', posicion: 4, productoPadreId: 'borrado' }
+    ];
+
+    expect(groupProductsWithVariants(products).map(product => product.id)).toEqual([
+      'pan', 'pan-grande', 'pan-chico', 'leche', 'huerfana'
+    ]);
+    expect(getParentProduct(products[1], products)?.id).toBe('pan');
+    expect(buildVariantName(' Pan ', 'Grande ')).toBe('Pan Grande');
+  });
+});
@@ -0,0 +1,60 @@
+import { AuditChange, AuditEntity, AuditLogEntry, AuditOperation, AuditReason } from './types';
+import { valuesEqual } from './sync-conflicts';
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  cliente: 'Cliente',
+  producto: 'Producto',
+  evento: 'Transacción',
+  empresa: 'Empresa',
+  miembro: 'Miembro',
+  proveedor: 'Proveedor',
+  compra: 'Compra',
+  listaPrecios: 'Lista de precios'
+};
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  crear: 'Creó',
+  editar: 'Editó',
+  borrar: 'Borró'
+};
+export const AUDIT_REASON_LABELS: Record<AuditReason, string> = {
+  conciliacion: 'Conciliación de deuda'
+};
+const IGNORED_FIELDS = ['id', 'actualizado', 'editado'];
+export function buildAuditChanges(
+  antes: Record<string, any> | null | undefined,
+  despues: Record<string, any> | null | undefined
+): Record<string, AuditChange> {
+  const fields = new Set([...Object.keys(antes ?? {}), ...Object.keys(despues ?? {})]);
+  const cambios: Record<string, AuditChange> = {};
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const before = antes?.[field] ?? null; // Firestore rejects undefined
+    const after = despues?.[field] ?? null;
+    if (!valuesEqual(before, after)) {
+      cambios[field] = { antes: before, despues: after };
+    }
+  }
+  return cambios;
+}
+export interface AuditLogFilters {
+  entidad?: AuditEntity;
+  operacion?: AuditOperation;
+  userId?: string;
+  entidadId?: string;
+}
+export function filterAuditLog(entries: AuditLogEntry[], filters: AuditLogFilters): AuditLogEntry[] {
+  return entries.filter(entry =>
+    (!filters.entidad || entry.entidad === filters.entidad) &&
+    (!filters.operacion || entry.operacion === filters.operacion) &&
+    (!filters.userId || entry.userId === filters.userId) &&
+    (!filters.entidadId || entry.entidadId === filters.entidadId)
+  );
+}
+export function formatAuditValue(value: any): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'object' && typeof value.seconds === 'number' && typeof value.nanoseconds === 'number') {
+    return new Date(value.seconds * 1000).toLocaleString('es-AR');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,130 @@
+import { Timestamp } from 'firebase/firestore';
+import { Client, Company, CompanyMember, Product, TransactionEvent } from './types';
+import { validateClient, validateExistingCompany, validateProduct, validateTransactionEvent } from './validation';
+export const BACKUP_FORMAT = 'cuenta-microempresas/respaldo';
+export const BACKUP_VERSION = 1;
+export const BACKUP_COMPANY_SETTINGS = ['solicitudesAbiertas', 'monedaPredeterminada', 'retencionPapeleraDias'] as const;
+export type BackupCompanySettings = Partial<Pick<Company, typeof BACKUP_COMPANY_SETTINGS[number]>>;
+export type BackupCollection = 'empresa' | 'clientes' | 'productos' | 'eventos';
+export interface CompanyBackup {
+  formato: typeof BACKUP_FORMAT;
+  version: number;
+  exportado: Timestamp;
+  empresaId: string; // Company the archive was taken from
+  empresa: Company;
+  miembros: CompanyMember[]; // Kept for reference, restores never recreate memberships
+  clientes: Client[];
+  productos: Product[];
+  eventos: TransactionEvent[]; // Includes events in the trash
+}
+export interface BackupIssue {
+  coleccion: BackupCollection;
+  id: string;
+  errors: string[];
+}
+export interface BackupValidation {
+  issues: BackupIssue[];
+  clientes: Client[]; // Records that passed validation and will be restored
+  productos: Product[];
+  eventos: TransactionEvent[];
+}
+const TIMESTAMP_KEY = '__timestamp';
+export function serializeBackup(backup: CompanyBackup): string {
+  return JSON.stringify(backup, function (this: any, key: string, value: any) {
+    const original = this[key];
+    if (original instanceof Timestamp) {
+      return { [TIMESTAMP_KEY]: original.toMillis() };
+    }
+    return value;
+  }, 2);
+}
+export function parseBackup(text: string): { backup: CompanyBackup | null; errors: string[] } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''), (_key, value) =>
+      value && typeof value === 'object' && typeof value[TIMESTAMP_KEY] === 'number'
+        ? Timestamp.fromMillis(value[TIMESTAMP_KEY])
+        : value
+    );
+  } catch {
+    return { backup: null, errors: ['El archivo no es un JSON válido'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || parsed.formato !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['El archivo no es un respaldo de empresa'] };
+  }
+  const errors: string[] = [];
+  if (typeof parsed.version !== 'number' || parsed.version < 1) {
+    errors.push('El respaldo no indica una versión válida');
+  } else if (parsed.version > BACKUP_VERSION) {
+    errors.push('El respaldo fue creado con una versión más nueva de la aplicación');
+  }
+  if (typeof parsed.empresaId !== 'string' || !parsed.empresa || typeof parsed.empresa !== 'object') {
+    errors.push('El respaldo no contiene los datos de la empresa');
+  }
+  (['miembros', 'clientes', 'productos', 'eventos'] as const).forEach(coleccion => {
+    if (!Array.isArray(parsed[coleccion])) {
+      errors.push(`El respaldo no contiene la lista de ${coleccion}`);
+    }
+  });
+  return errors.length > 0
+    ? { backup: null, errors }
+    : { backup: parsed as CompanyBackup, errors: [] };
+}
+function checkRecord(
+  record: { id?: string; creado?: Timestamp },
+  validationErrors: string[]
+): string[] {
+  const errors = [...validationErrors];
+  if (typeof record.id !== 'string' || record.id.trim().length === 0) {
+    errors.push('Falta el identificador');
+  }
+  if (!(record.creado instanceof Timestamp)) {
+    errors.push('Falta la fecha de creación');
+  }
+  return errors;
+}
+export function validateBackup(backup: CompanyBackup): BackupValidation {
+  const result: BackupValidation = { issues: [], clientes: [], productos: [], eventos: [] };
+  const companyErrors = validateExistingCompany(getBackupCompanySettings(backup.empresa)).errors;
+  if (companyErrors.length > 0) {
+    result.issues.push({ coleccion: 'empresa', id: backup.empresaId, errors: companyErrors });
+  }
+  backup.clientes.forEach(client => {
+    const errors = checkRecord(client, validateClient(client).errors);
+    if (typeof client.deudaActual !== 'number') {
+      errors.push('La deuda actual debe ser un número');
+    }
+    if (errors.length > 0) {
+      result.issues.push({ coleccion: 'clientes', id: client.id, errors });
+    } else {
+      result.clientes.push(client);
+    }
+  });
+  backup.productos.forEach(product => {
+    const errors = checkRecord(product, validateProduct(product).errors);
+    if (errors.length > 0) {
+      result.issues.push({ coleccion: 'productos', id: product.id, errors });
+    } else {
+      result.productos.push(product);
+    }
+  });
+  const clientIds = new Set(result.clientes.map(client => client.id));
+  backup.eventos.forEach(event => {
+    const errors = checkRecord(event, validateTransactionEvent(event).errors);
+    if (event.clienteId && !clientIds.has(event.clienteId)) {
+      errors.push('El cliente del evento no está en el respaldo o no es válido');
+    }
+    if (errors.length > 0) {
+      result.issues.push({ coleccion: 'eventos', id: event.id, errors });
+    } else {
+      result.eventos.push(event);
+    }
+  });
+  return result;
+}
+export function getBackupCompanySettings(empresa: Partial<Company>): BackupCompanySettings {
+  return BACKUP_COMPANY_SETTINGS.reduce<BackupCompanySettings>(
+    (settings, field) => (empresa[field] === undefined ? settings : { ...settings, [field]: empresa[field] }),
+    {}
+  );
+}
@@ -1,11 +1,17 @@
 import { Timestamp } from 'firebase/firestore';
-import { TransactionEvent, SaleEvent } from './types';
-import { isSaleEvent, isPaymentEvent } from './types';
-export interface DebtCalculationResult {
+import { TransactionEvent, SaleEvent, Moneda, SaldosPorMoneda, DEFAULT_MONEDA, PaymentAllocation, Client, UnidadMedida } from './types';
+import { isSaleEvent, isPaymentEvent, isMoneda } from './types';
+export interface CurrencyBalance {
   totalDebt: number;
+  favorBalance: number;
+}
+export interface DebtCalculationResult {
+  totalDebt: number; // Debt in the default currency
   events: TransactionEventWithRunningTotal[];
   zeroBalancePoints: number[]; // Indices where debt reaches zero
-  favorBalance: number; // Positive balance (client overpaid)
+  favorBalance: number; // Positive balance (client overpaid) in the default currency
+  moneda: Moneda; // Currency that totalDebt and favorBalance refer to
+  balancesByCurrency: Partial<Record<Moneda, CurrencyBalance>>;
 }
 export interface TransactionEventWithRunningTotal {
   id: string;
@@ -19,14 +25,51 @@ export interface TransactionEventWithRunningTotal {
   producto?: string;
   productoColor?: string;
   cantidad?: number;
+  unidad?: UnidadMedida;
   costoUnitario?: number;
   gananciaUnitaria?: number;
   totalVenta?: number;
   montoPago?: number;
-  runningTotal: number;
+  moneda: Moneda;
+  pendienteSync?: boolean;
+  runningTotal: number; // Running total within the event's currency
   isZeroBalance: boolean;
 }
-export function calculateClientDebt(events: TransactionEvent[]): DebtCalculationResult {
+function toTimestamp(value: any): Timestamp {
+  if (!value) return Timestamp.fromMillis(0);
+  if (value instanceof Timestamp) return value;
+  if (typeof value === 'object' && typeof value.seconds === 'number' && typeof value.nanoseconds === 'number') {
+    return new Timestamp(value.seconds, value.nanoseconds);
+  }
+  if (value instanceof Date) {
+    return Timestamp.fromDate(value);
+  }
+  if (typeof value === 'number') {
+    return Timestamp.fromMillis(value);
+  }
+  return Timestamp.fromMillis(0);
+}
+function sortActiveEventsByDate(events: TransactionEvent[]): TransactionEvent[] {
+  const normalizedEvents: TransactionEvent[] = (events || []).map((e) => ({
+    ...e,
+    fecha: toTimestamp((e as any).fecha),
+    creado: toTimestamp((e as any).creado),
+    editado: (e as any).editado ? toTimestamp((e as any).editado) : undefined,
+  }));
+  return normalizedEvents
+    .filter(event => !event.borrado)
+    .sort((a, b) => a.fecha.toMillis() - b.fecha.toMillis());
+}
+export function resolveEventCurrency(
+  event: { moneda?: Moneda },
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): Moneda {
+  return isMoneda(event.moneda) ? event.moneda : monedaPredeterminada;
+}
+export function calculateClientDebt(
+  events: TransactionEvent[],
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): DebtCalculationResult {
   console.log('calculateClientDebt called with:', {
     events,
     isArray: Array.isArray(events),
@@ -39,7 +82,9 @@ export function calculateClientDebt(events: TransactionEvent[]): DebtCalculation
       totalDebt: 0,
       events: [],
       zeroBalancePoints: [],
-      favorBalance: 0
+      favorBalance: 0,
+      moneda: monedaPredeterminada,
+      balancesByCurrency: {}
     };
   }
   if (!Array.isArray(events)) {
@@ -48,43 +93,26 @@ export function calculateClientDebt(events: TransactionEvent[]): DebtCalculation
       totalDebt: 0,
       events: [],
       zeroBalancePoints: [],
-      favorBalance: 0
+      favorBalance: 0,
+      moneda: monedaPredeterminada,
+      balancesByCurrency: {}
     };
   }
-  const toTimestamp = (value: any): Timestamp => {
-    if (!value) return Timestamp.fromMillis(0);
-    if (value instanceof Timestamp) return value;
-    if (typeof value === 'object' && typeof value.seconds === 'number' && typeof value.nanoseconds === 'number') {
-      return new Timestamp(value.seconds, value.nanoseconds);
-    }
-    if (value instanceof Date) {
-      return Timestamp.fromDate(value);
-    }
-    if (typeof value === 'number') {
-      return Timestamp.fromMillis(value);
-    }
-    return Timestamp.fromMillis(0);
-  };
-  const normalizedEvents: TransactionEvent[] = (events || []).map((e) => ({
-    ...e,
-    fecha: toTimestamp((e as any).fecha),
-    creado: toTimestamp((e as any).creado),
-    editado: (e as any).editado ? toTimestamp((e as any).editado) : undefined,
-  }));
-  const sortedEvents = [...normalizedEvents]
-    .filter(event => !event.borrado)
-    .sort((a, b) => a.fecha.toMillis() - b.fecha.toMillis());
-  let runningTotal = 0;
+  const sortedEvents = sortActiveEventsByDate(events);
+  const runningTotals: Partial<Record<Moneda, number>> = {};
   const eventsWithTotals: TransactionEventWithRunningTotal[] = [];
   const zeroBalancePoints: number[] = [];
   for (let i = 0; i < sortedEvents.length; i++) {
     const event = sortedEvents[i];
-    const previousTotal = runningTotal;
+    const moneda = resolveEventCurrency(event, monedaPredeterminada);
+    const previousTotal = runningTotals[moneda] ?? 0;
+    let runningTotal = previousTotal;
     if (isSaleEvent(event)) {
       runningTotal += event.totalVenta;
     } else if (isPaymentEvent(event) && typeof event.montoPago === 'number') {
       runningTotal -= event.montoPago;
     }
+    runningTotals[moneda] = runningTotal;
     const isZeroBalance = Math.abs(runningTotal) < 0.01; // Account for floating point precision
     const eventWithTotal: TransactionEventWithRunningTotal = {
       id: event.id,
@@ -95,6 +123,8 @@ export function calculateClientDebt(events: TransactionEvent[]): DebtCalculation
       editado: event.editado,
       borrado: event.borrado,
       tipo: event.tipo,
+      moneda,
+      pendienteSync: event.pendienteSync,
       runningTotal,
       isZeroBalance
     };
@@ -102,6 +132,7 @@ export function calculateClientDebt(events: TransactionEvent[]): DebtCalculation
       eventWithTotal.producto = event.producto;
       eventWithTotal.productoColor = event.productoColor;
       eventWithTotal.cantidad = event.cantidad;
+      eventWithTotal.unidad = event.unidad;
       eventWithTotal.costoUnitario = event.costoUnitario;
       eventWithTotal.gananciaUnitaria = event.gananciaUnitaria;
       eventWithTotal.totalVenta = event.totalVenta;
@@ -113,15 +144,30 @@ export function calculateClientDebt(events: TransactionEvent[]): DebtCalculation
       zeroBalancePoints.push(i);
     }
   }
-  const finalDebt = runningTotal;
-  const favorBalance = finalDebt < 0 ? Math.abs(finalDebt) : 0;
+  const balancesByCurrency: Partial<Record<Moneda, CurrencyBalance>> = {};
+  for (const [moneda, finalDebt] of Object.entries(runningTotals) as [Moneda, number][]) {
+    balancesByCurrency[moneda] = {
+      totalDebt: Math.max(0, finalDebt), // Debt cannot be negative
+      favorBalance: finalDebt < 0 ? Math.abs(finalDebt) : 0
+    };
+  }
+  const defaultBalance = balancesByCurrency[monedaPredeterminada] ?? { totalDebt: 0, favorBalance: 0 };
   return {
-    totalDebt: Math.max(0, finalDebt), // Debt cannot be negative
+    totalDebt: defaultBalance.totalDebt,
     events: eventsWithTotals,
     zeroBalancePoints,
-    favorBalance
+    favorBalance: defaultBalance.favorBalance,
+    moneda: monedaPredeterminada,
+    balancesByCurrency
   };
 }
+export function getNetBalancesByCurrency(calculation: DebtCalculationResult): SaldosPorMoneda {
+  const balances: SaldosPorMoneda = {};
+  for (const [moneda, balance] of Object.entries(calculation.balancesByCurrency) as [Moneda, CurrencyBalance][]) {
+    balances[moneda] = balance.totalDebt - balance.favorBalance; // Net debt (negative for favor)
+  }
+  return balances;
+}
 export function calculateSaleTotal(
   cantidad: number,
   costoUnitario: number,
@@ -219,10 +265,130 @@ export function applyPaymentWithVisualization(
   }
   return { split, displayEvents };
 }
+export interface SaleAllocationStatus {
+  ventaId: string;
+  fecha: Timestamp;
+  producto: string;
+  moneda: Moneda;
+  totalVenta: number;
+  montoPagado: number;
+  saldoPendiente: number;
+  pagos: { pagoId: string; monto: number }[];
+}
+export interface PaymentAllocationResult {
+  sales: Record<string, SaleAllocationStatus>;
+  payments: Record<string, PaymentAllocation[]>;
+  unallocatedCredit: SaldosPorMoneda; // Payment amounts not yet applied to any sale
+}
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+export function allocatePayments(
+  events: TransactionEvent[],
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): PaymentAllocationResult {
+  const sales: Record<string, SaleAllocationStatus> = {};
+  const payments: Record<string, PaymentAllocation[]> = {};
+  const openSales: Partial<Record<Moneda, SaleAllocationStatus[]>> = {};
+  const credits: Partial<Record<Moneda, { pagoId: string; restante: number }[]>> = {};
+  const apply = (sale: SaleAllocationStatus, pagoId: string, monto: number) => {
+    sale.montoPagado = roundMoney(sale.montoPagado + monto);
+    sale.saldoPendiente = roundMoney(sale.saldoPendiente - monto);
+    sale.pagos.push({ pagoId, monto });
+    const existing = payments[pagoId].find(a => a.ventaId === sale.ventaId);
+    if (existing) {
+      existing.monto = roundMoney(existing.monto + monto);
+    } else {
+      payments[pagoId].push({ ventaId: sale.ventaId, monto });
+    }
+  };
+  for (const event of sortActiveEventsByDate(events)) {
+    const moneda = resolveEventCurrency(event, monedaPredeterminada);
+    if (isSaleEvent(event)) {
+      const sale: SaleAllocationStatus = {
+        ventaId: event.id,
+        fecha: event.fecha,
+        producto: event.producto,
+        moneda,
+        totalVenta: event.totalVenta,
+        montoPagado: 0,
+        saldoPendiente: event.totalVenta,
+        pagos: []
+      };
+      sales[event.id] = sale;
+      const pendingCredits = credits[moneda] ?? [];
+      while (pendingCredits.length > 0 && sale.saldoPendiente > 0.01) {
+        const credit = pendingCredits[0];
+        const monto = roundMoney(Math.min(credit.restante, sale.saldoPendiente));
+        apply(sale, credit.pagoId, monto);
+        credit.restante = roundMoney(credit.restante - monto);
+        if (credit.restante <= 0.01) {
+          pendingCredits.shift();
+        }
+      }
+      if (sale.saldoPendiente > 0.01) {
+        openSales[moneda] = [...(openSales[moneda] ?? []), sale];
+      }
+    } else if (isPaymentEvent(event) && typeof event.montoPago === 'number') {
+      payments[event.id] = [];
+      let restante = event.montoPago;
+      for (const asignacion of event.asignaciones ?? []) {
+        const sale = sales[asignacion.ventaId];
+        if (!sale || sale.moneda !== moneda || sale.saldoPendiente <= 0.01) continue;
+        const monto = roundMoney(Math.min(asignacion.monto, sale.saldoPendiente, restante));
+        if (monto <= 0) continue;
+        apply(sale, event.id, monto);
+        restante = roundMoney(restante - monto);
+      }
+      for (const sale of openSales[moneda] ?? []) {
+        if (restante <= 0.01) break;
+        if (sale.saldoPendiente <= 0.01) continue;
+        const monto = roundMoney(Math.min(sale.saldoPendiente, restante));
+        apply(sale, event.id, monto);
+        restante = roundMoney(restante - monto);
+      }
+      openSales[moneda] = (openSales[moneda] ?? []).filter(sale => sale.saldoPendiente > 0.01);
+      if (restante > 0.01) {
+        credits[moneda] = [...(credits[moneda] ?? []), { pagoId: event.id, restante }];
+      }
+    }
+  }
+  const unallocatedCredit: SaldosPorMoneda = {};
+  for (const [moneda, pending] of Object.entries(credits) as [Moneda, { restante: number }[]][]) {
+    const total = roundMoney(pending.reduce((sum, credit) => sum + credit.restante, 0));
+    if (total > 0) {
+      unallocatedCredit[moneda] = total;
+    }
+  }
+  return { sales, payments, unallocatedCredit };
+}
+export function getOutstandingSales(
+  allocation: PaymentAllocationResult,
+  moneda?: Moneda
+): SaleAllocationStatus[] {
+  return Object.values(allocation.sales)
+    .filter(sale => sale.saldoPendiente > 0.01 && (!moneda || sale.moneda === moneda))
+    .sort((a, b) => a.fecha.toMillis() - b.fecha.toMillis());
+}
+export function suggestPaymentAllocation(
+  events: TransactionEvent[],
+  montoPago: number,
+  moneda: Moneda,
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): PaymentAllocation[] {
+  const suggestion: PaymentAllocation[] = [];
+  let restante = montoPago;
+  for (const sale of getOutstandingSales(allocatePayments(events, monedaPredeterminada), moneda)) {
+    if (restante <= 0.01) break;
+    const monto = roundMoney(Math.min(sale.saldoPendiente, restante));
+    suggestion.push({ ventaId: sale.ventaId, monto });
+    restante = roundMoney(restante - monto);
+  }
+  return suggestion;
+}
 export async function recalculateClientDebt(
-  events: TransactionEvent[]
-): Promise<{ newDebt: number; lastTransactionDate?: Timestamp }> {
-  const calculation = calculateClientDebt(events);
+  events: TransactionEvent[],
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): Promise<{ newDebt: number; debtsByCurrency: SaldosPorMoneda; lastTransactionDate?: Timestamp }> {
+  const calculation = calculateClientDebt(events, monedaPredeterminada);
   const lastTransactionDate = events.length > 0
     ? events.reduce((latest, event) =>
       event.fecha.toMillis() > latest.toMillis() ? event.fecha : latest
@@ -230,6 +396,7 @@ export async function recalculateClientDebt(
     : undefined;
   return {
     newDebt: calculation.totalDebt - calculation.favorBalance, // Net debt (can be negative for favor)
+    debtsByCurrency: getNetBalancesByCurrency(calculation),
     lastTransactionDate
   };
 }
@@ -258,6 +425,34 @@ export function calculateDebtImpact(
     createsOverpayment
   };
 }
+export interface CreditLimitCheck {
+  excedeLimite: boolean;
+  bloqueado: boolean; // Sale needs an owner override to be recorded
+  limiteCredito?: number;
+  deudaResultante: number;
+  exceso: number; // Amount past the limit, 0 when within it
+}
+export function checkCreditLimit(
+  client: Pick<Client, 'limiteCredito' | 'bloquearSobreLimite'>,
+  currentDebt: number,
+  sale: SaleEvent,
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): CreditLimitCheck {
+  const limiteCredito = client.limiteCredito ?? undefined;
+  if (limiteCredito === undefined || resolveEventCurrency(sale, monedaPredeterminada) !== monedaPredeterminada) {
+    return { excedeLimite: false, bloqueado: false, limiteCredito, deudaResultante: currentDebt, exceso: 0 }; // Limit is set in the company currency
+  }
+  const impact = calculateDebtImpact(currentDebt, sale);
+  const exceso = impact.newDebt - limiteCredito;
+  const excedeLimite = exceso > 0.01;
+  return {
+    excedeLimite,
+    bloqueado: excedeLimite && !!client.bloquearSobreLimite,
+    limiteCredito,
+    deudaResultante: impact.newDebt,
+    exceso: excedeLimite ? exceso : 0
+  };
+}
 export function detectZeroBalanceTransitions(
   events: TransactionEventWithRunningTotal[]
 ): Array<{
@@ -272,10 +467,12 @@ export function detectZeroBalanceTransitions(
     newDebt: number;
     transitionType: 'to-zero' | 'from-zero' | 'through-zero';
   }> = [];
+  const lastTotals: Partial<Record<Moneda, number>> = {};
   for (let i = 0; i < events.length; i++) {
     const event = events[i];
-    const previousDebt = i > 0 ? events[i - 1].runningTotal : 0;
+    const previousDebt = lastTotals[event.moneda] ?? 0;
     const currentDebt = event.runningTotal;
+    lastTotals[event.moneda] = currentDebt;
     const wasZero = Math.abs(previousDebt) < 0.01;
     const isZero = Math.abs(currentDebt) < 0.01;
     const crossedZero = (previousDebt > 0 && currentDebt < 0) || (previousDebt < 0 && currentDebt > 0);
@@ -309,6 +506,7 @@ export interface FormattedTransactionGroup {
   event?: TransactionEventWithRunningTotal;
   message?: string;
   amount?: number;
+  moneda?: Moneda;
   splitInfo?: {
     debtPortion: number;
     favorPortion: number;
@@ -341,29 +539,34 @@ export function formatTransactionHistory(
           type: 'payment-split',
           event: splitEvent,
           amount: debtPortion,
+          moneda: event.moneda,
           splitInfo: { debtPortion, favorPortion }
         });
         formatted.push({
           type: 'zero-balance',
-          message: 'cuenta en 0'
+          message: 'cuenta en 0',
+          moneda: event.moneda
         });
       }
       if (favorPortion > 0) {
         formatted.push({
           type: 'favor-balance',
           message: 'saldo a favor',
-          amount: favorPortion
+          amount: favorPortion,
+          moneda: event.moneda
         });
       }
     } else {
       formatted.push({
         type: 'transaction',
-        event
+        event,
+        moneda: event.moneda
       });
       if (event.isZeroBalance && !isOverpaymentEvent) {
         formatted.push({
           type: 'zero-balance',
-          message: 'cuenta en 0'
+          message: 'cuenta en 0',
+          moneda: event.moneda
         });
       }
     }
@@ -377,7 +580,7 @@ export function formatTransactionHistoryDetailed(
   const events = [...calculation.events].reverse(); // Newest first
   for (let i = 0; i < events.length; i++) {
     const event = events[i];
-    const previousEvent = i < events.length - 1 ? events[i + 1] : null;
+    const previousEvent = events.slice(i + 1).find(e => e.moneda === event.moneda) ?? null;
     const previousDebt = previousEvent ? previousEvent.runningTotal : 0;
     if (event.tipo === 'pago' && typeof event.montoPago === 'number') {
       const paymentResult = applyPaymentWithVisualization(previousDebt, event.montoPago);
@@ -392,25 +595,29 @@ export function formatTransactionHistoryDetailed(
           formatted.push({
             type: 'transaction',
             event: paymentEvent,
-            amount: displayEvent.amount
+            amount: displayEvent.amount,
+            moneda: event.moneda
           });
         } else if (displayEvent.type === 'zero-separator') {
           formatted.push({
             type: 'zero-balance',
-            message: displayEvent.message
+            message: displayEvent.message,
+            moneda: event.moneda
           });
         } else if (displayEvent.type === 'favor') {
           formatted.push({
             type: 'favor-balance',
             message: displayEvent.message,
-            amount: displayEvent.amount
+            amount: displayEvent.amount,
+            moneda: event.moneda
           });
         }
       }
     } else {
       formatted.push({
         type: 'transaction',
-        event
+        event,
+        moneda: event.moneda
       });
     }
   }
@@ -453,10 +660,10 @@ export function validateTransactionConsistency(events: TransactionEvent[]): {
     errors
   };
 }
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, moneda: Moneda = DEFAULT_MONEDA): string {
   return new Intl.NumberFormat('es-AR', {
     style: 'currency',
-    currency: 'ARS',
+    currency: moneda,
     minimumFractionDigits: 0,
     maximumFractionDigits: 2
   }).format(amount);
@@ -0,0 +1,82 @@
+import { Timestamp } from 'firebase/firestore';
+import { Client, TransactionEvent } from './types';
+export type CollectionReason = 'promesaVencida' | 'promesaHoy' | 'sinPagos';
+export interface CollectionItem {
+  client: Client;
+  motivo: CollectionReason;
+  diasSinPago: number; // Days since the latest pago, or since the client was created
+  fechaPromesa?: Date;
+  diasVencida?: number; // Days past the promised date
+}
+export const DEFAULT_DIAS_SIN_PAGO = 30;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const REASON_ORDER: Record<CollectionReason, number> = {
+  promesaVencida: 0,
+  promesaHoy: 1,
+  sinPagos: 2
+};
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+export function getDaysBetween(desde: Date, hasta: Date): number {
+  return Math.round((startOfDay(hasta).getTime() - startOfDay(desde).getTime()) / MS_PER_DAY);
+}
+// What ultimoPago should hold after any payment is created, edited, deleted or restored
+export function getLastPaymentDate(events: TransactionEvent[]): Timestamp | null {
+  return events
+    .filter(event => event.tipo === 'pago' && !event.borrado)
+    .reduce<Timestamp | null>(
+      (latest, event) => (!latest || event.fecha.toMillis() > latest.toMillis() ? event.fecha : latest),
+      null
+    );
+}
+export function getCollectionItem(
+  client: Client,
+  hoy: Date = new Date(),
+  diasSinPagoLimite: number = DEFAULT_DIAS_SIN_PAGO
+): CollectionItem | null {
+  if (client.oculto || client.deudaActual <= 0) return null;
+  const referenciaPago = client.ultimoPago ?? client.creado;
+  const diasSinPago = referenciaPago ? getDaysBetween(referenciaPago.toDate(), hoy) : 0;
+  if (client.fechaPromesaPago) {
+    const fechaPromesa = client.fechaPromesaPago.toDate();
+    const diasVencida = getDaysBetween(fechaPromesa, hoy);
+    if (diasVencida > 0) {
+      return { client, motivo: 'promesaVencida', diasSinPago, fechaPromesa, diasVencida };
+    }
+    if (diasVencida === 0) {
+      return { client, motivo: 'promesaHoy', diasSinPago, fechaPromesa, diasVencida };
+    }
+    return null; // Promise still pending, don't chase before the agreed date
+  }
+  if (diasSinPago >= diasSinPagoLimite) {
+    return { client, motivo: 'sinPagos', diasSinPago };
+  }
+  return null;
+}
+export function getCollectionItems(
+  clients: Client[],
+  hoy: Date = new Date(),
+  diasSinPagoLimite: number = DEFAULT_DIAS_SIN_PAGO
+): CollectionItem[] {
+  return clients
+    .map(client => getCollectionItem(client, hoy, diasSinPagoLimite))
+    .filter((item): item is CollectionItem => item !== null)
+    .sort((a, b) =>
+      REASON_ORDER[a.motivo] - REASON_ORDER[b.motivo] ||
+      (b.diasVencida ?? 0) - (a.diasVencida ?? 0) ||
+      b.diasSinPago - a.diasSinPago ||
+      b.client.deudaActual - a.client.deudaActual
+    );
+}
+export function getUpcomingPromises(clients: Client[], hoy: Date = new Date()): Client[] {
+  const today = startOfDay(hoy).getTime();
+  return clients.filter(client =>
+    !client.oculto &&
+    client.deudaActual > 0 &&
+    !!client.fechaPromesaPago &&
+    startOfDay(client.fechaPromesaPago.toDate()).getTime() >= today
+  );
+}
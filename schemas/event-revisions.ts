@@ -0,0 +1,20 @@
+import { EventRevision, TransactionEvent } from './types';
+import { buildAuditChanges } from './audit';
+const TIMELINE_IGNORED_FIELDS = ['borrado', 'creado', 'creadoPor'];
+export interface EventVersion {
+  datos: Omit<TransactionEvent, 'id'>;
+  revision?: EventRevision; // Undefined for the current version
+  cambios: string[]; // Fields changed by the next (newer) version
+}
+export function buildEventTimeline(current: TransactionEvent, revisions: EventRevision[]): EventVersion[] {
+  const sorted = [...revisions].sort((a, b) => (b.creado?.seconds ?? 0) - (a.creado?.seconds ?? 0));
+  const timeline: EventVersion[] = [{ datos: current, cambios: [] }];
+  let newer: Omit<TransactionEvent, 'id'> = current;
+  for (const revision of sorted) {
+    const cambios = Object.keys(buildAuditChanges(revision.datos, newer))
+      .filter(field => !TIMELINE_IGNORED_FIELDS.includes(field));
+    timeline.push({ datos: revision.datos, revision, cambios });
+    newer = revision.datos;
+  }
+  return timeline;
+}
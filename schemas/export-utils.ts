@@ -0,0 +1,187 @@
+import { Timestamp } from 'firebase/firestore';
+import { strToU8, zipSync } from 'fflate';
+import { Client, Product, TransactionEvent, Moneda, MONEDAS, DEFAULT_MONEDA, isSaleEvent } from './types';
+import { resolveEventCurrency } from './business-logic';
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportCell = string | number;
+export interface ExportTable {
+  nombre: string; // Used as sheet name and file name prefix
+  columnas: string[];
+  filas: ExportCell[][];
+}
+const pad = (value: number): string => value.toString().padStart(2, '0');
+export function formatExportDate(timestamp?: Timestamp): string {
+  if (!timestamp) return '';
+  const date = timestamp.toDate();
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+export function buildExportFileName(nombre: string, formato: ExportFormat | 'json', fecha: Date = new Date()): string {
+  const slug = nombre
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const stamp = `${fecha.getFullYear()}${pad(fecha.getMonth() + 1)}${pad(fecha.getDate())}`;
+  return `${slug || 'export'}-${stamp}.${formato}`;
+}
+export function buildClientsTable(clients: Client[], monedaPredeterminada: Moneda = DEFAULT_MONEDA): ExportTable {
+  return {
+    nombre: 'Clientes',
+    columnas: [
+      'Nombre',
+      'Dirección',
+      'Teléfono',
+      ...MONEDAS.map(moneda => `Deuda ${moneda}`),
+      'Última transacción',
+      'Oculto',
+      'Notas'
+    ],
+    filas: clients.map(client => [
+      client.nombre,
+      client.direccion,
+      client.telefono,
+      ...MONEDAS.map(moneda =>
+        client.deudaPorMoneda?.[moneda] ?? (moneda === monedaPredeterminada ? client.deudaActual : 0)
+      ),
+      formatExportDate(client.ultimaTransaccion),
+      client.oculto ? 'Sí' : 'No',
+      client.notas ?? ''
+    ])
+  };
+}
+export function buildProductsTable(products: Product[], monedaPredeterminada: Moneda = DEFAULT_MONEDA): ExportTable {
+  return {
+    nombre: 'Productos',
+    columnas: ['Posición', 'Nombre', 'Moneda', 'Costo', 'Ganancia', 'Precio', 'Activo'],
+    filas: [...products]
+      .sort((a, b) => (a.posicion || 0) - (b.posicion || 0))
+      .map(product => [
+        product.posicion,
+        product.nombre,
+        product.moneda ?? monedaPredeterminada,
+        product.ultimoCosto,
+        product.ultimaGanancia,
+        product.ultimoCosto + product.ultimaGanancia,
+        product.activo ? 'Sí' : 'No'
+      ])
+  };
+}
+export function buildEventsTable(
+  events: TransactionEvent[],
+  clientNames: { [clienteId: string]: string } = {},
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA,
+  nombre: string = 'Movimientos'
+): ExportTable {
+  return {
+    nombre,
+    columnas: [
+      'Fecha',
+      'Cliente',
+      'Tipo',
+      'Producto',
+      'Cantidad',
+      'Costo unitario',
+      'Ganancia unitaria',
+      'Venta',
+      'Pago',
+      'Moneda',
+      'Notas'
+    ],
+    filas: [...events]
+      .sort((a, b) => a.fecha.toMillis() - b.fecha.toMillis())
+      .map(event => {
+        const moneda = resolveEventCurrency(event, monedaPredeterminada);
+        const cliente = clientNames[event.clienteId] ?? event.clienteId;
+        if (isSaleEvent(event)) {
+          return [
+            formatExportDate(event.fecha),
+            cliente,
+            'Venta',
+            event.producto,
+            event.cantidad,
+            event.costoUnitario,
+            event.gananciaUnitaria,
+            event.totalVenta,
+            '',
+            moneda,
+            event.notas ?? ''
+          ];
+        }
+        return [
+          formatExportDate(event.fecha),
+          cliente,
+          'Pago',
+          '',
+          '',
+          '',
+          '',
+          '',
+          event.montoPago,
+          moneda,
+          event.notas ?? ''
+        ];
+      })
+  };
+}
+const escapeCsvCell = (cell: ExportCell, separador: string): string => {
+  if (typeof cell === 'number') {
+    return Number.isFinite(cell) ? cell.toString() : '';
+  }
+  const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell; // Keep spreadsheets from evaluating text as formulas
+  if (text.includes(separador) || text.includes('"') || /[\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+export function tableToCsv(table: ExportTable, separador: string = ','): string {
+  const lines = [table.columnas, ...table.filas].map(row =>
+    row.map(cell => escapeCsvCell(cell, separador)).join(separador)
+  );
+  return `\uFEFF${lines.join('\r\n')}\r\n`; // BOM so Excel reads accents as UTF-8
+}
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const escapeXml = (text: string): string => text
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // Control characters are not valid XML
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+const xlsxCell = (cell: ExportCell, ref: string): string => {
+  if (typeof cell === 'number') {
+    return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : '';
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`; // Inline strings are never evaluated as formulas
+};
+// Single sheet workbook with the minimum parts Excel, LibreOffice and Sheets need to open it
+export function tableToXlsx(table: ExportTable): Uint8Array {
+  const rows = [table.columnas, ...table.filas].map((row, rowIndex) =>
+    `<row r="${rowIndex + 1}">${row.map((cell, column) => xlsxCell(cell, `${columnName(column)}${rowIndex + 1}`)).join('')}</row>`
+  );
+  const sheetName = escapeXml(table.nombre.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Hoja1');
+  return zipSync({
+    '[Content_Types].xml': strToU8(`${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'),
+    '_rels/.rels': strToU8(`${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    'xl/workbook.xml': strToU8(`${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${OFFICE_RELATIONSHIP}">` +
+      `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`),
+    'xl/_rels/workbook.xml.rels': strToU8(`${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`),
+    'xl/worksheets/sheet1.xml': strToU8(`${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${rows.join('')}</sheetData></worksheet>`)
+  });
+}
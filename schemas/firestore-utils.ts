@@ -12,6 +12,8 @@ import {
   orderBy, 
   limit, 
   onSnapshot,
+  runTransaction,
+  deleteField,
   Timestamp,
   DocumentReference,
   CollectionReference,
@@ -32,7 +34,10 @@ import {
   CreateProductData,
   CreateClientData,
   CreateSaleEventData,
-  CreatePaymentEventData
+  CreatePaymentEventData,
+  SaldosPorMoneda,
+  CompanyRole,
+  isCompanyRole
 } from './types';
 export function getUserRef(userId: string): DocumentReference {
   return doc(db, COLLECTIONS.USUARIOS, userId);
@@ -55,6 +60,24 @@ export function getProductsRef(empresaId: string): CollectionReference {
 export function getProductRef(empresaId: string, productId: string): DocumentReference {
   return doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.PRODUCTOS, productId);
 }
+export function getStockMovementsRef(empresaId: string, productId: string): CollectionReference {
+  return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.PRODUCTOS, productId, COLLECTIONS.MOVIMIENTOS_STOCK);
+}
+export function getSuppliersRef(empresaId: string): CollectionReference {
+  return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.PROVEEDORES);
+}
+export function getSupplierRef(empresaId: string, supplierId: string): DocumentReference {
+  return doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.PROVEEDORES, supplierId);
+}
+export function getPurchasesRef(empresaId: string): CollectionReference {
+  return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.COMPRAS);
+}
+export function getPriceListsRef(empresaId: string): CollectionReference {
+  return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.LISTAS_PRECIOS);
+}
+export function getPriceListRef(empresaId: string, listId: string): DocumentReference {
+  return doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.LISTAS_PRECIOS, listId);
+}
 export function getClientsRef(empresaId: string): CollectionReference {
   return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.CLIENTES);
 }
@@ -67,6 +90,9 @@ export function getEventsRef(empresaId: string): CollectionReference {
 export function getEventRef(empresaId: string, eventId: string): DocumentReference {
   return doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
 }
+export function getAuditLogRef(empresaId: string): CollectionReference {
+  return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.AUDITORIA);
+}
 export function getJoinRequestsRef(): CollectionReference {
   return collection(db, COLLECTIONS.SOLICITUDES);
 }
@@ -112,7 +138,7 @@ export async function getUserProfile(userId: string): Promise<UserProfile | null
 export async function addUserCompanyMembership(
   userId: string, 
   empresaId: string, 
-  role: 'owner' | 'member'
+  role: CompanyRole
 ): Promise<void> {
   const membership: UserCompanyMembership = {
     empresaId,
@@ -133,9 +159,14 @@ export async function getUserCompanyMembershipsWithDetails(userId: string): Prom
   const membershipsWithDetails = await Promise.all(
     memberships.map(async (membership) => {
       try {
-        const company = await getCompany(membership.empresaId);
+        const [company, memberSnap] = await Promise.all([
+          getCompany(membership.empresaId),
+          getDoc(getCompanyMemberRef(membership.empresaId, userId))
+        ]);
+        const memberRole = memberSnap.exists() ? memberSnap.data().role : undefined;
         return {
           ...membership,
+          role: isCompanyRole(memberRole) ? memberRole : membership.role, // Owners change roles on the member doc only
           companyName: company?.nombre
         };
       } catch (error) {
@@ -231,6 +262,10 @@ export async function getCompanyMembers(empresaId: string): Promise<CompanyMembe
   const querySnapshot = await getDocs(getCompanyMembersRef(empresaId));
   return querySnapshot.docs.map(doc => doc.data() as CompanyMember);
 }
+export async function getCompanyMember(empresaId: string, userId: string): Promise<CompanyMember | null> {
+  const docSnap = await getDoc(getCompanyMemberRef(empresaId, userId));
+  return docSnap.exists() ? docSnap.data() as CompanyMember : null;
+}
 export async function addCompanyMember(
   empresaId: string, 
   userId: string, 
@@ -245,11 +280,38 @@ export async function addCompanyMember(
   await setDoc(getCompanyMemberRef(empresaId, userId), member);
   await addUserCompanyMembership(userId, empresaId, 'member');
 }
+export async function updateCompanyMemberRole(
+  empresaId: string,
+  userId: string,
+  role: CompanyRole
+): Promise<void> {
+  await updateDoc(getCompanyMemberRef(empresaId, userId), { role });
+}
 export async function removeCompanyMember(empresaId: string, userId: string): Promise<void> {
   await deleteDoc(getCompanyMemberRef(empresaId, userId));
   await deleteDoc(doc(getUserCompaniesRef(userId), empresaId));
 }
-export async function createProduct(empresaId: string, productData: CreateProductData): Promise<string> {
+// Writes the document under a caller-chosen id only if it does not exist yet; false means an earlier attempt already did
+export async function createDocumentOnce(
+  ref: DocumentReference,
+  data: Record<string, any>,
+  companions: { ref: DocumentReference; data: Record<string, any> }[] = [] // Land in the same transaction, so exactly once too
+): Promise<boolean> {
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (snapshot.exists()) {
+      return false;
+    }
+    transaction.set(ref, data);
+    companions.forEach(companion => transaction.set(companion.ref, companion.data));
+    return true;
+  });
+}
+export async function createProduct(
+  empresaId: string,
+  productData: CreateProductData,
+  documentId?: string
+): Promise<string> {
   const context = 'firestore-utils.createProduct';
   if (typeof productData.ultimoCosto !== 'number') {
     throw new Error('Product ultimoCosto is required and must be a number');
@@ -284,7 +346,13 @@ export async function createProduct(empresaId: string, productData: CreateProduc
       collectionPath: `empresas/${empresaId}/productos`
     });
     console.log(`${context}: Adding document to Firestore`);
-    const productRef = await addDoc(productsRef, product);
+    let productRef: DocumentReference;
+    if (documentId) {
+      productRef = doc(productsRef, documentId);
+      await createDocumentOnce(productRef, product);
+    } else {
+      productRef = await addDoc(productsRef, product);
+    }
     console.log(`${context}: Producto creado exitosamente in Firestore`, { 
       empresaId,
       productId: productRef.id,
@@ -367,6 +435,10 @@ export async function getProducts(empresaId: string): Promise<Product[]> {
     throw error;
   }
 }
+export async function getProduct(empresaId: string, productId: string): Promise<Product | null> {
+  const docSnap = await getDoc(getProductRef(empresaId, productId));
+  return docSnap.exists() ? { id: docSnap.id, ...docSnap.data() } as Product : null;
+}
 export async function updateProduct(
   empresaId: string, 
   productId: string, 
@@ -470,7 +542,9 @@ export async function updateClientDebt(
   empresaId: string, 
   clientId: string, 
   newDebt: number,
-  lastTransactionDate?: Timestamp
+  lastTransactionDate?: Timestamp,
+  deudaPorMoneda?: SaldosPorMoneda,
+  lastPaymentDate?: Timestamp | null // null clears it once the client has no payments left
 ): Promise<void> {
   const updates: any = {
     deudaActual: newDebt,
@@ -479,6 +553,12 @@ export async function updateClientDebt(
   if (lastTransactionDate) {
     updates.ultimaTransaccion = lastTransactionDate;
   }
+  if (deudaPorMoneda) {
+    updates.deudaPorMoneda = deudaPorMoneda;
+  }
+  if (lastPaymentDate !== undefined) {
+    updates.ultimoPago = lastPaymentDate ?? deleteField();
+  }
   await updateDoc(getClientRef(empresaId, clientId), updates);
 }
 export async function createSaleEvent(
@@ -498,7 +578,8 @@ export async function createSaleEvent(
     const clientEvents = await getClientEvents(empresaId, saleData.clienteId);
     const allEvents = [...clientEvents, { ...saleEvent, id: eventRef.id }];
     const { calculateClientDebt } = await import('./business-logic');
-    const calculation = calculateClientDebt(allEvents);
+    const company = await getCompany(empresaId);
+    const calculation = calculateClientDebt(allEvents, company?.monedaPredeterminada);
     const finalDebt = calculation.totalDebt - calculation.favorBalance;
     await SimpleDebtService.getInstance().setClientDebt(empresaId, saleData.clienteId, 'Cliente', finalDebt);
     console.log(`Actualizado cliente ${saleData.clienteId} deuda to: ${finalDebt}`);
@@ -524,7 +605,8 @@ export async function createPaymentEvent(
     const clientEvents = await getClientEvents(empresaId, paymentData.clienteId);
     const allEvents = [...clientEvents, { ...paymentEvent, id: eventRef.id }];
     const { calculateClientDebt } = await import('./business-logic');
-    const calculation = calculateClientDebt(allEvents);
+    const company = await getCompany(empresaId);
+    const calculation = calculateClientDebt(allEvents, company?.monedaPredeterminada);
     const finalDebt = calculation.totalDebt - calculation.favorBalance;
     await SimpleDebtService.getInstance().setClientDebt(empresaId, paymentData.clienteId, 'Cliente', finalDebt);
     console.log(`Actualizado cliente ${paymentData.clienteId} deuda to: ${finalDebt}`);
@@ -558,19 +640,31 @@ export async function updateTransactionEvent(
   await updateDoc(getEventRef(empresaId, eventId), updateData);
 }
 export async function deleteTransactionEvent(empresaId: string, eventId: string): Promise<void> {
+  const now = Timestamp.now();
   await updateDoc(getEventRef(empresaId, eventId), {
     borrado: true,
-    editado: Timestamp.now()
+    borradoEl: now,
+    editado: now
   });
 }
 export async function recalculateAndUpdateClientDebt(empresaId: string, clientId: string): Promise<void> {
   try {
     const clientEvents = await getClientEvents(empresaId, clientId);
-    const { calculateClientDebt } = await import('./business-logic');
-    const calculation = calculateClientDebt(clientEvents);
+    const { calculateClientDebt, getNetBalancesByCurrency } = await import('./business-logic');
+    const { getLastPaymentDate } = await import('./collections');
+    const company = await getCompany(empresaId);
+    const calculation = calculateClientDebt(clientEvents, company?.monedaPredeterminada);
     const finalDebt = calculation.totalDebt - calculation.favorBalance;
     const lastTransactionDate = clientEvents.length > 0 ? clientEvents[0].fecha : undefined;
-    await updateClientDebt(empresaId, clientId, finalDebt, lastTransactionDate);
+    const lastPaymentDate = getLastPaymentDate(clientEvents);
+    await updateClientDebt(
+      empresaId,
+      clientId,
+      finalDebt,
+      lastTransactionDate,
+      getNetBalancesByCurrency(calculation),
+      lastPaymentDate
+    );
     console.log(`Recalculado deuda for cliente ${clientId}: ${finalDebt}`);
   } catch (error) {
     console.error(`Failed to recalculate debt for client ${clientId}:`, error);
@@ -709,6 +803,15 @@ export function subscribeToCompanyMembers(
     callback(members);
   });
 }
+export function subscribeToCompanyMember(
+  empresaId: string,
+  userId: string,
+  callback: (member: CompanyMember | null) => void
+) {
+  return onSnapshot(getCompanyMemberRef(empresaId, userId), (doc) => {
+    callback(doc.exists() ? doc.data() as CompanyMember : null);
+  });
+}
 export function subscribeToProducts(
   empresaId: string, 
   callback: (products: Product[]) => void
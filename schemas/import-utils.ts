@@ -0,0 +1,209 @@
+import { Client, Product, CreateClientData, CreateProductData, Moneda, DEFAULT_MONEDA } from './types';
+import { validateClient, validateProduct } from './validation';
+export type ImportRowStatus = 'valido' | 'invalido' | 'duplicado';
+export interface ImportRow<T> {
+  fila: number; // 1-based line in the file, header included
+  data: T;
+  estado: ImportRowStatus;
+  errors: string[];
+}
+export interface ImportPreview<T> {
+  columnasFaltantes: string[];
+  filas: ImportRow<T>[];
+  validas: number;
+  invalidas: number;
+  duplicadas: number;
+}
+const DEFAULT_IMPORT_COLOR = '#25B4BD';
+const CLIENT_COLUMNS: Record<string, string[]> = {
+  nombre: ['nombre', 'name', 'cliente'],
+  direccion: ['direccion', 'address', 'domicilio'],
+  telefono: ['telefono', 'phone', 'whatsapp', 'celular'],
+  notas: ['notas', 'notes', 'observaciones'],
+  oculto: ['oculto', 'hidden']
+};
+const PRODUCT_COLUMNS: Record<string, string[]> = {
+  nombre: ['nombre', 'name', 'producto'],
+  colorFondo: ['color', 'colorfondo'],
+  posicion: ['posicion', 'orden'],
+  ultimoCosto: ['costo', 'ultimocosto', 'cost'],
+  ultimaGanancia: ['ganancia', 'ultimaganancia', 'profit'],
+  moneda: ['moneda', 'currency'],
+  activo: ['activo', 'active']
+};
+const REQUIRED_CLIENT_COLUMNS = ['nombre', 'direccion', 'telefono'];
+const REQUIRED_PRODUCT_COLUMNS = ['nombre', 'ultimoCosto', 'ultimaGanancia'];
+const normalizeText = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+const normalizeHeader = (value: string): string => normalizeText(value).replace(/[^a-z0-9]/g, '');
+const normalizePhone = (value: string): string => value.replace(/\D/g, '');
+function detectSeparator(headerLine: string): string {
+  const semicolons = (headerLine.match(/;/g) || []).length;
+  const commas = (headerLine.match(/,/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+}
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const separador = detectSeparator(content.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separador) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+export function parseImportNumber(value: string): number {
+  const trimmed = value.replace(/[\s$]/g, '');
+  if (trimmed.length === 0) return NaN;
+  const normalized = trimmed.includes(',')
+    ? trimmed.replace(/\./g, '').replace(',', '.') // 1.234,56
+    : trimmed;
+  return Number(normalized);
+}
+function parseImportBoolean(value: string, defaultValue: boolean): boolean {
+  const normalized = normalizeText(value);
+  if (normalized.length === 0) return defaultValue;
+  return ['si', 'true', '1', 'x', 'yes'].includes(normalized);
+}
+interface MappedRow {
+  fila: number;
+  values: Record<string, string>;
+}
+function mapRows(
+  text: string,
+  columns: Record<string, string[]>,
+  required: string[]
+): { columnasFaltantes: string[]; rows: MappedRow[] } {
+  const [header = [], ...lines] = parseCsv(text);
+  const indexes: Record<string, number> = {};
+  header.forEach((name, index) => {
+    const normalized = normalizeHeader(name);
+    const field = Object.keys(columns).find(key => columns[key].includes(normalized));
+    if (field && indexes[field] === undefined) {
+      indexes[field] = index;
+    }
+  });
+  const columnasFaltantes = required.filter(field => indexes[field] === undefined);
+  const rows = lines
+    .map((cells, index) => {
+      const values: Record<string, string> = {};
+      Object.keys(indexes).forEach(field => {
+        values[field] = (cells[indexes[field]] ?? '').trim();
+      });
+      return { fila: index + 2, values, isEmpty: cells.every(cell => cell.trim().length === 0) };
+    })
+    .filter(row => !row.isEmpty)
+    .map(({ fila, values }) => ({ fila, values }));
+  return { columnasFaltantes, rows };
+}
+function summarize<T>(columnasFaltantes: string[], filas: ImportRow<T>[]): ImportPreview<T> {
+  return {
+    columnasFaltantes,
+    filas,
+    validas: filas.filter(row => row.estado === 'valido').length,
+    invalidas: filas.filter(row => row.estado === 'invalido').length,
+    duplicadas: filas.filter(row => row.estado === 'duplicado').length
+  };
+}
+export function buildClientImportPreview(
+  text: string,
+  existingClients: Client[] = []
+): ImportPreview<CreateClientData> {
+  const { columnasFaltantes, rows } = mapRows(text, CLIENT_COLUMNS, REQUIRED_CLIENT_COLUMNS);
+  const names = new Set(existingClients.map(client => normalizeText(client.nombre)));
+  const phones = new Set(existingClients.map(client => normalizePhone(client.telefono)).filter(Boolean));
+  const filas = rows.map(({ fila, values }): ImportRow<CreateClientData> => {
+    const data: CreateClientData = {
+      nombre: values.nombre ?? '',
+      direccion: values.direccion ?? '',
+      telefono: values.telefono ?? '',
+      oculto: parseImportBoolean(values.oculto ?? '', false),
+      ...(values.notas && { notas: values.notas })
+    };
+    const validation = validateClient(data);
+    if (!validation.isValid) {
+      return { fila, data, estado: 'invalido', errors: validation.errors };
+    }
+    const name = normalizeText(data.nombre);
+    const phone = normalizePhone(data.telefono);
+    if (names.has(name) || phones.has(phone)) {
+      const motivo = names.has(name) ? 'nombre' : 'teléfono';
+      return { fila, data, estado: 'duplicado', errors: [`Ya existe un cliente con el mismo ${motivo}`] };
+    }
+    names.add(name);
+    phones.add(phone);
+    return { fila, data, estado: 'valido', errors: [] };
+  });
+  return summarize(columnasFaltantes, filas);
+}
+export function buildProductImportPreview(
+  text: string,
+  existingProducts: Product[] = [],
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): ImportPreview<CreateProductData> {
+  const { columnasFaltantes, rows } = mapRows(text, PRODUCT_COLUMNS, REQUIRED_PRODUCT_COLUMNS);
+  const names = new Set(existingProducts.map(product => normalizeText(product.nombre)));
+  let nextPosition = existingProducts.reduce((max, product) => Math.max(max, (product.posicion || 0) + 1), 0);
+  const filas = rows.map(({ fila, values }): ImportRow<CreateProductData> => {
+    const moneda = values.moneda ? values.moneda.toUpperCase() : monedaPredeterminada;
+    const posicion = values.posicion ? parseImportNumber(values.posicion) : nextPosition;
+    const data: CreateProductData = {
+      nombre: values.nombre ?? '',
+      colorFondo: values.colorFondo || DEFAULT_IMPORT_COLOR,
+      posicion,
+      ultimoCosto: parseImportNumber(values.ultimoCosto ?? ''),
+      ultimaGanancia: parseImportNumber(values.ultimaGanancia ?? ''),
+      moneda: moneda as Moneda,
+      activo: parseImportBoolean(values.activo ?? '', true)
+    };
+    const validation = validateProduct(data);
+    const errors = [...validation.errors];
+    if (Number.isNaN(data.ultimoCosto) || Number.isNaN(data.ultimaGanancia) || Number.isNaN(data.posicion)) {
+      errors.push('Costo, ganancia y posición deben ser números');
+    }
+    if (errors.length > 0) {
+      return { fila, data, estado: 'invalido', errors };
+    }
+    const name = normalizeText(data.nombre);
+    if (names.has(name)) {
+      return { fila, data, estado: 'duplicado', errors: ['Ya existe un producto con el mismo nombre'] };
+    }
+    names.add(name);
+    if (!values.posicion) nextPosition++;
+    return { fila, data, estado: 'valido', errors: [] };
+  });
+  return summarize(columnasFaltantes, filas);
+}
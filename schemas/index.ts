@@ -1 +1,80 @@
-export * from './types';export * from './validation';export * from './firestore-utils';export * from './business-logic';export * from './event-utils';export { Timestamp, FieldValue } from 'firebase/firestore';export type {  Company,  CompanyMember,  Product,  Client,  TransactionEvent,  SaleEvent,  PaymentEvent,  CompanyJoinRequest,  UserProfile,  UserCompanyMembership,  ValidationResult,  ProductPriceCache,  UISettings} from './types';export {  validateCompany,  validateProduct,  validateClient,  validateSaleEvent,  validatePaymentEvent,  validateTransactionEvent,  validateCompanyJoinRequest,  validateDebtCalculation} from './validation';export {  createUserProfile,  getUserProfile,  addUserCompanyMembership,  getUserCompanyMemberships,  createCompany,  getCompany,  getCompanyMembers,  addCompanyMember,  removeCompanyMember,  createProduct,  getProducts,  updateProduct,  deleteProduct,  createClient,  getClients,  getClient,  updateClient,  updateClientDebt,  createSaleEvent,  createPaymentEvent,  getClientEvents,  updateTransactionEvent,  deleteTransactionEvent,  createJoinRequest,  getPendingJoinRequests,  updateJoinRequestStatus,  deleteJoinRequest,  subscribeToCompanyMembers,  subscribeToProducts,  subscribeToClients,  subscribeToClientEvents,  subscribeToJoinRequests} from './firestore-utils';export {  calculateClientDebt,  calculateSaleTotal,  validateSaleTotal,  splitPayment,  recalculateClientDebt,  formatTransactionHistory,  extractProductPriceFromSale,  validateTransactionConsistency,  formatCurrency,  formatDate,  formatDateTime} from './business-logic';export { COLLECTIONS } from './types';
\ No newline at end of file
+export * from './types';
+export * from './validation';
+export * from './firestore-utils';
+export * from './business-logic';
+export * from './event-utils';
+export * from './reports';
+export { Timestamp, FieldValue } from 'firebase/firestore';
+export type {
+  Company,
+  CompanyMember,
+  Product,
+  Client,
+  TransactionEvent,
+  SaleEvent,
+  PaymentEvent,
+  CompanyJoinRequest,
+  UserProfile,
+  UserCompanyMembership,
+  ValidationResult,
+  ProductPriceCache,
+  UISettings
+} from './types';
+export {
+  validateCompany,
+  validateProduct,
+  validateClient,
+  validateSaleEvent,
+  validatePaymentEvent,
+  validateTransactionEvent,
+  validateCompanyJoinRequest,
+  validateDebtCalculation
+} from './validation';
+export {
+  createUserProfile,
+  getUserProfile,
+  addUserCompanyMembership,
+  getUserCompanyMemberships,
+  createCompany,
+  getCompany,
+  getCompanyMembers,
+  addCompanyMember,
+  removeCompanyMember,
+  createProduct,
+  getProducts,
+  updateProduct,
+  deleteProduct,
+  createClient,
+  getClients,
+  getClient,
+  updateClient,
+  updateClientDebt,
+  createSaleEvent,
+  createPaymentEvent,
+  getClientEvents,
+  updateTransactionEvent,
+  deleteTransactionEvent,
+  createJoinRequest,
+  getPendingJoinRequests,
+  updateJoinRequestStatus,
+  deleteJoinRequest,
+  subscribeToCompanyMembers,
+  subscribeToProducts,
+  subscribeToClients,
+  subscribeToClientEvents,
+  subscribeToJoinRequests
+} from './firestore-utils';
+export {
+  calculateClientDebt,
+  calculateSaleTotal,
+  validateSaleTotal,
+  splitPayment,
+  recalculateClientDebt,
+  formatTransactionHistory,
+  extractProductPriceFromSale,
+  validateTransactionConsistency,
+  formatCurrency,
+  formatDate,
+  formatDateTime
+} from './business-logic';
+export { COLLECTIONS } from './types';
\ No newline at end of file
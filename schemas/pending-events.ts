@@ -0,0 +1,49 @@
+import { Timestamp } from 'firebase/firestore';
+import { TransactionEvent } from './types';
+export interface PendingEventWrite {
+  type: 'create' | 'update' | 'delete';
+  documentId?: string;
+  data?: Record<string, any>; // Timestamps already revived
+  encolado: Timestamp; // When the write was queued
+}
+const withSaleTotal = (event: Record<string, any>): Record<string, any> =>
+  event.tipo === 'venta'
+    ? { ...event, totalVenta: event.cantidad * (event.costoUnitario + event.gananciaUnitaria) }
+    : event;
+// Overlays the offline queue on the server events so the history and balances show what the user already recorded
+export function applyPendingEventWrites(
+  events: TransactionEvent[],
+  writes: PendingEventWrite[],
+  clienteId: string
+): TransactionEvent[] {
+  const byId = new Map(events.map(event => [event.id, event]));
+  const order = events.map(event => event.id);
+  for (const write of writes) {
+    if (!write.documentId) continue;
+    const existing = byId.get(write.documentId);
+    if (write.type === 'create') {
+      if (existing || write.data?.clienteId !== clienteId) continue; // Already synced or another client
+      byId.set(write.documentId, withSaleTotal({
+        ...write.data,
+        id: write.documentId,
+        creado: write.encolado,
+        borrado: false,
+        pendienteSync: true
+      }) as TransactionEvent);
+      order.push(write.documentId);
+    } else if (existing && write.type === 'update') {
+      byId.set(write.documentId, withSaleTotal({
+        ...existing,
+        ...write.data,
+        editado: write.encolado,
+        pendienteSync: true
+      }) as TransactionEvent);
+    } else if (existing && write.type === 'delete') {
+      byId.delete(write.documentId);
+    }
+  }
+  return order
+    .filter(id => byId.has(id))
+    .map(id => byId.get(id)!)
+    .sort((a, b) => b.fecha.toMillis() - a.fecha.toMillis());
+}
@@ -0,0 +1,51 @@
+import { CompanyRole } from './types';
+export type CompanyPermission =
+  | 'registrarVentas'
+  | 'registrarPagos'
+  | 'editarEventos'
+  | 'registrarPromesas'
+  | 'gestionarClientes'
+  | 'gestionarProductos'
+  | 'gestionarSolicitudes'
+  | 'gestionarMiembros'
+  | 'vaciarPapelera'
+  | 'respaldarEmpresa';
+export const ROLE_LABELS: Record<CompanyRole, string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  member: 'Miembro',
+  seller: 'Vendedor',
+  collector: 'Cobrador',
+  viewer: 'Solo lectura'
+};
+export const ROLE_DESCRIPTIONS: Record<CompanyRole, string> = {
+  owner: 'Control total de la empresa',
+  admin: 'Gestiona datos y solicitudes, no cambia roles',
+  member: 'Registra y edita ventas, pagos, clientes y productos',
+  seller: 'Solo registra ventas',
+  collector: 'Solo registra pagos y promesas de pago',
+  viewer: 'Solo puede ver la información'
+};
+const DATA_PERMISSIONS: CompanyPermission[] = [
+  'registrarVentas',
+  'registrarPagos',
+  'editarEventos',
+  'registrarPromesas',
+  'gestionarClientes',
+  'gestionarProductos'
+];
+const ROLE_PERMISSIONS: Record<CompanyRole, CompanyPermission[]> = {
+  owner: [...DATA_PERMISSIONS, 'gestionarSolicitudes', 'gestionarMiembros', 'vaciarPapelera', 'respaldarEmpresa'],
+  admin: [...DATA_PERMISSIONS, 'gestionarSolicitudes'],
+  member: DATA_PERMISSIONS,
+  seller: ['registrarVentas'],
+  collector: ['registrarPagos', 'registrarPromesas'],
+  viewer: []
+};
+export const ASSIGNABLE_ROLES: CompanyRole[] = ['admin', 'member', 'seller', 'collector', 'viewer']; // Ownership is not transferable from the members screen
+export function hasPermission(role: CompanyRole | null | undefined, permission: CompanyPermission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role] ?? []).includes(permission);
+}
+export function getRolePermissions(role: CompanyRole): CompanyPermission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
@@ -0,0 +1,104 @@
+import { Moneda, Product, SaleEvent, DEFAULT_MONEDA } from './types';
+export const MAX_PRICE_SUGGESTIONS = 3;
+export const MAX_TREND_POINTS = 30;
+export const PRICE_HISTORY_SALES_LIMIT = 200; // Most recent sales read per product
+export interface PriceHistoryEntry {
+  costo: number;
+  ganancia: number;
+  total: number; // Unit price, costo + ganancia
+  moneda: Moneda;
+  usado: number; // Sales that used this price combination
+  ultimoUso: Date;
+}
+export interface PriceTrendPoint {
+  fecha: Date; // Start of the day
+  precioPromedio: number; // Unit price weighted by quantity
+  ventas: number;
+}
+export interface ProductPriceHistory {
+  entradas: PriceHistoryEntry[];
+  masUsados: PriceHistoryEntry[];
+  masRecientes: PriceHistoryEntry[];
+  tendencia: PriceTrendPoint[]; // Oldest first
+}
+export interface PriceHistoryOptions {
+  clienteId?: string;
+  moneda?: Moneda; // Only sales in this currency, prices in different currencies do not compare
+  monedaPredeterminada?: Moneda;
+}
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+// Sales from before productoId was stored only carry the product name
+export function isSaleOfProduct(sale: Pick<SaleEvent, 'productoId' | 'producto'>, product: Pick<Product, 'id' | 'nombre'>): boolean {
+  return sale.productoId ? sale.productoId === product.id : sale.producto === product.nombre;
+}
+function getMatchingSales(
+  sales: SaleEvent[],
+  product: Pick<Product, 'id' | 'nombre'>,
+  options: PriceHistoryOptions
+): SaleEvent[] {
+  const monedaPredeterminada = options.monedaPredeterminada ?? DEFAULT_MONEDA;
+  return sales.filter(sale =>
+    sale.tipo === 'venta' &&
+    !sale.borrado &&
+    isSaleOfProduct(sale, product) &&
+    (!options.clienteId || sale.clienteId === options.clienteId) &&
+    (!options.moneda || (sale.moneda ?? monedaPredeterminada) === options.moneda)
+  );
+}
+export function getPriceTrend(sales: SaleEvent[], maxPoints: number = MAX_TREND_POINTS): PriceTrendPoint[] {
+  const days = new Map<number, { importe: number; cantidad: number; ventas: number }>();
+  sales.forEach(sale => {
+    if (sale.cantidad <= 0) return;
+    const key = startOfDay(sale.fecha.toDate()).getTime();
+    const day = days.get(key) ?? { importe: 0, cantidad: 0, ventas: 0 };
+    day.importe += (sale.costoUnitario + sale.gananciaUnitaria) * sale.cantidad;
+    day.cantidad += sale.cantidad;
+    day.ventas += 1;
+    days.set(key, day);
+  });
+  return [...days.entries()]
+    .sort(([a], [b]) => a - b)
+    .slice(-maxPoints)
+    .map(([key, day]) => ({
+      fecha: new Date(key),
+      precioPromedio: roundMoney(day.importe / day.cantidad),
+      ventas: day.ventas
+    }));
+}
+export function buildPriceHistory(
+  sales: SaleEvent[],
+  product: Pick<Product, 'id' | 'nombre'>,
+  options: PriceHistoryOptions = {}
+): ProductPriceHistory {
+  const monedaPredeterminada = options.monedaPredeterminada ?? DEFAULT_MONEDA;
+  const matching = getMatchingSales(sales, product, options);
+  const entries = new Map<string, PriceHistoryEntry>();
+  matching.forEach(sale => {
+    const moneda = sale.moneda ?? monedaPredeterminada;
+    const key = `${moneda}|${sale.costoUnitario.toFixed(2)}|${sale.gananciaUnitaria.toFixed(2)}`;
+    const fecha = sale.fecha.toDate();
+    const entry = entries.get(key);
+    if (entry) {
+      entry.usado += 1;
+      if (fecha > entry.ultimoUso) entry.ultimoUso = fecha;
+      return;
+    }
+    entries.set(key, {
+      costo: sale.costoUnitario,
+      ganancia: sale.gananciaUnitaria,
+      total: roundMoney(sale.costoUnitario + sale.gananciaUnitaria),
+      moneda,
+      usado: 1,
+      ultimoUso: fecha
+    });
+  });
+  const entradas = [...entries.values()];
+  const byRecent = (a: PriceHistoryEntry, b: PriceHistoryEntry) => b.ultimoUso.getTime() - a.ultimoUso.getTime();
+  return {
+    entradas,
+    masUsados: [...entradas].sort((a, b) => b.usado - a.usado || byRecent(a, b)).slice(0, MAX_PRICE_SUGGESTIONS),
+    masRecientes: [...entradas].sort(byRecent).slice(0, MAX_PRICE_SUGGESTIONS),
+    tendencia: getPriceTrend(matching)
+  };
+}
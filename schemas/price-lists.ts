@@ -0,0 +1,65 @@
+import { Client, PreciosPorProducto, PriceList, SpecialPrice, ValidationResult } from './types';
+export type PriceSource = 'cliente' | 'lista';
+export interface ResolvedPrice extends SpecialPrice {
+  origen: PriceSource;
+  listaNombre?: string;
+}
+type ClientPricing = Pick<Client, 'listaPreciosId' | 'preciosEspeciales'>;
+const PRICE_TOLERANCE = 0.005;
+export function getPriceSourceLabel(price: Pick<ResolvedPrice, 'origen' | 'listaNombre'>): string {
+  return price.origen === 'cliente' ? 'Precio especial' : `Lista ${price.listaNombre ?? ''}`.trim();
+}
+// Client overrides win over the assigned price list; null when the product uses its normal price
+export function resolveClientPrice(
+  client: ClientPricing | null | undefined,
+  productoId: string,
+  priceList?: PriceList | null
+): ResolvedPrice | null {
+  const override = client?.preciosEspeciales?.[productoId];
+  if (override) {
+    return { ...override, origen: 'cliente' };
+  }
+  if (!client?.listaPreciosId || !priceList || priceList.id !== client.listaPreciosId) {
+    return null;
+  }
+  const listPrice = priceList.precios?.[productoId];
+  return listPrice ? { ...listPrice, origen: 'lista', listaNombre: priceList.nombre } : null;
+}
+// The badge only shows while the form still holds the special price
+export function isResolvedPriceApplied(price: SpecialPrice | null, costoUnitario: number, gananciaUnitaria: number): boolean {
+  return !!price &&
+    Math.abs(price.costoUnitario - costoUnitario) < PRICE_TOLERANCE &&
+    Math.abs(price.gananciaUnitaria - gananciaUnitaria) < PRICE_TOLERANCE;
+}
+export function setProductPrice(
+  precios: PreciosPorProducto | undefined,
+  productoId: string,
+  price: SpecialPrice | null
+): PreciosPorProducto {
+  const next = { ...(precios ?? {}) };
+  if (price) {
+    next[productoId] = { costoUnitario: price.costoUnitario, gananciaUnitaria: price.gananciaUnitaria };
+  } else {
+    delete next[productoId];
+  }
+  return next;
+}
+export function validateSpecialPrice(price: Partial<SpecialPrice>): ValidationResult {
+  const errors: string[] = [];
+  if (typeof price.costoUnitario !== 'number' || !isFinite(price.costoUnitario) || price.costoUnitario < 0) {
+    errors.push('El costo unitario debe ser un número mayor o igual a 0');
+  }
+  if (typeof price.gananciaUnitaria !== 'number' || !isFinite(price.gananciaUnitaria) || price.gananciaUnitaria < 0) {
+    errors.push('La ganancia unitaria debe ser un número mayor o igual a 0');
+  }
+  return { isValid: errors.length === 0, errors };
+}
+export function validatePriceListName(nombre: string | undefined): ValidationResult {
+  const errors: string[] = [];
+  if (!nombre || nombre.trim().length === 0) {
+    errors.push('El nombre de la lista es requerido');
+  } else if (nombre.trim().length > 50) {
+    errors.push('El nombre de la lista no puede exceder 50 caracteres');
+  }
+  return { isValid: errors.length === 0, errors };
+}
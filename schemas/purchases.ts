@@ -0,0 +1,94 @@
+import { CostMethod, Product, Purchase, Supplier, ValidationResult, COST_METHODS } from './types';
+export interface PurchaseProductUpdate {
+  stock: number;
+  ultimoCosto: number;
+  costoPromedio: number;
+}
+export const COST_METHOD_LABELS: Record<CostMethod, string> = {
+  ultimo: 'Último costo',
+  promedio: 'Costo promedio'
+};
+export const COST_METHOD_DESCRIPTIONS: Record<CostMethod, string> = {
+  ultimo: 'Las ventas usan lo que pagaste en la última compra',
+  promedio: 'Las ventas usan el promedio ponderado de lo que pagaste por el stock'
+};
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+export function isCostMethod(value: any): value is CostMethod {
+  return typeof value === 'string' && (COST_METHODS as readonly string[]).includes(value);
+}
+export function calculateWeightedAverageCost(
+  stockAnterior: number,
+  costoAnterior: number,
+  cantidad: number,
+  costoUnitario: number
+): number {
+  if (stockAnterior <= 0) {
+    return roundMoney(costoUnitario); // Nothing left at the old cost, or the count went negative
+  }
+  return roundMoney((stockAnterior * costoAnterior + cantidad * costoUnitario) / (stockAnterior + cantidad));
+}
+export function applyPurchaseToProduct(
+  product: Pick<Product, 'stock' | 'ultimoCosto' | 'costoPromedio'>,
+  purchase: Pick<Purchase, 'cantidad' | 'costoUnitario'>
+): PurchaseProductUpdate {
+  const stockAnterior = product.stock ?? 0; // The first purchase starts tracking stock
+  return {
+    stock: stockAnterior + purchase.cantidad,
+    ultimoCosto: purchase.costoUnitario,
+    costoPromedio: calculateWeightedAverageCost(
+      stockAnterior,
+      product.costoPromedio ?? product.ultimoCosto ?? 0, // Products bought before purchases existed average from their typed cost
+      purchase.cantidad,
+      purchase.costoUnitario
+    )
+  };
+}
+// Unit cost sales should default to under the company's costing method
+export function getProductCost(
+  product: Pick<Product, 'ultimoCosto' | 'costoPromedio'>,
+  metodo: CostMethod = 'ultimo'
+): number {
+  if (metodo === 'promedio' && typeof product.costoPromedio === 'number') {
+    return product.costoPromedio;
+  }
+  return product.ultimoCosto;
+}
+export function getPurchaseTotal(cantidad: number, costoUnitario: number): number {
+  return roundMoney(cantidad * costoUnitario);
+}
+export function validateSupplier(supplier: Partial<Pick<Supplier, 'nombre' | 'telefono' | 'notas'>>): ValidationResult {
+  const errors: string[] = [];
+  if (!supplier.nombre || supplier.nombre.trim().length === 0) {
+    errors.push('El nombre del proveedor es requerido');
+  } else if (supplier.nombre.trim().length > 50) {
+    errors.push('El nombre del proveedor no puede exceder 50 caracteres');
+  }
+  if (supplier.telefono && supplier.telefono.trim().length > 30) {
+    errors.push('El teléfono no puede exceder 30 caracteres');
+  }
+  if (supplier.notas && supplier.notas.length > 200) {
+    errors.push('Las notas no pueden exceder 200 caracteres');
+  }
+  return { isValid: errors.length === 0, errors };
+}
+export function validatePurchase(
+  purchase: Partial<Pick<Purchase, 'proveedorId' | 'productoId' | 'cantidad' | 'costoUnitario' | 'notas'>>
+): ValidationResult {
+  const errors: string[] = [];
+  if (!purchase.proveedorId) {
+    errors.push('Selecciona un proveedor');
+  }
+  if (!purchase.productoId) {
+    errors.push('Selecciona un producto');
+  }
+  if (typeof purchase.cantidad !== 'number' || !isFinite(purchase.cantidad) || purchase.cantidad <= 0) {
+    errors.push('La cantidad debe ser mayor a 0');
+  }
+  if (typeof purchase.costoUnitario !== 'number' || !isFinite(purchase.costoUnitario) || purchase.costoUnitario < 0) {
+    errors.push('El costo unitario debe ser un número mayor o igual a 0');
+  }
+  if (purchase.notas && purchase.notas.length > 200) {
+    errors.push('Las notas no pueden exceder 200 caracteres');
+  }
+  return { isValid: errors.length === 0, errors };
+}
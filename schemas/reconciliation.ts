@@ -0,0 +1,80 @@
+import { Client, Moneda, SaldosPorMoneda, TransactionEvent, DEFAULT_MONEDA } from './types';
+import { calculateClientDebt, getNetBalancesByCurrency } from './business-logic';
+export const RECONCILIATION_INTERVAL_MS = 24 * 60 * 60 * 1000; // Run the check at most once a day per company
+const DEBT_TOLERANCE = 0.01;
+export interface DebtDiscrepancy {
+  clienteId: string;
+  clienteNombre: string;
+  deudaEsperada: number; // Net debt in the company currency according to the event ledger
+  deudaPorMonedaEsperada: SaldosPorMoneda;
+  deudaActual: number;
+  deudaPorMonedaActual?: SaldosPorMoneda;
+  deudaLocal: number | null; // SimpleDebtService copy, null when this device has none
+  firestoreDesfasado: boolean;
+  localDesfasado: boolean;
+}
+export interface ReconciliationReport {
+  empresaId: string;
+  revisado: number; // Epoch ms, reports are kept in AsyncStorage
+  moneda: Moneda; // Company currency deudaActual is expressed in
+  clientesRevisados: number;
+  discrepancias: DebtDiscrepancy[];
+}
+const differs = (a: number, b: number): boolean => Math.abs(a - b) >= DEBT_TOLERANCE;
+function balancesDiffer(expected: SaldosPorMoneda, actual: SaldosPorMoneda): boolean {
+  const monedas = new Set([...Object.keys(expected), ...Object.keys(actual)] as Moneda[]);
+  return [...monedas].some(moneda => differs(expected[moneda] ?? 0, actual[moneda] ?? 0));
+}
+export function findDebtDiscrepancy(
+  client: Client,
+  events: TransactionEvent[],
+  deudaLocal: number | null,
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): DebtDiscrepancy | null {
+  const calculation = calculateClientDebt(events, monedaPredeterminada);
+  const deudaEsperada = calculation.totalDebt - calculation.favorBalance;
+  const deudaPorMonedaEsperada = getNetBalancesByCurrency(calculation);
+  const firestoreDesfasado = differs(client.deudaActual ?? 0, deudaEsperada) ||
+    (client.deudaPorMoneda !== undefined && balancesDiffer(deudaPorMonedaEsperada, client.deudaPorMoneda)); // Legacy clients without per-currency balances only compare deudaActual
+  const localDesfasado = deudaLocal !== null && differs(deudaLocal, deudaEsperada);
+  if (!firestoreDesfasado && !localDesfasado) {
+    return null;
+  }
+  return {
+    clienteId: client.id,
+    clienteNombre: client.nombre,
+    deudaEsperada,
+    deudaPorMonedaEsperada,
+    deudaActual: client.deudaActual ?? 0,
+    ...(client.deudaPorMoneda && { deudaPorMonedaActual: client.deudaPorMoneda }),
+    deudaLocal,
+    firestoreDesfasado,
+    localDesfasado
+  };
+}
+export function buildReconciliationReport(
+  empresaId: string,
+  clients: Client[],
+  events: TransactionEvent[],
+  localDebts: Record<string, number>,
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA,
+  now: number = Date.now()
+): ReconciliationReport {
+  const eventsByClient = new Map<string, TransactionEvent[]>();
+  events.forEach(event => {
+    eventsByClient.set(event.clienteId, [...(eventsByClient.get(event.clienteId) ?? []), event]);
+  });
+  const discrepancias = clients
+    .map(client => findDebtDiscrepancy(
+      client,
+      eventsByClient.get(client.id) ?? [],
+      localDebts[client.id] ?? null,
+      monedaPredeterminada
+    ))
+    .filter((discrepancy): discrepancy is DebtDiscrepancy => discrepancy !== null)
+    .sort((a, b) => Math.abs(b.deudaEsperada - b.deudaActual) - Math.abs(a.deudaEsperada - a.deudaActual));
+  return { empresaId, revisado: now, moneda: monedaPredeterminada, clientesRevisados: clients.length, discrepancias };
+}
+export function isReconciliationDue(report: ReconciliationReport | null, now: number = Date.now()): boolean {
+  return !report || now - report.revisado >= RECONCILIATION_INTERVAL_MS;
+}
@@ -0,0 +1,157 @@
+import { TransactionEvent, SaleEvent, PaymentEvent, Moneda, DEFAULT_MONEDA } from './types';
+import { filterActiveEvents, filterEventsByDateRange, filterEventsByType } from './event-utils';
+import { resolveEventCurrency } from './business-logic';
+export type ReportPeriod = 'dia' | 'semana' | 'mes';
+export interface ReportRange {
+  desde: Date;
+  hasta: Date;
+}
+export interface ReportTotals {
+  ingresos: number; // Sum of totalVenta
+  costo: number; // Sum of costoUnitario * cantidad
+  ganancia: number; // Sum of gananciaUnitaria * cantidad
+  cobranzas: number; // Sum of montoPago
+  variacionSaldo: number; // Net change in receivables (ingresos - cobranzas)
+  cantidadVentas: number;
+  cantidadPagos: number;
+}
+export interface ProductReportRow {
+  producto: string;
+  productoColor?: string;
+  cantidad: number;
+  ingresos: number;
+  costo: number;
+  ganancia: number;
+}
+export interface ClientReportRow {
+  clienteId: string;
+  ingresos: number;
+  ganancia: number;
+  cobranzas: number;
+  variacionSaldo: number;
+}
+export interface PeriodReport extends ReportRange {
+  moneda: Moneda;
+  totals: ReportTotals;
+  porProducto: ProductReportRow[];
+  porCliente: ClientReportRow[];
+}
+export function getReportRange(periodo: ReportPeriod, referencia: Date = new Date()): ReportRange {
+  const desde = new Date(referencia);
+  desde.setHours(0, 0, 0, 0);
+  if (periodo === 'semana') {
+    const diasDesdeLunes = (desde.getDay() + 6) % 7;
+    desde.setDate(desde.getDate() - diasDesdeLunes);
+  } else if (periodo === 'mes') {
+    desde.setDate(1);
+  }
+  const hasta = new Date(desde);
+  if (periodo === 'dia') {
+    hasta.setDate(hasta.getDate() + 1);
+  } else if (periodo === 'semana') {
+    hasta.setDate(hasta.getDate() + 7);
+  } else {
+    hasta.setMonth(hasta.getMonth() + 1);
+  }
+  hasta.setMilliseconds(hasta.getMilliseconds() - 1);
+  return { desde, hasta };
+}
+export function shiftReportRange(periodo: ReportPeriod, range: ReportRange, pasos: number): ReportRange {
+  const referencia = new Date(range.desde);
+  if (periodo === 'dia') {
+    referencia.setDate(referencia.getDate() + pasos);
+  } else if (periodo === 'semana') {
+    referencia.setDate(referencia.getDate() + pasos * 7);
+  } else {
+    referencia.setMonth(referencia.getMonth() + pasos);
+  }
+  return getReportRange(periodo, referencia);
+}
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+export function calculatePeriodReport(
+  events: TransactionEvent[],
+  range: ReportRange,
+  moneda: Moneda = DEFAULT_MONEDA,
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): PeriodReport {
+  const periodEvents = filterEventsByDateRange(filterActiveEvents(events), range.desde, range.hasta)
+    .filter(event => resolveEventCurrency(event, monedaPredeterminada) === moneda);
+  const sales = filterEventsByType(periodEvents, 'venta') as SaleEvent[];
+  const payments = filterEventsByType(periodEvents, 'pago') as PaymentEvent[];
+  const products: Record<string, ProductReportRow> = {};
+  const clients: Record<string, ClientReportRow> = {};
+  const getClientRow = (clienteId: string): ClientReportRow => {
+    if (!clients[clienteId]) {
+      clients[clienteId] = { clienteId, ingresos: 0, ganancia: 0, cobranzas: 0, variacionSaldo: 0 };
+    }
+    return clients[clienteId];
+  };
+  const totals: ReportTotals = {
+    ingresos: 0,
+    costo: 0,
+    ganancia: 0,
+    cobranzas: 0,
+    variacionSaldo: 0,
+    cantidadVentas: sales.length,
+    cantidadPagos: payments.length
+  };
+  for (const sale of sales) {
+    const costo = sale.costoUnitario * sale.cantidad;
+    const ganancia = sale.gananciaUnitaria * sale.cantidad;
+    totals.ingresos += sale.totalVenta;
+    totals.costo += costo;
+    totals.ganancia += ganancia;
+    if (!products[sale.producto]) {
+      products[sale.producto] = {
+        producto: sale.producto,
+        productoColor: sale.productoColor,
+        cantidad: 0,
+        ingresos: 0,
+        costo: 0,
+        ganancia: 0
+      };
+    }
+    const productRow = products[sale.producto];
+    productRow.cantidad += sale.cantidad;
+    productRow.ingresos += sale.totalVenta;
+    productRow.costo += costo;
+    productRow.ganancia += ganancia;
+    const clientRow = getClientRow(sale.clienteId);
+    clientRow.ingresos += sale.totalVenta;
+    clientRow.ganancia += ganancia;
+  }
+  for (const payment of payments) {
+    totals.cobranzas += payment.montoPago;
+    getClientRow(payment.clienteId).cobranzas += payment.montoPago;
+  }
+  totals.ingresos = roundMoney(totals.ingresos);
+  totals.costo = roundMoney(totals.costo);
+  totals.ganancia = roundMoney(totals.ganancia);
+  totals.cobranzas = roundMoney(totals.cobranzas);
+  totals.variacionSaldo = roundMoney(totals.ingresos - totals.cobranzas);
+  const porProducto = Object.values(products)
+    .map(row => ({
+      ...row,
+      ingresos: roundMoney(row.ingresos),
+      costo: roundMoney(row.costo),
+      ganancia: roundMoney(row.ganancia)
+    }))
+    .sort((a, b) => b.ingresos - a.ingresos);
+  const porCliente = Object.values(clients)
+    .map(row => ({
+      ...row,
+      ingresos: roundMoney(row.ingresos),
+      ganancia: roundMoney(row.ganancia),
+      cobranzas: roundMoney(row.cobranzas),
+      variacionSaldo: roundMoney(row.ingresos - row.cobranzas)
+    }))
+    .sort((a, b) => b.ingresos - a.ingresos || b.cobranzas - a.cobranzas);
+  return {
+    desde: range.desde,
+    hasta: range.hasta,
+    moneda,
+    totals,
+    porProducto,
+    porCliente
+  };
+}
@@ -0,0 +1,143 @@
+import { Timestamp } from 'firebase/firestore';
+import { Client, TransactionEvent, Moneda, DEFAULT_MONEDA } from './types';
+import { calculateClientDebt, formatCurrency } from './business-logic';
+import { ReportRange } from './reports';
+export interface StatementLine {
+  id: string;
+  fecha: Timestamp;
+  tipo: 'venta' | 'pago';
+  detalle: string;
+  venta: number;
+  pago: number;
+  saldo: number; // Running balance after this movement
+  notas?: string;
+}
+export interface AccountStatement extends ReportRange {
+  clienteId: string;
+  clienteNombre: string;
+  telefono: string;
+  moneda: Moneda;
+  saldoInicial: number; // Balance carried over from before the range
+  totalVentas: number;
+  totalPagos: number;
+  saldoFinal: number;
+  deudaActual: number;
+  lineas: StatementLine[];
+}
+const formatStatementDate = (date: Date): string =>
+  date.toLocaleDateString('es-AR', { year: 'numeric', month: '2-digit', day: '2-digit' });
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+export function buildAccountStatement(
+  client: Client,
+  events: TransactionEvent[],
+  range: ReportRange,
+  moneda?: Moneda,
+  monedaPredeterminada: Moneda = DEFAULT_MONEDA
+): AccountStatement {
+  const statementCurrency = moneda ?? monedaPredeterminada;
+  const desde = range.desde.getTime();
+  const hasta = range.hasta.getTime();
+  const movements = calculateClientDebt(events, monedaPredeterminada).events
+    .filter(event => event.moneda === statementCurrency);
+  let saldoInicial = 0;
+  const lineas: StatementLine[] = [];
+  for (const event of movements) {
+    const fecha = event.fecha.toMillis();
+    if (fecha < desde) {
+      saldoInicial = event.runningTotal;
+      continue;
+    }
+    if (fecha > hasta) break;
+    lineas.push({
+      id: event.id,
+      fecha: event.fecha,
+      tipo: event.tipo,
+      detalle: event.tipo === 'venta' ? `${event.cantidad ?? 0} x ${event.producto ?? ''}` : 'Pago',
+      venta: event.totalVenta ?? 0,
+      pago: event.montoPago ?? 0,
+      saldo: event.runningTotal,
+      ...(event.notas && { notas: event.notas })
+    });
+  }
+  const totalVentas = lineas.reduce((sum, line) => sum + line.venta, 0);
+  const totalPagos = lineas.reduce((sum, line) => sum + line.pago, 0);
+  return {
+    clienteId: client.id,
+    clienteNombre: client.nombre,
+    telefono: client.telefono,
+    desde: range.desde,
+    hasta: range.hasta,
+    moneda: statementCurrency,
+    saldoInicial,
+    totalVentas,
+    totalPagos,
+    saldoFinal: lineas.length > 0 ? lineas[lineas.length - 1].saldo : saldoInicial,
+    deudaActual: statementCurrency === monedaPredeterminada
+      ? client.deudaActual
+      : client.deudaPorMoneda?.[statementCurrency] ?? 0,
+    lineas
+  };
+}
+export function buildStatementSummaryText(statement: AccountStatement): string {
+  const money = (amount: number) => formatCurrency(amount, statement.moneda);
+  return [
+    `Hola ${statement.clienteNombre}! Te enviamos tu estado de cuenta del ${formatStatementDate(statement.desde)} al ${formatStatementDate(statement.hasta)}:`,
+    `Saldo anterior: ${money(statement.saldoInicial)}`,
+    `Compras: ${money(statement.totalVentas)}`,
+    `Pagos: ${money(statement.totalPagos)}`,
+    `Saldo al ${formatStatementDate(statement.hasta)}: ${money(statement.saldoFinal)}`,
+    `Deuda actual: ${money(statement.deudaActual)}`
+  ].join('\n');
+}
+export function buildStatementHtml(statement: AccountStatement): string {
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, statement.moneda));
+  const rows = statement.lineas.map(line => `
+      <tr>
+        <td>${escapeHtml(formatStatementDate(line.fecha.toDate()))}</td>
+        <td>${escapeHtml(line.detalle)}${line.notas ? `<div class="notes">${escapeHtml(line.notas)}</div>` : ''}</td>
+        <td class="amount">${line.venta ? money(line.venta) : ''}</td>
+        <td class="amount">${line.pago ? money(line.pago) : ''}</td>
+        <td class="amount">${money(line.saldo)}</td>
+      </tr>`).join('');
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: Helvetica, Arial, sans-serif; color: #333; padding: 24px; }
+      h1 { color: #25B4BD; margin-bottom: 4px; }
+      .subtitle { color: #666; margin-top: 0; }
+      table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px; }
+      th { background: #25B4BD; color: #fff; text-align: left; padding: 6px; }
+      td { border-bottom: 1px solid #e0e0e0; padding: 6px; vertical-align: top; }
+      .amount { text-align: right; white-space: nowrap; }
+      .notes { color: #888; font-size: 10px; }
+      .summary td { font-weight: bold; }
+      .debt { margin-top: 16px; font-size: 16px; font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    <h1>Estado de cuenta</h1>
+    <p class="subtitle">${escapeHtml(statement.clienteNombre)} · ${escapeHtml(formatStatementDate(statement.desde))} al ${escapeHtml(formatStatementDate(statement.hasta))} · ${statement.moneda}</p>
+    <table>
+      <thead>
+        <tr><th>Fecha</th><th>Detalle</th><th class="amount">Venta</th><th class="amount">Pago</th><th class="amount">Saldo</th></tr>
+      </thead>
+      <tbody>
+        <tr><td></td><td>Saldo anterior</td><td></td><td></td><td class="amount">${money(statement.saldoInicial)}</td></tr>${rows}
+        <tr class="summary"><td></td><td>Totales</td><td class="amount">${money(statement.totalVentas)}</td><td class="amount">${money(statement.totalPagos)}</td><td class="amount">${money(statement.saldoFinal)}</td></tr>
+      </tbody>
+    </table>
+    <p class="debt">Deuda actual: ${money(statement.deudaActual)}</p>
+  </body>
+</html>`;
+}
+export function buildWhatsAppUrl(telefono: string, text: string): string {
+  const digits = telefono.replace(/\D/g, '');
+  return `https://wa.me/${digits}?text=${encodeURIComponent(text)}`;
+}
@@ -0,0 +1,61 @@
+import { Product, SaleEvent, StockMovementType, ValidationResult, STOCK_MOVEMENT_TYPES } from './types';
+export type StockStatus = 'sinControl' | 'disponible' | 'bajo' | 'agotado';
+export interface StockChange {
+  productoId: string;
+  cantidad: number; // Signed change in units
+}
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  compra: 'Compra',
+  ajuste: 'Ajuste',
+  venta: 'Venta',
+  devolucion: 'Devolución'
+};
+export function isStockTracked(product: Pick<Product, 'stock'>): boolean {
+  return typeof product.stock === 'number';
+}
+export function getStockStatus(product: Pick<Product, 'stock' | 'stockMinimo'>): StockStatus {
+  if (!isStockTracked(product)) return 'sinControl';
+  if (product.stock! <= 0) return 'agotado';
+  if (product.stockMinimo !== undefined && product.stock! <= product.stockMinimo) return 'bajo';
+  return 'disponible';
+}
+export function getLowStockProducts<T extends Pick<Product, 'stock' | 'stockMinimo'>>(products: T[]): T[] {
+  return products.filter(product => {
+    const status = getStockStatus(product);
+    return status === 'bajo' || status === 'agotado';
+  });
+}
+type StockedSale = Pick<SaleEvent, 'productoId' | 'cantidad' | 'borrado'>;
+// Net stock changes to go from one version of a sale to another, null when the sale does not exist on that side
+export function getSaleStockChanges(antes: StockedSale | null, despues: StockedSale | null): StockChange[] {
+  const totals = new Map<string, number>();
+  const add = (sale: StockedSale | null, sign: number) => {
+    if (!sale || sale.borrado || !sale.productoId) return;
+    totals.set(sale.productoId, (totals.get(sale.productoId) ?? 0) + sign * sale.cantidad);
+  };
+  add(antes, 1); // Undo the previous version
+  add(despues, -1);
+  return [...totals.entries()]
+    .filter(([, cantidad]) => cantidad !== 0)
+    .map(([productoId, cantidad]) => ({ productoId, cantidad }));
+}
+export function getMovementTypeForSaleChange(cantidad: number): StockMovementType {
+  return cantidad < 0 ? 'venta' : 'devolucion';
+}
+export function validateStockMovement(movement: { tipo: StockMovementType; cantidad: number; notas?: string }): ValidationResult {
+  const errors: string[] = [];
+  if (!(STOCK_MOVEMENT_TYPES as readonly string[]).includes(movement.tipo)) {
+    errors.push(`El tipo de movimiento debe ser uno de: ${STOCK_MOVEMENT_TYPES.join(', ')}`);
+  }
+  if (typeof movement.cantidad !== 'number' || !isFinite(movement.cantidad) || movement.cantidad === 0) {
+    errors.push('La cantidad debe ser un número distinto de 0');
+  } else if ((movement.tipo === 'compra' || movement.tipo === 'devolucion') && movement.cantidad < 0) {
+    errors.push('Las compras y devoluciones deben sumar stock');
+  } else if (movement.tipo === 'venta' && movement.cantidad > 0) {
+    errors.push('Las ventas deben descontar stock');
+  }
+  if (movement.notas && movement.notas.length > 200) {
+    errors.push('Las notas no pueden exceder 200 caracteres');
+  }
+  return { isValid: errors.length === 0, errors };
+}
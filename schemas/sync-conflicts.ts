@@ -0,0 +1,77 @@
+export type ConflictChoice = 'local' | 'server';
+export interface SyncConflictField {
+  field: string;
+  localValue: any;
+  serverValue: any;
+  baseValue?: any; // Value the local edit started from, when it was cached
+}
+const VERSION_FIELDS = ['actualizado', 'editado'] as const;
+const isTimestampLike = (value: any): value is { seconds: number; nanoseconds: number } =>
+  !!value && typeof value === 'object' && typeof value.seconds === 'number' && typeof value.nanoseconds === 'number';
+export function toMillis(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  if (isTimestampLike(value)) return value.seconds * 1000 + Math.floor(value.nanoseconds / 1e6);
+  return null;
+}
+// Queued data goes through JSON, so Timestamps come back as plain { seconds, nanoseconds } objects
+const normalizeValue = (value: any): any => {
+  if (value === undefined) return null;
+  if (isTimestampLike(value) || value instanceof Date) return toMillis(value);
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc, key) => {
+      acc[key] = normalizeValue(value[key]);
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+};
+export function valuesEqual(a: any, b: any): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+export function getDocumentVersion(doc: Record<string, any> | null | undefined): number {
+  if (!doc) return 0;
+  return Math.max(0, ...VERSION_FIELDS.map(field => toMillis(doc[field]) ?? 0));
+}
+export function detectFieldConflicts(
+  local: Record<string, any>,
+  server: Record<string, any>,
+  base?: Record<string, any>
+): SyncConflictField[] {
+  return Object.keys(local)
+    .filter(field => !VERSION_FIELDS.includes(field as typeof VERSION_FIELDS[number]))
+    .filter(field => !valuesEqual(local[field], server[field]))
+    .filter(field => !base || !(field in base) || !valuesEqual(server[field], base[field]))
+    .map(field => ({
+      field,
+      localValue: local[field],
+      serverValue: server[field],
+      ...(base && field in base && { baseValue: base[field] })
+    }));
+}
+export function buildResolvedUpdate(
+  local: Record<string, any>,
+  choices: Record<string, ConflictChoice>
+): Record<string, any> {
+  return Object.keys(local)
+    .filter(field => choices[field] !== 'server')
+    .reduce((acc, field) => {
+      acc[field] = local[field];
+      return acc;
+    }, {} as Record<string, any>);
+}
+export function mergeFieldChoices<T>(
+  local: T,
+  server: T,
+  choices: Record<string, ConflictChoice>
+): T {
+  const merged = { ...server } as Record<string, any>;
+  for (const [field, choice] of Object.entries(choices)) {
+    if (choice === 'local' && local && typeof local === 'object' && field in local) {
+      merged[field] = (local as Record<string, any>)[field];
+    }
+  }
+  return merged as T;
+}
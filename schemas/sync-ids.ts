@@ -0,0 +1,25 @@
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+export const DOCUMENT_ID_LENGTH = 20;
+// Same shape as Firestore auto ids, but generated on the device so a queued write keeps them across retries
+export function generateDocumentId(random: () => number = Math.random): string {
+  let id = '';
+  for (let i = 0; i < DOCUMENT_ID_LENGTH; i++) {
+    id += ID_ALPHABET.charAt(Math.floor(random() * ID_ALPHABET.length));
+  }
+  return id;
+}
+export interface SyncIdentifiable {
+  type: 'create' | 'update' | 'delete';
+  documentId?: string;
+  idempotencyKey?: string;
+}
+export function withSyncIds<T extends SyncIdentifiable>(
+  item: T,
+  generateId: () => string = generateDocumentId
+): T & { idempotencyKey: string } {
+  return {
+    ...item,
+    idempotencyKey: item.idempotencyKey ?? generateId(),
+    documentId: item.documentId ?? (item.type === 'create' ? generateId() : undefined)
+  };
+}
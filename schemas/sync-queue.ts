@@ -0,0 +1,119 @@
+import { ValidationResult } from './types';
+import { formatCurrency } from './business-logic';
+import {
+  validateClient,
+  validateExistingProduct,
+  validatePaymentEvent,
+  validateProduct,
+  validateSaleEvent
+} from './validation';
+export type SyncWriteType = 'create' | 'update' | 'delete';
+export type SyncWriteCollection = 'products' | 'clients' | 'events' | 'members';
+export type SyncPriority = 'low' | 'normal' | 'high';
+export interface SyncQueueWrite {
+  type: SyncWriteType;
+  collection: SyncWriteCollection;
+  documentId?: string;
+  data?: any;
+}
+export interface SyncRunRecord {
+  timestamp: number;
+  processed: number;
+  failed: number;
+  remaining: number;
+  processingTime: number; // ms
+}
+export const MAX_SYNC_HISTORY = 50;
+export const SYNC_PRIORITIES: SyncPriority[] = ['high', 'normal', 'low'];
+export const SYNC_PRIORITY_LABELS: Record<SyncPriority, string> = {
+  high: 'Alta',
+  normal: 'Normal',
+  low: 'Baja'
+};
+export function appendSyncRun(history: SyncRunRecord[], run: SyncRunRecord): SyncRunRecord[] {
+  return [...history, run].slice(-MAX_SYNC_HISTORY);
+}
+export function formatSyncSummary(result: { processed: number; failed: number; remaining: number }): string {
+  const parts: string[] = [];
+  if (result.processed > 0) {
+    parts.push(`${result.processed} ${result.processed === 1 ? 'cambio sincronizado' : 'cambios sincronizados'}`);
+  }
+  if (result.failed > 0) {
+    parts.push(`${result.failed} con error`);
+  }
+  if (result.remaining > 0) {
+    parts.push(`${result.remaining} pendiente${result.remaining === 1 ? '' : 's'}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'No había cambios pendientes';
+}
+export function describeSyncWrite(write: SyncQueueWrite, clientNames: Record<string, string> = {}): string {
+  const data = write.data ?? {};
+  const clientLabel = (id?: string) => (id && clientNames[id]) || 'cliente desconocido';
+  switch (write.collection) {
+    case 'events':
+      if (write.type === 'create') {
+        return data.tipo === 'venta'
+          ? `Venta ${data.cantidad}x ${data.producto} para ${clientLabel(data.clienteId)}`
+          : `Pago de ${formatCurrency(data.montoPago ?? 0, data.moneda)} de ${clientLabel(data.clienteId)}`;
+      }
+      if (write.type === 'update') {
+        return `Edición de transacción (${Object.keys(data).join(', ')})`;
+      }
+      return 'Borrado de transacción';
+    case 'clients': {
+      const nombre = data.nombre ?? clientLabel(write.documentId);
+      if (write.type === 'create') return `Nuevo cliente ${nombre}`;
+      if (write.type === 'delete') return `Borrado de cliente ${nombre}`;
+      if (Object.keys(data).length === 1 && typeof data.oculto === 'boolean') {
+        return `${data.oculto ? 'Ocultar' : 'Mostrar'} cliente ${nombre}`;
+      }
+      return `Edición de cliente ${nombre}`;
+    }
+    case 'products':
+      if (write.type === 'create') return `Nuevo producto ${data.nombre}`;
+      if (write.type === 'delete') return 'Borrado de producto';
+      return `Edición de producto${data.nombre ? ` ${data.nombre}` : ''}`;
+    default:
+      return 'Cambio de miembro';
+  }
+}
+export function validateSyncWrite(write: SyncQueueWrite, current?: Record<string, any> | null): ValidationResult {
+  if (write.type === 'delete') {
+    return { isValid: true, errors: [] };
+  }
+  if (!write.data || typeof write.data !== 'object' || Array.isArray(write.data)) {
+    return { isValid: false, errors: ['Los datos deben ser un objeto'] };
+  }
+  if (write.type === 'update' && !current) {
+    return write.collection === 'products'
+      ? validateExistingProduct(write.data)
+      : { isValid: true, errors: [] }; // Without the cached document a partial update cannot be checked
+  }
+  const merged = write.type === 'update' ? { ...current, ...write.data } : write.data;
+  switch (write.collection) {
+    case 'events':
+      if (merged.tipo === 'venta') return validateSaleEvent(merged);
+      if (merged.tipo === 'pago') return validatePaymentEvent(merged);
+      return { isValid: false, errors: ['Tipo de evento no válido. Debe ser "venta" o "pago"'] };
+    case 'clients':
+      return validateClient(merged);
+    case 'products':
+      return validateProduct(merged);
+    default:
+      return { isValid: true, errors: [] };
+  }
+}
+export function formatSyncPayload(data: any): string {
+  return JSON.stringify(data ?? {}, null, 2);
+}
+export function parseSyncPayload(text: string): { data: Record<string, any> | null; errors: string[] } {
+  try {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { data: null, errors: ['Los datos deben ser un objeto JSON'] };
+    }
+    return { data, errors: [] };
+  } catch {
+    return { data: null, errors: ['El texto no es un JSON válido'] };
+  }
+}
@@ -0,0 +1,31 @@
+import { Company, TransactionEvent } from './types';
+import { toMillis } from './sync-conflicts';
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0]; // 0 disables automatic purging
+export function getTrashRetentionDays(company: Pick<Company, 'retencionPapeleraDias'> | null | undefined): number {
+  const days = company?.retencionPapeleraDias;
+  return typeof days === 'number' && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+export function formatTrashRetention(days: number): string {
+  if (days === 0) return 'Nunca';
+  return `${days} día${days !== 1 ? 's' : ''}`;
+}
+export function getDeletionTime(event: TransactionEvent): number {
+  // Events deleted before borradoEl existed only have the edit stamp written by the deletion
+  return toMillis(event.borradoEl) ?? toMillis(event.editado) ?? toMillis(event.creado) ?? 0;
+}
+export function getDaysUntilPurge(event: TransactionEvent, retentionDays: number, now: number = Date.now()): number | null {
+  if (retentionDays <= 0) return null;
+  const purgeAt = getDeletionTime(event) + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now) / DAY_MS));
+}
+export function getExpiredTrashEvents(
+  events: TransactionEvent[],
+  retentionDays: number,
+  now: number = Date.now()
+): TransactionEvent[] {
+  if (retentionDays <= 0) return [];
+  const cutoff = now - retentionDays * DAY_MS;
+  return events.filter(event => event.borrado && getDeletionTime(event) <= cutoff);
+}
@@ -1 +1,356 @@
-import { Timestamp } from "firebase/firestore";export interface Company {  id: string;  nombre: string;  propietario: string; // userId of the owner  creado: Timestamp;  solicitudesAbiertas?: boolean; // Default true, allows join requests}export interface CompanyMember {  userId: string;  email: string;  role: 'owner' | 'member';  fechaIngreso: Timestamp;}export interface Product {  id: string;  nombre: string;  colorFondo: string;  posicion: number;  ultimoCosto: number;    // REQUIRED: Unit cost  ultimaGanancia: number; // REQUIRED: Unit profit  activo: boolean;  creado: Timestamp;  actualizado?: Timestamp;}export interface ProductPriceCache {  [productId: string]: {    ultimoCosto: number;    ultimaGanancia: number;    fechaActualizacion: Timestamp;  };}export interface MigrationStatus {  empresaId: string;  nombreAdded: boolean;  productsValidated: boolean;  backupCreated: boolean;  migrationCompleted: boolean;  errors: string[];  timestamp: Timestamp;}export interface MigrationBackup {  id: string;  empresaId: string;  backupData: {    empresa: any;    productos: any[];  };  creado: Timestamp;  restored?: boolean;}export interface ProductMigrationData {  id: string;  nombre: string;  colorFondo: string;  posicion: number;  ultimoCosto?: number; // Optional during migration  ultimaGanancia?: number; // Optional during migration  activo: boolean;  creado: Timestamp;  actualizado?: Timestamp;  needsMigration: boolean;}export interface CompanyMigrationData {  id: string;  nombre?: string; // Optional during migration  propietario: string;  creado: Timestamp;  needsMigration: boolean;}export interface MigrationRecovery {  backupData: any[];  rollbackSteps: string[];  validationChecks: string[];  manualSteps: string[];}export interface Client {  id: string;  nombre: string;  direccion: string;  telefono: string; // WhatsApp number  notas?: string;  fechaImportante?: Timestamp;  oculto: boolean;  deudaActual: number; // Calculated field, updated on transaction changes  ultimaTransaccion?: Timestamp;  creado: Timestamp;  actualizado?: Timestamp;}export interface BaseTransactionEvent {  id: string;  clienteId: string;  fecha: Timestamp;  notas?: string;  creado: Timestamp;  editado?: Timestamp;  borrado: boolean;}export interface SaleEvent extends BaseTransactionEvent {  tipo: 'venta';  producto: string;  productoColor?: string;  cantidad: number;  costoUnitario: number;  gananciaUnitaria: number;  totalVenta: number; // cantidad * (costoUnitario + gananciaUnitaria)}export interface PaymentEvent extends BaseTransactionEvent {  tipo: 'pago';  montoPago: number;}export type TransactionEvent = SaleEvent | PaymentEvent;export interface CompanyJoinRequest {  id: string;  empresaId: string;  solicitanteId: string;  solicitanteEmail: string;  estado: 'pendiente' | 'aceptada' | 'rechazada';  creado: Timestamp;  procesado?: Timestamp;}export interface UserProfile {  id: string; // matches Firebase Auth UID  email: string;  creado: Timestamp;  actualizado?: Timestamp;}export interface UserCompanyMembership {  empresaId: string;  role: 'owner' | 'member';  fechaIngreso: Timestamp;}export interface UISettings {  mostrarClientesOcultos: boolean;  ordenClientes: 'nombre' | 'deuda' | 'ultimaTransaccion';  temaOscuro: boolean;}export interface ValidationResult {  isValid: boolean;  errors: string[];}export type ErrorType = 'validation' | 'network' | 'firestore' | 'permission' | 'unknown';export interface ServiceError {  type: ErrorType;  message: string;  originalError?: Error;  retryable: boolean;  code?: string;}export interface ServiceResponse<T> {  success: boolean;  data?: T;  error?: ServiceError;  errors?: string[]; // For backward compatibility}export interface RetryConfig {  maxAttempts: number;  baseDelay: number;  maxDelay: number;  backoffMultiplier: number;}export const COLLECTIONS = {  USUARIOS: 'usuarios',  EMPRESAS: 'empresas',  SOLICITUDES: 'solicitudes',  MIEMBROS: 'miembros',  PRODUCTOS: 'productos',   CLIENTES: 'clientes',  EVENTOS: 'eventos',} as const;export function isSaleEvent(event: any): event is SaleEvent {  return !!(event &&     typeof event === 'object' &&    event.tipo === 'venta' &&    typeof event.producto === 'string' &&    typeof event.cantidad === 'number' &&    typeof event.costoUnitario === 'number' &&    typeof event.gananciaUnitaria === 'number' &&    typeof event.totalVenta === 'number');}export function isPaymentEvent(event: any): event is PaymentEvent {  return !!(event &&     typeof event === 'object' &&    event.tipo === 'pago' &&    typeof event.montoPago === 'number');}export function isTransactionEvent(obj: any): obj is TransactionEvent {  return obj &&     typeof obj === 'object' &&    typeof obj.id === 'string' &&    typeof obj.clienteId === 'string' &&    (obj.tipo === 'venta' || obj.tipo === 'pago') &&    obj.fecha &&    typeof obj.borrado === 'boolean';}export function isSaleEventData(obj: any): obj is SaleEvent {  return isTransactionEvent(obj) &&    obj.tipo === 'venta' &&    typeof obj.producto === 'string' &&    typeof obj.cantidad === 'number' &&    typeof obj.costoUnitario === 'number' &&    typeof obj.gananciaUnitaria === 'number' &&    typeof obj.totalVenta === 'number';}export function isPaymentEventData(obj: any): obj is PaymentEvent {  return isTransactionEvent(obj) &&    obj.tipo === 'pago' &&    typeof obj.montoPago === 'number';}export type CreateCompanyData = Omit<Company, 'id' | 'creado'>;export type CreateProductData = Omit<Product, 'id' | 'creado' | 'actualizado'>;export type CreateClientData = Omit<Client, 'id' | 'deudaActual' | 'ultimaTransaccion' | 'creado' | 'actualizado'>;export type CreateSaleEventData = Omit<SaleEvent, 'id' | 'creado' | 'editado' | 'borrado'>;export type CreatePaymentEventData = Omit<PaymentEvent, 'id' | 'creado' | 'editado' | 'borrado'>;export type UpdateProductData = Partial<Omit<Product, 'id' | 'creado'>>;export type UpdateClientData = Partial<Omit<Client, 'id' | 'creado'>>;export type UpdateTransactionEventData = Partial<Omit<TransactionEvent, 'id' | 'creado'>>;export type MigrationProductData = Omit<ProductMigrationData, 'id' | 'creado' | 'actualizado' | 'needsMigration'>;export type MigrationCompanyData = Omit<CompanyMigrationData, 'id' | 'creado' | 'needsMigration'>;export type CreateMigrationStatusData = Omit<MigrationStatus, 'timestamp'>;export type CreateMigrationBackupData = Omit<MigrationBackup, 'id' | 'creado' | 'restored'>;
\ No newline at end of file
+import { Timestamp } from "firebase/firestore";
+export const MONEDAS = ['ARS', 'USD'] as const;
+export type Moneda = typeof MONEDAS[number];
+export const DEFAULT_MONEDA: Moneda = 'ARS';
+export type SaldosPorMoneda = Partial<Record<Moneda, number>>;
+export const UNIDADES_MEDIDA = ['unidad', 'kg', 'litro', 'docena', 'pack'] as const;
+export type UnidadMedida = typeof UNIDADES_MEDIDA[number];
+export const DEFAULT_UNIDAD: UnidadMedida = 'unidad';
+export interface Company {
+  id: string;
+  nombre: string;
+  propietario: string; // userId of the owner
+  creado: Timestamp;
+  solicitudesAbiertas?: boolean; // Default true, allows join requests
+  monedaPredeterminada?: Moneda; // Defaults to ARS when missing
+  retencionPapeleraDias?: number; // Days before deleted events are purged, 0 keeps them forever
+  metodoCosto?: CostMethod; // Defaults to 'ultimo' when missing
+}
+export const COMPANY_ROLES = ['owner', 'admin', 'member', 'seller', 'collector', 'viewer'] as const;
+export type CompanyRole = typeof COMPANY_ROLES[number]; // 'member' keeps the legacy full write access
+export interface CompanyMember {
+  userId: string;
+  email: string;
+  role: CompanyRole;
+  fechaIngreso: Timestamp;
+}
+export interface Product {
+  id: string;
+  nombre: string;
+  colorFondo: string;
+  posicion: number;
+  ultimoCosto: number;    // REQUIRED: Unit cost
+  ultimaGanancia: number; // REQUIRED: Unit profit
+  moneda?: Moneda;
+  unidad?: UnidadMedida; // Missing on products created before units, which sell whole units
+  productoPadreId?: string; // Variants point at the product they belong to
+  variante?: string; // Variant label such as a size or flavour, nombre already includes it
+  activo: boolean;
+  stock?: number; // Units on hand, stock is not tracked while missing
+  stockMinimo?: number; // Low-stock warning threshold
+  costoPromedio?: number; // Weighted average unit cost, maintained by purchases
+  ultimaCompraId?: string; // Purchase that last set ultimoCosto
+  creado: Timestamp;
+  actualizado?: Timestamp;
+}
+export const STOCK_MOVEMENT_TYPES = ['compra', 'ajuste', 'venta', 'devolucion'] as const;
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number];
+export interface StockMovement {
+  id: string;
+  tipo: StockMovementType;
+  cantidad: number; // Signed change in units, negative for sales
+  stockResultante: number;
+  eventoId?: string; // Sale that caused the movement
+  compraId?: string; // Purchase that caused the movement
+  notas?: string;
+  creadoPor?: string;
+  creado: Timestamp;
+}
+export const COST_METHODS = ['ultimo', 'promedio'] as const;
+export type CostMethod = typeof COST_METHODS[number];
+export interface Supplier {
+  id: string;
+  nombre: string;
+  telefono?: string;
+  notas?: string;
+  activo: boolean;
+  creado: Timestamp;
+  actualizado?: Timestamp;
+}
+export interface Purchase {
+  id: string;
+  proveedorId: string;
+  proveedorNombre: string; // Copied so the history survives supplier renames
+  productoId: string;
+  producto: string;
+  cantidad: number;
+  costoUnitario: number;
+  total: number;
+  moneda?: Moneda;
+  fecha: Timestamp;
+  notas?: string;
+  creadoPor?: string;
+  creado: Timestamp;
+}
+export interface SpecialPrice {
+  costoUnitario: number;
+  gananciaUnitaria: number;
+}
+export type PreciosPorProducto = Record<string, SpecialPrice>; // Keyed by product id
+export interface PriceList {
+  id: string;
+  nombre: string; // e.g. 'Mayorista'
+  precios: PreciosPorProducto;
+  creado: Timestamp;
+  actualizado?: Timestamp;
+}
+export interface ProductPriceCache {
+  [productId: string]: {
+    ultimoCosto: number;
+    ultimaGanancia: number;
+    fechaActualizacion: Timestamp;
+  };
+}
+export interface MigrationStatus {
+  empresaId: string;
+  nombreAdded: boolean;
+  productsValidated: boolean;
+  backupCreated: boolean;
+  migrationCompleted: boolean;
+  errors: string[];
+  timestamp: Timestamp;
+}
+export interface MigrationBackup {
+  id: string;
+  empresaId: string;
+  backupData: {
+    empresa: any;
+    productos: any[];
+  };
+  creado: Timestamp;
+  restored?: boolean;
+}
+export interface ProductMigrationData {
+  id: string;
+  nombre: string;
+  colorFondo: string;
+  posicion: number;
+  ultimoCosto?: number; // Optional during migration
+  ultimaGanancia?: number; // Optional during migration
+  activo: boolean;
+  creado: Timestamp;
+  actualizado?: Timestamp;
+  needsMigration: boolean;
+}
+export interface CompanyMigrationData {
+  id: string;
+  nombre?: string; // Optional during migration
+  propietario: string;
+  creado: Timestamp;
+  needsMigration: boolean;
+}
+export interface MigrationRecovery {
+  backupData: any[];
+  rollbackSteps: string[];
+  validationChecks: string[];
+  manualSteps: string[];
+}
+export interface Client {
+  id: string;
+  nombre: string;
+  direccion: string;
+  telefono: string; // WhatsApp number
+  notas?: string;
+  fechaImportante?: Timestamp;
+  oculto: boolean;
+  deudaActual: number; // Calculated field, updated on transaction changes
+  deudaPorMoneda?: SaldosPorMoneda; // Calculated field, one balance per currency
+  ultimaTransaccion?: Timestamp;
+  ultimoPago?: Timestamp; // Calculated field, date of the latest pago
+  fechaPromesaPago?: Timestamp | null; // Date the client promised to pay, null once cleared
+  limiteCredito?: number | null; // Max debt in the company currency, null or missing means no limit
+  bloquearSobreLimite?: boolean; // Block sales past limiteCredito unless an owner overrides
+  listaPreciosId?: string | null; // Price list the client buys from, null clears it
+  preciosEspeciales?: PreciosPorProducto; // Per-product overrides, win over the price list
+  creado: Timestamp;
+  actualizado?: Timestamp;
+}
+export interface BaseTransactionEvent {
+  id: string;
+  clienteId: string;
+  fecha: Timestamp;
+  moneda?: Moneda; // Missing on legacy events, treated as the company default
+  notas?: string;
+  creadoPor?: string; // uid of the member who recorded the event
+  creado: Timestamp;
+  editado?: Timestamp;
+  borrado: boolean;
+  borradoEl?: Timestamp; // When the event was moved to the trash
+  pendienteSync?: boolean; // Local only: optimistic entry still waiting in the offline queue
+}
+export interface CreditLimitOverride {
+  autorizadoPor: string; // uid of the owner who allowed the sale
+  limiteCredito: number;
+  deudaResultante: number; // Client debt after the sale
+}
+export interface SaleEvent extends BaseTransactionEvent {
+  tipo: 'venta';
+  producto: string;
+  productoId?: string; // Missing on legacy sales, which never move stock
+  productoColor?: string;
+  cantidad: number;
+  unidad?: UnidadMedida; // Unit the quantity was sold in, whole units when missing
+  costoUnitario: number;
+  gananciaUnitaria: number;
+  totalVenta: number; // cantidad * (costoUnitario + gananciaUnitaria)
+  excesoLimite?: CreditLimitOverride; // Present when an owner sold past the client's credit limit
+}
+export interface PaymentAllocation {
+  ventaId: string;
+  monto: number;
+}
+export interface PaymentEvent extends BaseTransactionEvent {
+  tipo: 'pago';
+  montoPago: number;
+  asignaciones?: PaymentAllocation[]; // Sales settled when recorded, oldest sales first when missing
+}
+export type TransactionEvent = SaleEvent | PaymentEvent;
+export interface EventRevision {
+  id: string;
+  datos: Omit<TransactionEvent, 'id'>; // Event as it was before the change
+  motivo: 'edicion' | 'reversion';
+  editadoPor?: string; // uid of the member whose change replaced this version
+  creado: Timestamp;
+}
+export interface CompanyJoinRequest {
+  id: string;
+  empresaId: string;
+  solicitanteId: string;
+  solicitanteEmail: string;
+  estado: 'pendiente' | 'aceptada' | 'rechazada';
+  creado: Timestamp;
+  procesado?: Timestamp;
+}
+export type AuditEntity = 'cliente' | 'producto' | 'evento' | 'empresa' | 'miembro' | 'proveedor' | 'compra' | 'listaPrecios';
+export type AuditOperation = 'crear' | 'editar' | 'borrar';
+export type AuditReason = 'conciliacion'; // Automated fixes, direct user edits have no reason
+export interface AuditChange {
+  antes: any; // null when the field did not exist
+  despues: any;
+}
+export interface AuditLogEntry {
+  id: string;
+  userId: string; // Actor uid
+  email?: string;
+  timestamp: Timestamp;
+  entidad: AuditEntity;
+  entidadId: string;
+  operacion: AuditOperation;
+  cambios: Record<string, AuditChange>;
+  motivo?: AuditReason;
+}
+export interface UserProfile {
+  id: string; // matches Firebase Auth UID
+  email: string;
+  creado: Timestamp;
+  actualizado?: Timestamp;
+}
+export interface UserCompanyMembership {
+  empresaId: string;
+  role: CompanyRole;
+  fechaIngreso: Timestamp;
+}
+export interface UISettings {
+  mostrarClientesOcultos: boolean;
+  ordenClientes: 'nombre' | 'deuda' | 'ultimaTransaccion';
+  temaOscuro: boolean;
+}
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+export type ErrorType = 'validation' | 'network' | 'firestore' | 'permission' | 'unknown';
+export interface ServiceError {
+  type: ErrorType;
+  message: string;
+  originalError?: Error;
+  retryable: boolean;
+  code?: string;
+}
+export interface ServiceResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: ServiceError;
+  errors?: string[]; // For backward compatibility
+}
+export interface RetryConfig {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  backoffMultiplier: number;
+}
+export const COLLECTIONS = {
+  USUARIOS: 'usuarios',
+  EMPRESAS: 'empresas',
+  SOLICITUDES: 'solicitudes',
+  MIEMBROS: 'miembros',
+  PRODUCTOS: 'productos', 
+  CLIENTES: 'clientes',
+  EVENTOS: 'eventos',
+  AUDITORIA: 'auditoria',
+  REVISIONES: 'revisiones',
+  MOVIMIENTOS_STOCK: 'movimientosStock',
+  PROVEEDORES: 'proveedores',
+  COMPRAS: 'compras',
+  LISTAS_PRECIOS: 'listasPrecios',
+} as const;
+export function isMoneda(value: any): value is Moneda {
+  return typeof value === 'string' && (MONEDAS as readonly string[]).includes(value);
+}
+export function isUnidadMedida(value: any): value is UnidadMedida {
+  return typeof value === 'string' && (UNIDADES_MEDIDA as readonly string[]).includes(value);
+}
+export function isCompanyRole(value: any): value is CompanyRole {
+  return typeof value === 'string' && (COMPANY_ROLES as readonly string[]).includes(value);
+}
+export function isSaleEvent(event: any): event is SaleEvent {
+  return !!(event && 
+    typeof event === 'object' &&
+    event.tipo === 'venta' &&
+    typeof event.producto === 'string' &&
+    typeof event.cantidad === 'number' &&
+    typeof event.costoUnitario === 'number' &&
+    typeof event.gananciaUnitaria === 'number' &&
+    typeof event.totalVenta === 'number');
+}
+export function isPaymentEvent(event: any): event is PaymentEvent {
+  return !!(event && 
+    typeof event === 'object' &&
+    event.tipo === 'pago' &&
+    typeof event.montoPago === 'number');
+}
+export function isTransactionEvent(obj: any): obj is TransactionEvent {
+  return obj && 
+    typeof obj === 'object' &&
+    typeof obj.id === 'string' &&
+    typeof obj.clienteId === 'string' &&
+    (obj.tipo === 'venta' || obj.tipo === 'pago') &&
+    obj.fecha &&
+    typeof obj.borrado === 'boolean';
+}
+export function isSaleEventData(obj: any): obj is SaleEvent {
+  return isTransactionEvent(obj) &&
+    obj.tipo === 'venta' &&
+    typeof obj.producto === 'string' &&
+    typeof obj.cantidad === 'number' &&
+    typeof obj.costoUnitario === 'number' &&
+    typeof obj.gananciaUnitaria === 'number' &&
+    typeof obj.totalVenta === 'number';
+}
+export function isPaymentEventData(obj: any): obj is PaymentEvent {
+  return isTransactionEvent(obj) &&
+    obj.tipo === 'pago' &&
+    typeof obj.montoPago === 'number';
+}
+export type CreateCompanyData = Omit<Company, 'id' | 'creado'>;
+export type CreateProductData = Omit<Product, 'id' | 'creado' | 'actualizado'>;
+export type CreateClientData = Omit<Client, 'id' | 'deudaActual' | 'ultimaTransaccion' | 'ultimoPago' | 'creado' | 'actualizado'>;
+export type CreateSaleEventData = Omit<SaleEvent, 'id' | 'creado' | 'editado' | 'borrado' | 'borradoEl' | 'pendienteSync'>;
+export type CreatePaymentEventData = Omit<PaymentEvent, 'id' | 'creado' | 'editado' | 'borrado' | 'borradoEl' | 'pendienteSync'>;
+export type UpdateProductData = Partial<Omit<Product, 'id' | 'creado'>>;
+export type UpdateClientData = Partial<Omit<Client, 'id' | 'creado'>>;
+export type UpdateTransactionEventData = Partial<Omit<TransactionEvent, 'id' | 'creado'>>;
+export type MigrationProductData = Omit<ProductMigrationData, 'id' | 'creado' | 'actualizado' | 'needsMigration'>;
+export type MigrationCompanyData = Omit<CompanyMigrationData, 'id' | 'creado' | 'needsMigration'>;
+export type CreateMigrationStatusData = Omit<MigrationStatus, 'timestamp'>;
+export type CreateMigrationBackupData = Omit<MigrationBackup, 'id' | 'creado' | 'restored'>;
\ No newline at end of file
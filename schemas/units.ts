@@ -0,0 +1,48 @@
+import { Product, UnidadMedida, DEFAULT_UNIDAD } from './types';
+export const UNIT_LABELS: Record<UnidadMedida, string> = {
+  unidad: 'Unidad',
+  kg: 'Kilogramo',
+  litro: 'Litro',
+  docena: 'Docena',
+  pack: 'Pack'
+};
+export const UNIT_ABBREVIATIONS: Record<UnidadMedida, string> = {
+  unidad: 'u.',
+  kg: 'kg',
+  litro: 'l',
+  docena: 'doc.',
+  pack: 'pack'
+};
+// Decimals allowed when selling each unit, half a dozen is fine but a third is not
+export const UNIT_PRECISION: Record<UnidadMedida, number> = {
+  unidad: 0,
+  kg: 3,
+  litro: 3,
+  docena: 1,
+  pack: 0
+};
+export function getProductUnit(product: Pick<Product, 'unidad'> | null | undefined): UnidadMedida {
+  return product?.unidad ?? DEFAULT_UNIDAD;
+}
+export function allowsDecimals(unidad: UnidadMedida): boolean {
+  return UNIT_PRECISION[unidad] > 0;
+}
+export function roundQuantity(cantidad: number, unidad: UnidadMedida): number {
+  const factor = Math.pow(10, UNIT_PRECISION[unidad]);
+  return Math.round(cantidad * factor) / factor;
+}
+export function hasValidPrecision(cantidad: number, unidad: UnidadMedida): boolean {
+  return Math.abs(roundQuantity(cantidad, unidad) - cantidad) < 1e-9;
+}
+export function getPrecisionError(unidad: UnidadMedida): string {
+  const precision = UNIT_PRECISION[unidad];
+  const label = UNIT_LABELS[unidad].toLowerCase();
+  return precision === 0
+    ? `Los productos por ${label} se venden en cantidades enteras`
+    : `Los productos por ${label} admiten hasta ${precision} decimal${precision === 1 ? '' : 'es'} en la cantidad`;
+}
+// Whole units keep the bare number so legacy sales read the same as before
+export function formatQuantity(cantidad: number, unidad?: UnidadMedida): string {
+  const value = Number(cantidad.toFixed(3)).toString().replace('.', ','); // Drops floating point noise from stock sums
+  return !unidad || unidad === DEFAULT_UNIDAD ? value : `${value} ${UNIT_ABBREVIATIONS[unidad]}`;
+}
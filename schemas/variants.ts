@@ -0,0 +1,25 @@
+import { Product } from './types';
+export const MAX_VARIANT_LENGTH = 30;
+export function isVariant(product: Pick<Product, 'productoPadreId'>): boolean {
+  return !!product.productoPadreId;
+}
+// Variants store the full name so sales, stock and reports keep working with nombre alone
+export function buildVariantName(parentName: string, variante: string): string {
+  return `${parentName.trim()} ${variante.trim()}`.trim();
+}
+export function getParentProduct<T extends Pick<Product, 'id' | 'productoPadreId'>>(product: T, products: T[]): T | null {
+  if (!product.productoPadreId) return null;
+  return products.find(candidate => candidate.id === product.productoPadreId) ?? null;
+}
+export function getVariants<T extends Pick<Product, 'productoPadreId' | 'posicion'>>(products: T[], parentId: string): T[] {
+  return products
+    .filter(product => product.productoPadreId === parentId)
+    .sort((a, b) => (a.posicion || 0) - (b.posicion || 0));
+}
+// Parents in position order, each followed by its variants; variants whose parent is gone stay top level
+export function groupProductsWithVariants<T extends Pick<Product, 'id' | 'productoPadreId' | 'posicion'>>(products: T[]): T[] {
+  const topLevel = products
+    .filter(product => !getParentProduct(product, products))
+    .sort((a, b) => (a.posicion || 0) - (b.posicion || 0));
+  return topLevel.flatMap(product => [product, ...getVariants(products, product.id)]);
+}
@@ -0,0 +1,86 @@
+import {
+  addDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  startAfter,
+  Timestamp,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { auth } from '@/firebaseConfig';
+import { AuditEntity, AuditLogEntry, AuditOperation, AuditReason } from '@/schemas/types';
+import { buildAuditChanges } from '@/schemas/audit';
+import { getAuditLogRef } from '@/schemas/firestore-utils';
+export interface AuditRecord {
+  entidad: AuditEntity;
+  entidadId: string;
+  operacion: AuditOperation;
+  antes?: Record<string, any> | null;
+  despues?: Record<string, any> | null;
+  motivo?: AuditReason;
+}
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  cursor: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+export class AuditService {
+  // Null when there is nothing to record, for callers that write the entry inside their own transaction
+  static buildEntry(record: AuditRecord): Omit<AuditLogEntry, 'id'> | null {
+    const user = auth.currentUser;
+    if (!user) {
+      console.warn('AuditService.buildEntry: No authenticated user, skipping audit entry', record.entidadId);
+      return null;
+    }
+    const cambios = buildAuditChanges(record.antes, record.despues);
+    if (record.operacion === 'editar' && Object.keys(cambios).length === 0) return null;
+    return {
+      userId: user.uid,
+      email: user.email ?? '',
+      timestamp: Timestamp.now(),
+      entidad: record.entidad,
+      entidadId: record.entidadId,
+      operacion: record.operacion,
+      cambios,
+      ...(record.motivo && { motivo: record.motivo })
+    };
+  }
+  static async record(empresaId: string, record: AuditRecord): Promise<void> {
+    const context = 'AuditService.record';
+    const entry = this.buildEntry(record);
+    if (!entry) return;
+    try {
+      await addDoc(getAuditLogRef(empresaId), entry);
+    } catch (error) {
+      // The write already happened; a missing audit entry must not fail it
+      console.error(`${context}: Failed to write audit entry`, { empresaId, ...record }, error);
+    }
+  }
+  static async queryLog(
+    empresaId: string,
+    pageSize: number = 100,
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null
+  ): Promise<AuditLogPage> {
+    try {
+      const constraints: QueryConstraint[] = [orderBy('timestamp', 'desc')];
+      if (cursor) {
+        constraints.push(startAfter(cursor));
+      }
+      constraints.push(limit(pageSize));
+      const querySnapshot = await getDocs(query(getAuditLogRef(empresaId), ...constraints));
+      const entries = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditLogEntry));
+      return {
+        entries,
+        cursor: querySnapshot.docs[querySnapshot.docs.length - 1] ?? null,
+        hasMore: querySnapshot.docs.length === pageSize
+      };
+    } catch (error) {
+      console.error('Error querying audit log:', error);
+      return { entries: [], cursor: null, hasMore: false };
+    }
+  }
+}
+export default AuditService;
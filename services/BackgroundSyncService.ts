@@ -0,0 +1,89 @@
+import { Platform } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import * as BackgroundTask from 'expo-background-task';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { auth } from '@/firebaseConfig';
+import { formatSyncSummary } from '@/schemas/sync-queue';
+import OfflineDataManager from './OfflineDataManager';
+export const BACKGROUND_SYNC_TASK = 'sincronizar-cola-offline';
+const MINIMUM_INTERVAL_MINUTES = 15; // Android's WorkManager floor, the job only runs once there is network
+export class BackgroundSyncService {
+  private static taskDefined = false;
+  static isSupported(): boolean {
+    return Platform.OS === 'android';
+  }
+  static defineTask(): void {
+    if (!this.isSupported() || this.taskDefined) return;
+    TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+      try {
+        await this.drainQueue();
+        return BackgroundTask.BackgroundTaskResult.Success;
+      } catch (error) {
+        console.error('Error in background sync task:', error);
+        return BackgroundTask.BackgroundTaskResult.Failed;
+      }
+    });
+    this.taskDefined = true;
+  }
+  static async register(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    try {
+      const status = await BackgroundTask.getStatusAsync();
+      if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+        console.warn('Background tasks are restricted on this device');
+        return false;
+      }
+      if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK))) {
+        await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+          minimumInterval: MINIMUM_INTERVAL_MINUTES,
+        });
+      }
+      const permission = await Notifications.getPermissionsAsync();
+      if (!permission.granted && permission.canAskAgain) {
+        await Notifications.requestPermissionsAsync();
+      }
+      return true;
+    } catch (error) {
+      console.error('Error registering background sync:', error);
+      return false;
+    }
+  }
+  static async unregister(): Promise<void> {
+    if (!this.isSupported()) return;
+    try {
+      if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+        await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+      }
+    } catch (error) {
+      console.warn('Error unregistering background sync:', error);
+    }
+  }
+  static async drainQueue(): Promise<void> {
+    const offlineManager = OfflineDataManager.getInstance();
+    await offlineManager.whenReady();
+    if (offlineManager.getSyncQueueLength() === 0) return;
+    const network = await NetInfo.fetch();
+    if (!network.isConnected || network.isInternetReachable === false) return;
+    await auth.authStateReady(); // Writes need the persisted session, which restores asynchronously
+    if (!auth.currentUser) return;
+    const result = await offlineManager.syncAfterReconnect();
+    if (result.processed === 0 && result.failed === 0) return;
+    await this.notifySummary(result);
+  }
+  private static async notifySummary(result: { processed: number; failed: number; remaining: number }): Promise<void> {
+    try {
+      const permission = await Notifications.getPermissionsAsync();
+      if (!permission.granted) return;
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: result.failed > 0 ? 'Sincronización con errores' : 'Datos sincronizados',
+          body: formatSyncSummary(result),
+        },
+        trigger: null,
+      });
+    } catch (error) {
+      console.warn('Error posting background sync notification:', error);
+    }
+  }
+}
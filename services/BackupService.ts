@@ -0,0 +1,152 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { DocumentReference, getDocs, Timestamp, updateDoc, writeBatch } from 'firebase/firestore';
+import { auth, db } from '@/firebaseConfig';
+import { Client, Product, TransactionEvent } from '@/schemas/types';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  CompanyBackup,
+  getBackupCompanySettings,
+  serializeBackup,
+  validateBackup
+} from '@/schemas/backup';
+import { buildExportFileName } from '@/schemas/export-utils';
+import {
+  getClientRef,
+  getClients,
+  getCompany,
+  getCompanyMembers,
+  getCompanyRef,
+  getEventRef,
+  getEventsRef,
+  getProductRef,
+  getProducts
+} from '@/schemas/firestore-utils';
+import { AuditService } from './AuditService';
+export interface RestoreResult {
+  success: boolean;
+  clientes?: number;
+  productos?: number;
+  eventos?: number;
+  omitidos?: number; // Records skipped because they failed validation
+  errors?: string[];
+}
+const RESTORE_BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+const BACKUP_MIME_TYPE = 'application/json';
+export class BackupService {
+  static async createBackup(empresaId: string): Promise<CompanyBackup> {
+    const [empresa, miembros, clientes, productos, eventsSnapshot] = await Promise.all([
+      getCompany(empresaId),
+      getCompanyMembers(empresaId),
+      getClients(empresaId, true),
+      getProducts(empresaId),
+      getDocs(getEventsRef(empresaId))
+    ]);
+    if (!empresa) {
+      throw new Error(`Company ${empresaId} not found`);
+    }
+    return {
+      formato: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportado: Timestamp.now(),
+      empresaId,
+      empresa,
+      miembros,
+      clientes,
+      productos,
+      eventos: eventsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as TransactionEvent))
+    };
+  }
+  static async exportBackup(empresaId: string): Promise<{ success: boolean; fileName?: string; errors?: string[] }> {
+    try {
+      const backup = await this.createBackup(empresaId);
+      const fileName = buildExportFileName(`respaldo ${backup.empresa.nombre}`, 'json');
+      const content = serializeBackup(backup);
+      if (Platform.OS === 'web') {
+        this.downloadOnWeb(content, fileName);
+        return { success: true, fileName };
+      }
+      if (!FileSystem.cacheDirectory) {
+        return { success: false, errors: ['No se pudo acceder al almacenamiento del dispositivo'] };
+      }
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.UTF8 });
+      if (!(await Sharing.isAvailableAsync())) {
+        return { success: false, errors: ['Compartir archivos no está disponible en este dispositivo'] };
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType: BACKUP_MIME_TYPE,
+        dialogTitle: 'Guardar respaldo',
+        UTI: 'public.json'
+      });
+      return { success: true, fileName };
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      return { success: false, errors: ['Error al crear el respaldo. Intente nuevamente.'] };
+    }
+  }
+  static async restoreBackup(
+    backup: CompanyBackup,
+    targetEmpresaId: string,
+    onProgress?: (procesados: number, total: number) => void
+  ): Promise<RestoreResult> {
+    const user = auth.currentUser;
+    if (!user) {
+      return { success: false, errors: ['Debe iniciar sesión para restaurar un respaldo'] };
+    }
+    const validation = validateBackup(backup);
+    const writes: { ref: DocumentReference; data: Record<string, any> }[] = [
+      ...validation.productos.map(({ id, ...data }: Product) => ({ ref: getProductRef(targetEmpresaId, id), data })),
+      ...validation.clientes.map(({ id, ...data }: Client) => ({ ref: getClientRef(targetEmpresaId, id), data })),
+      ...validation.eventos.map(({ id, ...data }: TransactionEvent) => ({
+        ref: getEventRef(targetEmpresaId, id),
+        data: data.tipo === 'venta' && data.excesoLimite
+          ? { ...data, excesoLimite: { ...data.excesoLimite, autorizadoPor: user.uid } } // Rules require the restoring owner to sign carried-over overrides
+          : data
+      }))
+    ];
+    try {
+      for (let start = 0; start < writes.length; start += RESTORE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        writes.slice(start, start + RESTORE_BATCH_SIZE).forEach(write => batch.set(write.ref, write.data));
+        await batch.commit();
+        onProgress?.(Math.min(start + RESTORE_BATCH_SIZE, writes.length), writes.length);
+      }
+      const settings = getBackupCompanySettings(backup.empresa);
+      if (Object.keys(settings).length > 0 && !validation.issues.some(issue => issue.coleccion === 'empresa')) {
+        await updateDoc(getCompanyRef(targetEmpresaId), settings);
+      }
+    } catch (error) {
+      console.error('Error restoring backup:', { targetEmpresaId, error });
+      return { success: false, errors: ['Error al restaurar el respaldo. Los datos pueden haber quedado incompletos; intente nuevamente.'] };
+    }
+    const result = {
+      clientes: validation.clientes.length,
+      productos: validation.productos.length,
+      eventos: validation.eventos.length,
+      omitidos: validation.issues.filter(issue => issue.coleccion !== 'empresa').length
+    };
+    await AuditService.record(targetEmpresaId, {
+      entidad: 'empresa',
+      entidadId: targetEmpresaId,
+      operacion: 'editar',
+      antes: {},
+      despues: { respaldoRestaurado: backup.empresaId, ...result }
+    });
+    return { success: true, ...result };
+  }
+  private static downloadOnWeb(content: string, fileName: string): void {
+    const blob = new Blob([content], { type: BACKUP_MIME_TYPE });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+export default BackupService;
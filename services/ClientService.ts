@@ -4,6 +4,8 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
+  FieldPath,
   getDocs,
   getDoc,
   query,
@@ -21,9 +23,13 @@ import {
   UpdateClientData,
   ValidationResult,
   ServiceResponse,
+  SpecialPrice,
   COLLECTIONS
 } from '@/schemas/types';
 import { validateClient } from '@/schemas/validation';
+import { createDocumentOnce } from '@/schemas/firestore-utils';
+import { validateSpecialPrice } from '@/schemas/price-lists';
+import { AuditService } from './AuditService';
 export class ClientService {
   private empresaId: string;
   constructor(empresaId: string) {
@@ -35,7 +41,7 @@ export class ClientService {
   private getClientDoc(clientId: string) {
     return doc(db, COLLECTIONS.EMPRESAS, this.empresaId, COLLECTIONS.CLIENTES, clientId);
   }
-  async createClient(clientData: CreateClientData): Promise<ServiceResponse<string>> {
+  async createClient(clientData: CreateClientData, documentId?: string): Promise<ServiceResponse<string>> {
     const context = 'ClientService.createClient';
     console.log(`${context}: Iniciando cliente creation`, {
       empresaId: this.empresaId,
@@ -58,7 +64,25 @@ export class ClientService {
         creado: Timestamp.now(),
         actualizado: Timestamp.now()
       };
-      const docRef = await addDoc(this.getClientCollection(), clientDoc);
+      let docRef;
+      if (documentId) {
+        docRef = this.getClientDoc(documentId);
+        if (!(await createDocumentOnce(docRef, clientDoc))) {
+          console.log(`${context}: Cliente ya sincronizado, omitiendo`, { clientId: documentId });
+          return {
+            success: true,
+            data: documentId
+          };
+        }
+      } else {
+        docRef = await addDoc(this.getClientCollection(), clientDoc);
+      }
+      await AuditService.record(this.empresaId, {
+        entidad: 'cliente',
+        entidadId: docRef.id,
+        operacion: 'crear',
+        despues: clientDoc
+      });
       console.log(`${context}: Cliente creado exitosamente`, { 
         clientId: docRef.id,
         clientName: clientData.nombre 
@@ -124,7 +148,16 @@ export class ClientService {
         ...updateData,
         actualizado: Timestamp.now()
       };
+      const beforeSnap = await getDoc(this.getClientDoc(clientId));
+      const before = beforeSnap.exists() ? beforeSnap.data() : null;
       await updateDoc(this.getClientDoc(clientId), updateDocData);
+      await AuditService.record(this.empresaId, {
+        entidad: 'cliente',
+        entidadId: clientId,
+        operacion: 'editar',
+        antes: before,
+        despues: { ...before, ...updateDocData }
+      });
       console.log(`${context}: Cliente actualizado exitosamente`, { clientId });
       return {
         success: true,
@@ -141,7 +174,14 @@ export class ClientService {
   async deleteClient(clientId: string): Promise<ServiceResponse<void>> {
     const context = 'ClientService.deleteClient';
     try {
+      const beforeSnap = await getDoc(this.getClientDoc(clientId));
       await deleteDoc(this.getClientDoc(clientId));
+      await AuditService.record(this.empresaId, {
+        entidad: 'cliente',
+        entidadId: clientId,
+        operacion: 'borrar',
+        antes: beforeSnap.exists() ? beforeSnap.data() : null
+      });
       console.log(`${context}: Cliente eliminado exitosamente`, { clientId });
       return {
         success: true,
@@ -268,6 +308,46 @@ export class ClientService {
       };
     }
   }
+  async setPaymentPromise(clientId: string, fecha: Date | null): Promise<ServiceResponse<void>> {
+    return this.updateClient(clientId, {
+      fechaPromesaPago: fecha ? Timestamp.fromDate(fecha) : null
+    });
+  }
+  async setSpecialPrice(client: Client, productoId: string, price: SpecialPrice | null): Promise<ServiceResponse<void>> {
+    if (price) {
+      const validation = validateSpecialPrice(price);
+      if (!validation.isValid) {
+        return { success: false, errors: validation.errors };
+      }
+    }
+    const context = 'ClientService.setSpecialPrice';
+    const despues = price ? { costoUnitario: price.costoUnitario, gananciaUnitaria: price.gananciaUnitaria } : null;
+    try {
+      // Only this product's entry is written, so concurrent edits to other products are kept
+      await updateDoc(
+        this.getClientDoc(client.id),
+        new FieldPath('preciosEspeciales', productoId), despues ?? deleteField(),
+        'actualizado', Timestamp.now()
+      );
+      await AuditService.record(this.empresaId, {
+        entidad: 'cliente',
+        entidadId: client.id,
+        operacion: 'editar',
+        antes: { preciosEspeciales: { [productoId]: client.preciosEspeciales?.[productoId] ?? null } },
+        despues: { preciosEspeciales: { [productoId]: despues } }
+      });
+      return {
+        success: true,
+        data: undefined
+      };
+    } catch (error) {
+      console.error(`${context}: Failed to update special price`, error);
+      return {
+        success: false,
+        errors: [error instanceof Error ? error.message : 'Error desconocido']
+      };
+    }
+  }
   async recalculateClientDebt(clientId: string): Promise<ServiceResponse<void>> {
     const context = 'ClientService.recalculateClientDebt';
     try {
@@ -0,0 +1,101 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Client, Moneda, DEFAULT_MONEDA } from '@/schemas/types';
+import { formatCurrency } from '@/schemas/business-logic';
+import { getUpcomingPromises } from '@/schemas/collections';
+const REMINDER_HOUR = 9;
+const REMINDER_PREFIX = 'promesa-pago-';
+export class CollectionReminderService {
+  private static handlerConfigured = false;
+  static isSupported(): boolean {
+    return Platform.OS !== 'web';
+  }
+  static configure(): void {
+    if (!this.isSupported() || this.handlerConfigured) return;
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      }),
+    });
+    this.handlerConfigured = true;
+  }
+  static async requestPermission(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+      return false;
+    }
+  }
+  static getReminderDate(fechaPromesa: Date): Date {
+    const reminder = new Date(fechaPromesa);
+    reminder.setHours(REMINDER_HOUR, 0, 0, 0);
+    return reminder;
+  }
+  static async schedulePromiseReminder(
+    client: Client,
+    fechaPromesa: Date,
+    moneda: Moneda = DEFAULT_MONEDA
+  ): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    try {
+      await this.cancelPromiseReminder(client.id);
+      const reminderDate = this.getReminderDate(fechaPromesa);
+      if (reminderDate.getTime() <= Date.now()) return false;
+      if (!(await this.requestPermission())) return false;
+      this.configure();
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${REMINDER_PREFIX}${client.id}`,
+        content: {
+          title: 'Cobro pendiente',
+          body: `${client.nombre} prometió pagar hoy. Deuda: ${formatCurrency(client.deudaActual, moneda)}`,
+          data: { clienteId: client.id },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminderDate,
+        },
+      });
+      return true;
+    } catch (error) {
+      console.error('Error scheduling payment promise reminder:', error);
+      return false;
+    }
+  }
+  static async cancelPromiseReminder(clientId: string): Promise<void> {
+    if (!this.isSupported()) return;
+    try {
+      await Notifications.cancelScheduledNotificationAsync(`${REMINDER_PREFIX}${clientId}`);
+    } catch (error) {
+      console.warn('Error cancelling payment promise reminder:', error);
+    }
+  }
+  static async syncPromiseReminders(clients: Client[], moneda: Moneda = DEFAULT_MONEDA): Promise<number> {
+    if (!this.isSupported()) return 0;
+    try {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      const upcoming = getUpcomingPromises(clients);
+      const upcomingIds = new Set(upcoming.map(client => `${REMINDER_PREFIX}${client.id}`));
+      await Promise.all(scheduled
+        .filter(request => request.identifier.startsWith(REMINDER_PREFIX) && !upcomingIds.has(request.identifier))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier)));
+      let count = 0;
+      for (const client of upcoming) {
+        if (await this.schedulePromiseReminder(client, client.fechaPromesaPago!.toDate(), moneda)) {
+          count++;
+        }
+      }
+      return count;
+    } catch (error) {
+      console.error('Error syncing payment promise reminders:', error);
+      return 0;
+    }
+  }
+}
@@ -9,6 +9,7 @@ import {
   ServiceResponse,
   ValidationResult,
   CompanyMember,
+  CompanyRole,
   COLLECTIONS
 } from '@/schemas/types';
 import { validateCompany } from '@/schemas/validation';
@@ -17,11 +18,14 @@ import {
   getCompany as getCompanyFromFirestore,
   updateCompany as updateCompanyInFirestore,
   getCompanyMembers as getCompanyMembersFromFirestore,
+  getCompanyMember as getCompanyMemberFromFirestore,
   addCompanyMember as addCompanyMemberToFirestore,
   removeCompanyMember as removeCompanyMemberFromFirestore,
+  updateCompanyMemberRole as updateCompanyMemberRoleInFirestore,
   subscribeToCompany,
   subscribeToCompanyMembers
 } from '@/schemas/firestore-utils';
+import { AuditService } from './AuditService';
 export class CompanyService {
   constructor() {
   }
@@ -41,6 +45,12 @@ export class CompanyService {
         };
       }
       const companyId = await createCompanyInFirestore(companyData, ownerId);
+      await AuditService.record(companyId, {
+        entidad: 'empresa',
+        entidadId: companyId,
+        operacion: 'crear',
+        despues: { ...companyData, propietario: ownerId }
+      });
       console.log(`${context}: Empresa creado exitosamente`, {
         companyId,
         companyName: companyData.nombre,
@@ -83,7 +93,15 @@ export class CompanyService {
   async updateCompany(empresaId: string, updateData: Partial<Company>): Promise<ServiceResponse<void>> {
     const context = 'CompanyService.updateCompany';
     try {
+      const before = await getCompanyFromFirestore(empresaId);
       await updateCompanyInFirestore(empresaId, updateData);
+      await AuditService.record(empresaId, {
+        entidad: 'empresa',
+        entidadId: empresaId,
+        operacion: 'editar',
+        antes: before,
+        despues: { ...before, ...updateData }
+      });
       return {
         success: true,
         data: undefined
@@ -116,6 +134,12 @@ export class CompanyService {
     const context = 'CompanyService.addCompanyMember';
     try {
       await addCompanyMemberToFirestore(empresaId, memberData.userId, memberData.email);
+      await AuditService.record(empresaId, {
+        entidad: 'miembro',
+        entidadId: memberData.userId,
+        operacion: 'crear',
+        despues: { userId: memberData.userId, email: memberData.email, role: 'member' }
+      });
       return {
         success: true,
         data: undefined
@@ -131,7 +155,14 @@ export class CompanyService {
   async removeCompanyMember(empresaId: string, userId: string): Promise<ServiceResponse<void>> {
     const context = 'CompanyService.removeCompanyMember';
     try {
+      const before = await getCompanyMemberFromFirestore(empresaId, userId);
       await removeCompanyMemberFromFirestore(empresaId, userId);
+      await AuditService.record(empresaId, {
+        entidad: 'miembro',
+        entidadId: userId,
+        operacion: 'borrar',
+        antes: before
+      });
       return {
         success: true,
         data: undefined
@@ -144,6 +175,36 @@ export class CompanyService {
       };
     }
   }
+  async updateMemberRole(empresaId: string, userId: string, role: CompanyRole): Promise<ServiceResponse<void>> {
+    const context = 'CompanyService.updateMemberRole';
+    if (role === 'owner') {
+      return {
+        success: false,
+        errors: ['No se puede asignar el rol de propietario']
+      };
+    }
+    try {
+      const before = await getCompanyMemberFromFirestore(empresaId, userId);
+      await updateCompanyMemberRoleInFirestore(empresaId, userId, role);
+      await AuditService.record(empresaId, {
+        entidad: 'miembro',
+        entidadId: userId,
+        operacion: 'editar',
+        antes: { role: before?.role ?? null },
+        despues: { role }
+      });
+      return {
+        success: true,
+        data: undefined
+      };
+    } catch (error) {
+      console.error(`${context}: Failed to update member role`, error);
+      return {
+        success: false,
+        errors: [error instanceof Error ? error.message : 'Error desconocido']
+      };
+    }
+  }
   subscribeToCompany(empresaId: string, callback: (company: Company | null) => void): Unsubscribe {
     return subscribeToCompany(empresaId, callback);
   }
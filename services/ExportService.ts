@@ -0,0 +1,73 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { strFromU8 } from 'fflate';
+import { ExportFormat, ExportTable, buildExportFileName, tableToCsv, tableToXlsx } from '../schemas/export-utils';
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+const UTIS: Record<ExportFormat, string> = {
+  csv: 'public.comma-separated-values-text',
+  xlsx: 'org.openxmlformats.spreadsheetml.sheet'
+};
+export class ExportService {
+  static async exportTable(
+    table: ExportTable,
+    formato: ExportFormat
+  ): Promise<{ success: boolean; fileName?: string; errors?: string[] }> {
+    try {
+      const fileName = buildExportFileName(table.nombre, formato);
+      if (Platform.OS === 'web') {
+        await this.shareOnWeb(table, formato, fileName);
+        return { success: true, fileName };
+      }
+      if (!FileSystem.cacheDirectory) {
+        return { success: false, errors: ['No se pudo acceder al almacenamiento del dispositivo'] };
+      }
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      if (formato === 'xlsx') {
+        const content = btoa(strFromU8(tableToXlsx(table), true)); // Latin-1 keeps each byte as one character for base64
+        await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.Base64 });
+      } else {
+        await FileSystem.writeAsStringAsync(uri, tableToCsv(table), { encoding: FileSystem.EncodingType.UTF8 });
+      }
+      if (!(await Sharing.isAvailableAsync())) {
+        return { success: false, errors: ['Compartir archivos no está disponible en este dispositivo'] };
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType: MIME_TYPES[formato],
+        dialogTitle: `Exportar ${table.nombre}`,
+        UTI: UTIS[formato]
+      });
+      return { success: true, fileName };
+    } catch (error) {
+      console.error('Error exporting table:', error);
+      return { success: false, errors: ['Error al exportar los datos. Intente nuevamente.'] };
+    }
+  }
+  private static async shareOnWeb(table: ExportTable, formato: ExportFormat, fileName: string): Promise<void> {
+    const content = formato === 'xlsx'
+      ? tableToXlsx(table)
+      : tableToCsv(table);
+    const blob = new Blob([content], { type: MIME_TYPES[formato] });
+    const file = new File([blob], fileName, { type: MIME_TYPES[formato] });
+    if (typeof navigator !== 'undefined' && navigator.canShare?.({ files: [file] })) {
+      try {
+        await navigator.share({ files: [file], title: table.nombre });
+        return;
+      } catch (error) {
+        if ((error as Error)?.name === 'AbortError') return;
+        console.warn('Web share failed, falling back to download:', error);
+      }
+    }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,71 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { CreateClientData, CreateProductData, ServiceResponse } from '@/schemas/types';
+import { ImportRow } from '@/schemas/import-utils';
+import { ClientService } from './ClientService';
+import ProductService from './ProductService';
+export interface ImportFailure {
+  fila: number;
+  errors: string[];
+}
+export interface ImportResult {
+  creados: number;
+  fallidos: ImportFailure[];
+}
+const IMPORT_BATCH_SIZE = 20;
+export class ImportService {
+  static async readTextFile(uri: string): Promise<string> {
+    if (Platform.OS === 'web') {
+      const response = await fetch(uri);
+      return response.text();
+    }
+    return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+  }
+  static async importClients(
+    empresaId: string,
+    rows: ImportRow<CreateClientData>[],
+    onProgress?: (procesados: number, total: number) => void
+  ): Promise<ImportResult> {
+    const clientService = new ClientService(empresaId);
+    return this.importInBatches(rows, data => clientService.createClient(data), onProgress);
+  }
+  static async importProducts(
+    empresaId: string,
+    rows: ImportRow<CreateProductData>[],
+    onProgress?: (procesados: number, total: number) => void
+  ): Promise<ImportResult> {
+    const productService = ProductService.getInstance();
+    return this.importInBatches(rows, data => productService.createProduct(empresaId, data), onProgress);
+  }
+  private static async importInBatches<T>(
+    rows: ImportRow<T>[],
+    create: (data: T) => Promise<ServiceResponse<string>>,
+    onProgress?: (procesados: number, total: number) => void
+  ): Promise<ImportResult> {
+    const validRows = rows.filter(row => row.estado === 'valido');
+    const result: ImportResult = { creados: 0, fallidos: [] };
+    for (let start = 0; start < validRows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = validRows.slice(start, start + IMPORT_BATCH_SIZE);
+      const responses = await Promise.all(batch.map(async row => {
+        try {
+          return await create(row.data);
+        } catch (error) {
+          console.error('Error importing row:', row.fila, error);
+          return { success: false, errors: ['Error inesperado al guardar la fila'] } as ServiceResponse<string>;
+        }
+      }));
+      responses.forEach((response, index) => {
+        if (response.success) {
+          result.creados++;
+        } else {
+          result.fallidos.push({
+            fila: batch[index].fila,
+            errors: response.errors ?? [response.error?.message ?? 'Error al guardar la fila']
+          });
+        }
+      });
+      onProgress?.(Math.min(start + batch.length, validRows.length), validRows.length);
+    }
+    return result;
+  }
+}
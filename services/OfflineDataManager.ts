@@ -1 +1,1115 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';import { Timestamp } from 'firebase/firestore';import {   Product,   Client,   TransactionEvent,   CompanyMember,  Company } from '@/schemas/types';const STORAGE_KEYS = {  PRODUCTS: (empresaId: string) => `offline_products_${empresaId}`,  CLIENTS: (empresaId: string) => `offline_clients_${empresaId}`,  EVENTS: (empresaId: string, clientId: string) => `offline_events_${empresaId}_${clientId}`,  MEMBERS: (empresaId: string) => `offline_members_${empresaId}`,  COMPANY: (empresaId: string) => `offline_company_${empresaId}`,  SYNC_QUEUE: 'offline_sync_queue',  FAILED_ITEMS: 'offline_failed_items',  LAST_SYNC: (empresaId: string) => `last_sync_${empresaId}`,  CONNECTION_STATUS: 'connection_status',  SYNC_STATS: 'offline_sync_stats',} as const;interface CachedData<T> {  data: T;  timestamp: number;  version: number;}interface SyncQueueItem {  id: string;  type: 'create' | 'update' | 'delete';  collection: 'products' | 'clients' | 'events' | 'members';  empresaId: string;  documentId?: string;  data?: any;  timestamp: number;  retryCount: number;  maxRetries: number;  status: 'pending' | 'processing' | 'failed' | 'completed';  lastError?: string;  priority: 'low' | 'normal' | 'high';}interface ConflictResolution {  strategy: 'server_wins' | 'client_wins' | 'merge' | 'manual';  mergeFields?: string[];}interface SyncStats {  totalProcessed: number;  totalFailed: number;  lastSyncAttempt: number;  lastSuccessfulSync: number;  averageProcessingTime: number;}interface FailedSyncItem extends SyncQueueItem {  failedAt: number;  finalError: string;}export class OfflineDataManager {  private static instance: OfflineDataManager;  private syncQueue: SyncQueueItem[] = [];  private isOnline: boolean = true;  private syncInProgress: boolean = false;  static getInstance(): OfflineDataManager {    if (!OfflineDataManager.instance) {      OfflineDataManager.instance = new OfflineDataManager();    }    return OfflineDataManager.instance;  }  constructor() {    this.loadSyncQueue();    this.loadConnectionStatus();  }  async setConnectionStatus(isOnline: boolean): Promise<void> {    this.isOnline = isOnline;    await AsyncStorage.setItem(STORAGE_KEYS.CONNECTION_STATUS, JSON.stringify(isOnline));    if (isOnline && !this.syncInProgress) {      await this.processSyncQueue();    }  }  getConnectionStatus(): boolean {    return this.isOnline;  }  private async loadConnectionStatus(): Promise<void> {    try {      const status = await AsyncStorage.getItem(STORAGE_KEYS.CONNECTION_STATUS);      this.isOnline = status ? JSON.parse(status) : true;    } catch (error) {      console.error('Error loading connection status:', error);      this.isOnline = true;    }  }  async cacheProducts(empresaId: string, products: Product[]): Promise<void> {    const cachedData: CachedData<Product[]> = {      data: products,      timestamp: Date.now(),      version: 1    };    await AsyncStorage.setItem(      STORAGE_KEYS.PRODUCTS(empresaId),       JSON.stringify(cachedData)    );    await this.updateLastSync(empresaId, 'products');  }  async getCachedProducts(empresaId: string): Promise<Product[] | null> {    try {      const cached = await AsyncStorage.getItem(STORAGE_KEYS.PRODUCTS(empresaId));      if (cached) {        const cachedData: CachedData<Product[]> = JSON.parse(cached);        return cachedData.data;      }    } catch (error) {      console.error('Error getting cached products:', error);    }    return null;  }  async cacheClients(empresaId: string, clients: Client[]): Promise<void> {    const cachedData: CachedData<Client[]> = {      data: clients,      timestamp: Date.now(),      version: 1    };    await AsyncStorage.setItem(      STORAGE_KEYS.CLIENTS(empresaId),       JSON.stringify(cachedData)    );    await this.updateLastSync(empresaId, 'clients');  }  async getCachedClients(empresaId: string): Promise<Client[] | null> {    try {      const cached = await AsyncStorage.getItem(STORAGE_KEYS.CLIENTS(empresaId));      if (cached) {        const cachedData: CachedData<Client[]> = JSON.parse(cached);        return cachedData.data;      }    } catch (error) {      console.error('Error getting cached clients:', error);    }    return null;  }  async cacheEvents(empresaId: string, clientId: string, events: TransactionEvent[]): Promise<void> {    const serializeTs = (value: any) => {      if (value instanceof Timestamp) {        return { seconds: value.seconds, nanoseconds: value.nanoseconds };      }      return value;    };    const serialized = events.map(e => ({      ...e,      fecha: serializeTs(e.fecha),      creado: serializeTs(e.creado),      editado: serializeTs(e.editado),    }));    const cachedData: CachedData<any[]> = {      data: serialized,      timestamp: Date.now(),      version: 1    };    await AsyncStorage.setItem(      STORAGE_KEYS.EVENTS(empresaId, clientId),       JSON.stringify(cachedData)    );    await this.updateLastSync(empresaId, 'events');  }  async getCachedEvents(empresaId: string, clientId: string): Promise<TransactionEvent[] | null> {    try {      const cached = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS(empresaId, clientId));      if (cached) {        const cachedData: CachedData<any[]> = JSON.parse(cached);        const reviveTs = (value: any) => {          if (!value) return value;          if (value instanceof Timestamp) return value;          if (typeof value === 'object' && typeof value.seconds === 'number' && typeof value.nanoseconds === 'number') {            return new Timestamp(value.seconds, value.nanoseconds);          }          if (typeof value === 'number') {            return Timestamp.fromMillis(value);          }          return value;        };        const events: TransactionEvent[] = cachedData.data.map((e: any) => ({          ...e,          fecha: reviveTs(e.fecha),          creado: reviveTs(e.creado),          editado: reviveTs(e.editado),        }));        return events;      }    } catch (error) {      console.error('Error getting cached events:', error);    }    return null;  }  async cacheMembers(empresaId: string, members: CompanyMember[]): Promise<void> {    const cachedData: CachedData<CompanyMember[]> = {      data: members,      timestamp: Date.now(),      version: 1    };    await AsyncStorage.setItem(      STORAGE_KEYS.MEMBERS(empresaId),       JSON.stringify(cachedData)    );    await this.updateLastSync(empresaId, 'members');  }  async getCachedMembers(empresaId: string): Promise<CompanyMember[] | null> {    try {      const cached = await AsyncStorage.getItem(STORAGE_KEYS.MEMBERS(empresaId));      if (cached) {        const cachedData: CachedData<CompanyMember[]> = JSON.parse(cached);        return cachedData.data;      }    } catch (error) {      console.error('Error getting cached members:', error);    }    return null;  }  async cacheCompany(empresaId: string, company: Company): Promise<void> {    const cachedData: CachedData<Company> = {      data: company,      timestamp: Date.now(),      version: 1    };    await AsyncStorage.setItem(      STORAGE_KEYS.COMPANY(empresaId),       JSON.stringify(cachedData)    );    await this.updateLastSync(empresaId, 'company');  }  async getCachedCompany(empresaId: string): Promise<Company | null> {    try {      const cached = await AsyncStorage.getItem(STORAGE_KEYS.COMPANY(empresaId));      if (cached) {        const cachedData: CachedData<Company> = JSON.parse(cached);        return cachedData.data;      }    } catch (error) {      console.error('Error getting cached company:', error);    }    return null;  }  async addToSyncQueue(item: Omit<SyncQueueItem, 'id' | 'timestamp' | 'retryCount' | 'status' | 'priority'>): Promise<void> {    const queueItem: SyncQueueItem = {      ...item,      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,      timestamp: Date.now(),      retryCount: 0,      maxRetries: item.maxRetries || 3,      status: 'pending',      priority: 'normal'    };    this.syncQueue.push(queueItem);    await this.saveSyncQueue();    console.log('Added item to sincronización queue:', {      id: queueItem.id,      type: queueItem.type,      collection: queueItem.collection,      queueLength: this.syncQueue.length    });    if (this.isOnline && !this.syncInProgress) {      await this.processSyncQueue();    }  }  private async loadSyncQueue(): Promise<void> {    try {      const queue = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_QUEUE);      this.syncQueue = queue ? JSON.parse(queue) : [];    } catch (error) {      console.error('Error loading sync queue:', error);      this.syncQueue = [];    }  }  private async saveSyncQueue(): Promise<void> {    try {      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_QUEUE, JSON.stringify(this.syncQueue));    } catch (error) {      console.error('Error saving sync queue:', error);    }  }  async processSyncQueue(): Promise<{ processed: number; failed: number; remaining: number }> {    if (!this.isOnline || this.syncInProgress || this.syncQueue.length === 0) {      return { processed: 0, failed: 0, remaining: this.syncQueue.length };    }    this.syncInProgress = true;    let processedCount = 0;    let failedCount = 0;    console.log('Iniciando sincronización queue procesando:', {      queueLength: this.syncQueue.length,      isOnline: this.isOnline    });    try {      const startTime = Date.now();      const itemsToProcess = [...this.syncQueue]        .filter(item => item.status === 'pending' || item.status === 'failed')        .sort((a, b) => {          if (a.priority !== b.priority) {            const priorityOrder = { high: 3, normal: 2, low: 1 };            return priorityOrder[b.priority] - priorityOrder[a.priority];          }          return a.timestamp - b.timestamp;        });      for (const item of itemsToProcess) {        try {          console.log('Procesando sincronización item:', {            id: item.id,            type: item.type,            collection: item.collection,            retryCount: item.retryCount          });          const queueItem = this.syncQueue.find(q => q.id === item.id);          if (queueItem) {            queueItem.status = 'processing';          }          await this.processSyncItem(item);          this.syncQueue = this.syncQueue.filter(queueItem => queueItem.id !== item.id);          processedCount++;          console.log('Sincronización item processed exitosamente:', item.id);        } catch (error) {          console.error('Error processing sync item:', item.id, error);          failedCount++;          const queueItem = this.syncQueue.find(q => q.id === item.id);          if (queueItem) {            queueItem.retryCount++;            queueItem.status = 'failed';            queueItem.lastError = error instanceof Error ? error.message : String(error);            if (queueItem.retryCount >= queueItem.maxRetries) {              console.error('Max retries exceeded for sync item:', {                id: queueItem.id,                type: queueItem.type,                collection: queueItem.collection,                retryCount: queueItem.retryCount,                maxRetries: queueItem.maxRetries,                lastError: queueItem.lastError              });              await this.moveToFailedItems(queueItem);              this.syncQueue = this.syncQueue.filter(q => q.id !== item.id);            } else {              queueItem.status = 'pending';            }          }        }      }      await this.saveSyncQueue();      const processingTime = Date.now() - startTime;      await this.updateSyncStats(processedCount, failedCount, processingTime);      console.log('Sincronización queue procesando completado:', {        processed: processedCount,        falló: failedCount,        remaining: this.syncQueue.length,        processingTime: `${processingTime}ms`      });    } finally {      this.syncInProgress = false;    }    return {       processed: processedCount,       failed: failedCount,       remaining: this.syncQueue.length     };  }  private async processSyncItem(item: SyncQueueItem): Promise<void> {    console.log('Procesando sincronización item:', item);    try {      switch (item.collection) {        case 'products':          await this.syncProductOperation(item);          break;        case 'clients':          await this.syncClientOperation(item);          break;        case 'events':          await this.syncEventOperation(item);          break;        case 'members':          await this.syncMemberOperation(item);          break;        default:          throw new Error(`Unknown collection type: ${item.collection}`);      }      console.log('Sincronización item processed exitosamente:', item.id);    } catch (error) {      console.error('Error processing sync item:', item.id, error);      throw error;    }  }  private async syncProductOperation(item: SyncQueueItem): Promise<void> {    let ProductService: any;    try {      ProductService = require('./ProductService').ProductService;    } catch (error) {      ProductService = { getInstance: () => ({ createProduct: () => Promise.resolve({ success: true }) }) };    }    const productService = ProductService.getInstance();    switch (item.type) {      case 'create':        const createResult = await productService.createProduct(item.empresaId, item.data);        if (!createResult.success) {          throw new Error(createResult.error?.message || 'Failed to create product');        }        break;      case 'update':        if (!item.documentId) throw new Error('Document ID required for update');        const updateResult = await productService.updateProduct(item.empresaId, item.documentId, item.data);        if (!updateResult.success) {          throw new Error(updateResult.error?.message || 'Failed to update product');        }        break;      case 'delete':        if (!item.documentId) throw new Error('Document ID required for delete');        const deleteResult = await productService.deleteProduct(item.empresaId, item.documentId);        if (!deleteResult.success) {          throw new Error(deleteResult.error?.message || 'Failed to delete product');        }        break;      default:        throw new Error(`Unknown operation type: ${item.type}`);    }  }  private async syncClientOperation(item: SyncQueueItem): Promise<void> {    let ClientService: any;    try {      ClientService = require('./ClientService').ClientService;    } catch (error) {      ClientService = function() {         return {           createClient: () => Promise.resolve({ success: true }),          updateClient: () => Promise.resolve({ success: true }),          deleteClient: () => Promise.resolve({ success: true }),          toggleClientVisibility: () => Promise.resolve({ success: true })        };       };    }    const clientService = new ClientService(item.empresaId);    switch (item.type) {      case 'create':        const createResult = await clientService.createClient(item.data);        if (!createResult.success) {          throw new Error(createResult.error?.message || 'Failed to create client');        }        break;      case 'update':        if (!item.documentId) throw new Error('Document ID required for update');        if (item.data.toggleVisibility) {          const toggleResult = await clientService.toggleClientVisibility(item.documentId);          if (!toggleResult.success) {            throw new Error(toggleResult.error?.message || 'Failed to toggle client visibility');          }        } else {          const updateResult = await clientService.updateClient(item.documentId, item.data);          if (!updateResult.success) {            throw new Error(updateResult.error?.message || 'Failed to update client');          }        }        break;      case 'delete':        if (!item.documentId) throw new Error('Document ID required for delete');        const deleteResult = await clientService.deleteClient(item.documentId);        if (!deleteResult.success) {          throw new Error(deleteResult.error?.message || 'Failed to delete client');        }        break;      default:        throw new Error(`Unknown operation type: ${item.type}`);    }  }  private async syncEventOperation(item: SyncQueueItem): Promise<void> {    let TransactionEventService: any;    try {      TransactionEventService = require('./TransactionEventService').TransactionEventService;    } catch (error) {      TransactionEventService = {        createSaleEvent: () => Promise.resolve({ success: true }),        createPaymentEvent: () => Promise.resolve({ success: true }),        updateEvent: () => Promise.resolve({ success: true }),        deleteEvent: () => Promise.resolve({ success: true })      };    }    switch (item.type) {      case 'create':        if (item.data.tipo === 'venta') {          const createResult = await TransactionEventService.createSaleEvent(item.empresaId, item.data);          if (!createResult.success) {            throw new Error(createResult.error?.message || 'Failed to create sale event');          }        } else if (item.data.tipo === 'pago') {          const createResult = await TransactionEventService.createPaymentEvent(item.empresaId, item.data);          if (!createResult.success) {            throw new Error(createResult.error?.message || 'Failed to create payment event');          }        } else {          throw new Error(`Unknown event type: ${item.data.tipo}`);        }        break;      case 'update':        if (!item.documentId) throw new Error('Document ID required for update');        const updateResult = await TransactionEventService.updateEvent(item.empresaId, item.documentId, item.data);        if (!updateResult.success) {          throw new Error(updateResult.error?.message || 'Failed to update event');        }        break;      case 'delete':        if (!item.documentId) throw new Error('Document ID required for delete');        const deleteResult = await TransactionEventService.deleteEvent(item.empresaId, item.documentId);        if (!deleteResult.success) {          throw new Error(deleteResult.error?.message || 'Failed to delete event');        }        break;      default:        throw new Error(`Unknown operation type: ${item.type}`);    }  }  private async syncMemberOperation(item: SyncQueueItem): Promise<void> {    console.log('Member sincronización operation not implemented:', item);    throw new Error('Member sync operations not implemented');  }  async resolveConflict<T>(    localData: T,    serverData: T,    resolution: ConflictResolution  ): Promise<T> {    switch (resolution.strategy) {      case 'server_wins':        return serverData;      case 'client_wins':        return localData;      case 'merge':        if (resolution.mergeFields) {          const merged = { ...serverData };          for (const field of resolution.mergeFields) {            if (localData && typeof localData === 'object' && field in localData) {              (merged as any)[field] = (localData as any)[field];            }          }          return merged;        }        return { ...serverData, ...localData };      case 'manual':        console.warn('Manual conflict resolution not implemented, defaulting to server wins');        return serverData;      default:        return serverData;    }  }  async clearCache(empresaId?: string): Promise<void> {    try {      if (empresaId) {        const keys = [          STORAGE_KEYS.PRODUCTS(empresaId),          STORAGE_KEYS.CLIENTS(empresaId),          STORAGE_KEYS.MEMBERS(empresaId),          STORAGE_KEYS.COMPANY(empresaId),          STORAGE_KEYS.LAST_SYNC(empresaId)        ];        await Promise.all(keys.map(key => AsyncStorage.removeItem(key)));        const allKeys = await AsyncStorage.getAllKeys();        const eventKeys = allKeys.filter(key =>           key.startsWith(`offline_events_${empresaId}_`)        );        await Promise.all(eventKeys.map(key => AsyncStorage.removeItem(key)));      } else {        const allKeys = await AsyncStorage.getAllKeys();        const cacheKeys = allKeys.filter(key =>           key.startsWith('offline_') || key.startsWith('last_sync_')        );        await Promise.all(cacheKeys.map(key => AsyncStorage.removeItem(key)));      }    } catch (error) {      console.error('Error clearing cache:', error);    }  }  async getCacheSize(empresaId?: string): Promise<number> {    try {      const allKeys = await AsyncStorage.getAllKeys();      let targetKeys: string[];      if (empresaId) {        targetKeys = allKeys.filter(key =>           key.includes(empresaId) && (key.startsWith('offline_') || key.startsWith('last_sync_'))        );      } else {        targetKeys = allKeys.filter(key =>           key.startsWith('offline_') || key.startsWith('last_sync_')        );      }      const values = await AsyncStorage.multiGet(targetKeys);      let totalSize = 0;      for (const [key, value] of values) {        if (value) {          totalSize += new Blob([value]).size;        }      }      return totalSize;    } catch (error) {      console.error('Error calculating cache size:', error);      return 0;    }  }  private async updateLastSync(empresaId: string, dataType: string): Promise<void> {    try {      const lastSync = await this.getLastSync(empresaId);      lastSync[dataType] = Date.now();      await AsyncStorage.setItem(        STORAGE_KEYS.LAST_SYNC(empresaId),         JSON.stringify(lastSync)      );    } catch (error) {      console.error('Error updating last sync:', error);    }  }  async getLastSync(empresaId: string): Promise<Record<string, number>> {    try {      const lastSync = await AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC(empresaId));      return lastSync ? JSON.parse(lastSync) : {};    } catch (error) {      console.error('Error getting last sync:', error);      return {};    }  }  getSyncQueueLength(): number {    return this.syncQueue.length;  }  isSyncInProgress(): boolean {    return this.syncInProgress;  }  async isDataStale(empresaId: string, dataType: string, maxAgeMs: number = 5 * 60 * 1000): Promise<boolean> {    const lastSync = await this.getLastSync(empresaId);    const lastSyncTime = lastSync[dataType];    if (!lastSyncTime) return true;    return (Date.now() - lastSyncTime) > maxAgeMs;  }  async getOfflineStats(empresaId: string): Promise<{    cacheSize: number;    queueLength: number;    failedItemsCount: number;    lastSync: Record<string, number>;    isOnline: boolean;    syncInProgress: boolean;    syncStats: SyncStats;    pendingByType: Record<string, number>;  }> {    const syncStats = await this.getSyncStats();    const failedItems = await this.getFailedItems();    const pendingByType = this.syncQueue.reduce((acc, item) => {      const key = `${item.collection}_${item.type}`;      acc[key] = (acc[key] || 0) + 1;      return acc;    }, {} as Record<string, number>);    return {      cacheSize: await this.getCacheSize(empresaId),      queueLength: this.getSyncQueueLength(),      failedItemsCount: failedItems.length,      lastSync: await this.getLastSync(empresaId),      isOnline: this.getConnectionStatus(),      syncInProgress: this.isSyncInProgress(),      syncStats,      pendingByType    };  }  private async moveToFailedItems(item: SyncQueueItem): Promise<void> {    try {      const failedItems = await this.getFailedItems();      const failedItem: FailedSyncItem = {        ...item,        failedAt: Date.now(),        finalError: item.lastError || 'Unknown error'      };      failedItems.push(failedItem);      await AsyncStorage.setItem(STORAGE_KEYS.FAILED_ITEMS, JSON.stringify(failedItems));      console.log('Moved item to falló items:', {        id: item.id,        type: item.type,        collection: item.collection,        retryCount: item.retryCount,        finalError: failedItem.finalError      });    } catch (error) {      console.error('Error moving item to failed items:', error);    }  }  async getFailedItems(): Promise<FailedSyncItem[]> {    try {      const failedItems = await AsyncStorage.getItem(STORAGE_KEYS.FAILED_ITEMS);      return failedItems ? JSON.parse(failedItems) : [];    } catch (error) {      console.error('Error getting failed items:', error);      return [];    }  }  async retryFailedItem(itemId: string): Promise<boolean> {    try {      const failedItems = await this.getFailedItems();      const itemIndex = failedItems.findIndex(item => item.id === itemId);      if (itemIndex === -1) {        console.error('Failed item not found:', itemId);        return false;      }      const failedItem = failedItems[itemIndex];      const retryItem: SyncQueueItem = {        ...failedItem,        status: 'pending',        retryCount: 0,        lastError: undefined      };      this.syncQueue.push(retryItem);      await this.saveSyncQueue();      failedItems.splice(itemIndex, 1);      await AsyncStorage.setItem(STORAGE_KEYS.FAILED_ITEMS, JSON.stringify(failedItems));      console.log('Retrying falló item:', itemId);      if (this.isOnline && !this.syncInProgress) {        await this.processSyncQueue();      }      return true;    } catch (error) {      console.error('Error retrying failed item:', error);      return false;    }  }  async clearFailedItems(): Promise<void> {    try {      await AsyncStorage.removeItem(STORAGE_KEYS.FAILED_ITEMS);      console.log('Limpiado all falló items');    } catch (error) {      console.error('Error clearing failed items:', error);    }  }  private async updateSyncStats(processed: number, failed: number, processingTime: number): Promise<void> {    try {      const stats = await this.getSyncStats();      stats.totalProcessed += processed;      stats.totalFailed += failed;      stats.lastSyncAttempt = Date.now();      if (processed > 0) {        stats.lastSuccessfulSync = Date.now();        const totalOperations = stats.totalProcessed;        stats.averageProcessingTime =           ((stats.averageProcessingTime * (totalOperations - processed)) + processingTime) / totalOperations;      }      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_STATS, JSON.stringify(stats));    } catch (error) {      console.error('Error updating sync stats:', error);    }  }  async getSyncStats(): Promise<SyncStats> {    try {      const stats = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_STATS);      if (stats) {        return JSON.parse(stats);      }    } catch (error) {      console.error('Error getting sync stats:', error);    }    return {      totalProcessed: 0,      totalFailed: 0,      lastSyncAttempt: 0,      lastSuccessfulSync: 0,      averageProcessingTime: 0    };  }  async resetSyncStats(): Promise<void> {    try {      const defaultStats: SyncStats = {        totalProcessed: 0,        totalFailed: 0,        lastSyncAttempt: 0,        lastSuccessfulSync: 0,        averageProcessingTime: 0      };      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_STATS, JSON.stringify(defaultStats));      console.log('Reset sincronización statistics');    } catch (error) {      console.error('Error resetting sync stats:', error);    }  }}export default OfflineDataManager;
\ No newline at end of file
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from 'firebase/firestore';
+import { 
+  Product, 
+  Client, 
+  TransactionEvent, 
+  CompanyMember,
+  Company 
+} from '@/schemas/types';
+import {
+  ConflictChoice,
+  SyncConflictField,
+  buildResolvedUpdate,
+  detectFieldConflicts,
+  getDocumentVersion,
+  mergeFieldChoices
+} from '@/schemas/sync-conflicts';
+import { withSyncIds } from '@/schemas/sync-ids';
+import { PendingEventWrite } from '@/schemas/pending-events';
+import { SyncPriority, SyncRunRecord, appendSyncRun, validateSyncWrite } from '@/schemas/sync-queue';
+const STORAGE_KEYS = {
+  PRODUCTS: (empresaId: string) => `offline_products_${empresaId}`,
+  CLIENTS: (empresaId: string) => `offline_clients_${empresaId}`,
+  EVENTS: (empresaId: string, clientId: string) => `offline_events_${empresaId}_${clientId}`,
+  MEMBERS: (empresaId: string) => `offline_members_${empresaId}`,
+  COMPANY: (empresaId: string) => `offline_company_${empresaId}`,
+  SYNC_QUEUE: 'offline_sync_queue',
+  FAILED_ITEMS: 'offline_failed_items',
+  CONFLICTS: 'offline_sync_conflicts',
+  LAST_SYNC: (empresaId: string) => `last_sync_${empresaId}`,
+  CONNECTION_STATUS: 'connection_status',
+  SYNC_STATS: 'offline_sync_stats',
+  SYNC_HISTORY: 'offline_sync_history',
+} as const;
+const TIMESTAMP_FIELDS = ['fecha', 'fechaImportante', 'fechaPromesaPago']; // Edited payloads come back from JSON
+const reviveTimestamp = (value: any) => {
+  if (!value) return value;
+  if (value instanceof Timestamp) return value;
+  if (typeof value === 'object' && typeof value.seconds === 'number' && typeof value.nanoseconds === 'number') {
+    return new Timestamp(value.seconds, value.nanoseconds);
+  }
+  if (typeof value === 'number') {
+    return Timestamp.fromMillis(value);
+  }
+  return value;
+};
+interface CachedData<T> {
+  data: T;
+  timestamp: number;
+  version: number;
+}
+export interface SyncQueueItem {
+  id: string;
+  type: 'create' | 'update' | 'delete';
+  collection: 'products' | 'clients' | 'events' | 'members';
+  empresaId: string;
+  documentId?: string; // Generated on the device for creates, so every retry targets the same document
+  idempotencyKey: string; // Stable across retries, identifies this write on the server
+  data?: any;
+  timestamp: number;
+  retryCount: number;
+  maxRetries: number;
+  status: 'pending' | 'processing' | 'failed' | 'completed';
+  lastError?: string;
+  priority: SyncPriority;
+  baseVersion?: number; // actualizado/editado millis of the cached document the edit started from
+  baseData?: Record<string, any>; // Cached values of the edited fields, used to tell which side changed
+}
+interface ConflictResolution {
+  strategy: 'server_wins' | 'client_wins' | 'merge' | 'manual';
+  mergeFields?: string[];
+  fieldChoices?: Record<string, ConflictChoice>;
+}
+export interface SyncConflict {
+  id: string;
+  item: SyncQueueItem;
+  fields: SyncConflictField[];
+  serverVersion: number;
+  detectedAt: number;
+  documentLabel?: string;
+}
+export interface SyncStats {
+  totalProcessed: number;
+  totalFailed: number;
+  lastSyncAttempt: number;
+  lastSuccessfulSync: number;
+  averageProcessingTime: number;
+}
+export interface FailedSyncItem extends SyncQueueItem {
+  failedAt: number;
+  finalError: string;
+}
+export type SyncQueueEvent =
+  | { type: 'changed' }
+  | { type: 'rejected'; item: FailedSyncItem };
+export type SyncQueueListener = (event: SyncQueueEvent) => void;
+export class OfflineDataManager {
+  private static instance: OfflineDataManager;
+  private syncQueue: SyncQueueItem[] = [];
+  private isOnline: boolean = true;
+  private syncInProgress: boolean = false;
+  private listeners = new Set<SyncQueueListener>();
+  private ready: Promise<void>;
+  static getInstance(): OfflineDataManager {
+    if (!OfflineDataManager.instance) {
+      OfflineDataManager.instance = new OfflineDataManager();
+    }
+    return OfflineDataManager.instance;
+  }
+  constructor() {
+    this.ready = Promise.all([this.loadSyncQueue(), this.loadConnectionStatus()]).then(() => undefined);
+  }
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+  async setConnectionStatus(isOnline: boolean): Promise<void> {
+    this.isOnline = isOnline;
+    await AsyncStorage.setItem(STORAGE_KEYS.CONNECTION_STATUS, JSON.stringify(isOnline));
+    if (isOnline && !this.syncInProgress) {
+      await this.processSyncQueue();
+    }
+  }
+  async syncAfterReconnect(): Promise<{ processed: number; failed: number; remaining: number }> {
+    await this.ready; // Background runs start with a fresh instance whose queue is still loading
+    this.isOnline = true;
+    await AsyncStorage.setItem(STORAGE_KEYS.CONNECTION_STATUS, JSON.stringify(true));
+    return this.processSyncQueue();
+  }
+  getConnectionStatus(): boolean {
+    return this.isOnline;
+  }
+  private async loadConnectionStatus(): Promise<void> {
+    try {
+      const status = await AsyncStorage.getItem(STORAGE_KEYS.CONNECTION_STATUS);
+      this.isOnline = status ? JSON.parse(status) : true;
+    } catch (error) {
+      console.error('Error loading connection status:', error);
+      this.isOnline = true;
+    }
+  }
+  async cacheProducts(empresaId: string, products: Product[]): Promise<void> {
+    const cachedData: CachedData<Product[]> = {
+      data: products,
+      timestamp: Date.now(),
+      version: 1
+    };
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.PRODUCTS(empresaId), 
+      JSON.stringify(cachedData)
+    );
+    await this.updateLastSync(empresaId, 'products');
+  }
+  async getCachedProducts(empresaId: string): Promise<Product[] | null> {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.PRODUCTS(empresaId));
+      if (cached) {
+        const cachedData: CachedData<Product[]> = JSON.parse(cached);
+        return cachedData.data;
+      }
+    } catch (error) {
+      console.error('Error getting cached products:', error);
+    }
+    return null;
+  }
+  async cacheClients(empresaId: string, clients: Client[]): Promise<void> {
+    const cachedData: CachedData<Client[]> = {
+      data: clients,
+      timestamp: Date.now(),
+      version: 1
+    };
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.CLIENTS(empresaId), 
+      JSON.stringify(cachedData)
+    );
+    await this.updateLastSync(empresaId, 'clients');
+  }
+  async getCachedClients(empresaId: string): Promise<Client[] | null> {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.CLIENTS(empresaId));
+      if (cached) {
+        const cachedData: CachedData<Client[]> = JSON.parse(cached);
+        return cachedData.data;
+      }
+    } catch (error) {
+      console.error('Error getting cached clients:', error);
+    }
+    return null;
+  }
+  async cacheEvents(empresaId: string, clientId: string, events: TransactionEvent[]): Promise<void> {
+    const serializeTs = (value: any) => {
+      if (value instanceof Timestamp) {
+        return { seconds: value.seconds, nanoseconds: value.nanoseconds };
+      }
+      return value;
+    };
+    const serialized = events.map(e => ({
+      ...e,
+      fecha: serializeTs(e.fecha),
+      creado: serializeTs(e.creado),
+      editado: serializeTs(e.editado),
+    }));
+    const cachedData: CachedData<any[]> = {
+      data: serialized,
+      timestamp: Date.now(),
+      version: 1
+    };
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.EVENTS(empresaId, clientId), 
+      JSON.stringify(cachedData)
+    );
+    await this.updateLastSync(empresaId, 'events');
+  }
+  async getCachedEvents(empresaId: string, clientId: string): Promise<TransactionEvent[] | null> {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.EVENTS(empresaId, clientId));
+      if (cached) {
+        const cachedData: CachedData<any[]> = JSON.parse(cached);
+        const events: TransactionEvent[] = cachedData.data.map((e: any) => ({
+          ...e,
+          fecha: reviveTimestamp(e.fecha),
+          creado: reviveTimestamp(e.creado),
+          editado: reviveTimestamp(e.editado),
+        }));
+        return events;
+      }
+    } catch (error) {
+      console.error('Error getting cached events:', error);
+    }
+    return null;
+  }
+  async cacheMembers(empresaId: string, members: CompanyMember[]): Promise<void> {
+    const cachedData: CachedData<CompanyMember[]> = {
+      data: members,
+      timestamp: Date.now(),
+      version: 1
+    };
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.MEMBERS(empresaId), 
+      JSON.stringify(cachedData)
+    );
+    await this.updateLastSync(empresaId, 'members');
+  }
+  async getCachedMembers(empresaId: string): Promise<CompanyMember[] | null> {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.MEMBERS(empresaId));
+      if (cached) {
+        const cachedData: CachedData<CompanyMember[]> = JSON.parse(cached);
+        return cachedData.data;
+      }
+    } catch (error) {
+      console.error('Error getting cached members:', error);
+    }
+    return null;
+  }
+  async cacheCompany(empresaId: string, company: Company): Promise<void> {
+    const cachedData: CachedData<Company> = {
+      data: company,
+      timestamp: Date.now(),
+      version: 1
+    };
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.COMPANY(empresaId), 
+      JSON.stringify(cachedData)
+    );
+    await this.updateLastSync(empresaId, 'company');
+  }
+  async getCachedCompany(empresaId: string): Promise<Company | null> {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.COMPANY(empresaId));
+      if (cached) {
+        const cachedData: CachedData<Company> = JSON.parse(cached);
+        return cachedData.data;
+      }
+    } catch (error) {
+      console.error('Error getting cached company:', error);
+    }
+    return null;
+  }
+  async addToSyncQueue(
+    item: Omit<SyncQueueItem, 'id' | 'idempotencyKey' | 'timestamp' | 'retryCount' | 'status' | 'priority'> & { idempotencyKey?: string }
+  ): Promise<SyncQueueItem> {
+    const duplicate = item.idempotencyKey && this.syncQueue.find(queued => queued.idempotencyKey === item.idempotencyKey);
+    if (duplicate) {
+      return duplicate;
+    }
+    if (item.type === 'update' && item.baseVersion === undefined && item.data) {
+      const cachedDoc = await this.findCachedDocument(item.collection, item.empresaId, item.documentId);
+      if (cachedDoc) {
+        item = {
+          ...item,
+          baseVersion: getDocumentVersion(cachedDoc),
+          baseData: Object.keys(item.data).reduce((acc, field) => {
+            acc[field] = cachedDoc[field] ?? null;
+            return acc;
+          }, {} as Record<string, any>)
+        };
+        if (item.data.toggleVisibility) {
+          item.data = { oculto: !cachedDoc.oculto }; // A toggle applied twice would undo itself, store the target value instead
+          item.baseData = { oculto: cachedDoc.oculto ?? null };
+        }
+      }
+    }
+    const identified = withSyncIds(item);
+    const queueItem: SyncQueueItem = {
+      ...identified,
+      id: identified.idempotencyKey,
+      timestamp: Date.now(),
+      retryCount: 0,
+      maxRetries: item.maxRetries || 3,
+      status: 'pending',
+      priority: 'normal'
+    };
+    this.syncQueue.push(queueItem);
+    await this.saveSyncQueue();
+    console.log('Added item to sincronización queue:', {
+      id: queueItem.id,
+      type: queueItem.type,
+      collection: queueItem.collection,
+      queueLength: this.syncQueue.length
+    });
+    if (this.isOnline && !this.syncInProgress) {
+      await this.processSyncQueue();
+    }
+    return queueItem;
+  }
+  subscribeToSyncQueue(listener: SyncQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  private notifyListeners(event: SyncQueueEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in sync queue listener:', error);
+      }
+    });
+  }
+  getPendingEventWrites(empresaId: string): PendingEventWrite[] {
+    return this.syncQueue
+      .filter(item => item.collection === 'events' && item.empresaId === empresaId)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(item => ({
+        type: item.type,
+        documentId: item.documentId,
+        data: item.data && {
+          ...item.data,
+          ...(item.data.fecha !== undefined && { fecha: reviveTimestamp(item.data.fecha) })
+        },
+        encolado: Timestamp.fromMillis(item.timestamp)
+      }));
+  }
+  getSyncQueue(): SyncQueueItem[] {
+    const priorityOrder = { high: 3, normal: 2, low: 1 };
+    return [...this.syncQueue].sort((a, b) =>
+      a.priority !== b.priority ? priorityOrder[b.priority] - priorityOrder[a.priority] : a.timestamp - b.timestamp
+    );
+  }
+  async updateSyncItemData(itemId: string, data: Record<string, any>): Promise<{ success: boolean; errors?: string[] }> {
+    if (this.syncInProgress) {
+      return { success: false, errors: ['Hay una sincronización en curso, intente en unos segundos'] };
+    }
+    const failedItems = await this.getFailedItems();
+    const queued = this.syncQueue.find(item => item.id === itemId);
+    const failed = failedItems.find(item => item.id === itemId);
+    const item = queued ?? failed;
+    if (!item) {
+      return { success: false, errors: ['El cambio ya no está en la cola'] };
+    }
+    const revived = { ...data };
+    TIMESTAMP_FIELDS.forEach(field => {
+      if (revived[field] !== undefined) revived[field] = reviveTimestamp(revived[field]);
+    });
+    const cachedDoc = item.type === 'update'
+      ? await this.findCachedDocument(item.collection, item.empresaId, item.documentId)
+      : null;
+    const validation = validateSyncWrite({ ...item, data: revived }, cachedDoc);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+    const baseData = item.baseData && cachedDoc
+      ? Object.keys(revived).reduce((acc, field) => {
+          acc[field] = field in item.baseData! ? item.baseData![field] : cachedDoc[field] ?? null;
+          return acc;
+        }, {} as Record<string, any>)
+      : item.baseData;
+    const edited: SyncQueueItem = { ...item, data: revived, baseData, status: 'pending', retryCount: 0, lastError: undefined };
+    if (queued) {
+      this.syncQueue = this.syncQueue.map(existing => (existing.id === itemId ? edited : existing));
+    } else {
+      this.syncQueue.push(edited); // A fixed failed item goes back to the queue
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.FAILED_ITEMS,
+        JSON.stringify(failedItems.filter(existing => existing.id !== itemId))
+      );
+    }
+    await this.saveSyncQueue();
+    if (this.isOnline && !this.syncInProgress) {
+      await this.processSyncQueue();
+    }
+    return { success: true };
+  }
+  async discardSyncItem(itemId: string): Promise<boolean> {
+    if (this.syncInProgress) return false;
+    try {
+      if (this.syncQueue.some(item => item.id === itemId)) {
+        this.syncQueue = this.syncQueue.filter(item => item.id !== itemId);
+        await this.saveSyncQueue();
+        return true;
+      }
+      const failedItems = await this.getFailedItems();
+      if (!failedItems.some(item => item.id === itemId)) return false;
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.FAILED_ITEMS,
+        JSON.stringify(failedItems.filter(item => item.id !== itemId))
+      );
+      this.notifyListeners({ type: 'changed' });
+      return true;
+    } catch (error) {
+      console.error('Error discarding sync item:', error);
+      return false;
+    }
+  }
+  async setSyncItemPriority(itemId: string, priority: SyncPriority): Promise<boolean> {
+    const item = this.syncQueue.find(queued => queued.id === itemId);
+    if (!item || item.status === 'processing') return false;
+    item.priority = priority;
+    await this.saveSyncQueue();
+    return true;
+  }
+  private async loadSyncQueue(): Promise<void> {
+    try {
+      const queue = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_QUEUE);
+      const storedItems: SyncQueueItem[] = queue ? JSON.parse(queue) : [];
+      // Items queued before idempotency keys existed get their ids now, once, and keep them from here on
+      this.syncQueue = storedItems.map(item => (item.idempotencyKey ? item : { ...withSyncIds(item), id: item.id }));
+    } catch (error) {
+      console.error('Error loading sync queue:', error);
+      this.syncQueue = [];
+    }
+    this.notifyListeners({ type: 'changed' }); // Subscribers read the queue before storage finished loading
+  }
+  private async saveSyncQueue(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_QUEUE, JSON.stringify(this.syncQueue));
+    } catch (error) {
+      console.error('Error saving sync queue:', error);
+    }
+    this.notifyListeners({ type: 'changed' });
+  }
+  async processSyncQueue(): Promise<{ processed: number; failed: number; remaining: number }> {
+    if (!this.isOnline || this.syncInProgress || this.syncQueue.length === 0) {
+      return { processed: 0, failed: 0, remaining: this.syncQueue.length };
+    }
+    this.syncInProgress = true;
+    let processedCount = 0;
+    let failedCount = 0;
+    console.log('Iniciando sincronización queue procesando:', {
+      queueLength: this.syncQueue.length,
+      isOnline: this.isOnline
+    });
+    try {
+      const startTime = Date.now();
+      const itemsToProcess = [...this.syncQueue]
+        .filter(item => item.status === 'pending' || item.status === 'failed')
+        .sort((a, b) => {
+          if (a.priority !== b.priority) {
+            const priorityOrder = { high: 3, normal: 2, low: 1 };
+            return priorityOrder[b.priority] - priorityOrder[a.priority];
+          }
+          return a.timestamp - b.timestamp;
+        });
+      for (const item of itemsToProcess) {
+        try {
+          console.log('Procesando sincronización item:', {
+            id: item.id,
+            type: item.type,
+            collection: item.collection,
+            retryCount: item.retryCount
+          });
+          const queueItem = this.syncQueue.find(q => q.id === item.id);
+          if (queueItem) {
+            queueItem.status = 'processing';
+          }
+          const conflict = await this.detectConflict(item);
+          if (conflict) {
+            await this.addConflict(conflict);
+            this.syncQueue = this.syncQueue.filter(q => q.id !== item.id);
+            console.warn('Sync conflict detected, moved to review queue:', {
+              id: item.id,
+              collection: item.collection,
+              documentId: item.documentId,
+              fields: conflict.fields.map(field => field.field)
+            });
+            continue;
+          }
+          await this.processSyncItem(item);
+          this.syncQueue = this.syncQueue.filter(queueItem => queueItem.id !== item.id);
+          this.rebaseQueuedUpdates(item);
+          processedCount++;
+          console.log('Sincronización item processed exitosamente:', item.id);
+        } catch (error) {
+          console.error('Error processing sync item:', item.id, error);
+          failedCount++;
+          const queueItem = this.syncQueue.find(q => q.id === item.id);
+          if (queueItem) {
+            queueItem.retryCount++;
+            queueItem.status = 'failed';
+            queueItem.lastError = error instanceof Error ? error.message : String(error);
+            if (queueItem.retryCount >= queueItem.maxRetries) {
+              console.error('Max retries exceeded for sync item:', {
+                id: queueItem.id,
+                type: queueItem.type,
+                collection: queueItem.collection,
+                retryCount: queueItem.retryCount,
+                maxRetries: queueItem.maxRetries,
+                lastError: queueItem.lastError
+              });
+              await this.moveToFailedItems(queueItem);
+              this.syncQueue = this.syncQueue.filter(q => q.id !== item.id);
+            } else {
+              queueItem.status = 'pending';
+            }
+          }
+        }
+      }
+      await this.saveSyncQueue();
+      const processingTime = Date.now() - startTime;
+      await this.updateSyncStats(processedCount, failedCount, processingTime);
+      await this.recordSyncRun({
+        timestamp: Date.now(),
+        processed: processedCount,
+        failed: failedCount,
+        remaining: this.syncQueue.length,
+        processingTime
+      });
+      console.log('Sincronización queue procesando completado:', {
+        processed: processedCount,
+        falló: failedCount,
+        remaining: this.syncQueue.length,
+        processingTime: `${processingTime}ms`
+      });
+    } finally {
+      this.syncInProgress = false;
+    }
+    return { 
+      processed: processedCount, 
+      failed: failedCount, 
+      remaining: this.syncQueue.length 
+    };
+  }
+  private async processSyncItem(item: SyncQueueItem): Promise<void> {
+    console.log('Procesando sincronización item:', item);
+    try {
+      switch (item.collection) {
+        case 'products':
+          await this.syncProductOperation(item);
+          break;
+        case 'clients':
+          await this.syncClientOperation(item);
+          break;
+        case 'events':
+          await this.syncEventOperation(item);
+          break;
+        case 'members':
+          await this.syncMemberOperation(item);
+          break;
+        default:
+          throw new Error(`Unknown collection type: ${item.collection}`);
+      }
+      console.log('Sincronización item processed exitosamente:', item.id);
+    } catch (error) {
+      console.error('Error processing sync item:', item.id, error);
+      throw error;
+    }
+  }
+  private async syncProductOperation(item: SyncQueueItem): Promise<void> {
+    let ProductService: any;
+    try {
+      ProductService = require('./ProductService').ProductService;
+    } catch (error) {
+      ProductService = { getInstance: () => ({ createProduct: () => Promise.resolve({ success: true }) }) };
+    }
+    const productService = ProductService.getInstance();
+    switch (item.type) {
+      case 'create':
+        const createResult = await productService.createProduct(item.empresaId, item.data, item.documentId);
+        if (!createResult.success) {
+          throw new Error(createResult.error?.message || 'Failed to create product');
+        }
+        break;
+      case 'update':
+        if (!item.documentId) throw new Error('Document ID required for update');
+        const updateResult = await productService.updateProduct(item.empresaId, item.documentId, item.data);
+        if (!updateResult.success) {
+          throw new Error(updateResult.error?.message || 'Failed to update product');
+        }
+        break;
+      case 'delete':
+        if (!item.documentId) throw new Error('Document ID required for delete');
+        const deleteResult = await productService.deleteProduct(item.empresaId, item.documentId);
+        if (!deleteResult.success) {
+          throw new Error(deleteResult.error?.message || 'Failed to delete product');
+        }
+        break;
+      default:
+        throw new Error(`Unknown operation type: ${item.type}`);
+    }
+  }
+  private async syncClientOperation(item: SyncQueueItem): Promise<void> {
+    let ClientService: any;
+    try {
+      ClientService = require('./ClientService').ClientService;
+    } catch (error) {
+      ClientService = function() { 
+        return { 
+          createClient: () => Promise.resolve({ success: true }),
+          updateClient: () => Promise.resolve({ success: true }),
+          deleteClient: () => Promise.resolve({ success: true }),
+          toggleClientVisibility: () => Promise.resolve({ success: true })
+        }; 
+      };
+    }
+    const clientService = new ClientService(item.empresaId);
+    switch (item.type) {
+      case 'create':
+        const createResult = await clientService.createClient(item.data, item.documentId);
+        if (!createResult.success) {
+          throw new Error(createResult.error?.message || 'Failed to create client');
+        }
+        break;
+      case 'update':
+        if (!item.documentId) throw new Error('Document ID required for update');
+        if (item.data.toggleVisibility) {
+          const toggleResult = await clientService.toggleClientVisibility(item.documentId);
+          if (!toggleResult.success) {
+            throw new Error(toggleResult.error?.message || 'Failed to toggle client visibility');
+          }
+        } else {
+          const updateResult = await clientService.updateClient(item.documentId, item.data);
+          if (!updateResult.success) {
+            throw new Error(updateResult.error?.message || 'Failed to update client');
+          }
+        }
+        break;
+      case 'delete':
+        if (!item.documentId) throw new Error('Document ID required for delete');
+        const deleteResult = await clientService.deleteClient(item.documentId);
+        if (!deleteResult.success) {
+          throw new Error(deleteResult.error?.message || 'Failed to delete client');
+        }
+        break;
+      default:
+        throw new Error(`Unknown operation type: ${item.type}`);
+    }
+  }
+  private async syncEventOperation(item: SyncQueueItem): Promise<void> {
+    let TransactionEventService: any;
+    try {
+      TransactionEventService = require('./TransactionEventService').TransactionEventService;
+    } catch (error) {
+      TransactionEventService = {
+        createSaleEvent: () => Promise.resolve({ success: true }),
+        createPaymentEvent: () => Promise.resolve({ success: true }),
+        updateEvent: () => Promise.resolve({ success: true }),
+        deleteEvent: () => Promise.resolve({ success: true })
+      };
+    }
+    switch (item.type) {
+      case 'create':
+        if (item.data.tipo === 'venta') {
+          const createResult = await TransactionEventService.createSaleEvent(item.empresaId, item.data, item.documentId);
+          if (!createResult.success) {
+            throw new Error(createResult.error?.message || 'Failed to create sale event');
+          }
+        } else if (item.data.tipo === 'pago') {
+          const createResult = await TransactionEventService.createPaymentEvent(item.empresaId, item.data, item.documentId);
+          if (!createResult.success) {
+            throw new Error(createResult.error?.message || 'Failed to create payment event');
+          }
+        } else {
+          throw new Error(`Unknown event type: ${item.data.tipo}`);
+        }
+        break;
+      case 'update':
+        if (!item.documentId) throw new Error('Document ID required for update');
+        const updateResult = await TransactionEventService.updateEvent(item.empresaId, item.documentId, item.data, {
+          idempotencyKey: item.idempotencyKey
+        });
+        if (!updateResult.success) {
+          throw new Error(updateResult.error?.message || 'Failed to update event');
+        }
+        break;
+      case 'delete':
+        if (!item.documentId) throw new Error('Document ID required for delete');
+        const deleteResult = await TransactionEventService.deleteEvent(item.empresaId, item.documentId);
+        if (!deleteResult.success) {
+          throw new Error(deleteResult.error?.message || 'Failed to delete event');
+        }
+        break;
+      default:
+        throw new Error(`Unknown operation type: ${item.type}`);
+    }
+  }
+  private async syncMemberOperation(item: SyncQueueItem): Promise<void> {
+    console.log('Member sincronización operation not implemented:', item);
+    throw new Error('Member sync operations not implemented');
+  }
+  async resolveConflict<T>(
+    localData: T,
+    serverData: T,
+    resolution: ConflictResolution
+  ): Promise<T> {
+    switch (resolution.strategy) {
+      case 'server_wins':
+        return serverData;
+      case 'client_wins':
+        return localData;
+      case 'merge':
+        if (resolution.mergeFields) {
+          const merged = { ...serverData };
+          for (const field of resolution.mergeFields) {
+            if (localData && typeof localData === 'object' && field in localData) {
+              (merged as any)[field] = (localData as any)[field];
+            }
+          }
+          return merged;
+        }
+        return { ...serverData, ...localData };
+      case 'manual':
+        return mergeFieldChoices(localData, serverData, resolution.fieldChoices ?? {});
+      default:
+        return serverData;
+    }
+  }
+  private async findCachedDocument(
+    collection: SyncQueueItem['collection'],
+    empresaId: string,
+    documentId?: string
+  ): Promise<Record<string, any> | null> {
+    if (!documentId) return null;
+    try {
+      if (collection === 'clients') {
+        const clients = await this.getCachedClients(empresaId);
+        return clients?.find(client => client.id === documentId) ?? null;
+      }
+      if (collection === 'events') {
+        const prefix = STORAGE_KEYS.EVENTS(empresaId, '');
+        const eventKeys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(prefix));
+        for (const key of eventKeys) {
+          const events = await this.getCachedEvents(empresaId, key.slice(prefix.length));
+          const event = events?.find(cachedEvent => cachedEvent.id === documentId);
+          if (event) return event;
+        }
+      }
+    } catch (error) {
+      console.error('Error finding cached document:', error);
+    }
+    return null;
+  }
+  private async fetchServerDocument(item: SyncQueueItem): Promise<Record<string, any> | null> {
+    if (!item.documentId) return null;
+    if (item.collection === 'clients') {
+      const { ClientService } = await import('./ClientService');
+      const response = await new ClientService(item.empresaId).getClient(item.documentId);
+      return response.success ? response.data ?? null : null;
+    }
+    if (item.collection === 'events') {
+      const { TransactionEventService } = await import('./TransactionEventService');
+      return await TransactionEventService.getEventById(item.empresaId, item.documentId);
+    }
+    return null;
+  }
+  private async detectConflict(item: SyncQueueItem): Promise<SyncConflict | null> {
+    if (item.type !== 'update' || !item.data || item.data.toggleVisibility) return null;
+    if (item.collection !== 'clients' && item.collection !== 'events') return null;
+    try {
+      const serverDoc = await this.fetchServerDocument(item);
+      if (!serverDoc) return null;
+      const serverVersion = getDocumentVersion(serverDoc);
+      if (serverVersion <= (item.baseVersion ?? item.timestamp)) return null;
+      const fields = detectFieldConflicts(item.data, serverDoc, item.baseData);
+      if (fields.length === 0) return null;
+      return {
+        id: `conflict_${item.id}`,
+        item,
+        fields,
+        serverVersion,
+        detectedAt: Date.now(),
+        documentLabel: serverDoc.nombre ?? serverDoc.producto
+      };
+    } catch (error) {
+      console.error('Error checking sync conflict, syncing without check:', item.id, error);
+      return null;
+    }
+  }
+  private rebaseQueuedUpdates(synced: SyncQueueItem): void {
+    if (synced.type !== 'update' || !synced.data) return;
+    for (const queued of this.syncQueue) {
+      if (queued.type !== 'update' || queued.collection !== synced.collection || queued.documentId !== synced.documentId) {
+        continue;
+      }
+      queued.baseVersion = Date.now(); // Our own write must not count as a server change
+      if (queued.baseData) {
+        for (const field of Object.keys(queued.baseData)) {
+          if (field in synced.data) {
+            queued.baseData[field] = synced.data[field];
+          }
+        }
+      }
+    }
+  }
+  private async addConflict(conflict: SyncConflict): Promise<void> {
+    const conflicts = (await this.getConflicts()).filter(existing => existing.id !== conflict.id);
+    conflicts.push(conflict);
+    await AsyncStorage.setItem(STORAGE_KEYS.CONFLICTS, JSON.stringify(conflicts));
+  }
+  async getConflicts(): Promise<SyncConflict[]> {
+    try {
+      const conflicts = await AsyncStorage.getItem(STORAGE_KEYS.CONFLICTS);
+      return conflicts ? JSON.parse(conflicts) : [];
+    } catch (error) {
+      console.error('Error getting sync conflicts:', error);
+      return [];
+    }
+  }
+  async resolveSyncConflict(conflictId: string, choices: Record<string, ConflictChoice>): Promise<boolean> {
+    try {
+      const conflicts = await this.getConflicts();
+      const conflict = conflicts.find(existing => existing.id === conflictId);
+      if (!conflict) {
+        console.error('Sync conflict not found:', conflictId);
+        return false;
+      }
+      const data = buildResolvedUpdate(conflict.item.data, choices);
+      if (Object.keys(data).length > 0) {
+        this.syncQueue.push({
+          ...conflict.item,
+          data,
+          baseVersion: conflict.serverVersion, // Already reviewed against this server version
+          baseData: undefined,
+          status: 'pending',
+          retryCount: 0,
+          lastError: undefined
+        });
+        await this.saveSyncQueue();
+      }
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.CONFLICTS,
+        JSON.stringify(conflicts.filter(existing => existing.id !== conflictId))
+      );
+      if (this.isOnline && !this.syncInProgress) {
+        await this.processSyncQueue();
+      }
+      return true;
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      return false;
+    }
+  }
+  async clearCache(empresaId?: string): Promise<void> {
+    try {
+      if (empresaId) {
+        const keys = [
+          STORAGE_KEYS.PRODUCTS(empresaId),
+          STORAGE_KEYS.CLIENTS(empresaId),
+          STORAGE_KEYS.MEMBERS(empresaId),
+          STORAGE_KEYS.COMPANY(empresaId),
+          STORAGE_KEYS.LAST_SYNC(empresaId)
+        ];
+        await Promise.all(keys.map(key => AsyncStorage.removeItem(key)));
+        const allKeys = await AsyncStorage.getAllKeys();
+        const eventKeys = allKeys.filter(key => 
+          key.startsWith(`offline_events_${empresaId}_`)
+        );
+        await Promise.all(eventKeys.map(key => AsyncStorage.removeItem(key)));
+      } else {
+        const allKeys = await AsyncStorage.getAllKeys();
+        const cacheKeys = allKeys.filter(key => 
+          key.startsWith('offline_') || key.startsWith('last_sync_')
+        );
+        await Promise.all(cacheKeys.map(key => AsyncStorage.removeItem(key)));
+      }
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+    }
+  }
+  async getCacheSize(empresaId?: string): Promise<number> {
+    try {
+      const allKeys = await AsyncStorage.getAllKeys();
+      let targetKeys: string[];
+      if (empresaId) {
+        targetKeys = allKeys.filter(key => 
+          key.includes(empresaId) && (key.startsWith('offline_') || key.startsWith('last_sync_'))
+        );
+      } else {
+        targetKeys = allKeys.filter(key => 
+          key.startsWith('offline_') || key.startsWith('last_sync_')
+        );
+      }
+      const values = await AsyncStorage.multiGet(targetKeys);
+      let totalSize = 0;
+      for (const [key, value] of values) {
+        if (value) {
+          totalSize += new Blob([value]).size;
+        }
+      }
+      return totalSize;
+    } catch (error) {
+      console.error('Error calculating cache size:', error);
+      return 0;
+    }
+  }
+  private async updateLastSync(empresaId: string, dataType: string): Promise<void> {
+    try {
+      const lastSync = await this.getLastSync(empresaId);
+      lastSync[dataType] = Date.now();
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.LAST_SYNC(empresaId), 
+        JSON.stringify(lastSync)
+      );
+    } catch (error) {
+      console.error('Error updating last sync:', error);
+    }
+  }
+  async getLastSync(empresaId: string): Promise<Record<string, number>> {
+    try {
+      const lastSync = await AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC(empresaId));
+      return lastSync ? JSON.parse(lastSync) : {};
+    } catch (error) {
+      console.error('Error getting last sync:', error);
+      return {};
+    }
+  }
+  getSyncQueueLength(): number {
+    return this.syncQueue.length;
+  }
+  isSyncInProgress(): boolean {
+    return this.syncInProgress;
+  }
+  async isDataStale(empresaId: string, dataType: string, maxAgeMs: number = 5 * 60 * 1000): Promise<boolean> {
+    const lastSync = await this.getLastSync(empresaId);
+    const lastSyncTime = lastSync[dataType];
+    if (!lastSyncTime) return true;
+    return (Date.now() - lastSyncTime) > maxAgeMs;
+  }
+  async getOfflineStats(empresaId: string): Promise<{
+    cacheSize: number;
+    queueLength: number;
+    failedItemsCount: number;
+    conflictsCount: number;
+    lastSync: Record<string, number>;
+    isOnline: boolean;
+    syncInProgress: boolean;
+    syncStats: SyncStats;
+    pendingByType: Record<string, number>;
+  }> {
+    const syncStats = await this.getSyncStats();
+    const failedItems = await this.getFailedItems();
+    const conflicts = await this.getConflicts();
+    const pendingByType = this.syncQueue.reduce((acc, item) => {
+      const key = `${item.collection}_${item.type}`;
+      acc[key] = (acc[key] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    return {
+      cacheSize: await this.getCacheSize(empresaId),
+      queueLength: this.getSyncQueueLength(),
+      failedItemsCount: failedItems.length,
+      conflictsCount: conflicts.length,
+      lastSync: await this.getLastSync(empresaId),
+      isOnline: this.getConnectionStatus(),
+      syncInProgress: this.isSyncInProgress(),
+      syncStats,
+      pendingByType
+    };
+  }
+  private async moveToFailedItems(item: SyncQueueItem): Promise<void> {
+    try {
+      const failedItems = await this.getFailedItems();
+      const failedItem: FailedSyncItem = {
+        ...item,
+        failedAt: Date.now(),
+        finalError: item.lastError || 'Unknown error'
+      };
+      failedItems.push(failedItem);
+      await AsyncStorage.setItem(STORAGE_KEYS.FAILED_ITEMS, JSON.stringify(failedItems));
+      this.notifyListeners({ type: 'rejected', item: failedItem });
+      console.log('Moved item to falló items:', {
+        id: item.id,
+        type: item.type,
+        collection: item.collection,
+        retryCount: item.retryCount,
+        finalError: failedItem.finalError
+      });
+    } catch (error) {
+      console.error('Error moving item to failed items:', error);
+    }
+  }
+  async getFailedItems(): Promise<FailedSyncItem[]> {
+    try {
+      const failedItems = await AsyncStorage.getItem(STORAGE_KEYS.FAILED_ITEMS);
+      return failedItems ? JSON.parse(failedItems) : [];
+    } catch (error) {
+      console.error('Error getting failed items:', error);
+      return [];
+    }
+  }
+  async retryFailedItem(itemId: string): Promise<boolean> {
+    try {
+      const failedItems = await this.getFailedItems();
+      const itemIndex = failedItems.findIndex(item => item.id === itemId);
+      if (itemIndex === -1) {
+        console.error('Failed item not found:', itemId);
+        return false;
+      }
+      const failedItem = failedItems[itemIndex];
+      const retryItem: SyncQueueItem = {
+        ...failedItem,
+        status: 'pending',
+        retryCount: 0,
+        lastError: undefined
+      };
+      this.syncQueue.push(retryItem);
+      await this.saveSyncQueue();
+      failedItems.splice(itemIndex, 1);
+      await AsyncStorage.setItem(STORAGE_KEYS.FAILED_ITEMS, JSON.stringify(failedItems));
+      console.log('Retrying falló item:', itemId);
+      if (this.isOnline && !this.syncInProgress) {
+        await this.processSyncQueue();
+      }
+      return true;
+    } catch (error) {
+      console.error('Error retrying failed item:', error);
+      return false;
+    }
+  }
+  async clearFailedItems(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.FAILED_ITEMS);
+      console.log('Limpiado all falló items');
+    } catch (error) {
+      console.error('Error clearing failed items:', error);
+    }
+  }
+  private async updateSyncStats(processed: number, failed: number, processingTime: number): Promise<void> {
+    try {
+      const stats = await this.getSyncStats();
+      stats.totalProcessed += processed;
+      stats.totalFailed += failed;
+      stats.lastSyncAttempt = Date.now();
+      if (processed > 0) {
+        stats.lastSuccessfulSync = Date.now();
+        const totalOperations = stats.totalProcessed;
+        stats.averageProcessingTime = 
+          ((stats.averageProcessingTime * (totalOperations - processed)) + processingTime) / totalOperations;
+      }
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_STATS, JSON.stringify(stats));
+    } catch (error) {
+      console.error('Error updating sync stats:', error);
+    }
+  }
+  private async recordSyncRun(run: SyncRunRecord): Promise<void> {
+    try {
+      const history = await this.getSyncHistory();
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_HISTORY, JSON.stringify(appendSyncRun(history, run)));
+    } catch (error) {
+      console.error('Error recording sync run:', error);
+    }
+  }
+  async getSyncHistory(): Promise<SyncRunRecord[]> {
+    try {
+      const history = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_HISTORY);
+      return history ? JSON.parse(history) : [];
+    } catch (error) {
+      console.error('Error getting sync history:', error);
+      return [];
+    }
+  }
+  async getSyncStats(): Promise<SyncStats> {
+    try {
+      const stats = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_STATS);
+      if (stats) {
+        return JSON.parse(stats);
+      }
+    } catch (error) {
+      console.error('Error getting sync stats:', error);
+    }
+    return {
+      totalProcessed: 0,
+      totalFailed: 0,
+      lastSyncAttempt: 0,
+      lastSuccessfulSync: 0,
+      averageProcessingTime: 0
+    };
+  }
+  async resetSyncStats(): Promise<void> {
+    try {
+      const defaultStats: SyncStats = {
+        totalProcessed: 0,
+        totalFailed: 0,
+        lastSyncAttempt: 0,
+        lastSuccessfulSync: 0,
+        averageProcessingTime: 0
+      };
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_STATS, JSON.stringify(defaultStats));
+      console.log('Reset sincronización statistics');
+    } catch (error) {
+      console.error('Error resetting sync stats:', error);
+    }
+  }
+}
+export default OfflineDataManager;
\ No newline at end of file
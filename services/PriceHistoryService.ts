@@ -0,0 +1,42 @@
+import { Product, SaleEvent, TransactionEvent, isSaleEvent } from '@/schemas/types';
+import {
+  buildPriceHistory,
+  PriceHistoryOptions,
+  ProductPriceHistory,
+  PRICE_HISTORY_SALES_LIMIT
+} from '@/schemas/price-history';
+import { TransactionEventService } from './TransactionEventService';
+export class PriceHistoryService {
+  // Reads by id and by name so renamed products and sales from before productoId existed are both included.
+  // Throws when either query fails, so a failed read is not shown as a product without history
+  static async getProductSales(
+    empresaId: string,
+    product: Pick<Product, 'id' | 'nombre'>,
+    clienteId?: string
+  ): Promise<SaleEvent[]> {
+    const [byId, byName] = await Promise.all([
+      TransactionEventService.queryEvents(empresaId, { productoId: product.id, clienteId, pageSize: PRICE_HISTORY_SALES_LIMIT }),
+      TransactionEventService.queryEvents(empresaId, { producto: product.nombre, clienteId, pageSize: PRICE_HISTORY_SALES_LIMIT })
+    ]);
+    const error = byId.error ?? byName.error;
+    if (error) {
+      throw new Error(error);
+    }
+    const sales = new Map<string, SaleEvent>();
+    [...byId.events, ...byName.events].forEach((event: TransactionEvent) => {
+      if (isSaleEvent(event)) {
+        sales.set(event.id, event);
+      }
+    });
+    return [...sales.values()];
+  }
+  static async getProductHistory(
+    empresaId: string,
+    product: Pick<Product, 'id' | 'nombre'>,
+    options: PriceHistoryOptions = {}
+  ): Promise<ProductPriceHistory> {
+    const sales = await this.getProductSales(empresaId, product, options.clienteId);
+    return buildPriceHistory(sales, product, options);
+  }
+}
+export default PriceHistoryService;
@@ -0,0 +1,109 @@
+import {
+  addDoc,
+  deleteDoc,
+  deleteField,
+  FieldPath,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  Timestamp,
+  updateDoc
+} from 'firebase/firestore';
+import { PriceList, SpecialPrice } from '@/schemas/types';
+import { getPriceListRef, getPriceListsRef } from '@/schemas/firestore-utils';
+import { validatePriceListName, validateSpecialPrice } from '@/schemas/price-lists';
+import { AuditService } from './AuditService';
+export class PriceListService {
+  static async getPriceLists(empresaId: string): Promise<PriceList[]> {
+    try {
+      const snapshot = await getDocs(query(getPriceListsRef(empresaId), orderBy('nombre')));
+      return snapshot.docs.map(listDoc => ({ id: listDoc.id, ...listDoc.data() } as PriceList));
+    } catch (error) {
+      console.error('Error getting price lists:', error);
+      return [];
+    }
+  }
+  static async getPriceList(empresaId: string, listId: string): Promise<PriceList | null> {
+    try {
+      const snapshot = await getDoc(getPriceListRef(empresaId, listId));
+      return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as PriceList) : null;
+    } catch (error) {
+      console.error('Error getting price list:', error);
+      return null;
+    }
+  }
+  static async createPriceList(empresaId: string, nombre: string): Promise<{ success: boolean; id?: string; errors?: string[] }> {
+    const validation = validatePriceListName(nombre);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+    try {
+      const data = { nombre: nombre.trim(), precios: {} };
+      const created = await addDoc(getPriceListsRef(empresaId), { ...data, creado: Timestamp.now() });
+      await AuditService.record(empresaId, {
+        entidad: 'listaPrecios',
+        entidadId: created.id,
+        operacion: 'crear',
+        antes: null,
+        despues: data
+      });
+      return { success: true, id: created.id };
+    } catch (error) {
+      console.error('Error creating price list:', { empresaId, error });
+      return { success: false, errors: ['No se pudo crear la lista de precios'] };
+    }
+  }
+  // A null price removes the product from the list so it falls back to its normal price
+  static async setProductPrice(
+    empresaId: string,
+    list: PriceList,
+    productoId: string,
+    price: SpecialPrice | null
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    if (price) {
+      const validation = validateSpecialPrice(price);
+      if (!validation.isValid) {
+        return { success: false, errors: validation.errors };
+      }
+    }
+    const despues = price ? { costoUnitario: price.costoUnitario, gananciaUnitaria: price.gananciaUnitaria } : null;
+    try {
+      // Only this product's entry is written, so concurrent edits to other products are kept
+      await updateDoc(
+        getPriceListRef(empresaId, list.id),
+        new FieldPath('precios', productoId), despues ?? deleteField(),
+        'actualizado', Timestamp.now()
+      );
+      await AuditService.record(empresaId, {
+        entidad: 'listaPrecios',
+        entidadId: list.id,
+        operacion: 'editar',
+        antes: { [productoId]: list.precios?.[productoId] ?? null },
+        despues: { [productoId]: despues }
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating price list:', { empresaId, listId: list.id, error });
+      return { success: false, errors: ['No se pudo actualizar la lista de precios'] };
+    }
+  }
+  // Clients still pointing at a deleted list simply get the normal prices
+  static async deletePriceList(empresaId: string, list: PriceList): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      await deleteDoc(getPriceListRef(empresaId, list.id));
+      await AuditService.record(empresaId, {
+        entidad: 'listaPrecios',
+        entidadId: list.id,
+        operacion: 'borrar',
+        antes: { nombre: list.nombre, precios: list.precios },
+        despues: null
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting price list:', { empresaId, listId: list.id, error });
+      return { success: false, errors: ['No se pudo eliminar la lista de precios'] };
+    }
+  }
+}
+export default PriceListService;
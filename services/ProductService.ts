@@ -14,9 +14,10 @@ import {
   getProducts,
   updateProduct as updateProductInFirestore,
   deleteProduct as deleteProductInFirestore,
+  getProduct,
   subscribeToProducts
 } from '@/schemas/firestore-utils';
-import { savePriceToHistory } from '@/components/PriceHistoryTracker';
+import { AuditService } from './AuditService';
 const PRICE_CACHE_KEY = 'product_price_cache';
 export class ProductPriceCacheService {
   private static instance: ProductPriceCacheService;
@@ -81,7 +82,11 @@ export class ProductService {
       console.error('ProductService initialization failed:', error);
     }
   }
-  async createProduct(empresaId: string, productData: CreateProductData): Promise<ServiceResponse<string>> {
+  async createProduct(
+    empresaId: string,
+    productData: CreateProductData,
+    documentId?: string
+  ): Promise<ServiceResponse<string>> {
     const context = 'ProductService.createProduct';
     console.log(`${context}: Iniciando producto creation`, {
       empresaId,
@@ -104,7 +109,20 @@ export class ProductService {
           errors: validation.errors
         };
       }
-      const productId = await createProductInFirestore(empresaId, productData);
+      if (documentId && await getProduct(empresaId, documentId)) {
+        console.log(`${context}: Producto ya sincronizado, omitiendo`, { documentId });
+        return {
+          success: true,
+          data: documentId
+        };
+      }
+      const productId = await createProductInFirestore(empresaId, productData, documentId);
+      await AuditService.record(empresaId, {
+        entidad: 'producto',
+        entidadId: productId,
+        operacion: 'crear',
+        despues: productData
+      });
       if (productData.ultimoCosto !== undefined || productData.ultimaGanancia !== undefined) {
         try {
           this.priceCache.setCachedPrice(productId, productData.ultimoCosto, productData.ultimaGanancia);
@@ -112,20 +130,6 @@ export class ProductService {
           console.warn(`${context}: Price caching failed`, cacheError);
         }
       }
-      if (productData.ultimoCosto !== undefined || productData.ultimaGanancia !== undefined) {
-        try {
-          if (typeof productData.ultimoCosto === 'number' && typeof productData.ultimaGanancia === 'number') {
-            await savePriceToHistory(
-              productId, 
-              productData.nombre || 'Unknown Product',
-              productData.ultimoCosto,
-              productData.ultimaGanancia
-            );
-          }
-        } catch (historyError) {
-          console.warn(`${context}: Price history save failed`, historyError);
-        }
-      }
       console.log(`${context}: Producto creado exitosamente`, { productId });
       return {
         success: true,
@@ -168,7 +172,15 @@ export class ProductService {
           };
         }
       }
+      const before = await getProduct(empresaId, productId);
       await updateProductInFirestore(empresaId, productId, updateData);
+      await AuditService.record(empresaId, {
+        entidad: 'producto',
+        entidadId: productId,
+        operacion: 'editar',
+        antes: before,
+        despues: { ...before, ...updateData }
+      });
       if (updateData.ultimoCosto !== undefined || updateData.ultimaGanancia !== undefined) {
         try {
           this.priceCache.setCachedPrice(productId, updateData.ultimoCosto, updateData.ultimaGanancia);
@@ -192,7 +204,15 @@ export class ProductService {
   async deleteProduct(empresaId: string, productId: string): Promise<ServiceResponse<void>> {
     const context = 'ProductService.deleteProduct';
     try {
+      const before = await getProduct(empresaId, productId);
       await deleteProductInFirestore(empresaId, productId);
+      await AuditService.record(empresaId, {
+        entidad: 'producto',
+        entidadId: productId,
+        operacion: 'borrar',
+        antes: before,
+        despues: { ...before, activo: false } // Products are deactivated, not removed
+      });
       console.log(`${context}: Producto eliminado exitosamente`, { productId });
       return {
         success: true,
@@ -213,6 +233,13 @@ export class ProductService {
         posicion: toIndex
       };
       await updateProductInFirestore(empresaId, productId, updateData);
+      await AuditService.record(empresaId, {
+        entidad: 'producto',
+        entidadId: productId,
+        operacion: 'editar',
+        antes: { posicion: fromIndex },
+        despues: { posicion: toIndex }
+      });
       console.log(`${context}: Producto moved exitosamente`, { productId, fromIndex, toIndex });
       return {
         success: true,
@@ -0,0 +1,196 @@
+import {
+  addDoc,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  Timestamp,
+  updateDoc
+} from 'firebase/firestore';
+import { db, auth } from '@/firebaseConfig';
+import { Product, Purchase, StockMovement, Supplier } from '@/schemas/types';
+import {
+  getProductRef,
+  getPurchasesRef,
+  getStockMovementsRef,
+  getSupplierRef,
+  getSuppliersRef
+} from '@/schemas/firestore-utils';
+import { applyPurchaseToProduct, getPurchaseTotal, validatePurchase, validateSupplier } from '@/schemas/purchases';
+import { AuditService } from './AuditService';
+export interface SupplierInput {
+  nombre: string;
+  telefono?: string;
+  notas?: string;
+}
+export interface PurchaseInput {
+  proveedorId: string;
+  productoId: string;
+  cantidad: number;
+  costoUnitario: number;
+  fecha?: Date; // Defaults to now
+  notas?: string;
+}
+export class PurchaseService {
+  static async getSuppliers(empresaId: string): Promise<Supplier[]> {
+    try {
+      const snapshot = await getDocs(query(getSuppliersRef(empresaId), orderBy('nombre')));
+      return snapshot.docs.map(supplierDoc => ({ id: supplierDoc.id, ...supplierDoc.data() } as Supplier));
+    } catch (error) {
+      console.error('Error getting suppliers:', error);
+      return [];
+    }
+  }
+  static async saveSupplier(
+    empresaId: string,
+    input: SupplierInput,
+    existing?: Supplier
+  ): Promise<{ success: boolean; id?: string; errors?: string[] }> {
+    const validation = validateSupplier(input);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+    const data = {
+      nombre: input.nombre.trim(),
+      telefono: input.telefono?.trim() ?? '',
+      notas: input.notas?.trim() ?? ''
+    };
+    try {
+      if (existing) {
+        await updateDoc(getSupplierRef(empresaId, existing.id), { ...data, actualizado: Timestamp.now() });
+        await AuditService.record(empresaId, {
+          entidad: 'proveedor',
+          entidadId: existing.id,
+          operacion: 'editar',
+          antes: { nombre: existing.nombre, telefono: existing.telefono ?? '', notas: existing.notas ?? '' },
+          despues: data
+        });
+        return { success: true, id: existing.id };
+      }
+      const created = await addDoc(getSuppliersRef(empresaId), { ...data, activo: true, creado: Timestamp.now() });
+      await AuditService.record(empresaId, {
+        entidad: 'proveedor',
+        entidadId: created.id,
+        operacion: 'crear',
+        antes: null,
+        despues: { ...data, activo: true }
+      });
+      return { success: true, id: created.id };
+    } catch (error) {
+      console.error('Error saving supplier:', { empresaId, error });
+      return { success: false, errors: ['No se pudo guardar el proveedor'] };
+    }
+  }
+  // Suppliers are deactivated instead of deleted so their purchases keep pointing somewhere
+  static async setSupplierActive(
+    empresaId: string,
+    supplier: Supplier,
+    activo: boolean
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      await updateDoc(getSupplierRef(empresaId, supplier.id), { activo, actualizado: Timestamp.now() });
+      await AuditService.record(empresaId, {
+        entidad: 'proveedor',
+        entidadId: supplier.id,
+        operacion: 'editar',
+        antes: { activo: supplier.activo },
+        despues: { activo }
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating supplier status:', { empresaId, supplierId: supplier.id, error });
+      return { success: false, errors: ['No se pudo actualizar el proveedor'] };
+    }
+  }
+  static async getPurchases(empresaId: string, maxResults: number = 50): Promise<Purchase[]> {
+    try {
+      const snapshot = await getDocs(query(getPurchasesRef(empresaId), orderBy('fecha', 'desc'), limit(maxResults)));
+      return snapshot.docs.map(purchaseDoc => ({ id: purchaseDoc.id, ...purchaseDoc.data() } as Purchase));
+    } catch (error) {
+      console.error('Error getting purchases:', error);
+      return [];
+    }
+  }
+  // Writes the purchase, the product's new cost and stock, and the stock movement in one transaction
+  static async recordPurchase(
+    empresaId: string,
+    supplier: Supplier,
+    input: PurchaseInput
+  ): Promise<{ success: boolean; id?: string; errors?: string[] }> {
+    const validation = validatePurchase(input);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+    try {
+      const productRef = getProductRef(empresaId, input.productoId);
+      const purchaseRef = doc(getPurchasesRef(empresaId));
+      const result = await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(productRef);
+        if (!snapshot.exists()) {
+          throw new Error('Producto no encontrado');
+        }
+        const product = snapshot.data() as Product;
+        const update = applyPurchaseToProduct(product, input);
+        const now = Timestamp.now();
+        const creadoPor = auth.currentUser?.uid;
+        const notas = input.notas?.trim();
+        const purchaseData: Omit<Purchase, 'id'> = {
+          proveedorId: supplier.id,
+          proveedorNombre: supplier.nombre,
+          productoId: input.productoId,
+          producto: product.nombre,
+          cantidad: input.cantidad,
+          costoUnitario: input.costoUnitario,
+          total: getPurchaseTotal(input.cantidad, input.costoUnitario),
+          ...(product.moneda && { moneda: product.moneda }),
+          fecha: input.fecha ? Timestamp.fromDate(input.fecha) : now,
+          ...(notas && { notas }),
+          ...(creadoPor && { creadoPor }),
+          creado: now
+        };
+        const movementData: Omit<StockMovement, 'id'> = {
+          tipo: 'compra',
+          cantidad: input.cantidad,
+          stockResultante: update.stock,
+          compraId: purchaseRef.id,
+          ...(notas && { notas }),
+          ...(creadoPor && { creadoPor }),
+          creado: now
+        };
+        transaction.set(purchaseRef, purchaseData);
+        transaction.update(productRef, { ...update, ultimaCompraId: purchaseRef.id, actualizado: now });
+        transaction.set(doc(getStockMovementsRef(empresaId, input.productoId)), movementData);
+        return {
+          purchaseData,
+          antes: {
+            stock: product.stock ?? null,
+            ultimoCosto: product.ultimoCosto,
+            costoPromedio: product.costoPromedio ?? null
+          },
+          despues: update
+        };
+      });
+      await AuditService.record(empresaId, {
+        entidad: 'compra',
+        entidadId: purchaseRef.id,
+        operacion: 'crear',
+        antes: null,
+        despues: result.purchaseData
+      });
+      await AuditService.record(empresaId, {
+        entidad: 'producto',
+        entidadId: input.productoId,
+        operacion: 'editar',
+        antes: result.antes,
+        despues: result.despues
+      });
+      return { success: true, id: purchaseRef.id };
+    } catch (error) {
+      console.error('Error recording purchase:', { empresaId, productoId: input.productoId, error });
+      return { success: false, errors: ['No se pudo registrar la compra'] };
+    }
+  }
+}
+export default PurchaseService;
@@ -0,0 +1,127 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDocs, query, where } from 'firebase/firestore';
+import { TransactionEvent } from '@/schemas/types';
+import {
+  DebtDiscrepancy,
+  ReconciliationReport,
+  buildReconciliationReport
+} from '@/schemas/reconciliation';
+import {
+  getClients,
+  getCompany,
+  getEventsRef,
+  recalculateAndUpdateClientDebt
+} from '@/schemas/firestore-utils';
+import { AuditService } from './AuditService';
+import { SimpleDebtService } from './SimpleDebtService';
+const REPORT_KEY = (empresaId: string) => `debt_reconciliation_${empresaId}`;
+type ReconciliationListener = (report: ReconciliationReport) => void;
+const listeners = new Set<ReconciliationListener>();
+export class ReconciliationService {
+  static subscribe(listener: ReconciliationListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+  static async runReconciliation(empresaId: string): Promise<ReconciliationReport> {
+    const [company, clients, eventsSnapshot, localDebts] = await Promise.all([
+      getCompany(empresaId),
+      getClients(empresaId, true),
+      getDocs(query(getEventsRef(empresaId), where('borrado', '==', false))),
+      SimpleDebtService.getInstance().getAllClientDebts(empresaId)
+    ]);
+    const events = eventsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as TransactionEvent));
+    const report = buildReconciliationReport(
+      empresaId,
+      clients,
+      events,
+      Object.fromEntries(localDebts.map(entry => [entry.clientId, entry.debt])),
+      company?.monedaPredeterminada
+    );
+    await this.saveReport(report);
+    if (report.discrepancias.length > 0) {
+      console.warn(`Conciliación: ${report.discrepancias.length} clientes con deuda desfasada en ${empresaId}`);
+    }
+    return report;
+  }
+  static async getLastReport(empresaId: string): Promise<ReconciliationReport | null> {
+    try {
+      const stored = await AsyncStorage.getItem(REPORT_KEY(empresaId));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Error reading reconciliation report:', error);
+      return null;
+    }
+  }
+  static async fixDiscrepancy(
+    empresaId: string,
+    discrepancy: DebtDiscrepancy
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    const antes: Record<string, any> = {};
+    const despues: Record<string, any> = {};
+    try {
+      if (discrepancy.firestoreDesfasado) {
+        await recalculateAndUpdateClientDebt(empresaId, discrepancy.clienteId);
+        antes.deudaActual = discrepancy.deudaActual;
+        antes.deudaPorMoneda = discrepancy.deudaPorMonedaActual ?? null;
+        despues.deudaActual = discrepancy.deudaEsperada;
+        despues.deudaPorMoneda = discrepancy.deudaPorMonedaEsperada;
+      }
+      if (discrepancy.localDesfasado) {
+        await SimpleDebtService.getInstance().setClientDebt(
+          empresaId,
+          discrepancy.clienteId,
+          discrepancy.clienteNombre,
+          discrepancy.deudaEsperada
+        );
+        antes.deudaLocal = discrepancy.deudaLocal;
+        despues.deudaLocal = discrepancy.deudaEsperada;
+      }
+    } catch (error) {
+      console.error('Error fixing debt discrepancy:', { empresaId, clienteId: discrepancy.clienteId, error });
+      return { success: false, errors: [`No se pudo corregir la deuda de ${discrepancy.clienteNombre}`] };
+    }
+    await AuditService.record(empresaId, {
+      entidad: 'cliente',
+      entidadId: discrepancy.clienteId,
+      operacion: 'editar',
+      antes,
+      despues,
+      motivo: 'conciliacion'
+    });
+    const report = await this.getLastReport(empresaId);
+    if (report) {
+      await this.saveReport({
+        ...report,
+        discrepancias: report.discrepancias.filter(item => item.clienteId !== discrepancy.clienteId)
+      });
+    }
+    return { success: true };
+  }
+  static async fixAll(
+    empresaId: string,
+    discrepancias: DebtDiscrepancy[]
+  ): Promise<{ success: boolean; corregidos: number; errors?: string[] }> {
+    const errors: string[] = [];
+    let corregidos = 0;
+    for (const discrepancy of discrepancias) {
+      const result = await this.fixDiscrepancy(empresaId, discrepancy);
+      if (result.success) {
+        corregidos++;
+      } else {
+        errors.push(...(result.errors ?? []));
+      }
+    }
+    return { success: errors.length === 0, corregidos, ...(errors.length > 0 && { errors }) };
+  }
+  private static async saveReport(report: ReconciliationReport): Promise<void> {
+    try {
+      await AsyncStorage.setItem(REPORT_KEY(report.empresaId), JSON.stringify(report));
+    } catch (error) {
+      console.warn('Error saving reconciliation report:', error);
+    }
+    listeners.forEach(listener => listener(report));
+  }
+}
+export default ReconciliationService;
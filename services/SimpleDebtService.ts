@@ -78,14 +78,15 @@ export class SimpleDebtService {
   async syncAllClientDebts(empresaId: string): Promise<void> {
     try {
       console.log('SimpleDebtService: Iniciando automático deuda sincronización...');
-      const { getClients, getClientEvents } = await import('@/schemas/firestore-utils');
+      const { getClients, getClientEvents, getCompany } = await import('@/schemas/firestore-utils');
       const { calculateClientDebt } = await import('@/schemas/business-logic');
+      const company = await getCompany(empresaId);
       const clients = await getClients(empresaId);
       for (const client of clients) {
         try {
           const events = await getClientEvents(empresaId, client.id);
           if (events.length > 0) {
-            const calculation = calculateClientDebt(events);
+            const calculation = calculateClientDebt(events, company?.monedaPredeterminada);
             const finalDebt = calculation.totalDebt - calculation.favorBalance;
             await this.setClientDebt(empresaId, client.id, client.nombre, finalDebt);
             console.log(`Synced deuda for ${client.nombre}: ${finalDebt}`);
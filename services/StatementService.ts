@@ -0,0 +1,41 @@
+import { Linking, Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import {
+  AccountStatement,
+  buildStatementHtml,
+  buildStatementSummaryText,
+  buildWhatsAppUrl
+} from '../schemas/statement';
+export type StatementShareMode = 'pdf' | 'texto';
+export class StatementService {
+  static async createStatementPdf(statement: AccountStatement): Promise<string> {
+    const { uri } = await Print.printToFileAsync({ html: buildStatementHtml(statement) });
+    return uri;
+  }
+  static async canSharePdf(): Promise<boolean> {
+    return Platform.OS !== 'web' && await Sharing.isAvailableAsync();
+  }
+  static async shareStatement(
+    statement: AccountStatement,
+    modo: StatementShareMode = 'pdf'
+  ): Promise<{ success: boolean; modo?: StatementShareMode; errors?: string[] }> {
+    try {
+      if (modo === 'pdf' && await this.canSharePdf()) {
+        const uri = await this.createStatementPdf(statement);
+        await Sharing.shareAsync(uri, {
+          mimeType: 'application/pdf',
+          dialogTitle: `Estado de cuenta - ${statement.clienteNombre}`,
+          UTI: 'com.adobe.pdf'
+        });
+        return { success: true, modo: 'pdf' };
+      }
+      const url = buildWhatsAppUrl(statement.telefono, buildStatementSummaryText(statement));
+      await Linking.openURL(url);
+      return { success: true, modo: 'texto' };
+    } catch (error) {
+      console.error('Error sharing account statement:', error);
+      return { success: false, errors: ['No se pudo compartir el estado de cuenta. Intente nuevamente.'] };
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  Timestamp
+} from 'firebase/firestore';
+import { db, auth } from '@/firebaseConfig';
+import { Product, SaleEvent, StockMovement, StockMovementType } from '@/schemas/types';
+import { getProductRef, getStockMovementsRef } from '@/schemas/firestore-utils';
+import { getMovementTypeForSaleChange, getSaleStockChanges, validateStockMovement } from '@/schemas/stock';
+import { AuditService } from './AuditService';
+export interface StockMovementInput {
+  tipo: StockMovementType;
+  cantidad: number; // Signed change in units
+  eventoId?: string;
+  movimientoId?: string; // Fixed document id, a movement that already exists is never applied twice
+  notas?: string;
+}
+type StockedSale = Pick<SaleEvent, 'productoId' | 'cantidad' | 'borrado'>;
+export class StockService {
+  static async recordMovement(
+    empresaId: string,
+    productoId: string,
+    movement: StockMovementInput
+  ): Promise<{ success: boolean; stock?: number; errors?: string[] }> {
+    const validation = validateStockMovement(movement);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+    const isSaleMovement = movement.eventoId !== undefined;
+    try {
+      const productRef = getProductRef(empresaId, productoId);
+      const result = await runTransaction(db, async (transaction) => {
+        const movementsRef = getStockMovementsRef(empresaId, productoId);
+        const movementRef = movement.movimientoId ? doc(movementsRef, movement.movimientoId) : doc(movementsRef);
+        const snapshot = await transaction.get(productRef);
+        if (!snapshot.exists()) {
+          throw new Error('Producto no encontrado');
+        }
+        const product = snapshot.data() as Product;
+        if (isSaleMovement && typeof product.stock !== 'number') {
+          return null; // Sales only move stock once someone started counting it
+        }
+        if (movement.movimientoId && (await transaction.get(movementRef)).exists()) {
+          return null; // Replay of a change that already landed
+        }
+        const anterior = product.stock ?? 0;
+        const stockResultante = anterior + movement.cantidad;
+        const now = Timestamp.now();
+        const movementData: Omit<StockMovement, 'id'> = {
+          tipo: movement.tipo,
+          cantidad: movement.cantidad,
+          stockResultante,
+          ...(movement.eventoId && { eventoId: movement.eventoId }),
+          ...(movement.notas?.trim() && { notas: movement.notas.trim() }),
+          ...(auth.currentUser && { creadoPor: auth.currentUser.uid }),
+          creado: now
+        };
+        transaction.update(productRef, { stock: stockResultante, actualizado: now });
+        transaction.set(movementRef, movementData);
+        return { anterior, stockResultante };
+      });
+      if (!result) {
+        return { success: true };
+      }
+      if (!isSaleMovement) {
+        await AuditService.record(empresaId, {
+          entidad: 'producto',
+          entidadId: productoId,
+          operacion: 'editar',
+          antes: { stock: result.anterior },
+          despues: { stock: result.stockResultante }
+        });
+      }
+      return { success: true, stock: result.stockResultante };
+    } catch (error) {
+      console.error('Error recording stock movement:', { empresaId, productoId, error });
+      return { success: false, errors: ['No se pudo registrar el movimiento de stock'] };
+    }
+  }
+  // Moves stock from one version of a sale to the other: null before is a new sale, null after removes it
+  static async applySaleChange(
+    empresaId: string,
+    eventoId: string,
+    antes: StockedSale | null,
+    despues: StockedSale | null,
+    movimientoId?: string // Set when the same change may be applied again, such as a replayed sale
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    const errors: string[] = [];
+    for (const change of getSaleStockChanges(antes, despues)) {
+      const result = await this.recordMovement(empresaId, change.productoId, {
+        tipo: getMovementTypeForSaleChange(change.cantidad),
+        cantidad: change.cantidad,
+        eventoId,
+        ...(movimientoId && { movimientoId })
+      });
+      if (!result.success) {
+        errors.push(...(result.errors ?? []));
+      }
+    }
+    return { success: errors.length === 0, ...(errors.length > 0 && { errors }) };
+  }
+  static async getMovements(
+    empresaId: string,
+    productoId: string,
+    maxResults: number = 50
+  ): Promise<StockMovement[]> {
+    try {
+      const q = query(getStockMovementsRef(empresaId, productoId), orderBy('creado', 'desc'), limit(maxResults));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(movementDoc => ({ id: movementDoc.id, ...movementDoc.data() } as StockMovement));
+    } catch (error) {
+      console.error('Error getting stock movements:', error);
+      return [];
+    }
+  }
+}
+export default StockService;
@@ -1 +1,739 @@
-import {   collection,   doc,   addDoc,   updateDoc,   deleteDoc,   getDocs,   query,   where,   orderBy,   Timestamp,  getDoc,  onSnapshot} from 'firebase/firestore';import { db } from '../firebaseConfig';import {   TransactionEvent,   SaleEvent,   PaymentEvent,  CreateSaleEventData,  CreatePaymentEventData,  UpdateTransactionEventData,  COLLECTIONS} from '../schemas/types';import {   validateSaleEvent,   validatePaymentEvent,   validateTransactionEvent } from '../schemas/validation';function sanitizeFirestoreData<T extends Record<string, any>>(data: T): T {  const sanitized: Record<string, any> = {};  for (const key of Object.keys(data)) {    const value = (data as any)[key];    if (value !== undefined) {      sanitized[key] = value;    }  }  return sanitized as T;}export class TransactionEventService {  private static getEventsCollection(empresaId: string) {    return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS);  }  static async createSaleEvent(    empresaId: string,     saleData: CreateSaleEventData  ): Promise<{ success: boolean; eventId?: string; errors?: string[] }> {    try {      const offlineManager = require('./OfflineDataManager').default.getInstance();      if (!offlineManager.getConnectionStatus()) {        await offlineManager.addToSyncQueue({          type: 'create',          collection: 'events',          empresaId,          data: saleData,        } as any);        return { success: true };      }      const validation = validateSaleEvent(saleData);      if (!validation.isValid) {        return { success: false, errors: validation.errors };      }      const calculatedTotal = saleData.cantidad * (saleData.costoUnitario + saleData.gananciaUnitaria);      const eventData: Omit<SaleEvent, 'id'> = sanitizeFirestoreData({        ...saleData,        notas: saleData.notas?.trim() ?? '',        tipo: 'venta',        totalVenta: calculatedTotal,        creado: Timestamp.now(),        borrado: false      });      const eventsCollection = this.getEventsCollection(empresaId);      const docRef = await addDoc(eventsCollection, eventData);      return { success: true, eventId: docRef.id };    } catch (error) {      console.error('Error creating sale event:', error);      return {         success: false,         errors: ['Error al crear el evento de venta. Intente nuevamente.']       };    }  }  static async createPaymentEvent(    empresaId: string,     paymentData: CreatePaymentEventData  ): Promise<{ success: boolean; eventId?: string; errors?: string[] }> {    try {      const offlineManager = require('./OfflineDataManager').default.getInstance();      if (!offlineManager.getConnectionStatus()) {        await offlineManager.addToSyncQueue({          type: 'create',          collection: 'events',          empresaId,          data: paymentData,        } as any);        return { success: true };      }      const validation = validatePaymentEvent(paymentData);      if (!validation.isValid) {        return { success: false, errors: validation.errors };      }      const eventData: Omit<PaymentEvent, 'id'> = sanitizeFirestoreData({        ...paymentData,        notas: paymentData.notas?.trim() ?? '',        tipo: 'pago',        creado: Timestamp.now(),        borrado: false      });      const eventsCollection = this.getEventsCollection(empresaId);      const docRef = await addDoc(eventsCollection, eventData);      return { success: true, eventId: docRef.id };    } catch (error) {      console.error('Error creating payment event:', error);      return {         success: false,         errors: ['Error al crear el evento de pago. Intente nuevamente.']       };    }  }  static async getClientEvents(    empresaId: string,     clienteId: string  ): Promise<TransactionEvent[]> {    try {      const eventsCollection = this.getEventsCollection(empresaId);      const q = query(        eventsCollection,        where('clienteId', '==', clienteId),        where('borrado', '==', false),        orderBy('fecha', 'desc')      );      const querySnapshot = await getDocs(q);      const events: TransactionEvent[] = [];      querySnapshot.forEach((doc) => {        const data = doc.data();        events.push({          id: doc.id,          ...data        } as TransactionEvent);      });      return events;    } catch (error) {      console.error('Error getting client events:', error);      return [];    }  }  static async getEventById(    empresaId: string,     eventId: string  ): Promise<TransactionEvent | null> {    try {      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);      const docSnap = await getDoc(eventDoc);      if (docSnap.exists()) {        const data = docSnap.data();        return {          id: docSnap.id,          ...data        } as TransactionEvent;      }      return null;    } catch (error) {      console.error('Error getting event by ID:', error);      return null;    }  }  static async updateEvent(    empresaId: string,    eventId: string,    updateData: UpdateTransactionEventData  ): Promise<{ success: boolean; errors?: string[] }> {    try {      const existingEvent = await this.getEventById(empresaId, eventId);      if (!existingEvent) {        return { success: false, errors: ['Evento no encontrado'] };      }      const updatedEvent = { ...existingEvent, ...updateData } as TransactionEvent;      const validation = validateTransactionEvent(updatedEvent as TransactionEvent);      if (!validation.isValid) {        return { success: false, errors: validation.errors };      }      let updateFields: UpdateTransactionEventData = { ...updateData };      if (updatedEvent.tipo === 'venta') {        const saleEvent = updatedEvent as SaleEvent;        const calculatedTotal = saleEvent.cantidad * (saleEvent.costoUnitario + saleEvent.gananciaUnitaria);        (updateFields as any).totalVenta = calculatedTotal;      }      const finalUpdateData = {        ...updateFields,        editado: Timestamp.now()      };      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);      await updateDoc(eventDoc, finalUpdateData);      return { success: true };    } catch (error) {      console.error('Error updating event:', error);      return {         success: false,         errors: ['Error al actualizar el evento. Intente nuevamente.']       };    }  }  static async deleteEvent(    empresaId: string,    eventId: string  ): Promise<{ success: boolean; errors?: string[] }> {    try {      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);      await updateDoc(eventDoc, {        borrado: true,        editado: Timestamp.now()      });      return { success: true };    } catch (error) {      console.error('Error deleting event:', error);      return {         success: false,         errors: ['Error al eliminar el evento. Intente nuevamente.']       };    }  }  static async permanentlyDeleteEvent(    empresaId: string,    eventId: string  ): Promise<{ success: boolean; errors?: string[] }> {    try {      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);      await deleteDoc(eventDoc);      return { success: true };    } catch (error) {      console.error('Error permanently deleting event:', error);      return {         success: false,         errors: ['Error al eliminar permanentemente el evento. Intente nuevamente.']       };    }  }  static createSaleEventData(    clienteId: string,    producto: string,    cantidad: number,    costoUnitario: number,    gananciaUnitaria: number,    fecha: Timestamp = Timestamp.now(),    productoColor?: string,    notas?: string  ): CreateSaleEventData {    return {      clienteId,      tipo: 'venta',      fecha,      producto,      productoColor,      cantidad,      costoUnitario,      gananciaUnitaria,      totalVenta: cantidad * (costoUnitario + gananciaUnitaria),      notas    };  }  static createPaymentEventData(    clienteId: string,    montoPago: number,    fecha: Timestamp = Timestamp.now(),    notas?: string  ): CreatePaymentEventData {    return {      clienteId,      tipo: 'pago',      fecha,      montoPago,      notas    };  }  static canEditEvent(event: TransactionEvent): { canEdit: boolean; reason?: string } {    if (event.borrado) {      return { canEdit: false, reason: 'No se puede editar un evento eliminado' };    }    const daysSinceCreation = (Timestamp.now().toMillis() - event.creado.toMillis()) / (1000 * 60 * 60 * 24);    if (daysSinceCreation > 30) {      return { canEdit: false, reason: 'No se pueden editar eventos de más de 30 días' };    }    return { canEdit: true };  }  static canDeleteEvent(event: TransactionEvent): { canDelete: boolean; reason?: string } {    if (event.borrado) {      return { canDelete: false, reason: 'El evento ya está eliminado' };    }    const daysSinceCreation = (Timestamp.now().toMillis() - event.creado.toMillis()) / (1000 * 60 * 60 * 24);    if (daysSinceCreation > 30) {      return { canDelete: false, reason: 'No se pueden eliminar eventos de más de 30 días' };    }    return { canDelete: true };  }  static subscribeToClientEvents(    empresaId: string,    clienteId: string,    callback: (events: TransactionEvent[]) => void  ): () => void {    const eventsCollection = this.getEventsCollection(empresaId);    const q = query(      eventsCollection,      where('clienteId', '==', clienteId),      where('borrado', '==', false),      orderBy('fecha', 'desc')    );    const unsubscribe = onSnapshot(q, (querySnapshot) => {      const events: TransactionEvent[] = [];      querySnapshot.forEach((doc) => {        const data = doc.data();        events.push({          id: doc.id,          ...data        } as TransactionEvent);      });      callback(events);    }, (error) => {      console.error('Error in transaction events subscription:', error);    });    return unsubscribe;  }  static subscribeToAllEvents(    empresaId: string,    callback: (events: TransactionEvent[]) => void  ): () => void {    const eventsCollection = this.getEventsCollection(empresaId);    const q = query(      eventsCollection,      where('borrado', '==', false),      orderBy('fecha', 'desc')    );    const unsubscribe = onSnapshot(q, (querySnapshot) => {      const events: TransactionEvent[] = [];      querySnapshot.forEach((doc) => {        const data = doc.data();        events.push({          id: doc.id,          ...data        } as TransactionEvent);      });      callback(events);    }, (error) => {      console.error('Error in all events subscription:', error);    });    return unsubscribe;  }  static subscribeToEvent(    empresaId: string,    eventId: string,    callback: (event: TransactionEvent | null) => void  ): () => void {    const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);    const unsubscribe = onSnapshot(eventDoc, (docSnapshot) => {      if (docSnapshot.exists()) {        const data = docSnapshot.data();        const event: TransactionEvent = {          id: docSnapshot.id,          ...data        } as TransactionEvent;        callback(event);      } else {        callback(null);      }    }, (error) => {      console.error('Error in event subscription:', error);      callback(null);    });    return unsubscribe;  }}
\ No newline at end of file
+import { 
+  collection, 
+  doc, 
+  addDoc, 
+  updateDoc, 
+  getDocs, 
+  query, 
+  where, 
+  orderBy, 
+  limit,
+  startAfter,
+  Timestamp,
+  getDoc,
+  onSnapshot,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData,
+  DocumentReference,
+  writeBatch,
+  deleteField
+} from 'firebase/firestore';
+import { db, auth } from '../firebaseConfig';
+import { 
+  TransactionEvent, 
+  SaleEvent, 
+  PaymentEvent,
+  CreateSaleEventData,
+  CreatePaymentEventData,
+  UpdateTransactionEventData,
+  EventRevision,
+  COLLECTIONS
+} from '../schemas/types';
+import { 
+  validateSaleEvent, 
+  validatePaymentEvent, 
+  validateTransactionEvent 
+} from '../schemas/validation';
+import { getExpiredTrashEvents } from '../schemas/trash';
+import { createDocumentOnce, getAuditLogRef } from '../schemas/firestore-utils';
+import { AuditRecord, AuditService } from './AuditService';
+import { ClientService } from './ClientService';
+import { StockService } from './StockService';
+export interface EventQueryFilters {
+  desde?: Date;
+  hasta?: Date;
+  tipo?: TransactionEvent['tipo'];
+  producto?: string;
+  productoId?: string; // Takes precedence over producto, only sales recorded with a product id match
+  clienteId?: string;
+  creadoPor?: string; // Member uid
+  incluirBorrados?: boolean;
+  orden?: 'asc' | 'desc';
+  pageSize?: number; // All matching events when omitted
+  cursor?: QueryDocumentSnapshot<DocumentData> | null;
+}
+export interface EventQueryPage {
+  events: TransactionEvent[];
+  cursor: QueryDocumentSnapshot<DocumentData> | null; // Pass back to fetch the next page
+  hasMore: boolean;
+  error?: string; // Set when the query failed, so callers can tell it apart from an empty result
+}
+function sanitizeFirestoreData<T extends Record<string, any>>(data: T): T {
+  const sanitized: Record<string, any> = {};
+  for (const key of Object.keys(data)) {
+    const value = (data as any)[key];
+    if (value !== undefined) {
+      sanitized[key] = value;
+    }
+  }
+  return sanitized as T;
+}
+async function moveSaleStock(
+  empresaId: string,
+  eventId: string,
+  antes: TransactionEvent | null,
+  despues: TransactionEvent | null,
+  movimientoId?: string
+): Promise<void> {
+  const sale = (event: TransactionEvent | null) => (event?.tipo === 'venta' ? event : null);
+  const result = await StockService.applySaleChange(empresaId, eventId, sale(antes), sale(despues), movimientoId);
+  if (!result.success) {
+    console.warn('Event saved but product stock could not be updated:', result.errors);
+  }
+}
+async function refreshClientDebt(empresaId: string, clienteId: string): Promise<void> {
+  const result = await new ClientService(empresaId).recalculateClientDebt(clienteId);
+  if (!result.success) {
+    console.warn('Event saved but client debt could not be recalculated:', result.errors);
+  }
+}
+export class TransactionEventService {
+  private static getEventsCollection(empresaId: string) {
+    return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS);
+  }
+  private static getRevisionsCollection(empresaId: string, eventId: string) {
+    return collection(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId, COLLECTIONS.REVISIONES);
+  }
+  private static buildRevision(
+    event: TransactionEvent,
+    motivo: EventRevision['motivo']
+  ): Omit<EventRevision, 'id'> {
+    const datos: Record<string, any> = { ...event };
+    delete datos.id;
+    return sanitizeFirestoreData({
+      datos: datos as Omit<TransactionEvent, 'id'>,
+      motivo,
+      editadoPor: auth.currentUser?.uid,
+      creado: Timestamp.now()
+    });
+  }
+  // The event as an edit leaves it, with the sale total recalculated like updateEvent stores it
+  private static applyEventUpdate(event: TransactionEvent, updateData: UpdateTransactionEventData): TransactionEvent {
+    const updated = { ...event, ...updateData } as TransactionEvent;
+    if (updated.tipo !== 'venta') return updated;
+    return { ...updated, totalVenta: updated.cantidad * (updated.costoUnitario + updated.gananciaUnitaria) };
+  }
+  // Writes the event and its audit entry; a replay with the same documentId finds both in place and writes neither
+  private static async writeNewEvent(
+    empresaId: string,
+    eventData: Omit<TransactionEvent, 'id'>,
+    documentId?: string
+  ): Promise<DocumentReference> {
+    const eventsCollection = this.getEventsCollection(empresaId);
+    const auditRecord = (entidadId: string): AuditRecord => ({ entidad: 'evento', entidadId, operacion: 'crear', despues: eventData });
+    if (!documentId) {
+      const eventRef = await addDoc(eventsCollection, eventData);
+      await AuditService.record(empresaId, auditRecord(eventRef.id));
+      return eventRef;
+    }
+    const eventRef = doc(eventsCollection, documentId);
+    const auditEntry = AuditService.buildEntry(auditRecord(documentId));
+    const companions = auditEntry ? [{ ref: doc(getAuditLogRef(empresaId), documentId), data: auditEntry }] : [];
+    await createDocumentOnce(eventRef, eventData, companions);
+    return eventRef;
+  }
+  static async createSaleEvent(
+    empresaId: string, 
+    saleData: CreateSaleEventData,
+    documentId?: string // Client-generated id, replays with the same id never create a second event
+  ): Promise<{ success: boolean; eventId?: string; errors?: string[] }> {
+    try {
+      const offlineManager = require('./OfflineDataManager').default.getInstance();
+      if (!offlineManager.getConnectionStatus()) {
+        const queued = await offlineManager.addToSyncQueue({
+          type: 'create',
+          collection: 'events',
+          empresaId,
+          documentId,
+          data: saleData,
+        } as any);
+        return { success: true, eventId: queued.documentId };
+      }
+      const validation = validateSaleEvent(saleData);
+      if (!validation.isValid) {
+        return { success: false, errors: validation.errors };
+      }
+      const calculatedTotal = saleData.cantidad * (saleData.costoUnitario + saleData.gananciaUnitaria);
+      const eventData: Omit<SaleEvent, 'id'> = sanitizeFirestoreData({
+        ...saleData,
+        notas: saleData.notas?.trim() ?? '',
+        tipo: 'venta',
+        totalVenta: calculatedTotal,
+        creadoPor: auth.currentUser?.uid,
+        creado: Timestamp.now(),
+        borrado: false
+      });
+      const docRef = await this.writeNewEvent(empresaId, eventData, documentId);
+      // Keyed by the event so a replay after the event landed still moves stock, but only once
+      await moveSaleStock(empresaId, docRef.id, null, { id: docRef.id, ...eventData }, docRef.id);
+      await refreshClientDebt(empresaId, saleData.clienteId);
+      return { success: true, eventId: docRef.id };
+    } catch (error) {
+      console.error('Error creating sale event:', error);
+      return { 
+        success: false, 
+        errors: ['Error al crear el evento de venta. Intente nuevamente.'] 
+      };
+    }
+  }
+  static async createPaymentEvent(
+    empresaId: string, 
+    paymentData: CreatePaymentEventData,
+    documentId?: string // Client-generated id, replays with the same id never create a second event
+  ): Promise<{ success: boolean; eventId?: string; errors?: string[] }> {
+    try {
+      const offlineManager = require('./OfflineDataManager').default.getInstance();
+      if (!offlineManager.getConnectionStatus()) {
+        const queued = await offlineManager.addToSyncQueue({
+          type: 'create',
+          collection: 'events',
+          empresaId,
+          documentId,
+          data: paymentData,
+        } as any);
+        return { success: true, eventId: queued.documentId };
+      }
+      const validation = validatePaymentEvent(paymentData);
+      if (!validation.isValid) {
+        return { success: false, errors: validation.errors };
+      }
+      const eventData: Omit<PaymentEvent, 'id'> = sanitizeFirestoreData({
+        ...paymentData,
+        notas: paymentData.notas?.trim() ?? '',
+        tipo: 'pago',
+        creadoPor: auth.currentUser?.uid,
+        creado: Timestamp.now(),
+        borrado: false
+      });
+      const docRef = await this.writeNewEvent(empresaId, eventData, documentId);
+      await refreshClientDebt(empresaId, paymentData.clienteId);
+      return { success: true, eventId: docRef.id };
+    } catch (error) {
+      console.error('Error creating payment event:', error);
+      return { 
+        success: false, 
+        errors: ['Error al crear el evento de pago. Intente nuevamente.'] 
+      };
+    }
+  }
+  static async getClientEvents(
+    empresaId: string, 
+    clienteId: string
+  ): Promise<TransactionEvent[]> {
+    try {
+      const eventsCollection = this.getEventsCollection(empresaId);
+      const q = query(
+        eventsCollection,
+        where('clienteId', '==', clienteId),
+        where('borrado', '==', false),
+        orderBy('fecha', 'desc')
+      );
+      const querySnapshot = await getDocs(q);
+      const events: TransactionEvent[] = [];
+      querySnapshot.forEach((doc) => {
+        const data = doc.data();
+        events.push({
+          id: doc.id,
+          ...data
+        } as TransactionEvent);
+      });
+      return events;
+    } catch (error) {
+      console.error('Error getting client events:', error);
+      return [];
+    }
+  }
+  static buildEventQueryConstraints(filters: EventQueryFilters = {}): QueryConstraint[] {
+    const constraints: QueryConstraint[] = [];
+    if (!filters.incluirBorrados) {
+      constraints.push(where('borrado', '==', false));
+    }
+    if (filters.clienteId) {
+      constraints.push(where('clienteId', '==', filters.clienteId));
+    }
+    if (filters.productoId) {
+      constraints.push(where('tipo', '==', 'venta'));
+      constraints.push(where('productoId', '==', filters.productoId));
+    } else if (filters.producto) {
+      constraints.push(where('tipo', '==', 'venta'));
+      constraints.push(where('producto', '==', filters.producto));
+    } else if (filters.tipo) {
+      constraints.push(where('tipo', '==', filters.tipo));
+    }
+    if (filters.creadoPor) {
+      constraints.push(where('creadoPor', '==', filters.creadoPor));
+    }
+    if (filters.desde) {
+      constraints.push(where('fecha', '>=', Timestamp.fromDate(filters.desde)));
+    }
+    if (filters.hasta) {
+      constraints.push(where('fecha', '<=', Timestamp.fromDate(filters.hasta)));
+    }
+    constraints.push(orderBy('fecha', filters.orden ?? 'desc'));
+    if (filters.cursor) {
+      constraints.push(startAfter(filters.cursor));
+    }
+    if (filters.pageSize) {
+      constraints.push(limit(filters.pageSize));
+    }
+    return constraints;
+  }
+  static async queryEvents(
+    empresaId: string,
+    filters: EventQueryFilters = {}
+  ): Promise<EventQueryPage> {
+    try {
+      if ((filters.producto || filters.productoId) && filters.tipo === 'pago') {
+        return { events: [], cursor: null, hasMore: false };
+      }
+      const q = query(
+        this.getEventsCollection(empresaId),
+        ...this.buildEventQueryConstraints(filters)
+      );
+      const querySnapshot = await getDocs(q);
+      const events: TransactionEvent[] = [];
+      querySnapshot.forEach((doc) => {
+        events.push({
+          id: doc.id,
+          ...doc.data()
+        } as TransactionEvent);
+      });
+      const lastDoc = querySnapshot.docs[querySnapshot.docs.length - 1] ?? null;
+      return {
+        events,
+        cursor: lastDoc,
+        hasMore: !!filters.pageSize && querySnapshot.docs.length === filters.pageSize
+      };
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'failed-precondition') {
+        console.error('Company event query needs a Firestore index missing from firestore.indexes.json:', error);
+        return { events: [], cursor: null, hasMore: false, error: 'Falta un índice para esta combinación de filtros' };
+      }
+      console.error('Error querying company events:', error);
+      return { events: [], cursor: null, hasMore: false, error: 'Error al consultar los eventos. Intente nuevamente.' };
+    }
+  }
+  static async getEventsInRange(
+    empresaId: string,
+    desde: Date,
+    hasta: Date
+  ): Promise<TransactionEvent[]> {
+    const { events } = await this.queryEvents(empresaId, { desde, hasta });
+    return events;
+  }
+  static async getEventById(
+    empresaId: string, 
+    eventId: string
+  ): Promise<TransactionEvent | null> {
+    try {
+      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
+      const docSnap = await getDoc(eventDoc);
+      if (docSnap.exists()) {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          ...data
+        } as TransactionEvent;
+      }
+      return null;
+    } catch (error) {
+      console.error('Error getting event by ID:', error);
+      return null;
+    }
+  }
+  static async updateEvent(
+    empresaId: string,
+    eventId: string,
+    updateData: UpdateTransactionEventData,
+    options: { idempotencyKey?: string } = {}
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      const existingEvent = await this.getEventById(empresaId, eventId);
+      if (!existingEvent) {
+        return { success: false, errors: ['Evento no encontrado'] };
+      }
+      const revisionsCollection = this.getRevisionsCollection(empresaId, eventId);
+      const revisionRef = options.idempotencyKey
+        ? doc(revisionsCollection, options.idempotencyKey)
+        : doc(revisionsCollection);
+      const landedRevision = options.idempotencyKey ? await getDoc(revisionRef) : null;
+      if (landedRevision?.exists()) {
+        // The edit already landed; finish the stock movement and debt refresh an interrupted attempt may have missed
+        const antes = { id: eventId, ...(landedRevision.data() as EventRevision).datos } as TransactionEvent;
+        await moveSaleStock(empresaId, eventId, antes, this.applyEventUpdate(antes, updateData), options.idempotencyKey);
+        await refreshClientDebt(empresaId, existingEvent.clienteId);
+        return { success: true };
+      }
+      const updatedEvent = { ...existingEvent, ...updateData } as TransactionEvent;
+      const validation = validateTransactionEvent(updatedEvent as TransactionEvent);
+      if (!validation.isValid) {
+        return { success: false, errors: validation.errors };
+      }
+      let updateFields: UpdateTransactionEventData = { ...updateData };
+      if (updatedEvent.tipo === 'venta') {
+        const saleEvent = updatedEvent as SaleEvent;
+        const calculatedTotal = saleEvent.cantidad * (saleEvent.costoUnitario + saleEvent.gananciaUnitaria);
+        (updateFields as any).totalVenta = calculatedTotal;
+      }
+      const finalUpdateData = {
+        ...updateFields,
+        editado: Timestamp.now()
+      };
+      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
+      const batch = writeBatch(db);
+      batch.set(revisionRef, this.buildRevision(existingEvent, 'edicion'));
+      batch.update(eventDoc, finalUpdateData);
+      const auditEntry = AuditService.buildEntry({
+        entidad: 'evento',
+        entidadId: eventId,
+        operacion: 'editar',
+        antes: existingEvent,
+        despues: { ...existingEvent, ...finalUpdateData }
+      });
+      if (auditEntry) {
+        const auditCollection = getAuditLogRef(empresaId);
+        batch.set(options.idempotencyKey ? doc(auditCollection, options.idempotencyKey) : doc(auditCollection), auditEntry);
+      }
+      await batch.commit();
+      await moveSaleStock(
+        empresaId,
+        eventId,
+        existingEvent,
+        { ...existingEvent, ...finalUpdateData } as TransactionEvent,
+        options.idempotencyKey
+      );
+      await refreshClientDebt(empresaId, existingEvent.clienteId);
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating event:', error);
+      return { 
+        success: false, 
+        errors: ['Error al actualizar el evento. Intente nuevamente.'] 
+      };
+    }
+  }
+  static async getEventRevisions(
+    empresaId: string,
+    eventId: string
+  ): Promise<EventRevision[]> {
+    try {
+      const q = query(this.getRevisionsCollection(empresaId, eventId), orderBy('creado', 'desc'));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as EventRevision));
+    } catch (error) {
+      console.error('Error getting event revisions:', error);
+      return [];
+    }
+  }
+  static async revertEventToRevision(
+    empresaId: string,
+    eventId: string,
+    revision: EventRevision
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      const existingEvent = await this.getEventById(empresaId, eventId);
+      if (!existingEvent) {
+        return { success: false, errors: ['Evento no encontrado'] };
+      }
+      if (revision.datos.tipo !== existingEvent.tipo || revision.datos.clienteId !== existingEvent.clienteId) {
+        return { success: false, errors: ['La revisión no corresponde a este evento'] };
+      }
+      // Full overwrite so optional fields added after the revision are dropped too
+      const { borradoEl: _revisionBorradoEl, ...revisionData } = revision.datos;
+      const restored = sanitizeFirestoreData({
+        ...revisionData,
+        borrado: existingEvent.borrado,
+        borradoEl: existingEvent.borradoEl,
+        editado: Timestamp.now()
+      });
+      const validation = validateTransactionEvent({ id: eventId, ...restored } as TransactionEvent);
+      if (!validation.isValid) {
+        return { success: false, errors: validation.errors };
+      }
+      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
+      const batch = writeBatch(db);
+      batch.set(doc(this.getRevisionsCollection(empresaId, eventId)), this.buildRevision(existingEvent, 'reversion'));
+      batch.set(eventDoc, restored);
+      await batch.commit();
+      await AuditService.record(empresaId, {
+        entidad: 'evento',
+        entidadId: eventId,
+        operacion: 'editar',
+        antes: existingEvent,
+        despues: restored
+      });
+      await moveSaleStock(empresaId, eventId, existingEvent, { id: eventId, ...restored } as TransactionEvent);
+      await refreshClientDebt(empresaId, existingEvent.clienteId);
+      return { success: true };
+    } catch (error) {
+      console.error('Error reverting event:', error);
+      return {
+        success: false,
+        errors: ['Error al restaurar la versión del evento. Intente nuevamente.']
+      };
+    }
+  }
+  static async deleteEvent(
+    empresaId: string,
+    eventId: string
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      const existingEvent = await this.getEventById(empresaId, eventId);
+      if (existingEvent?.borrado) {
+        return { success: true }; // Already in the trash, keep the original deletion time
+      }
+      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
+      const now = Timestamp.now();
+      await updateDoc(eventDoc, {
+        borrado: true,
+        borradoEl: now,
+        editado: now
+      });
+      await AuditService.record(empresaId, {
+        entidad: 'evento',
+        entidadId: eventId,
+        operacion: 'borrar',
+        antes: { borrado: false },
+        despues: { borrado: true }
+      });
+      if (existingEvent) {
+        await moveSaleStock(empresaId, eventId, existingEvent, { ...existingEvent, borrado: true });
+        await refreshClientDebt(empresaId, existingEvent.clienteId);
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting event:', error);
+      return { 
+        success: false, 
+        errors: ['Error al eliminar el evento. Intente nuevamente.'] 
+      };
+    }
+  }
+  static async getDeletedEvents(empresaId: string): Promise<TransactionEvent[]> {
+    try {
+      const q = query(
+        this.getEventsCollection(empresaId),
+        where('borrado', '==', true),
+        orderBy('fecha', 'desc')
+      );
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as TransactionEvent));
+    } catch (error) {
+      console.error('Error getting deleted events:', error);
+      return [];
+    }
+  }
+  static async restoreEvent(
+    empresaId: string,
+    eventId: string
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      const existingEvent = await this.getEventById(empresaId, eventId);
+      if (!existingEvent) {
+        return { success: false, errors: ['Evento no encontrado'] };
+      }
+      if (!existingEvent.borrado) {
+        return { success: true };
+      }
+      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
+      await updateDoc(eventDoc, {
+        borrado: false,
+        borradoEl: deleteField(),
+        editado: Timestamp.now()
+      });
+      await AuditService.record(empresaId, {
+        entidad: 'evento',
+        entidadId: eventId,
+        operacion: 'editar',
+        antes: { borrado: true },
+        despues: { borrado: false }
+      });
+      await moveSaleStock(empresaId, eventId, existingEvent, { ...existingEvent, borrado: false });
+      await refreshClientDebt(empresaId, existingEvent.clienteId);
+      return { success: true };
+    } catch (error) {
+      console.error('Error restoring event:', error);
+      return {
+        success: false,
+        errors: ['Error al restaurar el evento. Intente nuevamente.']
+      };
+    }
+  }
+  static async purgeExpiredEvents(
+    empresaId: string,
+    retentionDays: number
+  ): Promise<{ success: boolean; purged: number; errors?: string[] }> {
+    const expired = getExpiredTrashEvents(await this.getDeletedEvents(empresaId), retentionDays);
+    const errors: string[] = [];
+    let purged = 0;
+    for (const event of expired) {
+      const result = await this.permanentlyDeleteEvent(empresaId, event.id);
+      if (result.success) {
+        purged++;
+      } else {
+        errors.push(...(result.errors ?? []));
+      }
+    }
+    return { success: errors.length === 0, purged, errors: errors.length > 0 ? errors : undefined };
+  }
+  static async permanentlyDeleteEvent(
+    empresaId: string,
+    eventId: string
+  ): Promise<{ success: boolean; errors?: string[] }> {
+    try {
+      const existingEvent = await this.getEventById(empresaId, eventId);
+      const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
+      const revisions = await getDocs(this.getRevisionsCollection(empresaId, eventId));
+      const batch = writeBatch(db); // Firestore keeps subcollections of deleted documents, so revisions go explicitly
+      revisions.docs.forEach(revision => batch.delete(revision.ref));
+      batch.delete(eventDoc);
+      await batch.commit();
+      await AuditService.record(empresaId, {
+        entidad: 'evento',
+        entidadId: eventId,
+        operacion: 'borrar',
+        antes: existingEvent
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error permanently deleting event:', error);
+      return { 
+        success: false, 
+        errors: ['Error al eliminar permanentemente el evento. Intente nuevamente.'] 
+      };
+    }
+  }
+  static createSaleEventData(
+    clienteId: string,
+    producto: string,
+    cantidad: number,
+    costoUnitario: number,
+    gananciaUnitaria: number,
+    fecha: Timestamp = Timestamp.now(),
+    productoColor?: string,
+    notas?: string
+  ): CreateSaleEventData {
+    return {
+      clienteId,
+      tipo: 'venta',
+      fecha,
+      producto,
+      productoColor,
+      cantidad,
+      costoUnitario,
+      gananciaUnitaria,
+      totalVenta: cantidad * (costoUnitario + gananciaUnitaria),
+      notas
+    };
+  }
+  static createPaymentEventData(
+    clienteId: string,
+    montoPago: number,
+    fecha: Timestamp = Timestamp.now(),
+    notas?: string
+  ): CreatePaymentEventData {
+    return {
+      clienteId,
+      tipo: 'pago',
+      fecha,
+      montoPago,
+      notas
+    };
+  }
+  static canEditEvent(event: TransactionEvent): { canEdit: boolean; reason?: string } {
+    if (event.borrado) {
+      return { canEdit: false, reason: 'No se puede editar un evento eliminado' };
+    }
+    const daysSinceCreation = (Timestamp.now().toMillis() - event.creado.toMillis()) / (1000 * 60 * 60 * 24);
+    if (daysSinceCreation > 30) {
+      return { canEdit: false, reason: 'No se pueden editar eventos de más de 30 días' };
+    }
+    return { canEdit: true };
+  }
+  static canDeleteEvent(event: TransactionEvent): { canDelete: boolean; reason?: string } {
+    if (event.borrado) {
+      return { canDelete: false, reason: 'El evento ya está eliminado' };
+    }
+    const daysSinceCreation = (Timestamp.now().toMillis() - event.creado.toMillis()) / (1000 * 60 * 60 * 24);
+    if (daysSinceCreation > 30) {
+      return { canDelete: false, reason: 'No se pueden eliminar eventos de más de 30 días' };
+    }
+    return { canDelete: true };
+  }
+  static subscribeToClientEvents(
+    empresaId: string,
+    clienteId: string,
+    callback: (events: TransactionEvent[]) => void
+  ): () => void {
+    const eventsCollection = this.getEventsCollection(empresaId);
+    const q = query(
+      eventsCollection,
+      where('clienteId', '==', clienteId),
+      where('borrado', '==', false),
+      orderBy('fecha', 'desc')
+    );
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      const events: TransactionEvent[] = [];
+      querySnapshot.forEach((doc) => {
+        const data = doc.data();
+        events.push({
+          id: doc.id,
+          ...data
+        } as TransactionEvent);
+      });
+      callback(events);
+    }, (error) => {
+      console.error('Error in transaction events subscription:', error);
+    });
+    return unsubscribe;
+  }
+  static subscribeToAllEvents(
+    empresaId: string,
+    callback: (events: TransactionEvent[]) => void
+  ): () => void {
+    const eventsCollection = this.getEventsCollection(empresaId);
+    const q = query(
+      eventsCollection,
+      where('borrado', '==', false),
+      orderBy('fecha', 'desc')
+    );
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      const events: TransactionEvent[] = [];
+      querySnapshot.forEach((doc) => {
+        const data = doc.data();
+        events.push({
+          id: doc.id,
+          ...data
+        } as TransactionEvent);
+      });
+      callback(events);
+    }, (error) => {
+      console.error('Error in all events subscription:', error);
+    });
+    return unsubscribe;
+  }
+  static subscribeToEvent(
+    empresaId: string,
+    eventId: string,
+    callback: (event: TransactionEvent | null) => void
+  ): () => void {
+    const eventDoc = doc(db, COLLECTIONS.EMPRESAS, empresaId, COLLECTIONS.EVENTOS, eventId);
+    const unsubscribe = onSnapshot(eventDoc, (docSnapshot) => {
+      if (docSnapshot.exists()) {
+        const data = docSnapshot.data();
+        const event: TransactionEvent = {
+          id: docSnapshot.id,
+          ...data
+        } as TransactionEvent;
+        callback(event);
+      } else {
+        callback(null);
+      }
+    }, (error) => {
+      console.error('Error in event subscription:', error);
+      callback(null);
+    });
+    return unsubscribe;
+  }
+}
\ No newline at end of file
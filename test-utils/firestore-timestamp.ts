@@ -0,0 +1,26 @@
+// Stand-in for the Firestore Timestamp class in schema tests, import mockFirestore and use
+// jest.mock('firebase/firestore', () => mockFirestore)
+export class MockTimestamp {
+  seconds: number;
+  nanoseconds: number;
+  constructor(seconds: number, nanoseconds: number) {
+    this.seconds = seconds;
+    this.nanoseconds = nanoseconds;
+  }
+  static fromMillis(ms: number) {
+    return new MockTimestamp(Math.floor(ms / 1000), (ms % 1000) * 1e6);
+  }
+  static fromDate(date: Date) {
+    return MockTimestamp.fromMillis(date.getTime());
+  }
+  static now() {
+    return MockTimestamp.fromMillis(Date.now());
+  }
+  toMillis() {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+  toDate() {
+    return new Date(this.toMillis());
+  }
+}
+export const mockFirestore = { Timestamp: MockTimestamp };